@@ -0,0 +1,4 @@
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "next_stage_id" integer REFERENCES "case_stages"("id") ON DELETE SET NULL;
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "outcome" text;
+
+CREATE INDEX IF NOT EXISTS "stage_options_next_stage_id_idx" ON "stage_options" ("next_stage_id");
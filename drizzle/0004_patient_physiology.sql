@@ -0,0 +1,4 @@
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "baseline_vitals" jsonb;
+
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "vital_effects" jsonb;
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "duration_minutes" integer DEFAULT 5 NOT NULL;
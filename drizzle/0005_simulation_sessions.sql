@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "simulation_sessions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "case_id" integer NOT NULL REFERENCES "cases"("id") ON DELETE CASCADE,
+  "status" text DEFAULT 'in_progress' NOT NULL,
+  "current_stage_id" integer REFERENCES "case_stages"("id") ON DELETE SET NULL,
+  "score" integer DEFAULT 0 NOT NULL,
+  "elapsed_minutes" integer DEFAULT 0 NOT NULL,
+  "outcome" text,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  "completed_at" timestamp
+);
+
+CREATE TABLE IF NOT EXISTS "session_decisions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "simulation_sessions"("id") ON DELETE CASCADE,
+  "stage_id" integer NOT NULL REFERENCES "case_stages"("id") ON DELETE CASCADE,
+  "option_id" integer NOT NULL REFERENCES "stage_options"("id") ON DELETE CASCADE,
+  "score_weight" integer NOT NULL,
+  "decided_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "student_attempts" ADD COLUMN IF NOT EXISTS "session_id" integer REFERENCES "simulation_sessions"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "simulation_sessions_user_case_idx" ON "simulation_sessions" ("user_id", "case_id");
+CREATE INDEX IF NOT EXISTS "simulation_sessions_status_idx" ON "simulation_sessions" ("status");
+CREATE INDEX IF NOT EXISTS "session_decisions_session_idx" ON "session_decisions" ("session_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "session_decisions_session_stage_uq" ON "session_decisions" ("session_id", "stage_id");
+CREATE INDEX IF NOT EXISTS "session_decisions_option_idx" ON "session_decisions" ("option_id");
+CREATE INDEX IF NOT EXISTS "student_attempts_session_id_idx" ON "student_attempts" ("session_id");
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "stage_investigations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "stage_id" integer NOT NULL REFERENCES "case_stages"("id") ON DELETE CASCADE,
+  "investigation" text NOT NULL,
+  "result" text NOT NULL,
+  "is_indicated" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "session_investigations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "simulation_sessions"("id") ON DELETE CASCADE,
+  "stage_id" integer NOT NULL REFERENCES "case_stages"("id") ON DELETE CASCADE,
+  "investigation" text NOT NULL,
+  "result" text NOT NULL,
+  "is_indicated" boolean NOT NULL,
+  "score_delta" integer DEFAULT 0 NOT NULL,
+  "ordered_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "stage_investigations_stage_investigation_uq" ON "stage_investigations" ("stage_id", "investigation");
+CREATE UNIQUE INDEX IF NOT EXISTS "session_investigations_session_stage_investigation_uq" ON "session_investigations" ("session_id", "stage_id", "investigation");
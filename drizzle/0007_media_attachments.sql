@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS "media_assets" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "storage_key" text NOT NULL,
+  "original_name" text NOT NULL,
+  "content_type" text NOT NULL,
+  "size_bytes" integer NOT NULL,
+  "uploaded_by_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "stage_media" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "stage_id" integer NOT NULL REFERENCES "case_stages"("id") ON DELETE CASCADE,
+  "media_asset_id" integer NOT NULL REFERENCES "media_assets"("id") ON DELETE CASCADE,
+  "caption" text DEFAULT '' NOT NULL,
+  "display_order" integer DEFAULT 1 NOT NULL,
+  "reveal_on_request" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "ukmla_question_media" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "question_id" integer NOT NULL REFERENCES "ukmla_questions"("id") ON DELETE CASCADE,
+  "media_asset_id" integer NOT NULL REFERENCES "media_assets"("id") ON DELETE CASCADE,
+  "caption" text DEFAULT '' NOT NULL,
+  "display_order" integer DEFAULT 1 NOT NULL,
+  "reveal_on_request" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "media_assets_storage_key_uq" ON "media_assets" ("storage_key");
+CREATE INDEX IF NOT EXISTS "stage_media_stage_idx" ON "stage_media" ("stage_id");
+CREATE INDEX IF NOT EXISTS "ukmla_question_media_question_idx" ON "ukmla_question_media" ("question_id");
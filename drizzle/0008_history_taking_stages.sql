@@ -0,0 +1,14 @@
+ALTER TABLE "case_stages" ADD COLUMN IF NOT EXISTS "stage_type" text DEFAULT 'decision' NOT NULL;
+ALTER TABLE "case_stages" ADD COLUMN IF NOT EXISTS "patient_script" jsonb;
+
+CREATE TABLE IF NOT EXISTS "session_history_messages" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "simulation_sessions"("id") ON DELETE CASCADE,
+  "stage_id" integer NOT NULL REFERENCES "case_stages"("id") ON DELETE CASCADE,
+  "role" text NOT NULL,
+  "content" text NOT NULL,
+  "elicited_fact_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "session_history_messages_session_stage_idx" ON "session_history_messages" ("session_id", "stage_id");
@@ -0,0 +1 @@
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "patient_demographics" jsonb;
@@ -0,0 +1,4 @@
+ALTER TABLE "case_stages" ADD COLUMN IF NOT EXISTS "decision_type" text DEFAULT 'single' NOT NULL;
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "correct_position" integer;
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "accepted_answers" jsonb DEFAULT '[]'::jsonb NOT NULL;
+ALTER TABLE "session_decisions" ADD COLUMN IF NOT EXISTS "response" jsonb;
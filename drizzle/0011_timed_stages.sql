@@ -0,0 +1,6 @@
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "stage_time_limit_seconds" integer;
+ALTER TABLE "case_stages" ADD COLUMN IF NOT EXISTS "time_limit_seconds" integer;
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "is_timeout" boolean DEFAULT false NOT NULL;
+ALTER TABLE "simulation_sessions" ADD COLUMN IF NOT EXISTS "stage_started_at" timestamp DEFAULT now() NOT NULL;
+ALTER TABLE "session_decisions" ADD COLUMN IF NOT EXISTS "decision_seconds" integer;
+ALTER TABLE "session_decisions" ADD COLUMN IF NOT EXISTS "timed_out" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,14 @@
+ALTER TABLE "case_stages" ADD COLUMN IF NOT EXISTS "hints" jsonb DEFAULT '[]'::jsonb NOT NULL;
+ALTER TABLE "student_attempts" ADD COLUMN IF NOT EXISTS "hints_used" integer DEFAULT 0 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "session_hints" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "session_id" integer NOT NULL REFERENCES "simulation_sessions"("id") ON DELETE CASCADE,
+  "stage_id" integer NOT NULL REFERENCES "case_stages"("id") ON DELETE CASCADE,
+  "tier" integer NOT NULL,
+  "text" text NOT NULL,
+  "score_delta" integer DEFAULT 0 NOT NULL,
+  "revealed_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "session_hints_session_stage_tier_uq" ON "session_hints" ("session_id", "stage_id", "tier");
@@ -0,0 +1,2 @@
+ALTER TABLE "session_decisions" ADD COLUMN IF NOT EXISTS "confidence" integer;
+ALTER TABLE "ukmla_attempts" ADD COLUMN IF NOT EXISTS "confidence" integer;
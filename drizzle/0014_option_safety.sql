@@ -0,0 +1,4 @@
+ALTER TABLE "stage_options" ADD COLUMN IF NOT EXISTS "safety_class" text;
+ALTER TABLE "session_decisions" ADD COLUMN IF NOT EXISTS "safety_class" text;
+
+CREATE INDEX IF NOT EXISTS "session_decisions_safety_class_idx" ON "session_decisions" ("safety_class");
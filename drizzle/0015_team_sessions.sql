@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS "team_sessions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "case_id" integer NOT NULL REFERENCES "cases"("id") ON DELETE CASCADE,
+  "lead_user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "join_code" text NOT NULL,
+  "status" text DEFAULT 'lobby' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "team_sessions_join_code_uq" ON "team_sessions" ("join_code");
+
+CREATE TABLE IF NOT EXISTS "team_session_members" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "team_session_id" integer NOT NULL REFERENCES "team_sessions"("id") ON DELETE CASCADE,
+  "user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "role" text NOT NULL,
+  "joined_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "team_session_members_team_user_uq" ON "team_session_members" ("team_session_id", "user_id");
+CREATE INDEX IF NOT EXISTS "team_session_members_user_idx" ON "team_session_members" ("user_id");
+
+CREATE TABLE IF NOT EXISTS "team_session_messages" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "team_session_id" integer NOT NULL REFERENCES "team_sessions"("id") ON DELETE CASCADE,
+  "user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "content" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "team_session_messages_team_session_idx" ON "team_session_messages" ("team_session_id");
+
+ALTER TABLE "simulation_sessions" ADD COLUMN IF NOT EXISTS "team_session_id" integer REFERENCES "team_sessions"("id") ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS "simulation_sessions_team_session_idx" ON "simulation_sessions" ("team_session_id");
+
+ALTER TABLE "student_attempts" ADD COLUMN IF NOT EXISTS "team_role" text;
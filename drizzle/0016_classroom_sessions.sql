@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS "classroom_sessions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "case_id" integer NOT NULL REFERENCES "cases"("id") ON DELETE CASCADE,
+  "host_user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "join_code" text NOT NULL,
+  "phase" text DEFAULT 'lobby' NOT NULL,
+  "current_stage_id" integer REFERENCES "case_stages"("id") ON DELETE SET NULL,
+  "class_path_option_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "outcome" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  "ended_at" timestamp
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "classroom_sessions_join_code_uq" ON "classroom_sessions" ("join_code");
+
+CREATE TABLE IF NOT EXISTS "classroom_participants" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "classroom_session_id" integer NOT NULL REFERENCES "classroom_sessions"("id") ON DELETE CASCADE,
+  "user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "joined_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "classroom_participants_classroom_user_uq" ON "classroom_participants" ("classroom_session_id", "user_id");
+
+CREATE TABLE IF NOT EXISTS "classroom_votes" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "classroom_session_id" integer NOT NULL REFERENCES "classroom_sessions"("id") ON DELETE CASCADE,
+  "stage_id" integer NOT NULL REFERENCES "case_stages"("id") ON DELETE CASCADE,
+  "user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "option_id" integer NOT NULL REFERENCES "stage_options"("id") ON DELETE CASCADE,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "classroom_votes_classroom_stage_user_uq" ON "classroom_votes" ("classroom_session_id", "stage_id", "user_id");
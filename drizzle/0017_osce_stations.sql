@@ -0,0 +1,57 @@
+CREATE TABLE IF NOT EXISTS "osce_stations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "created_by_user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "title" text NOT NULL,
+  "clinical_domain" text NOT NULL,
+  "candidate_brief" text NOT NULL,
+  "examiner_notes" text,
+  "duration_seconds" integer DEFAULT 480 NOT NULL,
+  "is_published" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "osce_stations_published_idx" ON "osce_stations" ("is_published");
+
+CREATE TABLE IF NOT EXISTS "osce_checklist_items" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "station_id" integer NOT NULL REFERENCES "osce_stations"("id") ON DELETE CASCADE,
+  "description" text NOT NULL,
+  "marks" integer DEFAULT 1 NOT NULL,
+  "item_order" integer NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "osce_checklist_items_station_idx" ON "osce_checklist_items" ("station_id");
+
+CREATE TABLE IF NOT EXISTS "osce_sessions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "station_id" integer NOT NULL REFERENCES "osce_stations"("id") ON DELETE CASCADE,
+  "candidate_user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "examiner_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "join_code" text NOT NULL,
+  "status" text DEFAULT 'waiting' NOT NULL,
+  "started_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  "completed_at" timestamp
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "osce_sessions_join_code_uq" ON "osce_sessions" ("join_code");
+CREATE INDEX IF NOT EXISTS "osce_sessions_candidate_idx" ON "osce_sessions" ("candidate_user_id");
+
+CREATE TABLE IF NOT EXISTS "osce_attempts" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "station_id" integer NOT NULL REFERENCES "osce_stations"("id") ON DELETE CASCADE,
+  "osce_session_id" integer REFERENCES "osce_sessions"("id") ON DELETE SET NULL,
+  "examiner_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "score" integer DEFAULT 0 NOT NULL,
+  "max_score" integer DEFAULT 0 NOT NULL,
+  "global_rating" text NOT NULL,
+  "checklist" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "examiner_comments" text,
+  "completed_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "osce_attempts_user_id_idx" ON "osce_attempts" ("user_id");
+CREATE INDEX IF NOT EXISTS "osce_attempts_station_id_idx" ON "osce_attempts" ("station_id");
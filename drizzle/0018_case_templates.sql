@@ -0,0 +1,5 @@
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "template_variables" jsonb;
+
+ALTER TABLE "simulation_sessions" ADD COLUMN IF NOT EXISTS "variant_seed" integer;
+
+ALTER TABLE "student_attempts" ADD COLUMN IF NOT EXISTS "variant_seed" integer;
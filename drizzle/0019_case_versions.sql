@@ -0,0 +1,82 @@
+CREATE TABLE IF NOT EXISTS "case_versions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "case_id" integer NOT NULL REFERENCES "cases"("id") ON DELETE CASCADE,
+  "version_number" integer NOT NULL,
+  "baseline_vitals" jsonb,
+  "patient_demographics" jsonb,
+  "stage_time_limit_seconds" integer,
+  "template_variables" jsonb,
+  "published_by_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "published_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "case_versions_case_version_uq" ON "case_versions" ("case_id", "version_number");
+
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "published_version_id" integer REFERENCES "case_versions"("id") ON DELETE SET NULL;
+
+ALTER TABLE "case_stages" ADD COLUMN IF NOT EXISTS "case_version_id" integer REFERENCES "case_versions"("id") ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS "case_stages_case_version_idx" ON "case_stages" ("case_id", "case_version_id");
+
+ALTER TABLE "simulation_sessions" ADD COLUMN IF NOT EXISTS "case_version_id" integer REFERENCES "case_versions"("id") ON DELETE SET NULL;
+ALTER TABLE "student_attempts" ADD COLUMN IF NOT EXISTS "case_version_id" integer REFERENCES "case_versions"("id") ON DELETE SET NULL;
+ALTER TABLE "classroom_sessions" ADD COLUMN IF NOT EXISTS "case_version_id" integer REFERENCES "case_versions"("id") ON DELETE SET NULL;
+
+-- Every published case becomes version 1. Its existing stage rows, which past
+-- attempts already point at, are frozen as that version.
+INSERT INTO "case_versions" ("case_id", "version_number", "baseline_vitals", "patient_demographics", "stage_time_limit_seconds", "template_variables", "published_at")
+SELECT "id", 1, "baseline_vitals", "patient_demographics", "stage_time_limit_seconds", "template_variables", "updated_at"
+FROM "cases"
+WHERE "is_published" = true
+  AND NOT EXISTS (SELECT 1 FROM "case_versions" WHERE "case_versions"."case_id" = "cases"."id");
+
+UPDATE "cases" SET "published_version_id" = "case_versions"."id"
+FROM "case_versions"
+WHERE "case_versions"."case_id" = "cases"."id" AND "case_versions"."version_number" = 1 AND "cases"."published_version_id" IS NULL;
+
+UPDATE "case_stages" SET "case_version_id" = "cases"."published_version_id"
+FROM "cases"
+WHERE "cases"."id" = "case_stages"."case_id" AND "cases"."published_version_id" IS NOT NULL AND "case_stages"."case_version_id" IS NULL;
+
+UPDATE "simulation_sessions" SET "case_version_id" = "cases"."published_version_id"
+FROM "cases"
+WHERE "cases"."id" = "simulation_sessions"."case_id" AND "simulation_sessions"."case_version_id" IS NULL;
+
+UPDATE "student_attempts" SET "case_version_id" = "cases"."published_version_id"
+FROM "cases"
+WHERE "cases"."id" = "student_attempts"."case_id" AND "student_attempts"."case_version_id" IS NULL;
+
+UPDATE "classroom_sessions" SET "case_version_id" = "cases"."published_version_id"
+FROM "cases"
+WHERE "cases"."id" = "classroom_sessions"."case_id" AND "classroom_sessions"."case_version_id" IS NULL;
+
+-- A copy of each frozen version becomes the draft admins edit from now on,
+-- with branches pointed at the copied stages
+ALTER TABLE "case_stages" ADD COLUMN "copied_from_stage_id" integer;
+
+INSERT INTO "case_stages" ("case_id", "stage_order", "narrative", "clinical_data", "media_url", "stage_type", "patient_script", "decision_type", "time_limit_seconds", "hints", "created_at", "copied_from_stage_id")
+SELECT "case_stages"."case_id", "stage_order", "narrative", "clinical_data", "media_url", "stage_type", "patient_script", "decision_type", "time_limit_seconds", "hints", "case_stages"."created_at", "case_stages"."id"
+FROM "case_stages"
+JOIN "cases" ON "cases"."id" = "case_stages"."case_id"
+WHERE "case_stages"."case_version_id" = "cases"."published_version_id"
+ORDER BY "case_stages"."id";
+
+INSERT INTO "stage_options" ("stage_id", "text", "is_correct", "score_weight", "feedback", "next_stage_id", "outcome", "vital_effects", "duration_minutes", "correct_position", "accepted_answers", "is_timeout", "safety_class", "created_at")
+SELECT "draft"."id", "o"."text", "o"."is_correct", "o"."score_weight", "o"."feedback", "next_draft"."id", "o"."outcome", "o"."vital_effects", "o"."duration_minutes", "o"."correct_position", "o"."accepted_answers", "o"."is_timeout", "o"."safety_class", "o"."created_at"
+FROM "stage_options" "o"
+JOIN "case_stages" "draft" ON "draft"."copied_from_stage_id" = "o"."stage_id"
+LEFT JOIN "case_stages" "next_draft" ON "next_draft"."copied_from_stage_id" = "o"."next_stage_id"
+ORDER BY "o"."id";
+
+INSERT INTO "stage_investigations" ("stage_id", "investigation", "result", "is_indicated", "created_at")
+SELECT "draft"."id", "i"."investigation", "i"."result", "i"."is_indicated", "i"."created_at"
+FROM "stage_investigations" "i"
+JOIN "case_stages" "draft" ON "draft"."copied_from_stage_id" = "i"."stage_id"
+ORDER BY "i"."id";
+
+INSERT INTO "stage_media" ("stage_id", "media_asset_id", "caption", "display_order", "reveal_on_request", "created_at")
+SELECT "draft"."id", "m"."media_asset_id", "m"."caption", "m"."display_order", "m"."reveal_on_request", "m"."created_at"
+FROM "stage_media" "m"
+JOIN "case_stages" "draft" ON "draft"."copied_from_stage_id" = "m"."stage_id"
+ORDER BY "m"."id";
+
+ALTER TABLE "case_stages" DROP COLUMN "copied_from_stage_id";
@@ -0,0 +1,2 @@
+ALTER TABLE "cases" ADD COLUMN IF NOT EXISTS "bundle_key" text;
+CREATE UNIQUE INDEX IF NOT EXISTS "cases_bundle_key_uq" ON "cases" ("bundle_key");
@@ -0,0 +1,60 @@
+CREATE TABLE IF NOT EXISTS "review_assignments" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "content_type" text NOT NULL,
+  "content_id" integer NOT NULL,
+  "reviewer_user_id" text NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "assigned_by_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "review_assignments_content_reviewer_uq" ON "review_assignments" ("content_type", "content_id", "reviewer_user_id");
+CREATE INDEX IF NOT EXISTS "review_assignments_reviewer_idx" ON "review_assignments" ("reviewer_user_id");
+
+CREATE TABLE IF NOT EXISTS "review_comments" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "content_type" text NOT NULL,
+  "content_id" integer NOT NULL,
+  "anchor" text DEFAULT 'general' NOT NULL,
+  "stage_order" integer,
+  "option_number" integer,
+  "body" text NOT NULL,
+  "author_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "resolved_by_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "resolved_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "review_comments_content_idx" ON "review_comments" ("content_type", "content_id");
+
+CREATE TABLE IF NOT EXISTS "review_events" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "content_type" text NOT NULL,
+  "content_id" integer NOT NULL,
+  "action" text NOT NULL,
+  "from_status" text NOT NULL,
+  "to_status" text NOT NULL,
+  "actor_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "reviewer_user_id" text REFERENCES "users"("id") ON DELETE SET NULL,
+  "note" text,
+  "content_hash" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "review_events_content_idx" ON "review_events" ("content_type", "content_id", "created_at");
+
+-- The free-text statuses become review states. Nothing recorded what a
+-- 'verified' item was verified as, so it goes back into review to be approved
+-- under the workflow; 'rejected' items are waiting on changes.
+UPDATE "cases" SET "verification_status" = CASE "verification_status"
+  WHEN 'verified' THEN 'in_review'
+  WHEN 'rejected' THEN 'changes_requested'
+  ELSE 'draft'
+END
+WHERE "verification_status" NOT IN ('draft', 'in_review', 'changes_requested', 'approved');
+
+UPDATE "ukmla_questions" SET "verification_status" = CASE "verification_status"
+  WHEN 'verified' THEN 'in_review'
+  WHEN 'rejected' THEN 'changes_requested'
+  ELSE 'draft'
+END
+WHERE "verification_status" NOT IN ('draft', 'in_review', 'changes_requested', 'approved');
@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Stage and question images are uploaded through a server action
+      bodySizeLimit: "10mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -1,11 +1,16 @@
 'use server';
 
 import { db } from '@/db';
-import { cases, caseStages, stageOptions, users } from '@/db/schema';
-import { eq, desc, asc, and, count, gte, lte, SQL } from 'drizzle-orm';
+import { cases, caseStages, caseVersions, stageOptions, simulationSessions, studentAttempts, sessionDecisions, stageInvestigations, stageMedia, users, caseOutcomes, investigationTypes, stageTypes, decisionTypes, safetyClasses, type CaseTemplateVariable, type PatientScript } from '@/db/schema';
+import { eq, desc, asc, and, count, gte, lte, inArray, isNotNull, isNull, SQL } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
 import { requireAdmin, getCurrentUserId } from '@/lib/admin';
+import { diffCaseContent, type CaseContentChange } from '@/lib/case-content';
+import { isDraftStage, loadCaseContent, publishCaseVersion } from '@/lib/case-versions';
+import { getPublishBlocker } from '@/lib/editorial-review-store';
+import { getChosenOptionIds, isCriticalError, summariseSafety } from '@/lib/patient-safety';
+import { caseTemplateVariablesSchema, labPanelsSchema, patientDemographicsSchema, patientScriptSchema, stageHintsSchema, vitalEffectsSchema } from '@/schemas/case-simulator';
 
 // Schemas
 const createCaseSchema = z.object({
@@ -29,14 +34,58 @@ const createStageSchema = z.object({
     }),
 });
 
+// Structured lab results inside the clinicalData JSON; null when absent or valid
+function labPanelsError(clinicalData: Record<string, unknown>): string | null {
+    if (clinicalData.labPanels === undefined) return null;
+    const panels = labPanelsSchema.safeParse(clinicalData.labPanels);
+    return panels.success ? null : `Lab results: ${panels.error.issues[0].message}`;
+}
+
+// Timed emergency mode: seconds a student has to decide at a stage
+const timeLimitSchema = z.number().int()
+    .min(10, 'Time limits must be at least 10 seconds')
+    .max(3600, 'Time limits can be at most an hour')
+    .nullable()
+    .optional();
+
 const createOptionSchema = z.object({
     stageId: z.coerce.number(),
     text: z.string().min(1, 'Text is required'),
     isCorrect: z.boolean(),
     scoreWeight: z.coerce.number(),
     feedback: z.string().min(1, 'Feedback is required'),
+    nextStageId: z.number().int().nullable().optional(),
+    outcome: z.enum(caseOutcomes).nullable().optional(),
+    vitalEffects: vitalEffectsSchema.nullable().optional(),
+    durationMinutes: z.number().int().min(0).max(1440).optional(),
+    correctPosition: z.number().int().min(1, 'Position starts at 1').nullable().optional(),
+    acceptedAnswers: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+    isTimeout: z.boolean().optional(),
+    safetyClass: z.enum(safetyClasses).nullable().optional(),
+}).refine((data) => !(data.nextStageId && data.outcome), {
+    message: 'An option can lead to a next stage or an outcome, not both',
+}).refine((data) => !(data.isTimeout && data.isCorrect), {
+    message: 'The no-decision option cannot be marked correct',
 });
 
+/**
+ * Branch targets must be another stage of the same case's draft
+ */
+async function isValidBranchTarget(stageId: number, nextStageId: number | null | undefined) {
+    if (!nextStageId) return true;
+    if (nextStageId === stageId) return false;
+
+    const [source, target] = await Promise.all([
+        db.query.caseStages.findFirst({ where: eq(caseStages.id, stageId), columns: { caseId: true, caseVersionId: true } }),
+        db.query.caseStages.findFirst({ where: eq(caseStages.id, nextStageId), columns: { caseId: true, caseVersionId: true } }),
+    ]);
+
+    return Boolean(source && target && source.caseId === target.caseId && target.caseVersionId === null);
+}
+
+// Published versions are immutable; only the draft's stages and options can change
+const FROZEN_STAGE_MESSAGE = 'Published versions cannot be edited. Edit the draft and publish again.';
+
 
 export async function getAllCases() {
     await requireAdmin();
@@ -45,9 +94,15 @@ export async function getAllCases() {
         orderBy: [desc(cases.createdAt)],
         with: {
             stages: {
+                where: isNull(caseStages.caseVersionId),
                 orderBy: [asc(caseStages.stageOrder)],
                 with: {
-                    options: true
+                    options: true,
+                    investigations: true,
+                    media: {
+                        orderBy: [asc(stageMedia.displayOrder), asc(stageMedia.id)],
+                        with: { asset: { columns: { storageKey: true } } },
+                    },
                 }
             },
             user: true
@@ -55,6 +110,74 @@ export async function getAllCases() {
     });
 }
 
+/**
+ * Cases ranked by the harmful choices and never-events students make in them,
+ * with the critical option chosen most often
+ */
+export async function getCriticalErrorReport() {
+    await requireAdmin();
+
+    const rows = await db
+        .select({
+            caseId: cases.id,
+            title: cases.title,
+            clinicalDomain: cases.clinicalDomain,
+            safetyClass: sessionDecisions.safetyClass,
+            decisionType: caseStages.decisionType,
+            optionId: sessionDecisions.optionId,
+            response: sessionDecisions.response,
+            timedOut: sessionDecisions.timedOut,
+        })
+        .from(sessionDecisions)
+        .innerJoin(simulationSessions, eq(sessionDecisions.sessionId, simulationSessions.id))
+        .innerJoin(cases, eq(simulationSessions.caseId, cases.id))
+        .innerJoin(caseStages, eq(sessionDecisions.stageId, caseStages.id))
+        .where(isNotNull(sessionDecisions.safetyClass));
+
+    // Multi-select and ordering decisions only link their lead option, so every option chosen is looked up
+    const chosenIds = new Map(rows.map((row) => [row, getChosenOptionIds(row.decisionType, row)]));
+    const allChosenIds = [...new Set(Array.from(chosenIds.values()).flat())];
+    const criticalOptions = allChosenIds.length === 0 ? [] : await db
+        .select({ id: stageOptions.id, text: stageOptions.text, safetyClass: stageOptions.safetyClass })
+        .from(stageOptions)
+        .where(inArray(stageOptions.id, allChosenIds));
+    const criticalText = new Map(criticalOptions
+        .filter((option) => isCriticalError(option.safetyClass))
+        .map((option) => [option.id, option.text]));
+
+    const byCase = new Map<number, typeof rows>();
+    for (const row of rows) {
+        byCase.set(row.caseId, [...(byCase.get(row.caseId) ?? []), row]);
+    }
+
+    return Array.from(byCase.values())
+        .map((caseRows) => {
+            const summary = summariseSafety(caseRows);
+            const optionCounts = new Map<string, number>();
+            for (const row of caseRows) {
+                for (const optionId of chosenIds.get(row) ?? []) {
+                    const text = criticalText.get(optionId);
+                    if (text !== undefined) optionCounts.set(text, (optionCounts.get(text) ?? 0) + 1);
+                }
+            }
+            const [topOption] = Array.from(optionCounts.entries()).sort((a, b) => b[1] - a[1]);
+
+            return {
+                caseId: caseRows[0].caseId,
+                title: caseRows[0].title,
+                clinicalDomain: caseRows[0].clinicalDomain,
+                decisions: summary.decisions,
+                harmful: summary.counts.harmful,
+                neverEvents: summary.counts.never_event,
+                criticalErrors: summary.criticalErrors,
+                criticalRate: Math.round((summary.criticalErrors / summary.decisions) * 100),
+                topCriticalOption: topOption ? { text: topOption[0], count: topOption[1] } : null,
+            };
+        })
+        .filter((row) => row.criticalErrors > 0)
+        .sort((a, b) => b.neverEvents - a.neverEvents || b.criticalErrors - a.criticalErrors);
+}
+
 const getAdminCasesSchema = z.object({
     page: z.number().int().min(1).default(1),
     pageSize: z.number().int().min(1).max(100).default(25),
@@ -122,13 +245,23 @@ export async function getAdminCases(input?: z.infer<typeof getAdminCasesSchema>)
             limit: pageSize,
             offset,
             with: {
+                // Admins edit the draft; published versions are listed on the history page
                 stages: {
+                    where: isNull(caseStages.caseVersionId),
                     orderBy: [asc(caseStages.stageOrder)],
                     with: {
                         options: true,
+                        investigations: true,
+                        media: {
+                            orderBy: [asc(stageMedia.displayOrder), asc(stageMedia.id)],
+                            with: { asset: { columns: { storageKey: true } } },
+                        },
                     },
                 },
                 user: true,
+                versions: {
+                    columns: { id: true, versionNumber: true },
+                },
             },
         }),
         db.selectDistinct({
@@ -200,6 +333,11 @@ export async function createStage(data: z.infer<typeof createStageSchema>) {
         return { success: false, message: parsed.error.issues[0].message };
     }
 
+    const labError = labPanelsError(parsed.data.clinicalData);
+    if (labError) {
+        return { success: false, message: labError };
+    }
+
     try {
         const result = await db.insert(caseStages).values({
             caseId: parsed.data.caseId,
@@ -229,6 +367,14 @@ export async function createOption(data: z.infer<typeof createOptionSchema>) {
     }
 
     try {
+        if (!(await isDraftStage(parsed.data.stageId))) {
+            return { success: false, message: FROZEN_STAGE_MESSAGE };
+        }
+
+        if (!(await isValidBranchTarget(parsed.data.stageId, parsed.data.nextStageId))) {
+            return { success: false, message: 'Next stage must be a different stage in the same case' };
+        }
+
         await db.insert(stageOptions).values(parsed.data);
         revalidatePath('/admin');
         return { success: true, message: 'Option added' };
@@ -260,68 +406,41 @@ export async function togglePublish(caseId: number, isPublished: boolean) {
         return { success: false, message: 'Unauthorized' };
     }
 
-    try {
-        // If publishing, validate that case is complete
-        if (isPublished) {
-            const caseWithStages = await db.query.cases.findFirst({
-                where: eq(cases.id, caseId),
-                with: {
-                    stages: {
-                        with: {
-                            options: true
-                        }
-                    }
-                }
-            });
-
-            if (!caseWithStages) {
-                return { success: false, message: 'Case not found' };
-            }
-
-            // Validation: Must have at least one stage
-            if (caseWithStages.stages.length === 0) {
-                return {
-                    success: false,
-                    message: '❌ Cannot publish: Case must have at least one stage'
-                };
-            }
-
-            // Validation: Each stage must have at least one option
-            const stagesWithoutOptions = caseWithStages.stages.filter(
-                stage => stage.options.length === 0
-            );
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
 
-            if (stagesWithoutOptions.length > 0) {
-                return {
-                    success: false,
-                    message: `❌ Cannot publish: Stage ${stagesWithoutOptions[0].stageOrder} has no options. All stages must have at least one option.`
-                };
-            }
+    try {
+        if (!isPublished) {
+            await db.update(cases)
+                .set({ isPublished, updatedAt: new Date() })
+                .where(eq(cases.id, caseId));
+
+            revalidatePath('/admin');
+            revalidatePath('/cases');
+            return { success: true, message: '✅ Case unpublished' };
+        }
 
-            // Additional validation: At least one option must be marked as correct
-            const stagesWithoutCorrectOption = caseWithStages.stages.filter(
-                stage => !stage.options.some(opt => opt.isCorrect)
-            );
-
-            if (stagesWithoutCorrectOption.length > 0) {
-                return {
-                    success: false,
-                    message: `⚠️  Warning: Stage ${stagesWithoutCorrectOption[0].stageOrder} has no correct option. Consider marking at least one option as correct.`,
-                    warning: true // Still allow publishing but warn admin
-                };
-            }
+        // Only structurally sound content approved in editorial review, unchanged since, goes live
+        const blocker = await getPublishBlocker({ contentType: 'case', contentId: caseId });
+        if (blocker) {
+            return { success: false, message: `❌ ${blocker}.` };
         }
 
-        // Validation passed or unpublishing - proceed with update
-        await db.update(cases)
-            .set({ isPublished, updatedAt: new Date() })
-            .where(eq(cases.id, caseId));
+        // Validation passed - freeze the draft as the version students play
+        const version = await publishCaseVersion(caseId, userId);
+        if (!version) {
+            return { success: false, message: 'This case is already being published' };
+        }
 
         revalidatePath('/admin');
         revalidatePath('/cases');
         return {
             success: true,
-            message: `✅ Case ${isPublished ? 'published successfully!' : 'unpublished'}`
+            message: version.created
+                ? `✅ Case published as version ${version.versionNumber}`
+                : `✅ Case published (no changes since version ${version.versionNumber})`
         };
     } catch (e) {
         console.error(e);
@@ -352,7 +471,7 @@ export async function generatePatient() {
             description: 'A 24-year-old male with Type 1 Diabetes is found confused and sweating profusely by his roommate.',
             clinicalDomain: 'Endocrinology',
             difficultyLevel: 'Foundation',
-            isPublished: true,
+            isPublished: false, // A draft until it passes editorial review
         }).returning();
 
         const caseId = newCase[0].id;
@@ -424,8 +543,8 @@ export async function generatePatient() {
             },
         ]);
 
-        revalidatePath('/cases');
-        return { success: true, message: 'Patient generated successfully!', caseId: caseId };
+        revalidatePath('/admin');
+        return { success: true, message: 'Patient generated as a draft. Submit it for review to publish it.', caseId: caseId };
 
     } catch (error) {
         console.error('Error generating patient:', error);
@@ -443,9 +562,22 @@ const updateCaseSchema = z.object({
     description: z.string().min(1, 'Description is required'),
     clinicalDomain: z.string().min(1, 'Clinical Domain is required'),
     difficultyLevel: z.enum(['Foundation', 'Core', 'Advanced']),
-    verificationStatus: z.string().optional(),
     qualityScore: z.number().min(0).max(100).optional(),
     rigourScore: z.number().min(0).max(100).optional(),
+    baselineVitals: z.union([
+        z.string().transform((val) => {
+            try {
+                return val.trim() ? JSON.parse(val) : null;
+            } catch {
+                return null;
+            }
+        }),
+        z.object({}).passthrough()
+    ]).nullable().optional(),
+    patientDemographics: patientDemographicsSchema.nullable().optional(),
+    stageTimeLimitSeconds: timeLimitSchema,
+    // JSON text from the case form; checked against caseTemplateVariablesSchema
+    templateVariables: z.string().optional(),
 });
 
 export async function updateCase(data: z.infer<typeof updateCaseSchema>) {
@@ -460,6 +592,26 @@ export async function updateCase(data: z.infer<typeof updateCaseSchema>) {
         return { success: false, message: parsed.error.issues[0].message };
     }
 
+    // Blank clears the template; an untouched form leaves it as it was
+    let templateVariables: CaseTemplateVariable[] | null | undefined;
+    if (parsed.data.templateVariables !== undefined) {
+        if (parsed.data.templateVariables.trim()) {
+            let raw: unknown;
+            try {
+                raw = JSON.parse(parsed.data.templateVariables);
+            } catch {
+                return { success: false, message: 'Template variables must be valid JSON' };
+            }
+            const variables = caseTemplateVariablesSchema.safeParse(raw);
+            if (!variables.success) {
+                return { success: false, message: `Template variables: ${variables.error.issues[0].message}` };
+            }
+            templateVariables = variables.data.length > 0 ? variables.data : null;
+        } else {
+            templateVariables = null;
+        }
+    }
+
     try {
         await db.update(cases)
             .set({
@@ -467,9 +619,12 @@ export async function updateCase(data: z.infer<typeof updateCaseSchema>) {
                 description: parsed.data.description,
                 clinicalDomain: parsed.data.clinicalDomain,
                 difficultyLevel: parsed.data.difficultyLevel,
-                verificationStatus: parsed.data.verificationStatus,
                 qualityScore: parsed.data.qualityScore,
                 rigourScore: parsed.data.rigourScore,
+                baselineVitals: parsed.data.baselineVitals,
+                patientDemographics: parsed.data.patientDemographics,
+                stageTimeLimitSeconds: parsed.data.stageTimeLimitSeconds,
+                templateVariables,
                 updatedAt: new Date(),
             })
             .where(eq(cases.id, parsed.data.id));
@@ -497,6 +652,21 @@ const updateStageSchema = z.object({
         z.object({}).passthrough()
     ]),
     mediaUrl: z.string().optional().nullable(),
+    // When present, replaces the stage's orderable investigations
+    investigations: z.array(z.object({
+        investigation: z.enum(investigationTypes),
+        result: z.string().min(1, 'Investigation result is required'),
+        isIndicated: z.boolean(),
+    })).optional(),
+    stageType: z.enum(stageTypes).optional(),
+    decisionType: z.enum(decisionTypes).optional(),
+    timeLimitSeconds: timeLimitSchema,
+    // JSON text from the stage form; checked against patientScriptSchema for history stages
+    patientScript: z.string().nullable().optional(),
+    // When present, replaces the stage's hint tiers
+    hints: stageHintsSchema.optional(),
+}).refine((data) => !data.investigations || new Set(data.investigations.map((row) => row.investigation)).size === data.investigations.length, {
+    message: 'Each investigation can only be listed once per stage',
 });
 
 export async function updateStage(data: z.infer<typeof updateStageSchema>) {
@@ -511,15 +681,56 @@ export async function updateStage(data: z.infer<typeof updateStageSchema>) {
         return { success: false, message: parsed.error.issues[0].message };
     }
 
+    const labError = labPanelsError(parsed.data.clinicalData);
+    if (labError) {
+        return { success: false, message: labError };
+    }
+
+    // Switching a stage back to a plain decision clears its script
+    let patientScript: PatientScript | null | undefined;
+    if (parsed.data.stageType === 'history') {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(parsed.data.patientScript || '');
+        } catch {
+            return { success: false, message: 'Patient script must be valid JSON' };
+        }
+        const script = patientScriptSchema.safeParse(raw);
+        if (!script.success) {
+            return { success: false, message: `Patient script: ${script.error.issues[0].message}` };
+        }
+        patientScript = script.data;
+    } else if (parsed.data.stageType === 'decision') {
+        patientScript = null;
+    }
+
     try {
+        if (!(await isDraftStage(parsed.data.id))) {
+            return { success: false, message: FROZEN_STAGE_MESSAGE };
+        }
+
         await db.update(caseStages)
             .set({
                 narrative: parsed.data.narrative,
                 clinicalData: parsed.data.clinicalData,
                 mediaUrl: parsed.data.mediaUrl,
+                stageType: parsed.data.stageType,
+                decisionType: parsed.data.decisionType,
+                timeLimitSeconds: parsed.data.timeLimitSeconds,
+                patientScript,
+                hints: parsed.data.hints,
             })
             .where(eq(caseStages.id, parsed.data.id));
 
+        if (parsed.data.investigations) {
+            await db.delete(stageInvestigations).where(eq(stageInvestigations.stageId, parsed.data.id));
+            if (parsed.data.investigations.length > 0) {
+                await db.insert(stageInvestigations).values(
+                    parsed.data.investigations.map((row) => ({ ...row, stageId: parsed.data.id }))
+                );
+            }
+        }
+
         revalidatePath('/admin');
         return { success: true, message: 'Stage updated successfully' };
     } catch (e) {
@@ -534,6 +745,18 @@ const updateOptionSchema = z.object({
     isCorrect: z.boolean(),
     scoreWeight: z.number(),
     feedback: z.string().min(1, 'Feedback is required'),
+    nextStageId: z.number().int().nullable().optional(),
+    outcome: z.enum(caseOutcomes).nullable().optional(),
+    vitalEffects: vitalEffectsSchema.nullable().optional(),
+    durationMinutes: z.number().int().min(0).max(1440).optional(),
+    correctPosition: z.number().int().min(1, 'Position starts at 1').nullable().optional(),
+    acceptedAnswers: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+    isTimeout: z.boolean().optional(),
+    safetyClass: z.enum(safetyClasses).nullable().optional(),
+}).refine((data) => !(data.nextStageId && data.outcome), {
+    message: 'An option can lead to a next stage or an outcome, not both',
+}).refine((data) => !(data.isTimeout && data.isCorrect), {
+    message: 'The no-decision option cannot be marked correct',
 });
 
 export async function updateOption(data: z.infer<typeof updateOptionSchema>) {
@@ -549,12 +772,37 @@ export async function updateOption(data: z.infer<typeof updateOptionSchema>) {
     }
 
     try {
+        const existing = await db.query.stageOptions.findFirst({
+            where: eq(stageOptions.id, parsed.data.id),
+            columns: { stageId: true },
+        });
+
+        if (!existing) {
+            return { success: false, message: 'Option not found' };
+        }
+
+        if (!(await isDraftStage(existing.stageId))) {
+            return { success: false, message: FROZEN_STAGE_MESSAGE };
+        }
+
+        if (!(await isValidBranchTarget(existing.stageId, parsed.data.nextStageId))) {
+            return { success: false, message: 'Next stage must be a different stage in the same case' };
+        }
+
         await db.update(stageOptions)
             .set({
                 text: parsed.data.text,
                 isCorrect: parsed.data.isCorrect,
                 scoreWeight: parsed.data.scoreWeight,
                 feedback: parsed.data.feedback,
+                nextStageId: parsed.data.nextStageId ?? null,
+                outcome: parsed.data.outcome ?? null,
+                vitalEffects: parsed.data.vitalEffects ?? null,
+                durationMinutes: parsed.data.durationMinutes,
+                correctPosition: parsed.data.correctPosition ?? null,
+                acceptedAnswers: parsed.data.acceptedAnswers,
+                isTimeout: parsed.data.isTimeout,
+                safetyClass: parsed.data.safetyClass ?? null,
             })
             .where(eq(stageOptions.id, parsed.data.id));
 
@@ -573,6 +821,9 @@ export async function deleteStage(stageId: number) {
         return { success: false, message: 'Unauthorized' };
     }
     try {
+        if (!(await isDraftStage(stageId))) {
+            return { success: false, message: FROZEN_STAGE_MESSAGE };
+        }
         await db.delete(caseStages).where(eq(caseStages.id, stageId));
         revalidatePath('/admin');
         return { success: true, message: 'Stage deleted' };
@@ -588,6 +839,13 @@ export async function deleteOption(optionId: number) {
         return { success: false, message: 'Unauthorized' };
     }
     try {
+        const existing = await db.query.stageOptions.findFirst({
+            where: eq(stageOptions.id, optionId),
+            columns: { stageId: true },
+        });
+        if (existing && !(await isDraftStage(existing.stageId))) {
+            return { success: false, message: FROZEN_STAGE_MESSAGE };
+        }
         await db.delete(stageOptions).where(eq(stageOptions.id, optionId));
         revalidatePath('/admin');
         return { success: true, message: 'Option deleted' };
@@ -595,3 +853,75 @@ export async function deleteOption(optionId: number) {
         return { success: false, message: 'Database error' };
     }
 }
+
+/**
+ * A case's published versions, newest first, with how many attempts each has
+ */
+export async function getCaseVersions(caseId: number) {
+    await requireAdmin();
+
+    const medicalCase = await db.query.cases.findFirst({
+        where: eq(cases.id, caseId),
+        columns: { id: true, title: true, isPublished: true, publishedVersionId: true },
+        with: {
+            versions: {
+                orderBy: [desc(caseVersions.versionNumber)],
+                columns: { id: true, versionNumber: true, publishedAt: true },
+                with: { publishedBy: { columns: { email: true, firstName: true, lastName: true } } },
+            },
+        },
+    });
+    if (!medicalCase) return null;
+
+    const attemptRows = await db
+        .select({ caseVersionId: studentAttempts.caseVersionId, attempts: count() })
+        .from(studentAttempts)
+        .where(eq(studentAttempts.caseId, caseId))
+        .groupBy(studentAttempts.caseVersionId);
+    const attemptsByVersion = new Map(attemptRows.map((row) => [row.caseVersionId, row.attempts]));
+
+    return {
+        ...medicalCase,
+        versions: medicalCase.versions.map((version) => ({
+            ...version,
+            attempts: attemptsByVersion.get(version.id) ?? 0,
+        })),
+    };
+}
+
+const caseVersionRefSchema = z.union([z.literal('draft'), z.number().int().positive()]);
+
+const getCaseVersionDiffSchema = z.object({
+    caseId: z.number().int().positive(),
+    from: caseVersionRefSchema,
+    to: caseVersionRefSchema,
+});
+
+/**
+ * What changed between two versions of a case, either of which may be the draft
+ */
+export async function getCaseVersionDiff(
+    input: z.infer<typeof getCaseVersionDiffSchema>
+): Promise<{ success: true; changes: CaseContentChange[] } | { success: false; message: string }> {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = getCaseVersionDiffSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { caseId, from, to } = parsed.data;
+    const [before, after] = await Promise.all([
+        loadCaseContent(caseId, from === 'draft' ? null : from),
+        loadCaseContent(caseId, to === 'draft' ? null : to),
+    ]);
+    if (!before || !after) {
+        return { success: false, message: 'Version not found' };
+    }
+
+    return { success: true, changes: diffCaseContent(before, after) };
+}
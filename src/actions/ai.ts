@@ -2,9 +2,35 @@
 
 import OpenAI from 'openai';
 import { db } from '@/db';
-import { cases, caseStages, stageOptions, users } from '@/db/schema';
+import {
+    cases,
+    caseStages,
+    stageOptions,
+    users,
+    caseOutcomes,
+    simulationSessions,
+    sessionDecisions,
+    sessionHistoryMessages,
+    patientSexes,
+    patientConditions,
+    safetyClasses,
+} from '@/db/schema';
 import { requireAdmin } from '@/lib/admin';
+import { validateCaseGraph } from '@/lib/case-graph';
+import { lintCaseByStageOrder } from '@/lib/case-lint';
+import { fillCaseText } from '@/lib/case-templates';
+import { loadCaseSettings } from '@/lib/case-versions';
+import {
+    matchHistoryFacts,
+    maxHistoryQuestions,
+    stubPatientResponder,
+    type PatientResponder,
+} from '@/lib/history-taking';
+import { describePatient } from '@/lib/reference-ranges';
+import { labPanelTemplates } from '@/lib/lab-results';
+import { askPatientSchema, labPanelsSchema, type AskPatientInput } from '@/schemas/case-simulator';
 import { auth, currentUser } from '@clerk/nextjs/server';
+import { and, asc, eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
 
@@ -19,19 +45,26 @@ const OptionSchema = z.object({
     isCorrect: z.boolean(),
     scoreWeight: z.number(),
     feedback: z.string(),
+    // Branching is expressed by stageOrder because ids don't exist until insert
+    nextStageOrder: z.number().int().nullable().optional(),
+    outcome: z.enum(caseOutcomes).nullable().optional(),
+    safetyClass: z.enum(safetyClasses).nullable().optional(),
 });
 
+const ClinicalDataSchema = z.object({
+    BP: z.string().optional(),
+    HR: z.number().optional(),
+    RR: z.number().optional(),
+    Temp: z.number().optional(),
+    SpO2: z.number().optional(),
+    notes: z.array(z.string()).optional(),
+    labPanels: labPanelsSchema.optional(),
+}).passthrough();
+
 const StageSchema = z.object({
     stageOrder: z.number(),
     narrative: z.string(),
-    clinicalData: z.object({
-        BP: z.string().optional(),
-        HR: z.number().optional(),
-        RR: z.number().optional(),
-        Temp: z.number().optional(),
-        SpO2: z.number().optional(),
-        notes: z.array(z.string()).optional(),
-    }).passthrough().optional().default({}),
+    clinicalData: ClinicalDataSchema.optional().default({}),
     options: z.array(OptionSchema),
 });
 
@@ -40,7 +73,34 @@ const CaseSchema = z.object({
     description: z.string(),
     clinicalDomain: z.string(),
     difficultyLevel: z.enum(['Foundation', 'Core', 'Advanced']),
+    patientDemographics: z.object({
+        ageYears: z.number().int().min(0).max(120),
+        sex: z.enum(patientSexes),
+        pregnant: z.boolean().optional(),
+        conditions: z.array(z.enum(patientConditions)).optional(),
+    }).nullable().optional(),
     stages: z.array(StageSchema),
+}).superRefine((data, ctx) => {
+    const orders = data.stages.map((stage) => stage.stageOrder);
+    if (new Set(orders).size !== orders.length) {
+        ctx.addIssue({ code: 'custom', message: 'Stage orders must be unique', path: ['stages'] });
+        return;
+    }
+
+    // Walk the pathway using stageOrder as the stage identity
+    const issues = validateCaseGraph(data.stages.map((stage) => ({
+        id: stage.stageOrder,
+        stageOrder: stage.stageOrder,
+        options: stage.options.map((option, index) => ({
+            id: index,
+            nextStageId: option.nextStageOrder ?? null,
+            outcome: option.outcome ?? null,
+        })),
+    })));
+
+    for (const issue of issues) {
+        ctx.addIssue({ code: 'custom', message: issue.message, path: ['stages'] });
+    }
 });
 
 function getErrorMessage(error: unknown): string {
@@ -109,7 +169,12 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
                     ${domain ? `Domain: '${domain}'.` : `Infer the most appropriate Clinical Domain based on the scenario.`}
                     ${difficulty ? `Difficulty Level: '${difficulty}'.` : `Infer the appropriate Difficulty Level (Foundation, Core, or Advanced) based on the clinical complexity.`}
                     
-                    Include 2-3 stages. Each stage must have options (some correct, some incorrect/dangerous).
+                    Include 2-4 stages. Each stage must have options (some correct, some incorrect/dangerous).
+                    Stages form a pathway: an option may set nextStageOrder to jump to a later stage (e.g. a dangerous choice leads to a deterioration stage, a good choice skips ahead),
+                    or set outcome (${caseOutcomes.join(', ')}) to end the case. Leave both unset to continue to the next stage in order.
+                    Every stage must be reachable from stage 1 and no option may lead back to an earlier stage.
+                    Classify each option's patient safety as one of ${safetyClasses.join(', ')}; use never_event only for choices that should never happen, such as giving a drug the patient is documented to be allergic to.
+                    Give the patient's age and sex in patientDemographics, and mark pregnancy or COPD where relevant, so vitals are judged against the right reference ranges.
                     If the user description includes clinical data (vitals), use those if not generate clinical data (vitals) are realistic.`
                 }
             ],
@@ -126,6 +191,16 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
                                 description: { type: "string" },
                                 clinicalDomain: { type: "string" },
                                 difficultyLevel: { type: "string", enum: ["Foundation", "Core", "Advanced"] },
+                                patientDemographics: {
+                                    type: "object",
+                                    properties: {
+                                        ageYears: { type: "integer" },
+                                        sex: { type: "string", enum: [...patientSexes] },
+                                        pregnant: { type: "boolean" },
+                                        conditions: { type: "array", items: { type: "string", enum: [...patientConditions] } }
+                                    },
+                                    required: ["ageYears", "sex"]
+                                },
                                 stages: {
                                     type: "array",
                                     items: {
@@ -152,7 +227,10 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
                                                         text: { type: "string" },
                                                         isCorrect: { type: "boolean" },
                                                         scoreWeight: { type: "integer" },
-                                                        feedback: { type: "string" }
+                                                        feedback: { type: "string" },
+                                                        nextStageOrder: { type: ["integer", "null"] },
+                                                        outcome: { type: ["string", "null"], enum: [...caseOutcomes, null] },
+                                                        safetyClass: { type: "string", enum: [...safetyClasses] }
                                                     },
                                                     required: ["text", "isCorrect", "scoreWeight", "feedback"]
                                                 }
@@ -179,6 +257,15 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
         // validate with Zod
         const validatedCase = CaseSchema.parse(aiData);
 
+        // Structural errors would leave an unplayable draft, so nothing is saved
+        const lintErrors = lintCaseByStageOrder(validatedCase.stages).filter((issue) => issue.severity === 'error');
+        if (lintErrors.length > 0) {
+            return {
+                success: false,
+                message: `Generated case failed structural checks: ${lintErrors.map((issue) => issue.message).join('; ')}. Try generating it again.`
+            };
+        }
+
         // 3. Ensure the current admin user exists in database
         const user = await currentUser();
         if (user?.id) {
@@ -202,6 +289,7 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
             description: validatedCase.description,
             clinicalDomain: validatedCase.clinicalDomain,
             difficultyLevel: validatedCase.difficultyLevel,
+            patientDemographics: validatedCase.patientDemographics ?? null,
             source: 'ai',
             verificationStatus: 'draft', // Requires human review
             qualityScore: 50, // Default AI score
@@ -210,6 +298,8 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
 
         const caseId = newCase[0].id;
 
+        // Insert all stages first so branch targets can be mapped from stageOrder to id
+        const stageIdsByOrder = new Map<number, number>();
         for (const stage of validatedCase.stages) {
             const newStage = await db.insert(caseStages).values({
                 caseId: caseId,
@@ -218,14 +308,21 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
                 clinicalData: stage.clinicalData,
             }).returning();
 
+            stageIdsByOrder.set(stage.stageOrder, newStage[0].id);
+        }
+
+        for (const stage of validatedCase.stages) {
             if (stage.options.length > 0) {
                 await db.insert(stageOptions).values(
                     stage.options.map(opt => ({
-                        stageId: newStage[0].id,
+                        stageId: stageIdsByOrder.get(stage.stageOrder)!,
                         text: opt.text,
                         isCorrect: opt.isCorrect,
                         scoreWeight: opt.scoreWeight,
-                        feedback: opt.feedback
+                        feedback: opt.feedback,
+                        nextStageId: opt.nextStageOrder ? stageIdsByOrder.get(opt.nextStageOrder) ?? null : null,
+                        outcome: opt.outcome ?? null,
+                        safetyClass: opt.safetyClass ?? null,
                     }))
                 );
             }
@@ -249,23 +346,29 @@ export async function generateCaseAction(domain: string, difficulty: string, pro
     }
 }
 
-export async function generateClinicalDataAction(narrative: string) {
+export async function generateClinicalDataAction(narrative: string, caseId?: number) {
     try {
         await requireAdmin();
         if (!process.env.OPENAI_API_KEY) {
             return { success: false, message: 'OpenAI API Key is missing' };
         }
 
+        // Lab values depend on who the patient is, so use the case's demographics when known
+        const medicalCase = caseId
+            ? await db.query.cases.findFirst({ where: eq(cases.id, caseId), columns: { patientDemographics: true } })
+            : undefined;
+        const patientLabel = describePatient(medicalCase?.patientDemographics);
+
         const completion = await openai.chat.completions.create({
             model: "gpt-4o",
             messages: [
                 {
                     role: "system",
-                    content: "You are a medical expert. specific clinical data (vitals) based on the provided clinical narrative. Return ONLY a JSON object."
+                    content: "You are a medical expert. Generate specific clinical data (vitals and any relevant lab results) based on the provided clinical narrative. Return ONLY a JSON object."
                 },
                 {
                     role: "user",
-                    content: `Generate realistic clinical data (vitals) for a patient with the following situation: "${narrative}".
+                    content: `Generate realistic clinical data for ${patientLabel ? `a ${patientLabel}` : 'a patient'} with the following situation: "${narrative}".
                     
                     Return a JSON object with these fields (use realistic values):
                     - BP (string, e.g. "120/80")
@@ -274,6 +377,10 @@ export async function generateClinicalDataAction(narrative: string) {
                     - Temp (number, celsius)
                     - SpO2 (number)
                     - notes (array of strings, optional observations)
+                    - labPanels (array, optional): the blood results a clinician would have at this point, one entry per analyte:
+                      { "panel": string, "analyte": string, "value": number, "unit": string (SI), "range": { "low": number, "high": number } }
+                      Use these panel names where they fit: ${Object.keys(labPanelTemplates).join(', ')}.
+                      Leave labPanels out if no bloods would have been taken yet.
                     `
                 }
             ],
@@ -283,10 +390,162 @@ export async function generateClinicalDataAction(narrative: string) {
         const content = completion.choices[0].message.content;
         if (!content) throw new Error("No content generated");
 
-        const data = JSON.parse(content);
-        return { success: true, data };
+        const parsed = ClinicalDataSchema.safeParse(JSON.parse(content));
+        if (!parsed.success) {
+            throw new Error(`Generated clinical data was invalid: ${parsed.error.issues[0].message}`);
+        }
+        return { success: true, data: parsed.data };
     } catch (error: unknown) {
         console.error("Clinical Data Generation Error:", error);
         return { success: false, message: getErrorMessage(error) };
     }
 }
+
+/**
+ * Simulated patient backed by the model. It only sees the facts the question
+ * elicited, so it can't give away parts of the script the student hasn't asked about.
+ */
+const openAiPatientResponder: PatientResponder = async ({ script, question, revealed, transcript }) => {
+    const completion = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+            {
+                role: "system",
+                content: `You are role-playing a patient being interviewed by a medical student.
+                ${script.persona}
+                You came in saying: "${script.openingStatement}"
+                Answer the student's latest question in the first person, in plain language, in one to three sentences.
+                ${revealed.length > 0
+                    ? `Share these facts because the student asked about them:\n${revealed.map((fact) => `- ${fact.detail}`).join('\n')}`
+                    : `The question does not touch anything in your history; say you don't know or haven't noticed anything.`}
+                Do not mention any other medical details, diagnoses or medical terms the patient would not know.`
+            },
+            ...transcript.map((message) => ({
+                role: message.role === 'student' ? 'user' as const : 'assistant' as const,
+                content: message.content,
+            })),
+            { role: "user", content: question },
+        ],
+    });
+
+    const content = completion.choices[0].message.content;
+    if (!content) throw new Error("No reply generated");
+    return content.trim();
+};
+
+// SIMULATED_PATIENT_PROVIDER=stub forces the deterministic patient, e.g. for tests
+function getPatientResponder(): PatientResponder {
+    if (process.env.SIMULATED_PATIENT_PROVIDER === 'stub' || !process.env.OPENAI_API_KEY) {
+        return stubPatientResponder;
+    }
+    return openAiPatientResponder;
+}
+
+/**
+ * Put a history-taking question to the simulated patient at the session's current
+ * stage. Which script facts the question elicits is worked out here and stored
+ * for scoring when the stage is decided.
+ */
+export async function askSimulatedPatient(input: AskPatientInput) {
+    const { userId } = await auth();
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = askPatientSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { sessionId, stageId, message } = parsed.data;
+
+    try {
+        const session = await db.query.simulationSessions.findFirst({
+            where: and(
+                eq(simulationSessions.id, sessionId),
+                eq(simulationSessions.userId, userId)
+            ),
+            columns: { caseId: true, caseVersionId: true, status: true, currentStageId: true, variantSeed: true },
+        });
+
+        if (!session) {
+            return { success: false, message: 'Session not found' };
+        }
+
+        if (session.status !== 'in_progress' || session.currentStageId !== stageId) {
+            return { success: false, message: 'You can only talk to the patient at the current stage' };
+        }
+
+        const [stage, settings] = await Promise.all([
+            db.query.caseStages.findFirst({
+                where: eq(caseStages.id, stageId),
+                columns: { stageType: true, patientScript: true },
+            }),
+            loadCaseSettings(session.caseId, session.caseVersionId),
+        ]);
+
+        if (!stage || stage.stageType !== 'history' || !stage.patientScript) {
+            return { success: false, message: 'This stage has no patient to talk to' };
+        }
+
+        const decided = await db.query.sessionDecisions.findFirst({
+            where: and(
+                eq(sessionDecisions.sessionId, sessionId),
+                eq(sessionDecisions.stageId, stageId)
+            ),
+            columns: { id: true },
+        });
+
+        if (decided) {
+            return { success: false, message: 'This stage has already been decided' };
+        }
+
+        const transcript = await db.query.sessionHistoryMessages.findMany({
+            where: and(
+                eq(sessionHistoryMessages.sessionId, sessionId),
+                eq(sessionHistoryMessages.stageId, stageId)
+            ),
+            orderBy: [asc(sessionHistoryMessages.id)],
+            columns: { role: true, content: true },
+        });
+
+        if (transcript.filter((row) => row.role === 'student').length >= maxHistoryQuestions) {
+            return { success: false, message: `You can ask up to ${maxHistoryQuestions} questions at this stage` };
+        }
+
+        // The patient talks about the variant being played, not the template
+        const script = fillCaseText(stage.patientScript, settings?.templateVariables, session.variantSeed);
+        const revealed = matchHistoryFacts(script, message);
+        const context = { script, question: message, revealed, transcript };
+
+        // A model outage shouldn't end the interview; fall back to the scripted answer
+        let reply: string;
+        try {
+            reply = await getPatientResponder()(context);
+        } catch (error: unknown) {
+            console.error("Simulated Patient Error:", getErrorDetails(error));
+            reply = await stubPatientResponder(context);
+        }
+
+        await db.insert(sessionHistoryMessages).values([
+            {
+                sessionId,
+                stageId,
+                role: 'student',
+                content: message,
+                elicitedFactIds: revealed.map((fact) => fact.id),
+            },
+            {
+                sessionId,
+                stageId,
+                role: 'patient',
+                content: reply,
+            },
+        ]);
+
+        return { success: true, message: 'Patient replied', reply };
+    } catch (error: unknown) {
+        console.error("Error asking simulated patient:", error);
+        return { success: false, message: 'Failed to reach the patient' };
+    }
+}
@@ -0,0 +1,113 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requireAdmin, getCurrentUserId } from '@/lib/admin';
+import { parseCaseBundle, serializeCaseBundle } from '@/lib/case-bundles';
+import { applyCaseBundleImport, exportCaseBundle, planCaseBundleImport } from '@/lib/case-bundle-store';
+import {
+    caseBundleInputSchema,
+    exportCaseBundleSchema,
+    type CaseBundleInput,
+    type ExportCaseBundleInput,
+} from '@/schemas/case-bundle';
+
+/**
+ * Export cases as a bundle file for another environment
+ */
+export async function exportCaseBundleFile(input: ExportCaseBundleInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = exportCaseBundleSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    try {
+        const bundle = await exportCaseBundle(parsed.data.caseIds);
+        if (!bundle) {
+            return { success: false, message: 'Case not found' };
+        }
+
+        const { format } = parsed.data;
+        const stamp = new Date().toISOString().slice(0, 10);
+        return {
+            success: true,
+            message: `Exported ${bundle.cases.length} case${bundle.cases.length === 1 ? '' : 's'}`,
+            filename: `cases-${stamp}.${format === 'yaml' ? 'yaml' : 'json'}`,
+            contentType: format === 'yaml' ? 'application/yaml' : 'application/json',
+            content: serializeCaseBundle(bundle, format),
+        };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Failed to export cases' };
+    }
+}
+
+/**
+ * Dry run of a bundle import: validates it and lists what each case would change
+ */
+export async function previewCaseBundleImport(input: CaseBundleInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = caseBundleInputSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const bundle = parseCaseBundle(parsed.data.content, parsed.data.format);
+    if (!bundle.success) {
+        return { success: false, message: bundle.message };
+    }
+
+    try {
+        const plan = await planCaseBundleImport(bundle.bundle);
+        return { success: true, message: 'Bundle is valid', plan };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Failed to compare the bundle with stored cases' };
+    }
+}
+
+export async function importCaseBundle(input: CaseBundleInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = caseBundleInputSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const bundle = parseCaseBundle(parsed.data.content, parsed.data.format);
+    if (!bundle.success) {
+        return { success: false, message: bundle.message };
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
+
+    try {
+        const results = await applyCaseBundleImport(bundle.bundle, userId);
+        const created = results.filter((entry) => entry.action === 'create').length;
+        const updated = results.filter((entry) => entry.action === 'update').length;
+
+        revalidatePath('/admin');
+        revalidatePath('/cases');
+        return { success: true, message: `Imported: ${created} created, ${updated} updated`, plan: results };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Import failed part way; preview the bundle again to see what remains' };
+    }
+}
@@ -3,7 +3,7 @@
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/db';
 import { cases } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
 import {
     createCaseSchema,
@@ -13,6 +13,8 @@ import {
     type UpdateCaseInput,
     type TogglePublishInput,
 } from '@/schemas/case';
+import { publishCaseVersion } from '@/lib/case-versions';
+import { getPublishBlocker } from '@/lib/editorial-review-store';
 
 // ============================================================================
 // CASE ACTIONS
@@ -185,18 +187,31 @@ export async function toggleCasePublish(data: TogglePublishInput) {
             return { success: false, error: 'Case not found or access denied' };
         }
 
-        // 4. Update publication status
-        const [updatedCase] = await db
-            .update(cases)
-            .set({
-                isPublished: validated.isPublished,
-                updatedAt: new Date(),
-            })
-            .where(and(
-                eq(cases.id, validated.id),
-                eq(cases.userId, userId)
-            ))
-            .returning();
+        // 4. Publishing freezes the approved draft as a new version; unpublishing just hides it
+        if (validated.isPublished) {
+            const blocker = await getPublishBlocker({ contentType: 'case', contentId: validated.id });
+            if (blocker) {
+                return { success: false, error: blocker };
+            }
+
+            const version = await publishCaseVersion(validated.id, userId);
+            if (!version) {
+                return { success: false, error: 'This case is already being published' };
+            }
+        } else {
+            await db
+                .update(cases)
+                .set({
+                    isPublished: false,
+                    updatedAt: new Date(),
+                })
+                .where(and(
+                    eq(cases.id, validated.id),
+                    eq(cases.userId, userId)
+                ));
+        }
+
+        const updatedCase = await db.query.cases.findFirst({ where: eq(cases.id, validated.id) });
 
         // 5. Revalidate relevant pages
         revalidatePath('/cases');
@@ -229,6 +244,7 @@ export async function getUserCases() {
             where: eq(cases.userId, userId),
             with: {
                 stages: {
+                    where: (stages) => isNull(stages.caseVersionId), // The draft the owner edits
                     orderBy: (stages, { asc }) => [asc(stages.stageOrder)],
                     with: {
                         options: true,
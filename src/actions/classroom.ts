@@ -0,0 +1,372 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { and, desc, eq, ne } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    cases,
+    caseStages,
+    classroomParticipants,
+    classroomSessions,
+    classroomVotes,
+} from '@/db/schema';
+import { requireAdmin } from '@/lib/admin';
+import { getStartStage, resolveNextStep } from '@/lib/case-graph';
+import { inCaseVersion } from '@/lib/case-versions';
+import { pickClassChoice, tallyVotes } from '@/lib/classroom';
+import { getClassroomAccess, loadClassroomState } from '@/lib/classroom-state';
+import { generateJoinCode, JOIN_CODE_ATTEMPTS } from '@/lib/join-codes';
+import { ensureCurrentUserInDb } from '@/lib/auth-helpers';
+import {
+    classroomVoteSchema,
+    joinClassroomSchema,
+    type ClassroomVoteInput,
+    type JoinClassroomInput,
+} from '@/schemas/classroom';
+
+/**
+ * Open a live classroom for a case, hosted by the current instructor.
+ * Students join with the returned code while it waits in the lobby.
+ */
+export async function createClassroomSession(caseId: number) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const { userId } = await auth();
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const caseData = await db.query.cases.findFirst({
+            where: eq(cases.id, caseId),
+            columns: { id: true, publishedVersionId: true },
+        });
+
+        if (!caseData) {
+            return { success: false, message: 'Case not found' };
+        }
+
+        await ensureCurrentUserInDb(userId);
+
+        for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+            // The unique join code index rejects a clash, and we draw again
+            // The class plays the version live now, even if the case is republished mid-lesson
+            const [created] = await db.insert(classroomSessions).values({
+                caseId,
+                caseVersionId: caseData.publishedVersionId,
+                hostUserId: userId,
+                joinCode: generateJoinCode(),
+            }).onConflictDoNothing().returning({ id: classroomSessions.id });
+
+            if (created) {
+                return { success: true, message: 'Classroom created', classroomSessionId: created.id };
+            }
+        }
+
+        return { success: false, message: 'Could not create a join code, please try again' };
+    } catch (error) {
+        console.error('Error creating classroom session:', error);
+        return { success: false, message: 'Failed to create classroom' };
+    }
+}
+
+/**
+ * The instructor's classrooms that haven't ended yet, newest first
+ */
+export async function getHostedClassroomSessions() {
+    await requireAdmin();
+
+    const { userId } = await auth();
+    if (!userId) return [];
+
+    return db.query.classroomSessions.findMany({
+        where: and(
+            eq(classroomSessions.hostUserId, userId),
+            ne(classroomSessions.phase, 'ended')
+        ),
+        orderBy: [desc(classroomSessions.createdAt)],
+        columns: { id: true, joinCode: true, phase: true, createdAt: true },
+        with: { case: { columns: { title: true } } },
+    });
+}
+
+/**
+ * Move the classroom on one step: open voting on the first stage, close it and
+ * reveal the results, show the feedback, then follow the class's choice to the
+ * next stage or the end of the case
+ */
+export async function advanceClassroomSession(classroomSessionId: number) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const { userId } = await auth();
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const classroom = await db.query.classroomSessions.findFirst({
+            where: and(
+                eq(classroomSessions.id, classroomSessionId),
+                eq(classroomSessions.hostUserId, userId)
+            ),
+        });
+
+        if (!classroom) {
+            return { success: false, message: 'Classroom not found' };
+        }
+
+        const stages = await db.query.caseStages.findMany({
+            where: and(eq(caseStages.caseId, classroom.caseId), inCaseVersion(caseStages.caseVersionId, classroom.caseVersionId)),
+            columns: { id: true, stageOrder: true },
+            with: {
+                options: {
+                    columns: { id: true, text: true, scoreWeight: true, isCorrect: true, nextStageId: true, outcome: true, isTimeout: true },
+                },
+            },
+        });
+        const stage = stages.find((row) => row.id === classroom.currentStageId);
+
+        // Every update is guarded on the phase it started from, so a double click only advances once
+        const advance = (values: Partial<typeof classroomSessions.$inferInsert>) => db.update(classroomSessions)
+            .set({ ...values, updatedAt: new Date() })
+            .where(and(
+                eq(classroomSessions.id, classroomSessionId),
+                eq(classroomSessions.phase, classroom.phase)
+            ))
+            .returning({ id: classroomSessions.id });
+
+        let updated: { id: number }[] = [];
+
+        if (classroom.phase === 'lobby') {
+            const startStage = getStartStage(stages);
+            if (!startStage) {
+                return { success: false, message: 'Case has no stages' };
+            }
+            updated = await advance({ phase: 'voting', currentStageId: startStage.id });
+        } else if (classroom.phase === 'voting') {
+            if (!stage) {
+                return { success: false, message: 'This stage no longer exists' };
+            }
+            const options = stage.options.filter((option) => !option.isTimeout);
+            const votes = await db.query.classroomVotes.findMany({
+                where: and(
+                    eq(classroomVotes.classroomSessionId, classroomSessionId),
+                    eq(classroomVotes.stageId, stage.id)
+                ),
+                columns: { optionId: true },
+            });
+            const choice = pickClassChoice(options, tallyVotes(options, votes));
+            if (!choice) {
+                return { success: false, message: 'This stage has no options' };
+            }
+            updated = await advance({ phase: 'revealed', classPathOptionIds: [...classroom.classPathOptionIds, choice.id] });
+        } else if (classroom.phase === 'revealed') {
+            updated = await advance({ phase: 'feedback' });
+        } else if (classroom.phase === 'feedback') {
+            const choiceId = classroom.classPathOptionIds[classroom.classPathOptionIds.length - 1];
+            const choice = stage?.options.find((option) => option.id === choiceId);
+            if (!stage || !choice) {
+                return { success: false, message: 'This stage no longer exists' };
+            }
+            const step = resolveNextStep(stages, stage.id, choice);
+            updated = step.type === 'stage'
+                ? await advance({ phase: 'voting', currentStageId: step.stageId })
+                : await advance({ phase: 'ended', currentStageId: null, outcome: step.outcome, endedAt: new Date() });
+        } else {
+            return { success: false, message: 'This classroom has ended' };
+        }
+
+        if (updated.length === 0) {
+            return { success: false, message: 'The classroom has already moved on' };
+        }
+
+        const state = await loadClassroomState(classroomSessionId, { userId, isHost: true });
+        return { success: true, message: 'Classroom advanced', classroom: state };
+    } catch (error) {
+        console.error('Error advancing classroom session:', error);
+        return { success: false, message: 'Failed to advance classroom' };
+    }
+}
+
+/**
+ * End the classroom early, wherever it has got to
+ */
+export async function endClassroomSession(classroomSessionId: number) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const { userId } = await auth();
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const [ended] = await db.update(classroomSessions)
+            .set({ phase: 'ended', currentStageId: null, updatedAt: new Date(), endedAt: new Date() })
+            .where(and(
+                eq(classroomSessions.id, classroomSessionId),
+                eq(classroomSessions.hostUserId, userId),
+                ne(classroomSessions.phase, 'ended')
+            ))
+            .returning({ id: classroomSessions.id });
+
+        if (!ended) {
+            return { success: false, message: 'Classroom not found' };
+        }
+
+        return { success: true, message: 'Classroom ended' };
+    } catch (error) {
+        console.error('Error ending classroom session:', error);
+        return { success: false, message: 'Failed to end classroom' };
+    }
+}
+
+/**
+ * Join a live classroom by its code. Students can join at any point before it ends.
+ */
+export async function joinClassroomSession(input: JoinClassroomInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = joinClassroomSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    try {
+        const classroom = await db.query.classroomSessions.findFirst({
+            where: eq(classroomSessions.joinCode, parsed.data.joinCode),
+            columns: { id: true, phase: true },
+        });
+
+        if (!classroom) {
+            return { success: false, message: 'No classroom found with that code' };
+        }
+
+        if (classroom.phase === 'ended') {
+            return { success: false, message: 'This classroom has ended' };
+        }
+
+        await ensureCurrentUserInDb(userId);
+
+        const inserted = await db.insert(classroomParticipants).values({
+            classroomSessionId: classroom.id,
+            userId,
+        }).onConflictDoNothing().returning({ id: classroomParticipants.id });
+
+        // Only a new participant changes the headcount on the presenter screen
+        if (inserted.length > 0) {
+            await db.update(classroomSessions)
+                .set({ updatedAt: new Date() })
+                .where(eq(classroomSessions.id, classroom.id));
+        }
+
+        return { success: true, message: 'Joined classroom', classroomSessionId: classroom.id };
+    } catch (error) {
+        console.error('Error joining classroom session:', error);
+        return { success: false, message: 'Failed to join classroom' };
+    }
+}
+
+/**
+ * Vote for an option at the classroom's current stage. Students can change
+ * their vote until the instructor closes voting.
+ */
+export async function castClassroomVote(input: ClassroomVoteInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = classroomVoteSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { classroomSessionId, optionId } = parsed.data;
+
+    try {
+        const access = await getClassroomAccess(classroomSessionId, userId);
+        if (!access.isParticipant) {
+            return { success: false, message: 'Join the classroom to vote' };
+        }
+
+        const classroom = await db.query.classroomSessions.findFirst({
+            where: eq(classroomSessions.id, classroomSessionId),
+            columns: { phase: true, currentStageId: true },
+            with: {
+                currentStage: {
+                    columns: { id: true },
+                    with: { options: { columns: { id: true, isTimeout: true } } },
+                },
+            },
+        });
+
+        if (!classroom || classroom.phase !== 'voting' || !classroom.currentStage) {
+            return { success: false, message: 'Voting is closed' };
+        }
+
+        if (!classroom.currentStage.options.some((option) => option.id === optionId && !option.isTimeout)) {
+            return { success: false, message: 'Option does not belong to the current stage' };
+        }
+
+        await db.insert(classroomVotes).values({
+            classroomSessionId,
+            stageId: classroom.currentStage.id,
+            userId,
+            optionId,
+        }).onConflictDoUpdate({
+            target: [classroomVotes.classroomSessionId, classroomVotes.stageId, classroomVotes.userId],
+            set: { optionId, updatedAt: new Date() },
+        });
+
+        return { success: true, message: 'Vote recorded', optionId };
+    } catch (error) {
+        console.error('Error casting classroom vote:', error);
+        return { success: false, message: 'Failed to record vote' };
+    }
+}
+
+/**
+ * The classroom as the current user sees it, for the first render before
+ * server-sent events take over. The host gets the presenter's view.
+ */
+export async function getClassroomSession(classroomSessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const access = await getClassroomAccess(classroomSessionId, userId);
+        if (!access.isHost && !access.isParticipant) {
+            return { success: false, message: 'Classroom not found' };
+        }
+
+        const state = await loadClassroomState(classroomSessionId, { userId, isHost: access.isHost });
+        if (!state) {
+            return { success: false, message: 'Classroom not found' };
+        }
+
+        return { success: true, message: 'Classroom loaded', data: { classroom: state, isHost: access.isHost } };
+    } catch (error) {
+        console.error('Error loading classroom session:', error);
+        return { success: false, message: 'Failed to load classroom' };
+    }
+}
@@ -0,0 +1,467 @@
+'use server';
+
+import { and, asc, desc, eq, inArray, isNull, or, type AnyColumn } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { db } from '@/db';
+import {
+    cases,
+    reviewAssignments,
+    reviewComments,
+    reviewEvents,
+    ukmlaQuestionOptions,
+    ukmlaQuestions,
+    users,
+    type ReviewContentType,
+} from '@/db/schema';
+import { requireAdmin, getCurrentUserId } from '@/lib/admin';
+import { loadCaseContent } from '@/lib/case-versions';
+import {
+    isChangedSinceApproval,
+    loadReviewSubject,
+    recordReviewTransition,
+    reviewContentHash,
+} from '@/lib/editorial-review-store';
+import {
+    addReviewCommentSchema,
+    assignReviewerSchema,
+    resolveReviewCommentSchema,
+    reviewDecisionSchema,
+    reviewTargetSchema,
+    submitForReviewSchema,
+    type AddReviewCommentInput,
+    type AssignReviewerInput,
+    type ResolveReviewCommentInput,
+    type ReviewDecisionInput,
+    type ReviewTargetInput,
+    type SubmitForReviewInput,
+} from '@/schemas/editorial-review';
+
+type Person = { email: string; firstName: string | null; lastName: string | null } | null;
+
+function displayName(person: Person) {
+    if (!person) return 'Former user';
+    return [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email;
+}
+
+function revalidateReview(contentType: ReviewContentType, contentId: number) {
+    revalidatePath('/admin/reviews');
+    revalidatePath(`/admin/reviews/${contentType}/${contentId}`);
+    revalidatePath(contentType === 'case' ? '/admin' : '/admin/ukmla');
+}
+
+const personColumns = { email: true, firstName: true, lastName: true } as const;
+
+async function loadCaseForReview(caseId: number) {
+    const [row, draft] = await Promise.all([
+        db.query.cases.findFirst({
+            where: eq(cases.id, caseId),
+            columns: { title: true, description: true, clinicalDomain: true, difficultyLevel: true },
+        }),
+        loadCaseContent(caseId, null),
+    ]);
+    return row && draft ? { contentType: 'case' as const, ...row, stages: draft.stages } : null;
+}
+
+async function loadQuestionForReview(questionId: number) {
+    const row = await db.query.ukmlaQuestions.findFirst({
+        where: eq(ukmlaQuestions.id, questionId),
+        columns: { stem: true, explanation: true, category: true, difficultyLevel: true },
+        with: {
+            options: {
+                columns: { text: true, isCorrect: true },
+                orderBy: [asc(ukmlaQuestionOptions.optionOrder), asc(ukmlaQuestionOptions.id)],
+            },
+        },
+    });
+    return row ? { contentType: 'ukmla_question' as const, ...row } : null;
+}
+
+/**
+ * Everything waiting on review, or on publishing once approved
+ */
+export async function getReviewQueue(options: { mine?: boolean } = {}) {
+    await requireAdmin();
+    const userId = await getCurrentUserId();
+
+    const open = (status: AnyColumn, isPublished: AnyColumn) => or(
+        inArray(status, ['in_review', 'changes_requested']),
+        and(eq(status, 'approved'), eq(isPublished, false))
+    );
+
+    const [caseRows, questionRows] = await Promise.all([
+        db.query.cases.findMany({
+            where: open(cases.verificationStatus, cases.isPublished),
+            columns: { id: true, title: true, verificationStatus: true, isPublished: true, updatedAt: true },
+        }),
+        db.query.ukmlaQuestions.findMany({
+            where: open(ukmlaQuestions.verificationStatus, ukmlaQuestions.isPublished),
+            columns: { id: true, stem: true, verificationStatus: true, isPublished: true, updatedAt: true },
+        }),
+    ]);
+
+    const items = [
+        ...caseRows.map((row) => ({ contentType: 'case' as const, contentId: row.id, title: row.title, status: row.verificationStatus, isPublished: row.isPublished, updatedAt: row.updatedAt })),
+        ...questionRows.map((row) => ({ contentType: 'ukmla_question' as const, contentId: row.id, title: row.stem, status: row.verificationStatus, isPublished: row.isPublished, updatedAt: row.updatedAt })),
+    ];
+    if (items.length === 0) return [];
+
+    const assignments = await db.query.reviewAssignments.findMany({
+        where: or(
+            and(eq(reviewAssignments.contentType, 'case'), inArray(reviewAssignments.contentId, caseRows.map((row) => row.id))),
+            and(eq(reviewAssignments.contentType, 'ukmla_question'), inArray(reviewAssignments.contentId, questionRows.map((row) => row.id)))
+        ),
+        with: { reviewer: { columns: personColumns } },
+    });
+
+    return items
+        .map((item) => {
+            const reviewers = assignments.filter((row) => row.contentType === item.contentType && row.contentId === item.contentId);
+            return {
+                ...item,
+                reviewers: reviewers.map((row) => displayName(row.reviewer)),
+                assignedToMe: reviewers.some((row) => row.reviewerUserId === userId),
+            };
+        })
+        .filter((item) => !options.mine || item.assignedToMe)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * A case's draft or a question as it stands, with its reviewers, comments and
+ * the history of every review transition
+ */
+export async function getReview(input: ReviewTargetInput) {
+    await requireAdmin();
+    const userId = await getCurrentUserId();
+
+    const parsed = reviewTargetSchema.safeParse(input);
+    if (!parsed.success) return null;
+    const target = parsed.data;
+
+    const subject = await loadReviewSubject(target);
+    if (!subject) return null;
+
+    const content = target.contentType === 'case'
+        ? await loadCaseForReview(target.contentId)
+        : await loadQuestionForReview(target.contentId);
+    if (!content) return null;
+
+    const forTarget = (table: { contentType: AnyColumn; contentId: AnyColumn }) =>
+        and(eq(table.contentType, target.contentType), eq(table.contentId, target.contentId));
+
+    const [assignments, comments, events, admins, changedSinceApproval] = await Promise.all([
+        db.query.reviewAssignments.findMany({
+            where: forTarget(reviewAssignments),
+            orderBy: [asc(reviewAssignments.createdAt)],
+            with: { reviewer: { columns: personColumns } },
+        }),
+        db.query.reviewComments.findMany({
+            where: forTarget(reviewComments),
+            orderBy: [asc(reviewComments.createdAt), asc(reviewComments.id)],
+            with: { author: { columns: personColumns } },
+        }),
+        db.query.reviewEvents.findMany({
+            where: forTarget(reviewEvents),
+            orderBy: [desc(reviewEvents.createdAt), desc(reviewEvents.id)],
+            with: {
+                actor: { columns: personColumns },
+                reviewer: { columns: personColumns },
+            },
+        }),
+        db.query.users.findMany({
+            where: eq(users.role, 'admin'),
+            columns: { id: true, ...personColumns },
+            orderBy: [asc(users.email)],
+        }),
+        isChangedSinceApproval(target, subject.status),
+    ]);
+
+    return {
+        ...target,
+        status: subject.status,
+        isPublished: subject.isPublished,
+        changedSinceApproval,
+        content,
+        isAssignedReviewer: assignments.some((row) => row.reviewerUserId === userId),
+        reviewers: assignments.map((row) => ({ userId: row.reviewerUserId, name: displayName(row.reviewer) })),
+        comments: comments.map((row) => ({
+            id: row.id,
+            anchor: row.anchor,
+            stageOrder: row.stageOrder,
+            optionNumber: row.optionNumber,
+            body: row.body,
+            author: displayName(row.author),
+            createdAt: row.createdAt,
+            resolvedAt: row.resolvedAt,
+        })),
+        events: events.map((row) => ({
+            id: row.id,
+            action: row.action,
+            fromStatus: row.fromStatus,
+            toStatus: row.toStatus,
+            actor: displayName(row.actor),
+            reviewer: row.reviewerUserId ? displayName(row.reviewer) : null,
+            note: row.note,
+            createdAt: row.createdAt,
+        })),
+        candidates: admins
+            .filter((admin) => admin.id !== subject.authorUserId && !assignments.some((row) => row.reviewerUserId === admin.id))
+            .map((admin) => ({ userId: admin.id, name: displayName(admin) })),
+    };
+}
+
+export async function submitForReview(input: SubmitForReviewInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = submitForReviewSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
+
+    const { note, ...target } = parsed.data;
+    try {
+        const result = await recordReviewTransition(target, 'submitted', { actorUserId: userId, note });
+        if (!result.success) return result;
+
+        revalidateReview(target.contentType, target.contentId);
+        return { success: true, message: 'Submitted for review' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
+
+export async function assignReviewer(input: AssignReviewerInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = assignReviewerSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
+
+    const { reviewerUserId, ...target } = parsed.data;
+    try {
+        const subject = await loadReviewSubject(target);
+        if (!subject) {
+            return { success: false, message: 'Not found' };
+        }
+        if (subject.authorUserId === reviewerUserId) {
+            return { success: false, message: 'Authors cannot review their own work' };
+        }
+
+        const reviewer = await db.query.users.findFirst({
+            where: and(eq(users.id, reviewerUserId), eq(users.role, 'admin')),
+            columns: { id: true },
+        });
+        if (!reviewer) {
+            return { success: false, message: 'Reviewers must be admins' };
+        }
+
+        const [assigned] = await db.insert(reviewAssignments)
+            .values({ ...target, reviewerUserId, assignedByUserId: userId })
+            .onConflictDoNothing()
+            .returning({ id: reviewAssignments.id });
+        if (!assigned) {
+            return { success: false, message: 'Already a reviewer' };
+        }
+
+        const result = await recordReviewTransition(target, 'reviewer_assigned', { actorUserId: userId, reviewerUserId });
+        if (!result.success) return result;
+
+        revalidateReview(target.contentType, target.contentId);
+        return { success: true, message: 'Reviewer assigned' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
+
+export async function removeReviewer(input: AssignReviewerInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = assignReviewerSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
+
+    const { reviewerUserId, ...target } = parsed.data;
+    try {
+        const [removed] = await db.delete(reviewAssignments)
+            .where(and(
+                eq(reviewAssignments.contentType, target.contentType),
+                eq(reviewAssignments.contentId, target.contentId),
+                eq(reviewAssignments.reviewerUserId, reviewerUserId)
+            ))
+            .returning({ id: reviewAssignments.id });
+        if (!removed) {
+            return { success: false, message: 'Not a reviewer' };
+        }
+
+        const result = await recordReviewTransition(target, 'reviewer_removed', { actorUserId: userId, reviewerUserId });
+        if (!result.success) return result;
+
+        revalidateReview(target.contentType, target.contentId);
+        return { success: true, message: 'Reviewer removed' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
+
+/**
+ * An assigned reviewer approves the content as it stands or asks for changes
+ */
+export async function decideReview(input: ReviewDecisionInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = reviewDecisionSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
+
+    const { decision, note, ...target } = parsed.data;
+    try {
+        const assignment = await db.query.reviewAssignments.findFirst({
+            where: and(
+                eq(reviewAssignments.contentType, target.contentType),
+                eq(reviewAssignments.contentId, target.contentId),
+                eq(reviewAssignments.reviewerUserId, userId)
+            ),
+            columns: { id: true },
+        });
+        if (!assignment) {
+            return { success: false, message: 'Only an assigned reviewer can approve or request changes' };
+        }
+
+        if (decision === 'approve' && (await loadReviewSubject(target))?.authorUserId === userId) {
+            return { success: false, message: 'Authors cannot approve their own work' };
+        }
+
+        const result = decision === 'approve'
+            ? await recordReviewTransition(target, 'approved', {
+                actorUserId: userId,
+                note,
+                contentHash: await reviewContentHash(target),
+            })
+            : await recordReviewTransition(target, 'changes_requested', { actorUserId: userId, note });
+        if (!result.success) return result;
+
+        revalidateReview(target.contentType, target.contentId);
+        return { success: true, message: decision === 'approve' ? 'Approved' : 'Changes requested' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
+
+export async function addReviewComment(input: AddReviewCommentInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = addReviewCommentSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
+
+    const { contentType, contentId, anchor, stageOrder, optionNumber, body } = parsed.data;
+    try {
+        if (!(await loadReviewSubject({ contentType, contentId }))) {
+            return { success: false, message: 'Not found' };
+        }
+
+        await db.insert(reviewComments).values({
+            contentType,
+            contentId,
+            anchor,
+            // Only the parts of the anchor that apply are kept
+            stageOrder: contentType === 'case' && (anchor === 'stage' || anchor === 'option') ? stageOrder : null,
+            optionNumber: anchor === 'option' ? optionNumber : null,
+            body,
+            authorUserId: userId,
+        });
+
+        revalidateReview(contentType, contentId);
+        return { success: true, message: 'Comment added' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
+
+export async function resolveReviewComment(input: ResolveReviewCommentInput) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = resolveReviewCommentSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return { success: false, message: 'Not authenticated' };
+    }
+
+    try {
+        const [resolved] = await db.update(reviewComments)
+            .set({ resolvedAt: new Date(), resolvedByUserId: userId })
+            .where(and(eq(reviewComments.id, parsed.data.commentId), isNull(reviewComments.resolvedAt)))
+            .returning({ contentType: reviewComments.contentType, contentId: reviewComments.contentId });
+        if (!resolved) {
+            return { success: false, message: 'Comment not found or already resolved' };
+        }
+
+        revalidateReview(resolved.contentType, resolved.contentId);
+        return { success: true, message: 'Comment resolved' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
@@ -0,0 +1,260 @@
+'use server';
+
+import { count, eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { db } from '@/db';
+import { mediaAssets, stageMedia, ukmlaQuestionMedia, ukmlaQuestions } from '@/db/schema';
+import { requireAdmin, getCurrentUserId } from '@/lib/admin';
+import { reopenEditedUkmlaQuestion } from '@/lib/editorial-review-store';
+import { isDraftStage } from '@/lib/case-versions';
+import { detectMediaContentType, getMediaUrl, maxMediaBytes, type MediaItem } from '@/lib/media';
+import { createStorageKey, getMediaStorage } from '@/lib/storage';
+
+const mediaTargets = ['stage', 'ukmla_question'] as const;
+type MediaTarget = typeof mediaTargets[number];
+
+const uploadMediaSchema = z.object({
+    target: z.enum(mediaTargets),
+    targetId: z.coerce.number().int().positive(),
+    caption: z.string().max(300, 'Caption is too long').default(''),
+    revealOnRequest: z.enum(['true', 'false']).transform((val) => val === 'true'),
+});
+
+const updateMediaSchema = z.object({
+    target: z.enum(mediaTargets),
+    id: z.number().int().positive(),
+    caption: z.string().max(300, 'Caption is too long'),
+    revealOnRequest: z.boolean(),
+    displayOrder: z.number().int().min(1).optional(),
+});
+
+const removeMediaSchema = z.object({
+    target: z.enum(mediaTargets),
+    id: z.number().int().positive(),
+});
+
+function revalidateTarget(target: MediaTarget) {
+    if (target === 'stage') {
+        revalidatePath('/admin');
+    } else {
+        revalidatePath('/admin/ukmla');
+        revalidatePath('/ukmla');
+    }
+}
+
+// Images are part of what reviewers approve, so changing them reopens an approved question
+async function reopenQuestionAfterMediaChange(target: MediaTarget, questionId: number | undefined) {
+    if (target !== 'ukmla_question' || questionId === undefined) return;
+    const userId = await getCurrentUserId();
+    if (userId) await reopenEditedUkmlaQuestion(questionId, userId);
+}
+
+async function attachmentQuestionId(target: MediaTarget, id: number) {
+    if (target !== 'ukmla_question') return undefined;
+    const row = await db.query.ukmlaQuestionMedia.findFirst({
+        where: eq(ukmlaQuestionMedia.id, id),
+        columns: { questionId: true },
+    });
+    return row?.questionId;
+}
+
+async function targetExists(target: MediaTarget, targetId: number) {
+    if (target === 'stage') {
+        // Only the draft takes new media; published versions are frozen
+        return await isDraftStage(targetId);
+    }
+    return Boolean(await db.query.ukmlaQuestions.findFirst({ where: eq(ukmlaQuestions.id, targetId), columns: { id: true } }));
+}
+
+/**
+ * Whether an attachment belongs to a published case version and so can't change
+ */
+async function isFrozenAttachment(target: MediaTarget, id: number) {
+    if (target !== 'stage') return false;
+    const attachment = await db.query.stageMedia.findFirst({ where: eq(stageMedia.id, id), columns: { stageId: true } });
+    return attachment ? !(await isDraftStage(attachment.stageId)) : false;
+}
+
+/**
+ * Drop an asset and its stored file once nothing references it any more
+ */
+async function removeOrphanedAsset(mediaAssetId: number) {
+    const [[stageRefs], [questionRefs]] = await Promise.all([
+        db.select({ total: count() }).from(stageMedia).where(eq(stageMedia.mediaAssetId, mediaAssetId)),
+        db.select({ total: count() }).from(ukmlaQuestionMedia).where(eq(ukmlaQuestionMedia.mediaAssetId, mediaAssetId)),
+    ]);
+
+    if (stageRefs.total > 0 || questionRefs.total > 0) return;
+
+    const [asset] = await db.delete(mediaAssets)
+        .where(eq(mediaAssets.id, mediaAssetId))
+        .returning({ storageKey: mediaAssets.storageKey });
+
+    if (asset) {
+        await getMediaStorage().delete(asset.storageKey);
+    }
+}
+
+/**
+ * Upload an image and attach it to a case stage or UKMLA question.
+ * Expects multipart fields: file, target, targetId, caption, revealOnRequest.
+ */
+export async function uploadMediaAttachment(formData: FormData) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = uploadMediaSchema.safeParse({
+        target: formData.get('target'),
+        targetId: formData.get('targetId'),
+        caption: formData.get('caption') ?? '',
+        revealOnRequest: formData.get('revealOnRequest') ?? 'false',
+    });
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+        return { success: false, message: 'Choose a file to upload' };
+    }
+    if (file.size > maxMediaBytes) {
+        return { success: false, message: `Images must be under ${Math.round(maxMediaBytes / (1024 * 1024))}MB` };
+    }
+
+    // The file's bytes decide its type; the one the browser reports is ignored
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const contentType = detectMediaContentType(bytes);
+    if (!contentType) {
+        return { success: false, message: 'Only PNG, JPEG, WebP and GIF images are supported' };
+    }
+
+    const { target, targetId, caption, revealOnRequest } = parsed.data;
+
+    try {
+        if (!(await targetExists(target, targetId))) {
+            return { success: false, message: target === 'stage' ? 'Stage not found' : 'Question not found' };
+        }
+
+        const storageKey = createStorageKey(contentType);
+        await getMediaStorage().put(storageKey, bytes);
+
+        const [asset] = await db.insert(mediaAssets).values({
+            storageKey,
+            originalName: file.name.slice(0, 255),
+            contentType,
+            sizeBytes: file.size,
+            uploadedByUserId: await getCurrentUserId(),
+        }).returning({ id: mediaAssets.id });
+
+        let attachment: { id: number };
+        if (target === 'stage') {
+            const [{ total }] = await db.select({ total: count() }).from(stageMedia).where(eq(stageMedia.stageId, targetId));
+            [attachment] = await db.insert(stageMedia).values({
+                stageId: targetId,
+                mediaAssetId: asset.id,
+                caption,
+                revealOnRequest,
+                displayOrder: total + 1,
+            }).returning({ id: stageMedia.id });
+        } else {
+            const [{ total }] = await db.select({ total: count() }).from(ukmlaQuestionMedia).where(eq(ukmlaQuestionMedia.questionId, targetId));
+            [attachment] = await db.insert(ukmlaQuestionMedia).values({
+                questionId: targetId,
+                mediaAssetId: asset.id,
+                caption,
+                revealOnRequest,
+                displayOrder: total + 1,
+            }).returning({ id: ukmlaQuestionMedia.id });
+            await reopenQuestionAfterMediaChange(target, targetId);
+        }
+
+        revalidateTarget(target);
+
+        const media: MediaItem = {
+            id: attachment.id,
+            url: getMediaUrl(storageKey),
+            caption,
+            revealOnRequest,
+        };
+        return { success: true, message: 'Media uploaded', media };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Failed to upload media' };
+    }
+}
+
+export async function updateMediaAttachment(data: z.infer<typeof updateMediaSchema>) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = updateMediaSchema.safeParse(data);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { target, id, caption, revealOnRequest, displayOrder } = parsed.data;
+
+    try {
+        if (await isFrozenAttachment(target, id)) {
+            return { success: false, message: 'Published versions cannot be edited. Edit the draft and publish again.' };
+        }
+
+        const questionId = await attachmentQuestionId(target, id);
+        const table = target === 'stage' ? stageMedia : ukmlaQuestionMedia;
+        await db.update(table)
+            .set({ caption, revealOnRequest, displayOrder })
+            .where(eq(table.id, id));
+        await reopenQuestionAfterMediaChange(target, questionId);
+
+        revalidateTarget(target);
+        return { success: true, message: 'Media updated' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
+
+export async function removeMediaAttachment(data: z.infer<typeof removeMediaSchema>) {
+    try {
+        await requireAdmin();
+    } catch {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = removeMediaSchema.safeParse(data);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { target, id } = parsed.data;
+
+    try {
+        if (await isFrozenAttachment(target, id)) {
+            return { success: false, message: 'Published versions cannot be edited. Edit the draft and publish again.' };
+        }
+
+        const questionId = await attachmentQuestionId(target, id);
+        const table = target === 'stage' ? stageMedia : ukmlaQuestionMedia;
+        const [removed] = await db.delete(table)
+            .where(eq(table.id, id))
+            .returning({ mediaAssetId: table.mediaAssetId });
+
+        if (removed) {
+            await removeOrphanedAsset(removed.mediaAssetId);
+        }
+        await reopenQuestionAfterMediaChange(target, questionId);
+
+        revalidateTarget(target);
+        return { success: true, message: 'Media removed' };
+    } catch (e) {
+        console.error(e);
+        return { success: false, message: 'Database error' };
+    }
+}
@@ -0,0 +1,199 @@
+'use server';
+
+import { asc, count, desc, eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { db } from '@/db';
+import { osceAttempts, osceChecklistItems, osceStations } from '@/db/schema';
+import { getCurrentUserId, requireAdmin } from '@/lib/admin';
+import {
+    createOsceStationSchema,
+    updateOsceStationSchema,
+    type CreateOsceStationInput,
+    type UpdateOsceStationInput,
+} from '@/schemas/osce';
+
+export async function getAdminOsceStations() {
+    await requireAdmin();
+
+    const [stations, attemptCounts] = await Promise.all([
+        db.query.osceStations.findMany({
+            orderBy: [desc(osceStations.updatedAt)],
+            with: {
+                checklistItems: {
+                    columns: { marks: true },
+                },
+            },
+        }),
+        db
+            .select({ stationId: osceAttempts.stationId, total: count() })
+            .from(osceAttempts)
+            .groupBy(osceAttempts.stationId),
+    ]);
+
+    const attemptsByStation = new Map(attemptCounts.map((row) => [row.stationId, row.total]));
+
+    return stations.map(({ checklistItems, ...station }) => ({
+        ...station,
+        itemCount: checklistItems.length,
+        maxScore: checklistItems.reduce((total, item) => total + item.marks, 0),
+        attemptCount: attemptsByStation.get(station.id) ?? 0,
+    }));
+}
+
+export async function getAdminOsceStation(id: number) {
+    await requireAdmin();
+
+    return db.query.osceStations.findFirst({
+        where: eq(osceStations.id, id),
+        with: {
+            checklistItems: {
+                orderBy: [asc(osceChecklistItems.itemOrder)],
+            },
+        },
+    });
+}
+
+export async function createOsceStation(input: CreateOsceStationInput) {
+    await requireAdmin();
+    const creatorId = await getCurrentUserId();
+    if (!creatorId) return { success: false, message: 'Unauthorized' };
+
+    const parsed = createOsceStationSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0]?.message || 'Invalid input' };
+    }
+
+    try {
+        const [station] = await db
+            .insert(osceStations)
+            .values({
+                createdByUserId: creatorId,
+                title: parsed.data.title,
+                clinicalDomain: parsed.data.clinicalDomain,
+                candidateBrief: parsed.data.candidateBrief,
+                examinerNotes: parsed.data.examinerNotes || null,
+                durationSeconds: parsed.data.durationSeconds,
+                isPublished: false,
+            })
+            .returning();
+
+        await db.insert(osceChecklistItems).values(
+            parsed.data.checklistItems.map((item, index) => ({
+                stationId: station.id,
+                description: item.description,
+                marks: item.marks,
+                itemOrder: index + 1,
+            }))
+        );
+
+        revalidatePath('/admin/osce');
+
+        return { success: true, data: { id: station.id } };
+    } catch (error) {
+        console.error('Error creating OSCE station:', error);
+        return { success: false, message: 'Failed to create station' };
+    }
+}
+
+/**
+ * Save a station. Past attempts keep the checklist they were marked against,
+ * so the items can simply be replaced.
+ */
+export async function updateOsceStation(input: UpdateOsceStationInput) {
+    await requireAdmin();
+
+    const parsed = updateOsceStationSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0]?.message || 'Invalid input' };
+    }
+
+    try {
+        const [updated] = await db
+            .update(osceStations)
+            .set({
+                title: parsed.data.title,
+                clinicalDomain: parsed.data.clinicalDomain,
+                candidateBrief: parsed.data.candidateBrief,
+                examinerNotes: parsed.data.examinerNotes || null,
+                durationSeconds: parsed.data.durationSeconds,
+                updatedAt: new Date(),
+            })
+            .where(eq(osceStations.id, parsed.data.id))
+            .returning({ id: osceStations.id });
+
+        if (!updated) {
+            return { success: false, message: 'Station not found' };
+        }
+
+        await db.delete(osceChecklistItems).where(eq(osceChecklistItems.stationId, parsed.data.id));
+
+        await db.insert(osceChecklistItems).values(
+            parsed.data.checklistItems.map((item, index) => ({
+                stationId: parsed.data.id,
+                description: item.description,
+                marks: item.marks,
+                itemOrder: index + 1,
+            }))
+        );
+
+        revalidatePath('/admin/osce');
+        revalidatePath(`/admin/osce/${parsed.data.id}/edit`);
+        revalidatePath('/osce');
+
+        return { success: true };
+    } catch (error) {
+        console.error('Error updating OSCE station:', error);
+        return { success: false, message: 'Failed to update station' };
+    }
+}
+
+export async function deleteOsceStation(id: number) {
+    await requireAdmin();
+
+    try {
+        await db.delete(osceStations).where(eq(osceStations.id, id));
+        revalidatePath('/admin/osce');
+        revalidatePath('/osce');
+        return { success: true };
+    } catch (error) {
+        console.error('Error deleting OSCE station:', error);
+        return { success: false, message: 'Failed to delete station' };
+    }
+}
+
+export async function toggleOscePublish(id: number, publish: boolean) {
+    await requireAdmin();
+
+    try {
+        const station = await db.query.osceStations.findFirst({
+            where: eq(osceStations.id, id),
+            with: {
+                checklistItems: { columns: { id: true } },
+            },
+        });
+
+        if (!station) {
+            return { success: false, message: 'Station not found' };
+        }
+
+        if (publish && station.checklistItems.length === 0) {
+            return { success: false, message: 'Station needs a marking checklist before publishing.' };
+        }
+
+        await db
+            .update(osceStations)
+            .set({
+                isPublished: publish,
+                updatedAt: new Date(),
+            })
+            .where(eq(osceStations.id, id));
+
+        revalidatePath('/admin/osce');
+        revalidatePath('/osce');
+
+        return { success: true };
+    } catch (error) {
+        console.error('Error updating OSCE station publish status:', error);
+        return { success: false, message: 'Failed to update publish status' };
+    }
+}
@@ -0,0 +1,345 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { and, asc, desc, eq, isNull, or } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    osceAttempts,
+    osceChecklistItems,
+    osceSessions,
+    osceStations,
+} from '@/db/schema';
+import { generateJoinCode, JOIN_CODE_ATTEMPTS } from '@/lib/join-codes';
+import { markChecklist } from '@/lib/osce';
+import { getOsceRole, loadOsceSessionState } from '@/lib/osce-session-state';
+import { ensureCurrentUserInDb } from '@/lib/auth-helpers';
+import {
+    joinOsceSessionSchema,
+    submitOsceMarksSchema,
+    type JoinOsceSessionInput,
+    type SubmitOsceMarksInput,
+} from '@/schemas/osce';
+
+/**
+ * Published stations a candidate can sit. The marking checklist stays with the examiner.
+ */
+export async function getPublishedOsceStations() {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized', data: [] };
+    }
+
+    try {
+        const stations = await db.query.osceStations.findMany({
+            where: eq(osceStations.isPublished, true),
+            orderBy: [asc(osceStations.clinicalDomain), asc(osceStations.title)],
+            columns: { id: true, title: true, clinicalDomain: true, durationSeconds: true },
+        });
+
+        return { success: true, message: 'Stations loaded', data: stations };
+    } catch (error) {
+        console.error('Error loading OSCE stations:', error);
+        return { success: false, message: 'Failed to load stations', data: [] };
+    }
+}
+
+/**
+ * Set up a station for the current user to sit. The examiner opens the
+ * marking sheet on their own device with the returned code.
+ */
+export async function startOsceSession(stationId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const station = await db.query.osceStations.findFirst({
+            where: and(eq(osceStations.id, stationId), eq(osceStations.isPublished, true)),
+            columns: { id: true },
+        });
+
+        if (!station) {
+            return { success: false, message: 'Station not found' };
+        }
+
+        await ensureCurrentUserInDb(userId);
+
+        for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+            // The unique join code index rejects a clash, and we draw again
+            const [created] = await db.insert(osceSessions).values({
+                stationId,
+                candidateUserId: userId,
+                joinCode: generateJoinCode(),
+            }).onConflictDoNothing().returning({ id: osceSessions.id });
+
+            if (created) {
+                return { success: true, message: 'Station ready', osceSessionId: created.id };
+            }
+        }
+
+        return { success: false, message: 'Could not create a join code, please try again' };
+    } catch (error) {
+        console.error('Error starting OSCE session:', error);
+        return { success: false, message: 'Failed to set up station' };
+    }
+}
+
+/**
+ * Open a candidate's station as its examiner, using the code the candidate shares
+ */
+export async function joinOsceSessionAsExaminer(input: JoinOsceSessionInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = joinOsceSessionSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    try {
+        const session = await db.query.osceSessions.findFirst({
+            where: eq(osceSessions.joinCode, parsed.data.joinCode),
+            columns: { id: true, candidateUserId: true, examinerUserId: true, status: true },
+        });
+
+        if (!session) {
+            return { success: false, message: 'No station found with that code' };
+        }
+
+        if (session.candidateUserId === userId) {
+            return { success: false, message: 'You cannot examine your own station' };
+        }
+
+        // Rejoining from another device is fine for the same examiner
+        if (session.examinerUserId === userId) {
+            return { success: true, message: 'Rejoined station', osceSessionId: session.id };
+        }
+
+        if (session.status !== 'waiting') {
+            return { success: false, message: 'This station has already started' };
+        }
+
+        await ensureCurrentUserInDb(userId);
+
+        const [claimed] = await db.update(osceSessions)
+            .set({ examinerUserId: userId, updatedAt: new Date() })
+            .where(and(
+                eq(osceSessions.id, session.id),
+                eq(osceSessions.status, 'waiting'),
+                isNull(osceSessions.examinerUserId)
+            ))
+            .returning({ id: osceSessions.id });
+
+        if (!claimed) {
+            return { success: false, message: 'This station already has an examiner' };
+        }
+
+        return { success: true, message: 'Joined as examiner', osceSessionId: session.id };
+    } catch (error) {
+        console.error('Error joining OSCE session:', error);
+        return { success: false, message: 'Failed to join station' };
+    }
+}
+
+/**
+ * Start the station clock. The examiner starts it once the candidate is ready.
+ */
+export async function startOsceStation(osceSessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const [started] = await db.update(osceSessions)
+            .set({ status: 'running', startedAt: new Date(), updatedAt: new Date() })
+            .where(and(
+                eq(osceSessions.id, osceSessionId),
+                eq(osceSessions.examinerUserId, userId),
+                eq(osceSessions.status, 'waiting')
+            ))
+            .returning({ id: osceSessions.id });
+
+        if (!started) {
+            return { success: false, message: 'Only the examiner can start a station that is waiting' };
+        }
+
+        const state = await loadOsceSessionState(osceSessionId, 'examiner');
+        return { success: true, message: 'Station started', osce: state };
+    } catch (error) {
+        console.error('Error starting OSCE station:', error);
+        return { success: false, message: 'Failed to start station' };
+    }
+}
+
+/**
+ * Submit the examiner's marking sheet. The examiner can finish marking after
+ * the clock runs out; the result is recorded once.
+ */
+export async function submitOsceMarks(input: SubmitOsceMarksInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = submitOsceMarksSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { osceSessionId, awardedItemIds, globalRating, examinerComments } = parsed.data;
+
+    try {
+        const session = await db.query.osceSessions.findFirst({
+            where: and(
+                eq(osceSessions.id, osceSessionId),
+                eq(osceSessions.examinerUserId, userId)
+            ),
+            columns: { id: true, stationId: true, candidateUserId: true, status: true },
+        });
+
+        if (!session) {
+            return { success: false, message: 'Station not found' };
+        }
+
+        if (session.status !== 'running') {
+            return { success: false, message: 'Start the station before marking it' };
+        }
+
+        const items = await db.query.osceChecklistItems.findMany({
+            where: eq(osceChecklistItems.stationId, session.stationId),
+            orderBy: [asc(osceChecklistItems.itemOrder)],
+            columns: { id: true, description: true, marks: true },
+        });
+
+        if (awardedItemIds.some((itemId) => !items.some((item) => item.id === itemId))) {
+            return { success: false, message: 'Checklist item does not belong to this station' };
+        }
+
+        // Guarded on the running status, so a double submit only records one attempt
+        const [completed] = await db.update(osceSessions)
+            .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+            .where(and(
+                eq(osceSessions.id, osceSessionId),
+                eq(osceSessions.status, 'running')
+            ))
+            .returning({ id: osceSessions.id });
+
+        if (!completed) {
+            return { success: false, message: 'This station has already been marked' };
+        }
+
+        const marked = markChecklist(items, awardedItemIds);
+
+        await db.insert(osceAttempts).values({
+            userId: session.candidateUserId,
+            stationId: session.stationId,
+            osceSessionId,
+            examinerUserId: userId,
+            score: marked.score,
+            maxScore: marked.maxScore,
+            globalRating,
+            checklist: marked.checklist,
+            examinerComments: examinerComments || null,
+        });
+
+        const state = await loadOsceSessionState(osceSessionId, 'examiner');
+        return { success: true, message: 'Marks submitted', osce: state };
+    } catch (error) {
+        console.error('Error submitting OSCE marks:', error);
+        return { success: false, message: 'Failed to submit marks' };
+    }
+}
+
+/**
+ * Call off a station that hasn't been marked. Either the candidate or the examiner can.
+ */
+export async function abandonOsceSession(osceSessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const [abandoned] = await db.update(osceSessions)
+            .set({ status: 'abandoned', updatedAt: new Date() })
+            .where(and(
+                eq(osceSessions.id, osceSessionId),
+                or(eq(osceSessions.candidateUserId, userId), eq(osceSessions.examinerUserId, userId)),
+                or(eq(osceSessions.status, 'waiting'), eq(osceSessions.status, 'running'))
+            ))
+            .returning({ id: osceSessions.id });
+
+        if (!abandoned) {
+            return { success: false, message: 'Station not found' };
+        }
+
+        return { success: true, message: 'Station abandoned' };
+    } catch (error) {
+        console.error('Error abandoning OSCE session:', error);
+        return { success: false, message: 'Failed to abandon station' };
+    }
+}
+
+/**
+ * The station as the current user sees it, for the first render before
+ * server-sent events take over
+ */
+export async function getOsceSession(osceSessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const role = await getOsceRole(osceSessionId, userId);
+        if (!role) {
+            return { success: false, message: 'Station not found' };
+        }
+
+        const state = await loadOsceSessionState(osceSessionId, role);
+        if (!state) {
+            return { success: false, message: 'Station not found' };
+        }
+
+        return { success: true, message: 'Station loaded', data: { osce: state, role } };
+    } catch (error) {
+        console.error('Error loading OSCE session:', error);
+        return { success: false, message: 'Failed to load station' };
+    }
+}
+
+/**
+ * The current user's marked stations, newest first
+ */
+export async function getMyOsceAttempts() {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized', data: [] };
+    }
+
+    try {
+        const attempts = await db.query.osceAttempts.findMany({
+            where: eq(osceAttempts.userId, userId),
+            orderBy: [desc(osceAttempts.completedAt)],
+            columns: { id: true, osceSessionId: true, score: true, maxScore: true, globalRating: true, completedAt: true },
+            with: { station: { columns: { title: true, clinicalDomain: true } } },
+        });
+
+        return { success: true, message: 'Results loaded', data: attempts };
+    } catch (error) {
+        console.error('Error loading OSCE attempts:', error);
+        return { success: false, message: 'Failed to load results', data: [] };
+    }
+}
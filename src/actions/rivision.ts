@@ -442,7 +442,7 @@ async function collectEvidence(userId: string, key: RivisionNoteKey) {
         }),
     ]);
 
-    const caseEvidence: Array<{ attemptId: number; score: number; title: string; description: string }> = [];
+    const caseEvidence: Array<{ attemptId: number; score: number; hintsUsed: number; title: string; description: string }> = [];
     const ukmlaEvidence: Array<{ attemptId: number; isCorrect: boolean; stem: string; explanation: string }> = [];
 
     for (const row of caseRows) {
@@ -457,6 +457,7 @@ async function collectEvidence(userId: string, key: RivisionNoteKey) {
         caseEvidence.push({
             attemptId: row.id,
             score: row.score,
+            hintsUsed: row.hintsUsed,
             title: row.case.title,
             description: row.case.description,
         });
@@ -612,7 +613,8 @@ async function refreshRivisionNoteInternal(
             noteId,
             sourceType: 'case_attempt' as const,
             sourceId: row.attemptId,
-            weight: isScoreLow(row.score) ? 3 : 1,
+            // A pass that needed hints is weaker evidence of mastery than an unaided one
+            weight: isScoreLow(row.score) ? 3 : row.hintsUsed > 0 ? 2 : 1,
         })),
         ...evidence.ukmlaEvidence.map((row) => ({
             noteId,
@@ -1,35 +1,107 @@
 'use server';
 
 import { db } from '@/db';
-import { cases } from '@/db/schema';
-import { eq, and, or } from 'drizzle-orm';
+import { cases, simulationSessions, teamSessions } from '@/db/schema';
+import { eq, and, desc, isNull } from 'drizzle-orm';
 import { auth } from '@clerk/nextjs/server';
-import { CaseWithStagesAndOptions } from '@/types/simulator-types';
+import { CasePreview, CaseWithStagesAndOptions } from '@/types/simulator-types';
+import { isAdmin, requireAdmin } from '@/lib/admin';
+import { toMediaItem } from '@/lib/media';
+import { getStageTimeLimit } from '@/lib/timed-stages';
+import { inCaseVersion, loadCaseSettings } from '@/lib/case-versions';
+import { getTeamMembership, getTeamSimulation } from '@/lib/team-session-state';
 
 /**
- * Loads a case for the simulator.
- * 
+ * The version a user plays: that of the team's shared session when a team is
+ * given, else of their own session in progress, else the published version
+ * (null, the draft, for a case never published). Undefined if they aren't on the team.
+ */
+async function resolvePlayedVersion(
+    caseId: number,
+    publishedVersionId: number | null,
+    userId: string | null,
+    teamSessionId?: number
+): Promise<number | null | undefined> {
+    if (teamSessionId !== undefined) {
+        if (!userId || !(await getTeamMembership(teamSessionId, userId))) return undefined;
+        const team = await db.query.teamSessions.findFirst({
+            where: and(eq(teamSessions.id, teamSessionId), eq(teamSessions.caseId, caseId)),
+            columns: { id: true },
+        });
+        if (!team) return undefined;
+        const simulation = await getTeamSimulation(teamSessionId);
+        return simulation ? simulation.caseVersionId : publishedVersionId;
+    }
+
+    const session = userId ? await db.query.simulationSessions.findFirst({
+        where: and(
+            eq(simulationSessions.userId, userId),
+            eq(simulationSessions.caseId, caseId),
+            eq(simulationSessions.status, 'in_progress'),
+            isNull(simulationSessions.teamSessionId)
+        ),
+        orderBy: [desc(simulationSessions.startedAt)],
+        columns: { caseVersionId: true },
+    }) : undefined;
+    return session ? session.caseVersionId : publishedVersionId;
+}
+
+/**
+ * Loads a case for the simulator, in the version the user is playing.
+ *
  * Rules:
- * 1. If the case is PUBLISHED, anyone can play it.
- * 2. If the case is DRAFT (not published), only the OWNER can play it (for testing).
+ * 1. If the case is PUBLISHED, anyone can play its published versions.
+ * 2. The draft, and any case not published, is only for its OWNER (for testing) or an admin.
+ *
+ * A session under way keeps the version it started on, so republishing doesn't
+ * change a case mid-attempt.
  */
-export async function loadCaseForSimulator(caseId: number): Promise<CaseWithStagesAndOptions | null> {
+export async function loadCaseForSimulator(caseId: number, options: { teamSessionId?: number } = {}): Promise<CaseWithStagesAndOptions | null> {
     const { userId } = await auth();
 
-    // conditions: 
-    // (id = caseId) AND (isPublished = true OR (userId != null AND userId = caseOwnerId))
+    const caseRow = await db.query.cases.findFirst({
+        where: eq(cases.id, caseId),
+        columns: { userId: true, isPublished: true, publishedVersionId: true },
+    });
+    if (!caseRow) {
+        return null;
+    }
+
+    const caseVersionId = await resolvePlayedVersion(caseId, caseRow.publishedVersionId, userId, options.teamSessionId);
+    if (caseVersionId === undefined) {
+        return null;
+    }
 
-    // We can't easily do the OR check in a single simple query builder call without raw SQL or helper
-    // so we'll fetch the case first and then check permissions in code, or use advanced where clause.
-    // Let's use the code check for clarity and security.
+    // Permission check
+    const isOwner = Boolean(userId) && caseRow.userId === userId;
+    if ((!caseRow.isPublished || caseVersionId === null) && !isOwner && !(await isAdmin())) {
+        return null; // Not allowed to see a draft if not owner
+    }
 
     const medicalCase = await db.query.cases.findFirst({
         where: eq(cases.id, caseId),
         with: {
             stages: {
+                where: (stages) => inCaseVersion(stages.caseVersionId, caseVersionId),
                 orderBy: (stages, { asc }) => [asc(stages.stageOrder)],
                 with: {
-                    options: true,
+                    // Options carry nextStageId/outcome so the player can walk the branches
+                    options: {
+                        orderBy: (options, { asc }) => [asc(options.id)],
+                        // Anything that tells a right answer from a wrong one is scored and explained on the server
+                        columns: {
+                            isCorrect: false,
+                            scoreWeight: false,
+                            feedback: false,
+                            safetyClass: false,
+                            acceptedAnswers: false,
+                            correctPosition: false,
+                        },
+                    },
+                    media: {
+                        orderBy: (media, { asc }) => [asc(media.displayOrder), asc(media.id)],
+                        with: { asset: { columns: { storageKey: true } } },
+                    },
                 }
             }
         }
@@ -39,15 +111,73 @@ export async function loadCaseForSimulator(caseId: number): Promise<CaseWithStag
         return null;
     }
 
-    // Permission check
-    const isOwner = userId && medicalCase.userId === userId;
-    const isPublished = medicalCase.isPublished;
-
-    if (!isPublished && !isOwner) {
-        return null; // Not allowed to see draft if not owner
+    // Play settings come from the version too
+    const settings = await loadCaseSettings(caseId, caseVersionId);
+    if (!settings) {
+        return null;
     }
 
     // Cast the result to our strict type to ensure it matches what the frontend expects
     // The query result should match the shape, but Drizzle types can be complex
-    return medicalCase as unknown as CaseWithStagesAndOptions;
+    return {
+        ...medicalCase,
+        ...settings,
+        caseVersionId,
+        stages: medicalCase.stages.map(({ media, patientScript, hints, ...stage }) => ({
+            ...stage,
+            hintCosts: hints.map((hint) => hint.cost),
+            media: media.map(toMediaItem),
+            patientOpening: patientScript?.openingStatement ?? null,
+            timeLimitSeconds: getStageTimeLimit(stage, settings.stageTimeLimitSeconds),
+        })),
+    } as unknown as CaseWithStagesAndOptions;
+}
+
+/**
+ * Loads any case's draft for an admin to test-play, with the answers, weights
+ * and scripts the student player keeps on the server. Previews run in the
+ * browser, so nothing about them is recorded.
+ */
+export async function loadCasePreview(caseId: number): Promise<CasePreview | null> {
+    await requireAdmin();
+
+    const medicalCase = await db.query.cases.findFirst({
+        where: eq(cases.id, caseId),
+        with: {
+            stages: {
+                where: (stages) => isNull(stages.caseVersionId),
+                orderBy: (stages, { asc }) => [asc(stages.stageOrder), asc(stages.id)],
+                with: {
+                    options: { orderBy: (options, { asc }) => [asc(options.id)] },
+                    investigations: { orderBy: (investigations, { asc }) => [asc(investigations.id)] },
+                    media: {
+                        orderBy: (media, { asc }) => [asc(media.displayOrder), asc(media.id)],
+                        with: { asset: { columns: { storageKey: true } } },
+                    },
+                }
+            }
+        }
+    });
+
+    if (!medicalCase) {
+        return null;
+    }
+
+    const settings = await loadCaseSettings(caseId, null);
+    if (!settings) {
+        return null;
+    }
+
+    return {
+        ...medicalCase,
+        ...settings,
+        stages: medicalCase.stages.map(({ media, investigations, ...stage }) => ({
+            ...stage,
+            investigations: investigations.map(({ investigation, result, isIndicated }) => ({ investigation, result, isIndicated })),
+            hintCosts: stage.hints.map((hint) => hint.cost),
+            media: media.map(toMediaItem),
+            patientOpening: stage.patientScript?.openingStatement ?? null,
+            timeLimitSeconds: getStageTimeLimit(stage, settings.stageTimeLimitSeconds),
+        })),
+    } as unknown as CasePreview;
 }
@@ -1,6 +1,6 @@
 'use server';
 
-import { auth, currentUser } from '@clerk/nextjs/server';
+import { auth } from '@clerk/nextjs/server';
 import { db } from '@/db';
 import {
     studentAttempts,
@@ -8,7 +8,14 @@ import {
     users,
     cases,
     caseStages,
-    stageOptions,
+    simulationSessions,
+    sessionDecisions,
+    stageInvestigations,
+    sessionInvestigations,
+    sessionHistoryMessages,
+    sessionHints,
+    teamSessionMembers,
+    teamSessions,
     categoryStats,
     difficultyStats,
     spacedRepetitionCards,
@@ -16,18 +23,324 @@ import {
     ukmlaCategoryStats,
     ukmlaDifficultyStats,
     ukmlaUserStats,
+    osceAttempts,
+    rivisionContextClusters,
+    rivisionNoteTaxonomy,
+    type ClinicalData,
+    type PatientScript,
+    type TeamRole,
 } from '@/db/schema';
-import { eq, desc, sql, and, lte, inArray } from 'drizzle-orm';
+import { eq, desc, asc, sql, and, lte, inArray, isNotNull, isNull, type SQL } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
+import { getStartStage, resolveNextStep } from '@/lib/case-graph';
+import { inCaseVersion, loadCaseSettings } from '@/lib/case-versions';
+import {
+    orderInvestigationSchema,
+    requestHintSchema,
+    submitDecisionSchema,
+    type OrderInvestigationInput,
+    type RequestHintInput,
+    type SubmitDecisionInput,
+} from '@/schemas/case-simulator';
+import { resolveInvestigationOrder, scoreMissedInvestigations } from '@/lib/investigations';
+import { scoreHistoryTaking } from '@/lib/history-taking';
+import { getCorrectOrder, resolveDecision, type ResolvedDecision } from '@/lib/decision-types';
+import { toDecisionFeedback } from '@/lib/decision-feedback';
+import { getOptimalOption } from '@/lib/case-review';
+import { getNextHint, HINTED_RECALL_QUALITY } from '@/lib/hints';
+import { DEFAULT_NO_DECISION_FEEDBACK, getStageTimeLimit, resolveTimeout, secondsSince, summariseDecisionSpeed, TIME_LIMIT_GRACE_SECONDS } from '@/lib/timed-stages';
+import { replayClinicalData } from '@/lib/physiology';
+import { buildCalibrationCurve, findConfidentlyWrongTopics, prioritiseConfidentlyWrong } from '@/lib/calibration';
+import { loadRatedAnswers } from '@/lib/rated-answers';
+import { loadCaseSessionState } from '@/lib/case-session-state';
+import { getTeamMembership } from '@/lib/team-session-state';
+import { classifyDecision, summariseSafety } from '@/lib/patient-safety';
+import { toMediaItem } from '@/lib/media';
+import { summariseOsceAttempts } from '@/lib/osce';
+import { createVariantSeed, fillCaseText, instantiateCaseTemplate } from '@/lib/case-templates';
+import { ensureCurrentUserInDb } from '@/lib/auth-helpers';
+import type { CaseAttemptReplay, CaseDebrief, HistorySummary, ReplayOption } from '@/types/simulator-types';
 
 const difficultyLevels = ['Foundation', 'Core', 'Advanced'] as const;
+type DifficultyLevel = (typeof difficultyLevels)[number];
 export type AnalyticsMode = 'all' | 'cases' | 'ukmla';
 
 /**
- * Record a student's completion of a case simulation
- * Also updates category stats, difficulty stats, and spaced repetition scheduling
+ * Stages and option routing for one version of a case (null for the draft),
+ * enough to replay or advance a decision path
  */
-export async function recordAttempt(caseId: number, selectedOptionIds: number[]) {
+async function loadCaseGraph(caseId: number, caseVersionId: number | null) {
+    return db.query.caseStages.findMany({
+        where: and(eq(caseStages.caseId, caseId), inCaseVersion(caseStages.caseVersionId, caseVersionId)),
+        columns: {
+            id: true,
+            stageOrder: true,
+            stageType: true,
+            patientScript: true,
+            decisionType: true,
+            timeLimitSeconds: true,
+            hints: true,
+        },
+        with: {
+            options: {
+                columns: {
+                    id: true,
+                    isCorrect: true,
+                    scoreWeight: true,
+                    feedback: true,
+                    nextStageId: true,
+                    outcome: true,
+                    durationMinutes: true,
+                    correctPosition: true,
+                    acceptedAnswers: true,
+                    isTimeout: true,
+                    safetyClass: true,
+                },
+            },
+            investigations: {
+                columns: {
+                    investigation: true,
+                    result: true,
+                    isIndicated: true,
+                },
+            },
+        },
+    });
+}
+
+/**
+ * The insert storing a finished case attempt linked to its decision trail,
+ * pinned to the version and variant that was played. Team sessions store one
+ * attempt per teammate, all sharing the lead's decision trail.
+ */
+function insertCaseAttempt(
+    userId: string,
+    session: { id: number; caseId: number; caseVersionId: number | null; variantSeed: number | null },
+    score: SQL<number>,
+    hintsUsed: number,
+    teamRole: TeamRole | null
+) {
+    return db.insert(studentAttempts).values({
+        userId,
+        caseId: session.caseId,
+        score,
+        sessionId: session.id,
+        hintsUsed,
+        teamRole,
+        caseVersionId: session.caseVersionId,
+        variantSeed: session.variantSeed,
+    });
+}
+
+/**
+ * Update aggregate stats and the spaced repetition schedule for a finished
+ * case attempt
+ */
+async function updateAttemptStats(
+    userId: string,
+    caseId: number,
+    caseData: { clinicalDomain: string; difficultyLevel: DifficultyLevel },
+    score: number,
+    hintsUsed: number
+) {
+    // Update or create user stats
+    const existingStats = await db.query.userStats.findFirst({
+        where: eq(userStats.userId, userId),
+    });
+
+    if (existingStats) {
+        // Update existing stats
+        const newTotalAttempts = existingStats.totalAttempts + 1;
+        const newTotalScore = existingStats.totalScore + score;
+        const newAverageScore = Math.round(newTotalScore / newTotalAttempts);
+
+        await db
+            .update(userStats)
+            .set({
+                totalAttempts: newTotalAttempts,
+                totalScore: newTotalScore,
+                averageScore: newAverageScore,
+                lastActivityAt: new Date(),
+            })
+            .where(eq(userStats.userId, userId));
+    } else {
+        // Create new stats
+        await db.insert(userStats).values({
+            userId,
+            totalAttempts: 1,
+            totalScore: score,
+            averageScore: score,
+            lastActivityAt: new Date(),
+        });
+    }
+
+    // Update or create category stats
+    const existingCategoryStats = await db.query.categoryStats.findFirst({
+        where: and(
+            eq(categoryStats.userId, userId),
+            eq(categoryStats.clinicalDomain, caseData.clinicalDomain)
+        ),
+    });
+
+    if (existingCategoryStats) {
+        const newTotalAttempts = existingCategoryStats.totalAttempts + 1;
+        const newTotalScore = existingCategoryStats.totalScore + score;
+        const newAverageScore = Math.round(newTotalScore / newTotalAttempts);
+
+        await db
+            .update(categoryStats)
+            .set({
+                totalAttempts: newTotalAttempts,
+                totalScore: newTotalScore,
+                averageScore: newAverageScore,
+                lastAttemptAt: new Date(),
+            })
+            .where(
+                and(
+                    eq(categoryStats.userId, userId),
+                    eq(categoryStats.clinicalDomain, caseData.clinicalDomain)
+                )
+            );
+    } else {
+        await db.insert(categoryStats).values({
+            userId,
+            clinicalDomain: caseData.clinicalDomain,
+            totalAttempts: 1,
+            totalScore: score,
+            averageScore: score,
+            lastAttemptAt: new Date(),
+        });
+    }
+
+    // Update or create difficulty stats
+    const existingDifficultyStats = await db.query.difficultyStats.findFirst({
+        where: and(
+            eq(difficultyStats.userId, userId),
+            eq(difficultyStats.difficultyLevel, caseData.difficultyLevel)
+        ),
+    });
+
+    if (existingDifficultyStats) {
+        const newTotalAttempts = existingDifficultyStats.totalAttempts + 1;
+        const newTotalScore = existingDifficultyStats.totalScore + score;
+        const newAverageScore = Math.round(newTotalScore / newTotalAttempts);
+
+        await db
+            .update(difficultyStats)
+            .set({
+                totalAttempts: newTotalAttempts,
+                totalScore: newTotalScore,
+                averageScore: newAverageScore,
+                lastAttemptAt: new Date(),
+            })
+            .where(
+                and(
+                    eq(difficultyStats.userId, userId),
+                    eq(difficultyStats.difficultyLevel, caseData.difficultyLevel)
+                )
+            );
+    } else {
+        await db.insert(difficultyStats).values({
+            userId,
+            difficultyLevel: caseData.difficultyLevel,
+            totalAttempts: 1,
+            totalScore: score,
+            averageScore: score,
+            lastAttemptAt: new Date(),
+        });
+    }
+
+    // Update or create spaced repetition card using SM-2 algorithm
+    const existingCard = await db.query.spacedRepetitionCards.findFirst({
+        where: and(
+            eq(spacedRepetitionCards.userId, userId),
+            eq(spacedRepetitionCards.caseId, caseId)
+        ),
+    });
+
+    // Calculate quality (0-5 scale) from score
+    // Assuming scores can range widely, normalize to 0-5
+    // For simplicity: score > 20 = 5 (perfect), score > 10 = 4, score > 0 = 3, score > -10 = 2, score > -20 = 1, else 0
+    let quality = 0;
+    if (score > 20) quality = 5;
+    else if (score > 10) quality = 4;
+    else if (score > 0) quality = 3;
+    else if (score > -10) quality = 2;
+    else if (score > -20) quality = 1;
+
+    // Success with hints isn't unaided recall, so the case comes back sooner
+    if (hintsUsed > 0) quality = Math.min(quality, HINTED_RECALL_QUALITY);
+
+    let nextReviewDate: Date;
+    let reviewInterval: number;
+
+    if (existingCard) {
+        // Update using SM-2 algorithm
+        let newEaseFactor = existingCard.easeFactor;
+        let newInterval = existingCard.interval;
+        let newRepetitions = existingCard.repetitions;
+
+        if (quality >= 3) {
+            // Successful review
+            newRepetitions += 1;
+
+            if (newRepetitions === 1) {
+                newInterval = 1;
+            } else if (newRepetitions === 2) {
+                newInterval = 6;
+            } else {
+                newInterval = Math.round(newInterval * (newEaseFactor / 1000));
+            }
+
+            // Update ease factor
+            newEaseFactor = Math.max(
+                1300,
+                newEaseFactor + (100 * (3.6 - (5 - quality) * (0.08 + (5 - quality) * 0.02)))
+            );
+        } else {
+            // Failed review - reset
+            newRepetitions = 0;
+            newInterval = 1;
+        }
+
+        nextReviewDate = new Date();
+        nextReviewDate.setDate(nextReviewDate.getDate() + newInterval);
+        reviewInterval = newInterval;
+
+        await db
+            .update(spacedRepetitionCards)
+            .set({
+                repetitions: newRepetitions,
+                easeFactor: Math.round(newEaseFactor),
+                interval: newInterval,
+                nextReviewDate,
+                lastReviewedAt: new Date(),
+            })
+            .where(eq(spacedRepetitionCards.id, existingCard.id));
+    } else {
+        // Create new card
+        nextReviewDate = new Date();
+        nextReviewDate.setDate(nextReviewDate.getDate() + 1); // Review tomorrow
+        reviewInterval = 1;
+
+        await db.insert(spacedRepetitionCards).values({
+            userId,
+            caseId,
+            repetitions: 0,
+            easeFactor: 2500, // Default 2.5
+            interval: 1,
+            nextReviewDate,
+            lastReviewedAt: new Date(),
+        });
+    }
+    return { nextReviewDate, reviewInterval };
+}
+
+/**
+ * Resume the student's in-progress session for a case, or start a new one.
+ * A refreshed tab picks up at the stage the server last recorded.
+ */
+export async function startCaseSession(caseId: number, options: { restart?: boolean } = {}) {
     const { userId } = await auth();
 
     if (!userId) {
@@ -35,254 +348,500 @@ export async function recordAttempt(caseId: number, selectedOptionIds: number[])
     }
 
     try {
-        if (!selectedOptionIds || selectedOptionIds.length === 0) {
-            return { success: false, message: 'No options selected' };
-        }
-
-        const user = await currentUser();
-        if (user?.id) {
-            const adminEmailsString = process.env.ADMIN_EMAILS || '';
-            const adminEmails = adminEmailsString
-                .split(',')
-                .map(email => email.trim().toLowerCase())
-                .filter(email => email.length > 0);
-            const userEmail = user.emailAddresses[0]?.emailAddress?.toLowerCase();
-            const role = userEmail && adminEmails.includes(userEmail) ? 'admin' : 'student';
-
-            await db.insert(users).values({
-                id: user.id,
-                email: user.emailAddresses[0]?.emailAddress || `${user.id}@unknown.local`,
-                firstName: user.firstName || null,
-                lastName: user.lastName || null,
-                imageUrl: user.imageUrl || null,
-                role,
-            }).onConflictDoNothing();
-        }
-
-        // Fetch the case to get clinicalDomain and difficultyLevel
         const caseData = await db.query.cases.findFirst({
             where: eq(cases.id, caseId),
             columns: {
-                clinicalDomain: true,
-                difficultyLevel: true,
+                userId: true,
+                isPublished: true,
+                publishedVersionId: true,
             },
         });
 
-        if (!caseData) {
+        // Same access rule as loadCaseForSimulator: published, or a draft the user owns
+        if (!caseData || (!caseData.isPublished && caseData.userId !== userId)) {
             return { success: false, message: 'Case not found' };
         }
 
-        // Calculate score server-side from selected option IDs for this case
-        const optionRows = await db
-            .select({ scoreWeight: stageOptions.scoreWeight, optionId: stageOptions.id })
-            .from(stageOptions)
-            .innerJoin(caseStages, eq(stageOptions.stageId, caseStages.id))
-            .where(
-                and(
-                    eq(caseStages.caseId, caseId),
-                    inArray(stageOptions.id, selectedOptionIds)
-                )
-            );
+        await ensureCurrentUserInDb(userId);
+
+        const existing = await db.query.simulationSessions.findFirst({
+            where: and(
+                eq(simulationSessions.userId, userId),
+                eq(simulationSessions.caseId, caseId),
+                eq(simulationSessions.status, 'in_progress'),
+                // A team lead's shared session is only played from the team page
+                isNull(simulationSessions.teamSessionId)
+            ),
+            orderBy: [desc(simulationSessions.startedAt)],
+        });
 
-        if (optionRows.length !== selectedOptionIds.length) {
-            return { success: false, message: 'Invalid options for this case' };
+        if (existing && !options.restart) {
+            // Published versions are frozen, so a session resumes on the version it
+            // started on; only a draft stage can have been deleted from under it
+            const existingStages = await loadCaseGraph(caseId, existing.caseVersionId);
+            if (existingStages.some((stage) => stage.id === existing.currentStageId)) {
+                const state = await loadCaseSessionState(existing.id);
+                return { success: true, message: 'Session resumed', session: state };
+            }
         }
 
-        const score = optionRows.reduce((sum, row) => sum + (row.scoreWeight || 0), 0);
+        // New sessions play the live version; a case never published plays its draft
+        const caseVersionId = caseData.publishedVersionId;
+        const [stages, settings] = await Promise.all([
+            loadCaseGraph(caseId, caseVersionId),
+            loadCaseSettings(caseId, caseVersionId),
+        ]);
+        const startStage = getStartStage(stages);
+        if (!startStage) {
+            return { success: false, message: 'Case has no stages' };
+        }
 
-        // Insert the attempt
-        await db.insert(studentAttempts).values({
+        if (existing) {
+            await db.update(simulationSessions)
+                .set({ status: 'abandoned', updatedAt: new Date() })
+                .where(eq(simulationSessions.id, existing.id));
+        }
+
+        // Every attempt at a templated case gets a fresh variant
+        const [created] = await db.insert(simulationSessions).values({
             userId,
             caseId,
+            caseVersionId,
+            currentStageId: startStage.id,
+            variantSeed: settings?.templateVariables?.length ? createVariantSeed() : null,
+        }).returning({ id: simulationSessions.id });
+
+        const state = await loadCaseSessionState(created.id);
+        return { success: true, message: 'Session started', session: state };
+    } catch (error) {
+        console.error('Error starting case session:', error);
+        return { success: false, message: 'Failed to start session' };
+    }
+}
+
+/**
+ * Order an investigation at the session's current stage. The result is only
+ * revealed here; unindicated requests cost score and all of them cost time.
+ */
+export async function orderInvestigation(input: OrderInvestigationInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = orderInvestigationSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { sessionId, stageId, investigation } = parsed.data;
+
+    try {
+        const session = await db.query.simulationSessions.findFirst({
+            where: and(
+                eq(simulationSessions.id, sessionId),
+                eq(simulationSessions.userId, userId)
+            ),
+        });
+
+        if (!session) {
+            return { success: false, message: 'Session not found' };
+        }
+
+        if (session.status !== 'in_progress' || session.currentStageId !== stageId) {
+            return { success: false, message: 'Investigations can only be ordered at the current stage' };
+        }
+
+        const decided = await db.query.sessionDecisions.findFirst({
+            where: and(
+                eq(sessionDecisions.sessionId, sessionId),
+                eq(sessionDecisions.stageId, stageId)
+            ),
+            columns: { id: true },
+        });
+
+        if (decided) {
+            return { success: false, message: 'This stage has already been decided' };
+        }
+
+        const stageRows = await db.query.stageInvestigations.findMany({
+            where: eq(stageInvestigations.stageId, stageId),
+        });
+        const order = resolveInvestigationOrder(stageRows, investigation);
+
+        // The unique (session, stage, investigation) index guards against repeat orders
+        const inserted = await db.insert(sessionInvestigations).values({
+            sessionId,
+            stageId,
+            investigation,
+            result: order.result,
+            isIndicated: order.isIndicated,
+            scoreDelta: order.scoreDelta,
+        }).onConflictDoNothing().returning({ id: sessionInvestigations.id });
+
+        if (inserted.length === 0) {
+            return { success: false, message: 'This investigation has already been ordered' };
+        }
+
+        // Increment in SQL so concurrent requests on the session don't overwrite each other
+        const [{ score, elapsedMinutes }] = await db.update(simulationSessions)
+            .set({
+                score: sql`${simulationSessions.score} + ${order.scoreDelta}`,
+                elapsedMinutes: sql`${simulationSessions.elapsedMinutes} + ${order.durationMinutes}`,
+                updatedAt: new Date(),
+            })
+            .where(eq(simulationSessions.id, sessionId))
+            .returning({ score: simulationSessions.score, elapsedMinutes: simulationSessions.elapsedMinutes });
+
+        return {
+            success: true,
+            message: 'Investigation ordered',
+            investigation,
+            result: order.result,
             score,
+            elapsedMinutes,
+        };
+    } catch (error) {
+        console.error('Error ordering investigation:', error);
+        return { success: false, message: 'Failed to order investigation' };
+    }
+}
+
+/**
+ * Reveal the next hint tier at the session's current stage. Hint text is only
+ * sent once requested, and each tier costs score.
+ */
+export async function requestHint(input: RequestHintInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = requestHintSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { sessionId, stageId } = parsed.data;
+
+    try {
+        const session = await db.query.simulationSessions.findFirst({
+            where: and(
+                eq(simulationSessions.id, sessionId),
+                eq(simulationSessions.userId, userId)
+            ),
         });
 
-        // Update or create user stats
-        const existingStats = await db.query.userStats.findFirst({
-            where: eq(userStats.userId, userId),
+        if (!session) {
+            return { success: false, message: 'Session not found' };
+        }
+
+        if (session.status !== 'in_progress' || session.currentStageId !== stageId) {
+            return { success: false, message: 'Hints can only be taken at the current stage' };
+        }
+
+        const decided = await db.query.sessionDecisions.findFirst({
+            where: and(
+                eq(sessionDecisions.sessionId, sessionId),
+                eq(sessionDecisions.stageId, stageId)
+            ),
+            columns: { id: true },
         });
 
-        if (existingStats) {
-            // Update existing stats
-            const newTotalAttempts = existingStats.totalAttempts + 1;
-            const newTotalScore = existingStats.totalScore + score;
-            const newAverageScore = Math.round(newTotalScore / newTotalAttempts);
-
-            await db
-                .update(userStats)
-                .set({
-                    totalAttempts: newTotalAttempts,
-                    totalScore: newTotalScore,
-                    averageScore: newAverageScore,
-                    lastActivityAt: new Date(),
-                })
-                .where(eq(userStats.userId, userId));
-        } else {
-            // Create new stats
-            await db.insert(userStats).values({
-                userId,
-                totalAttempts: 1,
-                totalScore: score,
-                averageScore: score,
-                lastActivityAt: new Date(),
-            });
+        if (decided) {
+            return { success: false, message: 'This stage has already been decided' };
         }
 
-        // Update or create category stats
-        const existingCategoryStats = await db.query.categoryStats.findFirst({
+        const [stage, settings] = await Promise.all([
+            db.query.caseStages.findFirst({
+                where: eq(caseStages.id, stageId),
+                columns: { hints: true },
+            }),
+            loadCaseSettings(session.caseId, session.caseVersionId),
+        ]);
+        const revealed = await db.query.sessionHints.findMany({
             where: and(
-                eq(categoryStats.userId, userId),
-                eq(categoryStats.clinicalDomain, caseData.clinicalDomain)
+                eq(sessionHints.sessionId, sessionId),
+                eq(sessionHints.stageId, stageId)
             ),
+            columns: { id: true },
         });
 
-        if (existingCategoryStats) {
-            const newTotalAttempts = existingCategoryStats.totalAttempts + 1;
-            const newTotalScore = existingCategoryStats.totalScore + score;
-            const newAverageScore = Math.round(newTotalScore / newTotalAttempts);
-
-            await db
-                .update(categoryStats)
-                .set({
-                    totalAttempts: newTotalAttempts,
-                    totalScore: newTotalScore,
-                    averageScore: newAverageScore,
-                    lastAttemptAt: new Date(),
-                })
-                .where(
-                    and(
-                        eq(categoryStats.userId, userId),
-                        eq(categoryStats.clinicalDomain, caseData.clinicalDomain)
-                    )
-                );
-        } else {
-            await db.insert(categoryStats).values({
-                userId,
-                clinicalDomain: caseData.clinicalDomain,
-                totalAttempts: 1,
-                totalScore: score,
-                averageScore: score,
-                lastAttemptAt: new Date(),
-            });
+        const hint = getNextHint(fillCaseText(stage?.hints ?? [], settings?.templateVariables, session.variantSeed), revealed.length);
+        if (!hint) {
+            return { success: false, message: 'No more hints at this stage' };
+        }
+
+        // The unique (session, stage, tier) index guards against double requests
+        const inserted = await db.insert(sessionHints).values({
+            sessionId,
+            stageId,
+            tier: hint.tier,
+            text: hint.text,
+            scoreDelta: hint.scoreDelta,
+        }).onConflictDoNothing().returning({ id: sessionHints.id });
+
+        if (inserted.length === 0) {
+            return { success: false, message: 'This hint has already been revealed' };
         }
 
-        // Update or create difficulty stats
-        const existingDifficultyStats = await db.query.difficultyStats.findFirst({
+        const [{ score }] = await db.update(simulationSessions)
+            .set({
+                score: sql`${simulationSessions.score} + ${hint.scoreDelta}`,
+                updatedAt: new Date(),
+            })
+            .where(eq(simulationSessions.id, sessionId))
+            .returning({ score: simulationSessions.score });
+
+        return {
+            success: true,
+            message: 'Hint revealed',
+            hint: { tier: hint.tier, text: hint.text },
+            score,
+        };
+    } catch (error) {
+        console.error('Error revealing hint:', error);
+        return { success: false, message: 'Failed to reveal hint' };
+    }
+}
+
+/**
+ * Record one decision in a session. The server checks the stage is the one the
+ * session is on, that the option belongs to it, and that it hasn't already been
+ * decided; then it advances along the case graph and scores the attempt at the end.
+ */
+export async function submitCaseDecision(input: SubmitDecisionInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = submitDecisionSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { sessionId, stageId, optionId, response, confidence } = parsed.data;
+
+    try {
+        const session = await db.query.simulationSessions.findFirst({
             where: and(
-                eq(difficultyStats.userId, userId),
-                eq(difficultyStats.difficultyLevel, caseData.difficultyLevel)
+                eq(simulationSessions.id, sessionId),
+                eq(simulationSessions.userId, userId)
             ),
         });
 
-        if (existingDifficultyStats) {
-            const newTotalAttempts = existingDifficultyStats.totalAttempts + 1;
-            const newTotalScore = existingDifficultyStats.totalScore + score;
-            const newAverageScore = Math.round(newTotalScore / newTotalAttempts);
-
-            await db
-                .update(difficultyStats)
-                .set({
-                    totalAttempts: newTotalAttempts,
-                    totalScore: newTotalScore,
-                    averageScore: newAverageScore,
-                    lastAttemptAt: new Date(),
-                })
-                .where(
-                    and(
-                        eq(difficultyStats.userId, userId),
-                        eq(difficultyStats.difficultyLevel, caseData.difficultyLevel)
-                    )
-                );
+        if (!session) {
+            return { success: false, message: 'Session not found' };
+        }
+
+        if (session.status !== 'in_progress') {
+            return { success: false, message: 'This session has already finished' };
+        }
+
+        if (session.currentStageId !== stageId) {
+            return { success: false, message: 'Decision is out of order for this session' };
+        }
+
+        const caseData = await db.query.cases.findFirst({
+            where: eq(cases.id, session.caseId),
+            columns: {
+                clinicalDomain: true,
+                difficultyLevel: true,
+            },
+        });
+
+        if (!caseData) {
+            return { success: false, message: 'Case not found' };
+        }
+
+        // The session plays the version it started on, whatever has been published since
+        const [stages, settings] = await Promise.all([
+            loadCaseGraph(session.caseId, session.caseVersionId),
+            loadCaseSettings(session.caseId, session.caseVersionId),
+        ]);
+        const stage = stages.find((row) => row.id === stageId);
+
+        if (!stage) {
+            return { success: false, message: 'Option does not belong to the current stage' };
+        }
+
+        // The clock is the server's: a timeout is only accepted once the limit has passed,
+        // and an answer arriving well after it counts as no decision
+        const timeLimit = getStageTimeLimit(stage, settings?.stageTimeLimitSeconds ?? null);
+        const decisionSeconds = secondsSince(session.stageStartedAt);
+        if (parsed.data.timedOut && (timeLimit === null || decisionSeconds < timeLimit - TIME_LIMIT_GRACE_SECONDS)) {
+            return { success: false, message: 'There is still time left to decide at this stage' };
+        }
+        const timedOut = timeLimit !== null && (Boolean(parsed.data.timedOut) || decisionSeconds > timeLimit + TIME_LIMIT_GRACE_SECONDS);
+
+        let decision: ResolvedDecision;
+        if (timedOut) {
+            const timeout = resolveTimeout(stage.options);
+            if (!timeout) {
+                return { success: false, message: 'This stage has no options' };
+            }
+            decision = timeout;
         } else {
-            await db.insert(difficultyStats).values({
-                userId,
-                difficultyLevel: caseData.difficultyLevel,
-                totalAttempts: 1,
-                totalScore: score,
-                averageScore: score,
-                lastAttemptAt: new Date(),
-            });
+            const resolved = resolveDecision(stage.decisionType, stage.options, { optionId, response });
+            if (!resolved.valid) {
+                return { success: false, message: resolved.message };
+            }
+            decision = resolved.decision;
+        }
+        const option = stage.options.find((row) => row.id === decision.optionId);
+        if (!option) {
+            return { success: false, message: 'Option does not belong to the current stage' };
         }
 
-        // Update or create spaced repetition card using SM-2 algorithm
-        const existingCard = await db.query.spacedRepetitionCards.findFirst({
+        const safetyClass = classifyDecision(stage.decisionType, stage.options, { ...decision, timedOut });
+
+        // The next stage's clock starts at the same instant, so startStageTimer can tell it hasn't been restarted yet
+        const decidedAt = new Date();
+
+        const ordered = await db.query.sessionInvestigations.findMany({
             where: and(
-                eq(spacedRepetitionCards.userId, userId),
-                eq(spacedRepetitionCards.caseId, caseId)
+                eq(sessionInvestigations.sessionId, sessionId),
+                eq(sessionInvestigations.stageId, stageId)
             ),
+            columns: { investigation: true },
         });
 
-        // Calculate quality (0-5 scale) from score
-        // Assuming scores can range widely, normalize to 0-5
-        // For simplicity: score > 20 = 5 (perfect), score > 10 = 4, score > 0 = 3, score > -10 = 2, score > -20 = 1, else 0
-        let quality = 0;
-        if (score > 20) quality = 5;
-        else if (score > 10) quality = 4;
-        else if (score > 0) quality = 3;
-        else if (score > -10) quality = 2;
-        else if (score > -20) quality = 1;
-
-        let nextReviewDate: Date;
-        let reviewInterval: number;
-
-        if (existingCard) {
-            // Update using SM-2 algorithm
-            let newEaseFactor = existingCard.easeFactor;
-            let newInterval = existingCard.interval;
-            let newRepetitions = existingCard.repetitions;
-
-            if (quality >= 3) {
-                // Successful review
-                newRepetitions += 1;
-
-                if (newRepetitions === 1) {
-                    newInterval = 1;
-                } else if (newRepetitions === 2) {
-                    newInterval = 6;
-                } else {
-                    newInterval = Math.round(newInterval * (newEaseFactor / 1000));
-                }
-
-                // Update ease factor
-                newEaseFactor = Math.max(
-                    1300,
-                    newEaseFactor + (100 * (3.6 - (5 - quality) * (0.08 + (5 - quality) * 0.02)))
-                );
-            } else {
-                // Failed review - reset
-                newRepetitions = 0;
-                newInterval = 1;
-            }
+        let history: HistorySummary | null = null;
+        if (stage.stageType === 'history' && stage.patientScript) {
+            const asked = await db.query.sessionHistoryMessages.findMany({
+                where: and(
+                    eq(sessionHistoryMessages.sessionId, sessionId),
+                    eq(sessionHistoryMessages.stageId, stageId)
+                ),
+                columns: { elicitedFactIds: true },
+            });
+            const result = scoreHistoryTaking(stage.patientScript, asked.flatMap((row) => row.elicitedFactIds));
+            history = {
+                score: result.score,
+                elicited: result.elicited.map((fact) => fact.label),
+                missed: result.missed.map((fact) => fact.label),
+            };
+        }
 
-            nextReviewDate = new Date();
-            nextReviewDate.setDate(nextReviewDate.getDate() + newInterval);
-            reviewInterval = newInterval;
-
-            await db
-                .update(spacedRepetitionCards)
-                .set({
-                    repetitions: newRepetitions,
-                    easeFactor: Math.round(newEaseFactor),
-                    interval: newInterval,
-                    nextReviewDate,
-                    lastReviewedAt: new Date(),
-                })
-                .where(eq(spacedRepetitionCards.id, existingCard.id));
-        } else {
-            // Create new card
-            nextReviewDate = new Date();
-            nextReviewDate.setDate(nextReviewDate.getDate() + 1); // Review tomorrow
-            reviewInterval = 1;
-
-            await db.insert(spacedRepetitionCards).values({
-                userId,
-                caseId,
-                repetitions: 0,
-                easeFactor: 2500, // Default 2.5
-                interval: 1,
-                nextReviewDate,
-                lastReviewedAt: new Date(),
+        const step = resolveNextStep(stages, stageId, option);
+        const scoreDelta = decision.scoreWeight
+            + scoreMissedInvestigations(stage.investigations, ordered.map((row) => row.investigation))
+            + (history?.score ?? 0);
+
+        // The unique (session, stage) index guards against double submits
+        const insertDecision = db.insert(sessionDecisions).values({
+            sessionId,
+            stageId,
+            optionId: option.id,
+            decidedAt,
+            scoreWeight: decision.scoreWeight,
+            response: decision.response,
+            decisionSeconds,
+            timedOut,
+            // A stage that ran out of time wasn't answered, so any rating doesn't apply
+            confidence: timedOut ? null : confidence,
+            safetyClass,
+        });
+        const advanceSession = db.update(simulationSessions)
+            .set({
+                score: sql`${simulationSessions.score} + ${scoreDelta}`,
+                elapsedMinutes: sql`${simulationSessions.elapsedMinutes} + ${option.durationMinutes}`,
+                updatedAt: new Date(),
+                ...(step.type === 'stage'
+                    ? { currentStageId: step.stageId, stageStartedAt: decidedAt }
+                    : { status: 'completed' as const, currentStageId: null, outcome: step.outcome, completedAt: new Date() }),
+            })
+            .where(and(
+                eq(simulationSessions.id, sessionId),
+                eq(simulationSessions.status, 'in_progress'),
+                eq(simulationSessions.currentStageId, stageId)
+            ))
+            .returning({ score: simulationSessions.score });
+
+        // Finishing the case stores the attempts alongside, at the score the session ends on
+        const hintsUsed = step.type === 'end'
+            ? await db.query.sessionHints.findMany({ where: eq(sessionHints.sessionId, sessionId), columns: { id: true } })
+            : [];
+        const teammates = step.type === 'end' && session.teamSessionId
+            ? await db.query.teamSessionMembers.findMany({
+                where: eq(teamSessionMembers.teamSessionId, session.teamSessionId),
+                columns: { userId: true, role: true },
+            })
+            : [];
+        // Null, failing the whole batch, unless this batch is the one that completed the session
+        const finalScore = sql<number>`(select ${simulationSessions.score} from ${simulationSessions} where ${simulationSessions.id} = ${sessionId} and ${simulationSessions.status} = 'completed')`;
+        const completeCase = step.type === 'end'
+            ? [
+                insertCaseAttempt(userId, session, finalScore, hintsUsed.length, session.teamSessionId ? 'lead' : null),
+                // Every teammate gets the attempt, recorded with the role they played
+                ...teammates
+                    .filter((member) => member.userId !== userId)
+                    .map((teammate) => insertCaseAttempt(teammate.userId, session, finalScore, hintsUsed.length, teammate.role)),
+                ...(session.teamSessionId
+                    ? [db.update(teamSessions)
+                        .set({ status: 'completed', updatedAt: new Date() })
+                        .where(eq(teamSessions.id, session.teamSessionId))]
+                    : []),
+            ]
+            : [];
+
+        // One transaction, so a failure part-way never leaves the decision recorded
+        // without the session moving on, or a finished session without its attempts
+        let advanced: { score: number }[];
+        try {
+            [, advanced] = await db.batch([insertDecision, advanceSession, ...completeCase]);
+        } catch (error) {
+            const existing = await db.query.sessionDecisions.findFirst({
+                where: and(eq(sessionDecisions.sessionId, sessionId), eq(sessionDecisions.stageId, stageId)),
+                columns: { id: true },
             });
+            if (existing) {
+                return { success: false, message: 'A decision has already been recorded for this stage' };
+            }
+            throw error;
+        }
+
+        // Only an abandon landing in between leaves nothing to advance
+        if (advanced.length === 0) {
+            return { success: false, message: 'This session has already finished' };
+        }
+        const [{ score }] = advanced;
+
+        // Feedback is authored with the case's placeholders, filled for this session's variant
+        const feedback = toDecisionFeedback(
+            { decisionType: stage.decisionType, options: fillCaseText(stage.options, settings?.templateVariables, session.variantSeed) },
+            decision,
+            { timedOut, decisionSeconds },
+            safetyClass
+        );
+
+        if (step.type === 'stage') {
+            return {
+                success: true,
+                message: 'Decision recorded',
+                score,
+                nextStageId: step.stageId,
+                isComplete: false,
+                outcome: null,
+                history,
+                optionId: option.id,
+                decision: feedback,
+            };
+        }
+
+        // The attempts are saved by now, so a failure in the running totals doesn't fail the decision
+        let schedule: { nextReviewDate?: Date; reviewInterval?: number } = {};
+        try {
+            schedule = await updateAttemptStats(userId, session.caseId, caseData, score, hintsUsed.length);
+            for (const teammate of teammates.filter((member) => member.userId !== userId)) {
+                await updateAttemptStats(teammate.userId, session.caseId, caseData, score, hintsUsed.length);
+            }
+        } catch (error) {
+            console.error('Error updating attempt stats:', error);
         }
 
         revalidatePath('/leaderboard');
@@ -291,14 +850,398 @@ export async function recordAttempt(caseId: number, selectedOptionIds: number[])
 
         return {
             success: true,
-            message: 'Attempt recorded successfully',
+            message: 'Case completed',
             score,
-            nextReviewDate,
-            reviewInterval
+            nextStageId: null,
+            isComplete: true,
+            outcome: step.outcome,
+            history,
+            optionId: option.id,
+            decision: feedback,
+            ...schedule,
+        };
+    } catch (error) {
+        console.error('Error submitting case decision:', error);
+        return { success: false, message: 'Failed to record decision' };
+    }
+}
+
+/**
+ * Restart the time limit once the student moves on from a decision's feedback,
+ * so reading it doesn't eat into the next stage's time. Only allowed once per
+ * stage: while the clock still reads the time of the last decision.
+ */
+export async function startStageTimer(sessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const lastDecision = await db.query.sessionDecisions.findFirst({
+            where: eq(sessionDecisions.sessionId, sessionId),
+            orderBy: [desc(sessionDecisions.decidedAt), desc(sessionDecisions.id)],
+            columns: { decidedAt: true },
+        });
+
+        if (!lastDecision) {
+            return { success: false, message: 'There is no decision to move on from' };
+        }
+
+        const [updated] = await db.update(simulationSessions)
+            .set({ stageStartedAt: new Date(), updatedAt: new Date() })
+            .where(and(
+                eq(simulationSessions.id, sessionId),
+                eq(simulationSessions.userId, userId),
+                eq(simulationSessions.status, 'in_progress'),
+                eq(simulationSessions.stageStartedAt, lastDecision.decidedAt)
+            ))
+            .returning({ id: simulationSessions.id });
+
+        if (!updated) {
+            return { success: false, message: 'The stage timer can only be restarted once, after a decision' };
+        }
+
+        return { success: true, message: 'Stage timer started' };
+    } catch (error) {
+        console.error('Error starting stage timer:', error);
+        return { success: false, message: 'Failed to start stage timer' };
+    }
+}
+
+/**
+ * Rebuild what the student saw during a past attempt: each stage in the order it
+ * was played, the clinical data on screen, the option chosen and the best option.
+ */
+export async function getCaseAttemptReplay(caseId: number, attemptId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const attempt = await db.query.studentAttempts.findFirst({
+            where: and(
+                eq(studentAttempts.id, attemptId),
+                eq(studentAttempts.caseId, caseId),
+                eq(studentAttempts.userId, userId)
+            ),
+            with: {
+                session: {
+                    with: {
+                        decisions: {
+                            orderBy: [asc(sessionDecisions.id)],
+                        },
+                        investigations: {
+                            orderBy: [asc(sessionInvestigations.id)],
+                        },
+                        historyMessages: {
+                            orderBy: [asc(sessionHistoryMessages.id)],
+                        },
+                        hints: {
+                            orderBy: [asc(sessionHints.tier)],
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!attempt) {
+            return { success: false, message: 'Attempt not found' };
+        }
+
+        // The version the attempt was played on, however the case has been edited since
+        const [caseRow, settings] = await Promise.all([
+            db.query.cases.findFirst({
+                where: eq(cases.id, caseId),
+                with: {
+                    stages: {
+                        where: (stages) => inCaseVersion(stages.caseVersionId, attempt.caseVersionId),
+                        with: {
+                            options: {
+                                orderBy: (options, { asc }) => [asc(options.id)],
+                            },
+                            media: {
+                                orderBy: (media, { asc }) => [asc(media.displayOrder), asc(media.id)],
+                                with: { asset: { columns: { storageKey: true } } },
+                            },
+                        },
+                    },
+                },
+            }),
+            loadCaseSettings(caseId, attempt.caseVersionId),
+        ]);
+
+        if (!caseRow || !settings) {
+            return { success: false, message: 'Case not found' };
+        }
+
+        // The same variant the student played, down to the patient's name and vitals
+        const template = { ...caseRow, ...settings };
+        const medicalCase = instantiateCaseTemplate(template, attempt.variantSeed);
+
+        const stagesById = new Map(medicalCase.stages.map((stage) => [stage.id, stage]));
+        const played = (attempt.session?.decisions ?? []).flatMap((decision) => {
+            const stage = stagesById.get(decision.stageId);
+            const option = stage?.options.find((opt) => opt.id === decision.optionId);
+            return stage && option ? [{ decision, stage, option }] : [];
+        });
+
+        const { shown } = replayClinicalData(
+            medicalCase.baselineVitals,
+            played.map(({ stage, option }) => ({ clinicalData: stage.clinicalData as ClinicalData | null, vitalEffects: option.vitalEffects }))
+        );
+
+        const toReplayOption = (option: (typeof medicalCase.stages)[number]['options'][number]): ReplayOption => ({
+            id: option.id,
+            text: option.text,
+            feedback: option.feedback,
+            scoreWeight: option.scoreWeight,
+            isCorrect: option.isCorrect,
+        });
+
+        const toReplayHistory = (stageId: number, script: PatientScript | null): CaseAttemptReplay['steps'][number]['history'] => {
+            if (!script) return null;
+            const messages = (attempt.session?.historyMessages ?? []).filter((row) => row.stageId === stageId);
+            const result = scoreHistoryTaking(fillCaseText(script, template.templateVariables, attempt.variantSeed), messages.flatMap((row) => row.elicitedFactIds));
+            return {
+                score: result.score,
+                elicited: result.elicited.map((fact) => fact.label),
+                missed: result.missed.map((fact) => fact.label),
+                messages: messages.map(({ role, content }) => ({ role, content })),
+            };
+        };
+
+        const replay: CaseAttemptReplay = {
+            attemptId: attempt.id,
+            caseId: medicalCase.id,
+            title: medicalCase.title,
+            clinicalDomain: medicalCase.clinicalDomain,
+            difficultyLevel: medicalCase.difficultyLevel,
+            score: attempt.score,
+            completedAt: attempt.completedAt,
+            teamRole: attempt.teamRole,
+            outcome: attempt.session?.outcome ?? null,
+            elapsedMinutes: attempt.session?.elapsedMinutes ?? null,
+            patientDemographics: medicalCase.patientDemographics,
+            steps: played.map(({ decision, stage, option }, index) => {
+                const choices = stage.options.filter((row) => !row.isTimeout);
+                const optimal = getOptimalOption(choices);
+                return {
+                    stageId: stage.id,
+                    stageOrder: stage.stageOrder,
+                    narrative: stage.narrative,
+                    clinicalData: shown[index],
+                    mediaUrl: stage.mediaUrl,
+                    media: stage.media.map(toMediaItem),
+                    decidedAt: decision.decidedAt,
+                    scoreWeight: decision.scoreWeight,
+                    confidence: decision.confidence,
+                    decision: toDecisionFeedback(
+                        stage,
+                        {
+                            optionId: decision.optionId,
+                            scoreWeight: decision.scoreWeight,
+                            response: decision.response,
+                            correctOptionIds: stage.decisionType === 'ordering'
+                                ? getCorrectOrder(choices)
+                                : choices.filter((row) => row.isCorrect).map((row) => row.id),
+                            matched: !decision.timedOut && (stage.decisionType !== 'free_text' || option.acceptedAnswers.length > 0),
+                        },
+                        { timedOut: decision.timedOut, decisionSeconds: decision.decisionSeconds },
+                        decision.safetyClass
+                    ),
+                    options: stage.options.map(toReplayOption),
+                    investigations: (attempt.session?.investigations ?? [])
+                        .filter((row) => row.stageId === stage.id)
+                        .map((row) => ({
+                            investigation: row.investigation,
+                            result: row.result,
+                            isIndicated: row.isIndicated,
+                            scoreDelta: row.scoreDelta,
+                        })),
+                    history: toReplayHistory(stage.id, stage.stageType === 'history' ? stage.patientScript : null),
+                    hints: (attempt.session?.hints ?? [])
+                        .filter((row) => row.stageId === stage.id)
+                        .map((row) => ({ text: row.text, scoreDelta: row.scoreDelta })),
+                    // A timeout without a "no decision" option only followed the lead option's pathway
+                    chosen: decision.timedOut && !option.isTimeout
+                        ? { ...toReplayOption(option), text: 'No decision', feedback: DEFAULT_NO_DECISION_FEEDBACK, scoreWeight: decision.scoreWeight, isCorrect: false }
+                        : toReplayOption(option),
+                    optimal: optimal ? toReplayOption(optimal) : null,
+                };
+            }),
+        };
+
+        return { success: true, message: 'Replay loaded', data: replay };
+    } catch (error) {
+        console.error('Error loading attempt replay:', error);
+        return { success: false, message: 'Failed to load attempt' };
+    }
+}
+
+/**
+ * How often each option at the given stages was chosen across all completed
+ * sessions, keyed by option id
+ */
+async function getCohortOptionCounts(stageIds: number[]) {
+    if (stageIds.length === 0) return new Map<number, number>();
+
+    const rows = await db
+        .select({
+            optionId: sessionDecisions.optionId,
+            count: sql<number>`count(*)`,
+        })
+        .from(sessionDecisions)
+        .innerJoin(simulationSessions, eq(sessionDecisions.sessionId, simulationSessions.id))
+        .where(
+            and(
+                inArray(sessionDecisions.stageId, stageIds),
+                eq(simulationSessions.status, 'completed')
+            )
+        )
+        .groupBy(sessionDecisions.optionId);
+
+    return new Map(rows.map((row) => [row.optionId, Number(row.count)]));
+}
+
+/**
+ * The Rivision cluster a case belongs to, resolved the same way the Rivision
+ * page groups attempts: authored key, then cached match, then the domain default
+ */
+async function resolveCaseRivisionCluster(medicalCase: { id: number; clinicalDomain: string; rivisionClusterKey: string | null }) {
+    if (medicalCase.rivisionClusterKey) return medicalCase.rivisionClusterKey;
+
+    const cached = await db.query.rivisionContextClusters.findFirst({
+        where: and(
+            eq(rivisionContextClusters.contextType, 'case'),
+            eq(rivisionContextClusters.contextId, String(medicalCase.id))
+        ),
+    });
+    if (cached) return cached.clusterKey;
+
+    const fallback = await db.query.rivisionNoteTaxonomy.findFirst({
+        where: eq(rivisionNoteTaxonomy.domain, medicalCase.clinicalDomain),
+        orderBy: [asc(rivisionNoteTaxonomy.clusterKey)],
+    });
+    return fallback?.clusterKey ?? null;
+}
+
+/**
+ * Debrief for a completed session: every stage played, what was chosen, the best
+ * option, and how the rest of the cohort answered each stage
+ */
+export async function getCaseDebrief(sessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const session = await db.query.simulationSessions.findFirst({
+            where: eq(simulationSessions.id, sessionId),
+            with: {
+                decisions: {
+                    orderBy: [asc(sessionDecisions.id)],
+                },
+                case: {
+                    with: {
+                        stages: {
+                            with: {
+                                options: {
+                                    orderBy: (options, { asc }) => [asc(options.id)],
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        // Teammates share the lead's session, so they get the same debrief
+        const canView = session && (
+            session.userId === userId
+            || (session.teamSessionId !== null && Boolean(await getTeamMembership(session.teamSessionId, userId)))
+        );
+        if (!session || !canView) {
+            return { success: false, message: 'Session not found' };
+        }
+
+        if (session.status !== 'completed') {
+            return { success: false, message: 'Session is not complete yet' };
+        }
+
+        // Decisions point at the exact stages played; the settings are the version's
+        const settings = await loadCaseSettings(session.caseId, session.caseVersionId);
+        const medicalCase = instantiateCaseTemplate({ ...session.case, ...settings }, session.variantSeed);
+        const stagesById = new Map(medicalCase.stages.map((stage) => [stage.id, stage]));
+
+        const [optionCounts, cohortRows, clusterKey] = await Promise.all([
+            getCohortOptionCounts(session.decisions.map((decision) => decision.stageId)),
+            db
+                .select({ count: sql<number>`count(*)` })
+                .from(simulationSessions)
+                .where(
+                    and(
+                        eq(simulationSessions.caseId, medicalCase.id),
+                        eq(simulationSessions.status, 'completed')
+                    )
+                ),
+            resolveCaseRivisionCluster(medicalCase),
+        ]);
+
+        const stages = session.decisions.flatMap((decision) => {
+            const stage = stagesById.get(decision.stageId);
+            // Multi-select and ordering answers aren't a single choice to compare against the cohort
+            if (!stage || stage.decisionType === 'multi' || stage.decisionType === 'ordering') return [];
+
+            const totalResponses = stage.options.reduce((sum, option) => sum + (optionCounts.get(option.id) ?? 0), 0);
+            const optimal = getOptimalOption(stage.options.filter((option) => !option.isTimeout));
+
+            return [{
+                stageId: stage.id,
+                stageOrder: stage.stageOrder,
+                narrative: stage.narrative,
+                chosenOptionId: decision.optionId,
+                optimalOptionId: optimal?.id ?? null,
+                totalResponses,
+                options: stage.options.map((option) => {
+                    const cohortCount = optionCounts.get(option.id) ?? 0;
+                    return {
+                        id: option.id,
+                        text: option.text,
+                        feedback: option.feedback,
+                        scoreWeight: option.scoreWeight,
+                        isCorrect: option.isCorrect,
+                        cohortCount,
+                        cohortPercent: totalResponses > 0 ? Math.round((cohortCount / totalResponses) * 100) : 0,
+                    };
+                }),
+            }];
+        });
+
+        const debrief: CaseDebrief = {
+            sessionId: session.id,
+            caseId: medicalCase.id,
+            score: session.score,
+            outcome: session.outcome,
+            cohortSize: Number(cohortRows[0]?.count ?? 0),
+            rivision: {
+                domain: medicalCase.clinicalDomain,
+                difficulty: medicalCase.difficultyLevel,
+                clusterKey,
+                contextId: `${medicalCase.clinicalDomain}|${medicalCase.difficultyLevel}|${clusterKey || 'any'}`,
+            },
+            stages,
         };
+
+        return { success: true, message: 'Debrief loaded', data: debrief };
     } catch (error) {
-        console.error('Error recording attempt:', error);
-        return { success: false, message: 'Failed to record attempt' };
+        console.error('Error loading case debrief:', error);
+        return { success: false, message: 'Failed to load debrief' };
     }
 }
 
@@ -668,11 +1611,15 @@ export async function getStudentStats(targetUserId?: string, mode: AnalyticsMode
     const lookupUserId = targetUserId || userId;
 
     try {
-        const [caseStat, ukmlaStat, caseAll, ukmlaAll] = await Promise.all([
+        const [caseStat, ukmlaStat, caseAll, ukmlaAll, osceRows] = await Promise.all([
             db.query.userStats.findFirst({ where: eq(userStats.userId, lookupUserId) }),
             db.query.ukmlaUserStats.findFirst({ where: eq(ukmlaUserStats.userId, lookupUserId) }),
             db.query.userStats.findMany(),
             db.query.ukmlaUserStats.findMany(),
+            db.query.osceAttempts.findMany({
+                where: eq(osceAttempts.userId, lookupUserId),
+                columns: { score: true, maxScore: true, globalRating: true },
+            }),
         ]);
 
         const caseTotal = caseStat || { totalAttempts: 0, totalScore: 0, averageScore: 0 };
@@ -723,6 +1670,8 @@ export async function getStudentStats(targetUserId?: string, mode: AnalyticsMode
                 totalScore,
                 averageScore,
                 rank,
+                // Examiner-marked stations are scored differently, so never count towards the totals or rank
+                osce: summariseOsceAttempts(osceRows),
             },
         };
     } catch (error) {
@@ -731,6 +1680,131 @@ export async function getStudentStats(targetUserId?: string, mode: AnalyticsMode
     }
 }
 
+/**
+ * How long the student takes to decide at each case stage, overall and by
+ * clinical domain, from completed sessions played stage by stage
+ */
+export async function getDecisionSpeedStats(targetUserId?: string) {
+    const { userId } = await auth();
+    if (!userId) {
+        return { success: false, message: 'Unauthorized', data: null };
+    }
+
+    const lookupUserId = targetUserId || userId;
+
+    try {
+        const rows = await db
+            .select({
+                clinicalDomain: cases.clinicalDomain,
+                decisionSeconds: sessionDecisions.decisionSeconds,
+                timedOut: sessionDecisions.timedOut,
+            })
+            .from(sessionDecisions)
+            .innerJoin(simulationSessions, eq(sessionDecisions.sessionId, simulationSessions.id))
+            .innerJoin(cases, eq(simulationSessions.caseId, cases.id))
+            .where(
+                and(
+                    eq(simulationSessions.userId, lookupUserId),
+                    eq(simulationSessions.status, 'completed'),
+                    isNotNull(sessionDecisions.decisionSeconds)
+                )
+            );
+
+        const domains = Array.from(new Set(rows.map((row) => row.clinicalDomain))).sort();
+
+        return {
+            success: true,
+            data: {
+                overall: summariseDecisionSpeed(rows),
+                byDomain: domains.map((clinicalDomain) => ({
+                    clinicalDomain,
+                    ...summariseDecisionSpeed(rows.filter((row) => row.clinicalDomain === clinicalDomain)),
+                })),
+            },
+        };
+    } catch (error) {
+        console.error('Error fetching decision speed stats:', error);
+        return { success: false, message: 'Failed to fetch decision speed stats', data: null };
+    }
+}
+
+/**
+ * How well the student's confidence matches their accuracy, and the topics where
+ * they were sure but wrong
+ */
+export async function getCalibrationStats(targetUserId?: string, mode: AnalyticsMode = 'all') {
+    const { userId } = await auth();
+    if (!userId) {
+        return { success: false, message: 'Unauthorized', data: null };
+    }
+
+    const lookupUserId = targetUserId || userId;
+
+    try {
+        const answers = await loadRatedAnswers(lookupUserId, { cases: mode !== 'ukmla', ukmla: mode !== 'cases' });
+
+        return {
+            success: true,
+            data: {
+                ratedAnswers: answers.length,
+                curve: buildCalibrationCurve(answers),
+                confidentlyWrongTopics: findConfidentlyWrongTopics(answers),
+            },
+        };
+    } catch (error) {
+        console.error('Error fetching calibration stats:', error);
+        return { success: false, message: 'Failed to fetch calibration stats', data: null };
+    }
+}
+
+/**
+ * How safe the student's case decisions have been, overall and by domain.
+ * Only decisions with a safety class (not ordering stages) are counted.
+ */
+export async function getSafetyProfile(targetUserId?: string) {
+    const { userId } = await auth();
+    if (!userId) {
+        return { success: false, message: 'Unauthorized', data: null };
+    }
+
+    const lookupUserId = targetUserId || userId;
+
+    try {
+        const rows = await db
+            .select({
+                clinicalDomain: cases.clinicalDomain,
+                safetyClass: sessionDecisions.safetyClass,
+            })
+            .from(sessionDecisions)
+            .innerJoin(simulationSessions, eq(sessionDecisions.sessionId, simulationSessions.id))
+            .innerJoin(cases, eq(simulationSessions.caseId, cases.id))
+            .where(
+                and(
+                    eq(simulationSessions.userId, lookupUserId),
+                    isNotNull(sessionDecisions.safetyClass)
+                )
+            );
+
+        const domains = Array.from(new Set(rows.map((row) => row.clinicalDomain))).sort();
+
+        return {
+            success: true,
+            data: {
+                overall: summariseSafety(rows),
+                byDomain: domains
+                    .map((clinicalDomain) => ({
+                        clinicalDomain,
+                        ...summariseSafety(rows.filter((row) => row.clinicalDomain === clinicalDomain)),
+                    }))
+                    .sort((a, b) => b.criticalErrors - a.criticalErrors),
+            },
+        };
+    } catch (error) {
+        console.error('Error fetching safety profile:', error);
+        return { success: false, message: 'Failed to fetch safety profile', data: null };
+    }
+}
+
 export async function getRecentAttempts(limit: number = 10, mode: AnalyticsMode = 'cases') {
     const { userId } = await auth();
     if (!userId) {
@@ -781,6 +1855,7 @@ export async function getRecentAttempts(limit: number = 10, mode: AnalyticsMode
             score: attempt.score,
             completedAt: attempt.completedAt,
             type: 'case' as const,
+            hintsUsed: attempt.hintsUsed,
             case: attempt.case,
         }));
 
@@ -789,6 +1864,7 @@ export async function getRecentAttempts(limit: number = 10, mode: AnalyticsMode
             score: attempt.score,
             completedAt: attempt.completedAt,
             type: 'ukmla' as const,
+            hintsUsed: 0,
             case: {
                 id: attempt.question.id,
                 title: attempt.question.stem,
@@ -1024,6 +2100,7 @@ export async function getPercentileRank(targetUserId?: string, mode: AnalyticsMo
 
 /**
  * Get cases due for review (spaced repetition)
+ * Cases in topics the student keeps getting confidently wrong come first
  */
 export async function getReviewQueue(limit: number = 50) {
     const { userId } = await auth();
@@ -1035,27 +2112,61 @@ export async function getReviewQueue(limit: number = 50) {
     try {
         const now = new Date();
 
-        const reviewCards = await db.query.spacedRepetitionCards.findMany({
-            where: and(
-                eq(spacedRepetitionCards.userId, userId),
-                lte(spacedRepetitionCards.nextReviewDate, now)
-            ),
-            orderBy: [desc(spacedRepetitionCards.nextReviewDate)],
-            limit,
-            with: {
-                case: {
-                    columns: {
-                        id: true,
-                        title: true,
-                        description: true,
-                        clinicalDomain: true,
-                        difficultyLevel: true,
+        const [dueCards, answers] = await Promise.all([
+            db.query.spacedRepetitionCards.findMany({
+                where: and(
+                    eq(spacedRepetitionCards.userId, userId),
+                    lte(spacedRepetitionCards.nextReviewDate, now)
+                ),
+                orderBy: [desc(spacedRepetitionCards.nextReviewDate)],
+                with: {
+                    case: {
+                        columns: {
+                            id: true,
+                            title: true,
+                            description: true,
+                            clinicalDomain: true,
+                            difficultyLevel: true,
+                        },
                     },
                 },
-            },
-        });
+            }),
+            loadRatedAnswers(userId, { cases: true, ukmla: true }),
+        ]);
+
+        const reviewCards = prioritiseConfidentlyWrong(dueCards, (card) => card.case.clinicalDomain, findConfidentlyWrongTopics(answers))
+            .slice(0, limit);
+
+        // Latest attempt per case, so the card can link to what was chosen last time
+        const caseIds = reviewCards.map((card) => card.caseId);
+        const attempts = caseIds.length === 0
+            ? []
+            : await db.query.studentAttempts.findMany({
+                where: and(
+                    eq(studentAttempts.userId, userId),
+                    inArray(studentAttempts.caseId, caseIds)
+                ),
+                orderBy: [desc(studentAttempts.completedAt)],
+                columns: {
+                    id: true,
+                    caseId: true,
+                },
+            });
 
-        return { success: true, data: reviewCards };
+        const lastAttemptIds = new Map<number, number>();
+        for (const attempt of attempts) {
+            if (!lastAttemptIds.has(attempt.caseId)) {
+                lastAttemptIds.set(attempt.caseId, attempt.id);
+            }
+        }
+
+        return {
+            success: true,
+            data: reviewCards.map((card) => ({
+                ...card,
+                lastAttemptId: lastAttemptIds.get(card.caseId) ?? null,
+            })),
+        };
     } catch (error) {
         console.error('Error fetching review queue:', error);
         return { success: false, data: [], message: 'Failed to fetch review queue' };
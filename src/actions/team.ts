@@ -0,0 +1,389 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    cases,
+    caseStages,
+    simulationSessions,
+    teamSessionMembers,
+    teamSessionMessages,
+    teamSessions,
+} from '@/db/schema';
+import { getStartStage } from '@/lib/case-graph';
+import { inCaseVersion, loadCaseSettings } from '@/lib/case-versions';
+import { createVariantSeed } from '@/lib/case-templates';
+import { generateJoinCode, JOIN_CODE_ATTEMPTS } from '@/lib/join-codes';
+import { TEAM_MAX_MEMBERS, TEAM_MIN_MEMBERS } from '@/lib/team-sessions';
+import { getTeamMembership, loadTeamSessionState } from '@/lib/team-session-state';
+import { ensureCurrentUserInDb } from '@/lib/auth-helpers';
+import {
+    joinTeamSessionSchema,
+    teamMessageSchema,
+    type JoinTeamSessionInput,
+    type TeamMessageInput,
+} from '@/schemas/team';
+
+async function touchTeamSession(teamSessionId: number) {
+    await db.update(teamSessions)
+        .set({ updatedAt: new Date() })
+        .where(eq(teamSessions.id, teamSessionId));
+}
+
+/**
+ * Open a lobby for a published case with the current user as team lead.
+ * Teammates join with the returned code before the lead starts the case.
+ */
+export async function createTeamSession(caseId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        // Every teammate has to be able to play the case, so drafts can't be used
+        const caseData = await db.query.cases.findFirst({
+            where: and(eq(cases.id, caseId), eq(cases.isPublished, true)),
+            columns: { id: true },
+        });
+
+        if (!caseData) {
+            return { success: false, message: 'Case not found' };
+        }
+
+        await ensureCurrentUserInDb(userId);
+
+        for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+            // The unique join code index rejects a clash, and we draw again
+            const [created] = await db.insert(teamSessions).values({
+                caseId,
+                leadUserId: userId,
+                joinCode: generateJoinCode(),
+            }).onConflictDoNothing().returning({ id: teamSessions.id, joinCode: teamSessions.joinCode });
+
+            if (created) {
+                await db.insert(teamSessionMembers).values({
+                    teamSessionId: created.id,
+                    userId,
+                    role: 'lead',
+                });
+
+                return { success: true, message: 'Team session created', teamSessionId: created.id, joinCode: created.joinCode };
+            }
+        }
+
+        return { success: false, message: 'Could not create a join code, please try again' };
+    } catch (error) {
+        console.error('Error creating team session:', error);
+        return { success: false, message: 'Failed to create team session' };
+    }
+}
+
+/**
+ * Join a team lobby by its code. Rejoining a team you're already in just
+ * returns it, so a shared link or a second tab works.
+ */
+export async function joinTeamSession(input: JoinTeamSessionInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = joinTeamSessionSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    try {
+        const team = await db.query.teamSessions.findFirst({
+            where: eq(teamSessions.joinCode, parsed.data.joinCode),
+            with: { members: { columns: { userId: true } } },
+        });
+
+        if (!team) {
+            return { success: false, message: 'No team found with that code' };
+        }
+
+        if (team.members.some((member) => member.userId === userId)) {
+            return { success: true, message: 'Already in this team', teamSessionId: team.id };
+        }
+
+        if (team.status !== 'lobby') {
+            return { success: false, message: 'This team has already started' };
+        }
+
+        if (team.members.length >= TEAM_MAX_MEMBERS) {
+            return { success: false, message: `Teams can have at most ${TEAM_MAX_MEMBERS} students` };
+        }
+
+        await ensureCurrentUserInDb(userId);
+
+        // Check the size and status in the insert itself, so students joining at once can't overfill the team
+        const inserted = await db.execute(sql`
+            insert into ${teamSessionMembers} (team_session_id, user_id, role)
+            select ${team.id}::integer, ${userId}, 'member'
+            where (select count(*) from ${teamSessionMembers} where team_session_id = ${team.id}) < ${TEAM_MAX_MEMBERS}
+                and exists (select 1 from ${teamSessions} where id = ${team.id} and status = 'lobby')
+            on conflict do nothing
+            returning id
+        `);
+
+        if (inserted.rows.length === 0) {
+            if (await getTeamMembership(team.id, userId)) {
+                return { success: true, message: 'Already in this team', teamSessionId: team.id };
+            }
+            return { success: false, message: 'This team is full or has already started' };
+        }
+
+        await touchTeamSession(team.id);
+
+        return { success: true, message: 'Joined team', teamSessionId: team.id };
+    } catch (error) {
+        console.error('Error joining team session:', error);
+        return { success: false, message: 'Failed to join team' };
+    }
+}
+
+/**
+ * Leave a team. Members can leave the lobby; the lead leaving ends the team
+ * for everyone, including a case already under way.
+ */
+export async function leaveTeamSession(teamSessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const team = await db.query.teamSessions.findFirst({
+            where: eq(teamSessions.id, teamSessionId),
+        });
+        const membership = team ? await getTeamMembership(teamSessionId, userId) : undefined;
+
+        if (!team || !membership) {
+            return { success: false, message: 'Team not found' };
+        }
+
+        if (team.status === 'completed' || team.status === 'abandoned') {
+            return { success: false, message: 'This team session has already ended' };
+        }
+
+        if (membership.role === 'lead') {
+            await db.update(teamSessions)
+                .set({ status: 'abandoned', updatedAt: new Date() })
+                .where(eq(teamSessions.id, teamSessionId));
+            await db.update(simulationSessions)
+                .set({ status: 'abandoned', updatedAt: new Date() })
+                .where(and(
+                    eq(simulationSessions.teamSessionId, teamSessionId),
+                    eq(simulationSessions.status, 'in_progress')
+                ));
+
+            return { success: true, message: 'Team session ended' };
+        }
+
+        if (team.status !== 'lobby') {
+            return { success: false, message: 'Members can only leave before the case starts' };
+        }
+
+        await db.delete(teamSessionMembers).where(and(
+            eq(teamSessionMembers.teamSessionId, teamSessionId),
+            eq(teamSessionMembers.userId, userId)
+        ));
+        await touchTeamSession(teamSessionId);
+
+        return { success: true, message: 'Left team' };
+    } catch (error) {
+        console.error('Error leaving team session:', error);
+        return { success: false, message: 'Failed to leave team' };
+    }
+}
+
+/**
+ * Start the case for the whole team. The shared simulation belongs to the lead,
+ * so only the lead's decisions are accepted by the session actions.
+ */
+export async function startTeamSession(teamSessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const team = await db.query.teamSessions.findFirst({
+            where: and(
+                eq(teamSessions.id, teamSessionId),
+                eq(teamSessions.leadUserId, userId)
+            ),
+            with: {
+                members: { columns: { id: true } },
+                case: { columns: { publishedVersionId: true } },
+            },
+        });
+
+        if (!team) {
+            return { success: false, message: 'Only the team lead can start the case' };
+        }
+
+        if (team.status !== 'lobby') {
+            return { success: false, message: 'This team has already started' };
+        }
+
+        if (team.members.length < TEAM_MIN_MEMBERS) {
+            return { success: false, message: `Wait for at least ${TEAM_MIN_MEMBERS - 1} teammate to join` };
+        }
+
+        // The team plays the version live when the lead starts
+        const caseVersionId = team.case.publishedVersionId;
+        const [stages, settings] = await Promise.all([
+            db.query.caseStages.findMany({
+                where: and(eq(caseStages.caseId, team.caseId), inCaseVersion(caseStages.caseVersionId, caseVersionId)),
+                columns: { id: true, stageOrder: true },
+                with: { options: { columns: { id: true } } },
+            }),
+            loadCaseSettings(team.caseId, caseVersionId),
+        ]);
+        const startStage = getStartStage(stages);
+        if (!startStage) {
+            return { success: false, message: 'Case has no stages' };
+        }
+
+        // Only the first start goes through, so a double click can't open two simulations
+        const [started] = await db.update(teamSessions)
+            .set({ status: 'active', updatedAt: new Date() })
+            .where(and(eq(teamSessions.id, teamSessionId), eq(teamSessions.status, 'lobby')))
+            .returning({ id: teamSessions.id });
+
+        if (!started) {
+            return { success: false, message: 'This team has already started' };
+        }
+
+        await db.insert(simulationSessions).values({
+            userId,
+            caseId: team.caseId,
+            caseVersionId,
+            currentStageId: startStage.id,
+            teamSessionId,
+            variantSeed: settings?.templateVariables?.length ? createVariantSeed() : null,
+        });
+
+        const state = await loadTeamSessionState(teamSessionId);
+        return { success: true, message: 'Team session started', team: state };
+    } catch (error) {
+        console.error('Error starting team session:', error);
+        return { success: false, message: 'Failed to start team session' };
+    }
+}
+
+/**
+ * Post to the team's side chat, open to every member while the team is playing
+ */
+export async function sendTeamMessage(input: TeamMessageInput) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    const parsed = teamMessageSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0].message };
+    }
+
+    const { teamSessionId, content } = parsed.data;
+
+    try {
+        const team = await db.query.teamSessions.findFirst({
+            where: eq(teamSessions.id, teamSessionId),
+            columns: { status: true },
+        });
+        const membership = team ? await getTeamMembership(teamSessionId, userId) : undefined;
+
+        if (!team || !membership) {
+            return { success: false, message: 'Team not found' };
+        }
+
+        if (team.status !== 'lobby' && team.status !== 'active') {
+            return { success: false, message: 'This team session has ended' };
+        }
+
+        await db.insert(teamSessionMessages).values({ teamSessionId, userId, content });
+        await touchTeamSession(teamSessionId);
+
+        return { success: true, message: 'Message sent' };
+    } catch (error) {
+        console.error('Error sending team message:', error);
+        return { success: false, message: 'Failed to send message' };
+    }
+}
+
+/**
+ * Current state of a team the user belongs to, for the first render before
+ * server-sent events take over
+ */
+export async function getTeamSession(teamSessionId: number) {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized' };
+    }
+
+    try {
+        const membership = await getTeamMembership(teamSessionId, userId);
+        const state = membership ? await loadTeamSessionState(teamSessionId) : null;
+
+        if (!membership || !state) {
+            return { success: false, message: 'Team not found' };
+        }
+
+        return { success: true, message: 'Team loaded', data: { team: state, userId, role: membership.role } };
+    } catch (error) {
+        console.error('Error loading team session:', error);
+        return { success: false, message: 'Failed to load team' };
+    }
+}
+
+/**
+ * Teams the user is in that haven't finished, so a closed tab can be rejoined
+ */
+export async function getMyTeamSessions() {
+    const { userId } = await auth();
+
+    if (!userId) {
+        return { success: false, message: 'Unauthorized', data: [] };
+    }
+
+    try {
+        const memberships = await db.query.teamSessionMembers.findMany({
+            where: eq(teamSessionMembers.userId, userId),
+            orderBy: [desc(teamSessionMembers.joinedAt)],
+            columns: { role: true },
+            with: {
+                teamSession: {
+                    columns: { id: true, joinCode: true, status: true },
+                    with: { case: { columns: { title: true } } },
+                },
+            },
+        });
+
+        const data = memberships
+            .filter(({ teamSession }) => teamSession.status === 'lobby' || teamSession.status === 'active')
+            .map(({ role, teamSession }) => ({
+                teamSessionId: teamSession.id,
+                joinCode: teamSession.joinCode,
+                status: teamSession.status,
+                caseTitle: teamSession.case.title,
+                role,
+            }));
+
+        return { success: true, message: 'Teams loaded', data };
+    } catch (error) {
+        console.error('Error loading team sessions:', error);
+        return { success: false, message: 'Failed to load teams', data: [] };
+    }
+}
@@ -9,8 +9,10 @@ import {
     ukmlaQuestionOptions,
     ukmlaQuestions,
     difficultyLevels,
+    reviewStatuses,
 } from '@/db/schema';
 import { requireAdmin, getCurrentUserId } from '@/lib/admin';
+import { getPublishBlocker, reopenEditedUkmlaQuestion } from '@/lib/editorial-review-store';
 import {
     createUkmlaQuestionSchema,
     generateUkmlaBatchSchema,
@@ -28,7 +30,7 @@ const adminListSchema = z.object({
     pageSize: z.number().int().min(1).max(100).default(25),
     category: z.enum(ukmlaCategories).optional(),
     difficulty: z.enum(difficultyLevels).optional(),
-    verificationStatus: z.enum(['draft', 'verified', 'rejected']).optional(),
+    verificationStatus: z.enum(reviewStatuses).optional(),
     search: z.string().trim().max(200).optional(),
     dateFrom: z.string().optional(),
     dateTo: z.string().optional(),
@@ -146,6 +148,8 @@ export async function createUkmlaQuestion(input: CreateUkmlaQuestionInput) {
 
 export async function updateUkmlaQuestion(input: UpdateUkmlaQuestionInput) {
     await requireAdmin();
+    const editorId = await getCurrentUserId();
+    if (!editorId) return { success: false, message: 'Unauthorized' };
 
     const parsed = updateUkmlaQuestionSchema.safeParse(input);
     if (!parsed.success) {
@@ -160,10 +164,8 @@ export async function updateUkmlaQuestion(input: UpdateUkmlaQuestionInput) {
                 explanation: parsed.data.explanation,
                 category: parsed.data.category,
                 difficultyLevel: parsed.data.difficultyLevel,
-                verificationStatus: parsed.data.verificationStatus || 'draft',
                 qualityScore: parsed.data.qualityScore ?? 0,
                 rigourScore: parsed.data.rigourScore ?? 0,
-                isPublished: parsed.data.isPublished ?? false,
                 updatedAt: new Date(),
             })
             .where(eq(ukmlaQuestions.id, parsed.data.id))
@@ -184,6 +186,9 @@ export async function updateUkmlaQuestion(input: UpdateUkmlaQuestionInput) {
             }))
         );
 
+        // Changing approved wording needs another review before it goes back live
+        await reopenEditedUkmlaQuestion(parsed.data.id, editorId);
+
         revalidatePath('/admin/ukmla');
         revalidatePath(`/admin/ukmla/${parsed.data.id}/edit`);
         revalidatePath('/ukmla');
@@ -229,6 +234,13 @@ export async function toggleUkmlaPublish(id: number, publish: boolean) {
             return { success: false, message: 'Question must have exactly one correct option before publishing.' };
         }
 
+        if (publish) {
+            const blocker = await getPublishBlocker({ contentType: 'ukmla_question', contentId: id });
+            if (blocker) {
+                return { success: false, message: `${blocker}.` };
+            }
+        }
+
         await db
             .update(ukmlaQuestions)
             .set({
@@ -1,6 +1,6 @@
 'use server';
 
-import { auth, currentUser } from '@clerk/nextjs/server';
+import { auth } from '@clerk/nextjs/server';
 import { and, asc, desc, eq, inArray, like, lte, or, sql } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
 import { db } from '@/db';
@@ -8,13 +8,13 @@ import {
     difficultyLevels,
     ukmlaCategories,
     ukmlaQuestionOptions,
+    ukmlaQuestionMedia,
     ukmlaQuestions,
     ukmlaAttempts,
     ukmlaUserStats,
     ukmlaCategoryStats,
     ukmlaDifficultyStats,
     ukmlaSpacedRepetitionCards,
-    users,
 } from '@/db/schema';
 import {
     recordUkmlaAttemptSchema,
@@ -22,6 +22,10 @@ import {
     ukmlaQueryFilterSchema,
     type UkmlaQueryFilterInput,
 } from '@/schemas/ukmla';
+import { toMediaItem } from '@/lib/media';
+import { findConfidentlyWrongTopics, prioritiseConfidentlyWrong } from '@/lib/calibration';
+import { loadRatedAnswers } from '@/lib/rated-answers';
+import { ensureCurrentUserInDb } from '@/lib/auth-helpers';
 
 type DifficultyLevel = (typeof difficultyLevels)[number];
 
@@ -31,31 +35,6 @@ function calculateAttemptScore(difficultyLevel: DifficultyLevel, isCorrect: bool
     return isCorrect ? 20 : -4;
 }
 
-async function ensureCurrentUserInDb(userId: string) {
-    const user = await currentUser();
-    if (!user?.id) return;
-
-    const adminEmails = (process.env.ADMIN_EMAILS || '')
-        .split(',')
-        .map((email) => email.trim().toLowerCase())
-        .filter((email) => email.length > 0);
-
-    const userEmail = user.emailAddresses[0]?.emailAddress?.toLowerCase();
-    const role = userEmail && adminEmails.includes(userEmail) ? 'admin' : 'student';
-
-    await db
-        .insert(users)
-        .values({
-            id: userId,
-            email: user.emailAddresses[0]?.emailAddress || `${userId}@unknown.local`,
-            firstName: user.firstName || null,
-            lastName: user.lastName || null,
-            imageUrl: user.imageUrl || null,
-            role,
-        })
-        .onConflictDoNothing();
-}
-
 export async function getUkmlaQuestions(input?: UkmlaQueryFilterInput) {
     const { userId } = await auth();
     if (!userId) {
@@ -181,6 +160,10 @@ export async function loadUkmlaQuestionForAttempt(questionId: number) {
             options: {
                 orderBy: [asc(ukmlaQuestionOptions.optionOrder)],
             },
+            media: {
+                orderBy: [asc(ukmlaQuestionMedia.displayOrder), asc(ukmlaQuestionMedia.id)],
+                with: { asset: { columns: { storageKey: true } } },
+            },
         },
     });
 
@@ -188,7 +171,7 @@ export async function loadUkmlaQuestionForAttempt(questionId: number) {
         return { success: false, message: 'Question not found', data: null };
     }
 
-    return { success: true, data: question };
+    return { success: true, data: { ...question, media: question.media.map(toMediaItem) } };
 }
 
 export async function recordUkmlaAttempt(input: RecordUkmlaAttemptInput) {
@@ -230,6 +213,7 @@ export async function recordUkmlaAttempt(input: RecordUkmlaAttemptInput) {
             selectedOptionId: selectedOption.id,
             isCorrect,
             score,
+            confidence: parsed.data.confidence,
         });
 
         const currentUserStats = await db.query.ukmlaUserStats.findFirst({
@@ -428,23 +412,29 @@ export async function getUkmlaReviewQueue(limit = 50) {
 
     try {
         const now = new Date();
-        const cards = await db.query.ukmlaSpacedRepetitionCards.findMany({
-            where: and(
-                eq(ukmlaSpacedRepetitionCards.userId, userId),
-                lte(ukmlaSpacedRepetitionCards.nextReviewDate, now)
-            ),
-            orderBy: [asc(ukmlaSpacedRepetitionCards.nextReviewDate)],
-            limit,
-            with: {
-                question: {
-                    with: {
-                        options: {
-                            orderBy: [asc(ukmlaQuestionOptions.optionOrder)],
+        const [dueCards, answers] = await Promise.all([
+            db.query.ukmlaSpacedRepetitionCards.findMany({
+                where: and(
+                    eq(ukmlaSpacedRepetitionCards.userId, userId),
+                    lte(ukmlaSpacedRepetitionCards.nextReviewDate, now)
+                ),
+                orderBy: [asc(ukmlaSpacedRepetitionCards.nextReviewDate)],
+                with: {
+                    question: {
+                        with: {
+                            options: {
+                                orderBy: [asc(ukmlaQuestionOptions.optionOrder)],
+                            },
                         },
                     },
                 },
-            },
-        });
+            }),
+            loadRatedAnswers(userId, { cases: true, ukmla: true }),
+        ]);
+
+        // Questions in topics the student keeps getting confidently wrong come first
+        const cards = prioritiseConfidentlyWrong(dueCards, (card) => card.question.category, findConfidentlyWrongTopics(answers))
+            .slice(0, limit);
 
         return { success: true, data: cards };
     } catch (error) {
@@ -3,12 +3,14 @@
 import { db } from '@/db';
 import { cases } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { inCurrentCaseVersion } from '@/lib/case-versions';
 
 export async function getSimulation(caseId: number) {
     const simulation = await db.query.cases.findFirst({
         where: eq(cases.id, caseId),
         with: {
             stages: {
+                where: inCurrentCaseVersion, // The version students play
                 orderBy: (stages, { asc }) => [asc(stages.stageOrder)],
                 with: {
                     options: true,
@@ -16,6 +16,19 @@ import {
     deleteOption
 } from '@/actions/admin';
 import { generateCaseAction, generateClinicalDataAction } from '@/actions/ai';
+import { exportCaseBundleFile } from '@/actions/case-bundles';
+import { caseHealthStyles, describeCaseHealth, getCaseHealth, lintCase } from '@/lib/case-lint';
+import { describeVitalEffects, vitalEffectKeys } from '@/lib/physiology';
+import { investigationCatalogue } from '@/lib/investigations';
+import { toMediaItem } from '@/lib/media';
+import { MediaAttachmentsEditor } from '@/components/media-attachments-editor';
+import { LabPanelsEditor } from '@/components/lab-panels-editor';
+import { decisionTypeLabels } from '@/lib/decision-types';
+import { DEFAULT_NO_DECISION_PENALTY } from '@/lib/timed-stages';
+import { DEFAULT_HINT_COST } from '@/lib/hints';
+import { isCriticalError, safetyClassLabels } from '@/lib/patient-safety';
+import { reviewStatusLabels, reviewStatusStyles } from '@/lib/editorial-review';
+import { caseOutcomes, decisionTypes, investigationTypes, patientSexes, safetyClasses, stageTypes, type CaseOutcome, type CaseTemplateVariable, type DecisionType, type InvestigationType, type PatientDemographics, type PatientScript, type PatientSex, type ReviewStatus, type SafetyClass, type StageHint, type StageType, type VitalEffects } from '@/db/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from '@/components/ui/card';
@@ -31,6 +44,7 @@ import {
 } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
 import {
+    AlertTriangle,
     Loader2,
     Plus,
     Trash2,
@@ -45,6 +59,11 @@ import {
     EyeOff,
     Save,
     Edit,
+    Download,
+    ClipboardCheck,
+    PlayCircle,
+    History,
+    Upload,
     X
 } from 'lucide-react';
 
@@ -54,10 +73,16 @@ type Case = {
     description: string;
     clinicalDomain: string;
     difficultyLevel: 'Foundation' | 'Core' | 'Advanced';
-    verificationStatus?: string;
+    verificationStatus?: ReviewStatus;
     qualityScore?: number;
     rigourScore?: number;
+    baselineVitals?: unknown;
+    patientDemographics?: PatientDemographics | null;
+    stageTimeLimitSeconds?: number | null;
+    templateVariables?: CaseTemplateVariable[] | null;
     isPublished: boolean;
+    publishedVersionId?: number | null;
+    versions?: { id: number; versionNumber: number }[];
     createdAt: string | Date;
     updatedAt: string | Date;
     user?: {
@@ -76,6 +101,19 @@ type Stage = {
     clinicalData: unknown;
     mediaUrl?: string | null;
     options: Option[];
+    investigations?: StageInvestigationInput[];
+    stageType?: StageType;
+    patientScript?: PatientScript | null;
+    decisionType?: DecisionType;
+    timeLimitSeconds?: number | null;
+    hints?: StageHint[];
+    media?: { id: number; caption: string; revealOnRequest: boolean; asset: { storageKey: string } }[];
+};
+
+type StageInvestigationInput = {
+    investigation: InvestigationType;
+    result: string;
+    isIndicated: boolean;
 };
 
 type Option = {
@@ -85,6 +123,14 @@ type Option = {
     isCorrect: boolean;
     scoreWeight: number;
     feedback: string;
+    nextStageId?: number | null;
+    outcome?: CaseOutcome | null;
+    vitalEffects?: VitalEffects | null;
+    durationMinutes?: number;
+    correctPosition?: number | null;
+    acceptedAnswers?: string[];
+    isTimeout?: boolean;
+    safetyClass?: SafetyClass | null;
 };
 
 type CreatorOption = {
@@ -105,7 +151,27 @@ type AdminCasesQuery = {
 };
 
 type DifficultyLevel = 'Foundation' | 'Core' | 'Advanced';
-type VerificationStatus = 'draft' | 'verified' | 'rejected';
+
+const stageTypeLabels: Record<StageType, string> = {
+    decision: 'Decision',
+    history: 'History taking',
+};
+
+// Starting point when a stage is switched to history taking
+const patientScriptTemplate = JSON.stringify({
+    persona: 'A 58-year-old retired builder, anxious and keen to get home.',
+    openingStatement: "I've had this crushing pain in my chest since this morning.",
+    facts: [
+        {
+            id: 'onset',
+            category: 'presenting_complaint',
+            label: 'Onset of pain',
+            detail: 'It came on about two hours ago while I was gardening.',
+            keywords: ['when', 'start', 'onset', 'began'],
+            weight: 2,
+        },
+    ],
+}, null, 2);
 
 type CaseFormInput = {
     title: string;
@@ -121,9 +187,12 @@ type EditCaseFormInput = {
     description?: string;
     clinicalDomain?: string;
     difficultyLevel?: DifficultyLevel;
-    verificationStatus?: VerificationStatus;
     qualityScore?: number;
     rigourScore?: number;
+    baselineVitals?: string;
+    patientDemographics?: PatientDemographics | null;
+    stageTimeLimitSeconds?: number | null;
+    templateVariables?: string;
 };
 
 type EditStageFormInput = {
@@ -131,6 +200,12 @@ type EditStageFormInput = {
     narrative?: string;
     clinicalData?: string;
     mediaUrl?: string | null;
+    investigations?: StageInvestigationInput[];
+    stageType?: StageType;
+    patientScript?: string;
+    decisionType?: DecisionType;
+    timeLimitSeconds?: number | null;
+    hints?: StageHint[];
 };
 
 type EditOptionFormInput = {
@@ -139,29 +214,306 @@ type EditOptionFormInput = {
     isCorrect?: boolean;
     scoreWeight?: number;
     feedback?: string;
+    nextStep?: string;
+    vitalEffects?: VitalEffects;
+    durationMinutes?: number;
+    correctPosition?: number | null;
+    acceptedAnswers?: string; // Comma-separated
+    isTimeout?: boolean;
+    safetyClass?: SafetyClass | null;
 };
 
+// Accepted free-text answers are edited as one comma-separated field
+function parseAcceptedAnswers(text: string): string[] {
+    return text.split(',').map(answer => answer.trim()).filter(Boolean);
+}
+
 function isDifficultyLevel(value: string): value is DifficultyLevel {
     return value === 'Foundation' || value === 'Core' || value === 'Advanced';
 }
 
-// Helper function to check if a case is complete and ready to publish
-function isCaseComplete(caseItem: Case): { complete: boolean; reason?: string } {
-    if (caseItem.stages.length === 0) {
-        return { complete: false, reason: 'No stages' };
-    }
+// The first structural error in the draft, which blocks publishing
+function getPublishLintError(caseItem: Case): string | null {
+    return lintCase(caseItem.stages).find((issue) => issue.severity === 'error')?.message ?? null;
+}
+
+// Branch selector values: 'next' (continue by stage order), 'stage:<id>' or 'outcome:<outcome>'
+function encodeNextStep(option: Pick<Option, 'nextStageId' | 'outcome'>): string {
+    if (option.outcome) return `outcome:${option.outcome}`;
+    if (option.nextStageId) return `stage:${option.nextStageId}`;
+    return 'next';
+}
 
-    const stageWithoutOptions = caseItem.stages.find(s => s.options.length === 0);
-    if (stageWithoutOptions) {
-        return { complete: false, reason: `Stage ${stageWithoutOptions.stageOrder} has no options` };
+function decodeNextStep(value: string | undefined): { nextStageId: number | null; outcome: CaseOutcome | null } {
+    if (value?.startsWith('stage:')) {
+        return { nextStageId: Number(value.slice('stage:'.length)), outcome: null };
+    }
+    if (value?.startsWith('outcome:')) {
+        const outcome = value.slice('outcome:'.length);
+        return { nextStageId: null, outcome: caseOutcomes.find(o => o === outcome) ?? null };
     }
+    return { nextStageId: null, outcome: null };
+}
 
-    const stageWithoutCorrect = caseItem.stages.find(s => !s.options.some(o => o.isCorrect));
-    if (stageWithoutCorrect) {
-        return { complete: false, reason: `Stage ${stageWithoutCorrect.stageOrder} missing correct option` };
+function describeNextStep(option: Option, stages: Stage[]): string {
+    if (option.outcome) return `Ends: ${option.outcome}`;
+    if (option.nextStageId) {
+        const target = stages.find(s => s.id === option.nextStageId);
+        return target ? `→ Stage ${target.stageOrder}` : '→ Missing stage';
     }
+    return '→ Next stage';
+}
+
+function PatientDemographicsInputs({ value, onChange }: {
+    value: PatientDemographics | null;
+    onChange: (value: PatientDemographics | null) => void;
+}) {
+    const hasCopd = value?.conditions?.includes('copd') ?? false;
 
-    return { complete: true };
+    return (
+        <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Age (years)</Label>
+                <Input
+                    type="number"
+                    min="0"
+                    max="120"
+                    className="w-24 h-8"
+                    value={value?.ageYears ?? ''}
+                    onChange={e => {
+                        const age = e.target.value === '' ? null : Number(e.target.value);
+                        onChange(age === null || Number.isNaN(age) ? null : { sex: 'female', ...value, ageYears: age });
+                    }}
+                />
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Sex</Label>
+                <Select
+                    value={value?.sex ?? ''}
+                    onValueChange={val => value && onChange({
+                        ...value,
+                        sex: val as PatientSex,
+                        pregnant: val === 'female' ? value.pregnant : false,
+                    })}
+                    disabled={!value}
+                >
+                    <SelectTrigger className="w-[120px] h-8">
+                        <SelectValue placeholder="—" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {patientSexes.map(sex => (
+                            <SelectItem key={sex} value={sex} className="capitalize">{sex}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="flex items-center gap-2 h-8">
+                <Checkbox
+                    id="patient-pregnant"
+                    checked={value?.pregnant ?? false}
+                    disabled={!value || value.sex !== 'female'}
+                    onCheckedChange={checked => value && onChange({ ...value, pregnant: checked === true })}
+                />
+                <Label htmlFor="patient-pregnant" className="text-sm">Pregnant</Label>
+            </div>
+            <div className="flex items-center gap-2 h-8">
+                <Checkbox
+                    id="patient-copd"
+                    checked={hasCopd}
+                    disabled={!value}
+                    onCheckedChange={checked => value && onChange({ ...value, conditions: checked === true ? ['copd'] : [] })}
+                />
+                <Label htmlFor="patient-copd" className="text-sm">COPD (SpO2 target 88–92%)</Label>
+            </div>
+        </div>
+    );
+}
+
+function VitalEffectsInputs({ value, onChange, durationMinutes, onDurationChange }: {
+    value: VitalEffects;
+    onChange: (value: VitalEffects) => void;
+    durationMinutes: number;
+    onDurationChange: (value: number) => void;
+}) {
+    return (
+        <div className="flex flex-wrap gap-2 items-end">
+            {vitalEffectKeys.map(key => (
+                <div key={key} className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">{key} Δ</Label>
+                    <Input
+                        type="number"
+                        step={key === 'Temp' ? '0.1' : '1'}
+                        className="w-20 h-8"
+                        value={value[key] ?? ''}
+                        onChange={e => onChange({ ...value, [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    />
+                </div>
+            ))}
+            <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Minutes</Label>
+                <Input
+                    type="number"
+                    min="0"
+                    className="w-20 h-8"
+                    value={durationMinutes}
+                    onChange={e => onDurationChange(parseInt(e.target.value) || 0)}
+                />
+            </div>
+        </div>
+    );
+}
+
+// One row per catalogue investigation; unchecked ones are left unauthored (normal, not indicated)
+function StageInvestigationsEditor({ value, onChange }: {
+    value: StageInvestigationInput[];
+    onChange: (value: StageInvestigationInput[]) => void;
+}) {
+    const update = (investigation: InvestigationType, patch: Partial<StageInvestigationInput> | null) => {
+        const existing = value.find(row => row.investigation === investigation);
+        if (patch === null) {
+            onChange(value.filter(row => row.investigation !== investigation));
+        } else if (existing) {
+            onChange(value.map(row => row.investigation === investigation ? { ...row, ...patch } : row));
+        } else {
+            onChange([...value, { investigation, result: '', isIndicated: false, ...patch }]);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {investigationTypes.map(investigation => {
+                const row = value.find(item => item.investigation === investigation);
+                return (
+                    <div key={investigation} className="grid grid-cols-[140px_1fr_auto] gap-2 items-start">
+                        <div className="flex items-center space-x-2 pt-2">
+                            <Checkbox
+                                id={`investigation-${investigation}`}
+                                checked={Boolean(row)}
+                                onCheckedChange={(checked) => update(investigation, checked ? {} : null)}
+                            />
+                            <Label htmlFor={`investigation-${investigation}`} className="text-xs">
+                                {investigationCatalogue[investigation].label}
+                            </Label>
+                        </div>
+                        <Input
+                            className="h-8 text-xs"
+                            placeholder={row ? 'Result shown when ordered' : 'Not authored: reported as normal'}
+                            value={row?.result ?? ''}
+                            disabled={!row}
+                            onChange={e => update(investigation, { result: e.target.value })}
+                        />
+                        <div className="flex items-center space-x-2 pt-2">
+                            <Checkbox
+                                id={`indicated-${investigation}`}
+                                checked={row?.isIndicated ?? false}
+                                disabled={!row}
+                                onCheckedChange={(checked) => update(investigation, { isIndicated: checked === true })}
+                            />
+                            <Label htmlFor={`indicated-${investigation}`} className="text-xs">Indicated</Label>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+// Tiers are revealed top to bottom, so the vaguest nudge goes first
+function StageHintsEditor({ value, onChange }: {
+    value: StageHint[];
+    onChange: (value: StageHint[]) => void;
+}) {
+    const update = (index: number, patch: Partial<StageHint>) => {
+        onChange(value.map((hint, i) => i === index ? { ...hint, ...patch } : hint));
+    };
+
+    return (
+        <div className="space-y-2">
+            {value.map((hint, index) => (
+                <div key={index} className="grid grid-cols-[24px_1fr_90px_auto] gap-2 items-center">
+                    <span className="text-xs font-mono text-muted-foreground">{index + 1}.</span>
+                    <Input
+                        className="h-8 text-xs"
+                        placeholder="e.g. Consider the reversible causes"
+                        value={hint.text}
+                        onChange={e => update(index, { text: e.target.value })}
+                    />
+                    <Input
+                        className="h-8 text-xs"
+                        type="number"
+                        min="0"
+                        max="10"
+                        title="Points deducted when revealed"
+                        value={hint.cost}
+                        onChange={e => update(index, { cost: parseInt(e.target.value) || 0 })}
+                    />
+                    <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        onClick={() => onChange(value.filter((_, i) => i !== index))}
+                    >
+                        <Trash2 className="h-3 w-3" />
+                    </Button>
+                </div>
+            ))}
+            {value.length < 5 && (
+                <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onChange([...value, { text: '', cost: DEFAULT_HINT_COST }])}
+                >
+                    <Plus className="h-3 w-3 mr-1" /> Add Hint
+                </Button>
+            )}
+        </div>
+    );
+}
+
+function NextStepSelect({ value, onChange, stages, currentStageId }: {
+    value: string;
+    onChange: (value: string) => void;
+    stages: Stage[];
+    currentStageId: number;
+}) {
+    return (
+        <Select value={value} onValueChange={onChange}>
+            <SelectTrigger className="w-[220px]">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value="next">Next stage in order</SelectItem>
+                {stages.filter(s => s.id !== currentStageId).map(s => (
+                    <SelectItem key={s.id} value={`stage:${s.id}`}>Go to Stage {s.stageOrder}</SelectItem>
+                ))}
+                {caseOutcomes.map(outcome => (
+                    <SelectItem key={outcome} value={`outcome:${outcome}`} className="capitalize">End case: {outcome}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
+
+// Unclassified options fall back on isCorrect and the score weight in analytics
+function SafetyClassSelect({ value, onChange }: {
+    value: SafetyClass | null;
+    onChange: (value: SafetyClass | null) => void;
+}) {
+    return (
+        <Select value={value ?? 'unclassified'} onValueChange={val => onChange(val === 'unclassified' ? null : val as SafetyClass)}>
+            <SelectTrigger className="w-[170px]">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value="unclassified">Unclassified</SelectItem>
+                {safetyClasses.map(safetyClass => (
+                    <SelectItem key={safetyClass} value={safetyClass}>{safetyClassLabels[safetyClass]}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
 }
 
 interface AdminDashboardProps {
@@ -218,7 +570,14 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
         text: '',
         isCorrect: false,
         scoreWeight: 0,
-        feedback: ''
+        feedback: '',
+        nextStep: 'next',
+        vitalEffects: {} as VitalEffects,
+        durationMinutes: 5,
+        correctPosition: null as number | null,
+        acceptedAnswers: '',
+        isTimeout: false,
+        safetyClass: null as SafetyClass | null,
     });
 
     useEffect(() => {
@@ -274,13 +633,13 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
         });
     };
 
-    const handleGenerateClinicalData = async (narrative: string, target: 'new' | 'edit') => {
+    const handleGenerateClinicalData = async (narrative: string, target: 'new' | 'edit', caseId: number) => {
         if (!narrative) {
             alert("Please enter a narrative first.");
             return;
         }
         setLoading(true);
-        const res = await generateClinicalDataAction(narrative);
+        const res = await generateClinicalDataAction(narrative, caseId);
         if (res.success) {
             const jsonString = JSON.stringify(res.data, null, 2);
             if (target === 'new') {
@@ -331,12 +690,15 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
 
     const handleCreateOption = async (stageId: number) => {
         setLoading(true);
+        const { nextStep, acceptedAnswers, ...optionFields } = newOption;
         const res = await createOption({
             stageId,
-            ...newOption
+            ...optionFields,
+            ...decodeNextStep(nextStep),
+            acceptedAnswers: parseAcceptedAnswers(acceptedAnswers),
         });
         if (res.success) {
-            setNewOption({ text: '', isCorrect: false, scoreWeight: 0, feedback: '' });
+            setNewOption({ text: '', isCorrect: false, scoreWeight: 0, feedback: '', nextStep: 'next', vitalEffects: {}, durationMinutes: 5, correctPosition: null, acceptedAnswers: '', isTimeout: false, safetyClass: null });
             await handleRefresh();
         } else {
             alert(res.message);
@@ -363,6 +725,34 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
         setLoading(false);
     };
 
+    const handleExportCases = async (caseIds: number[], format: 'json' | 'yaml') => {
+        setLoading(true);
+        const res = await exportCaseBundleFile({ caseIds, format });
+        if (res.success && res.content) {
+            const url = URL.createObjectURL(new Blob([res.content], { type: res.contentType }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = res.filename;
+            link.click();
+            URL.revokeObjectURL(url);
+        } else {
+            alert(res.message);
+        }
+        setLoading(false);
+    };
+
+    // Freezes the draft as a new version while the case stays live
+    const handlePublishChanges = async (id: number) => {
+        setLoading(true);
+        const res = await togglePublish(id, true);
+        if (res.success) {
+            await handleRefresh();
+        } else {
+            alert(res.message);
+        }
+        setLoading(false);
+    };
+
     // ===== UPDATE HANDLERS =====
     const startEditCase = (caseItem: Case) => {
         setEditingCaseId(caseItem.id);
@@ -372,9 +762,12 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
             description: caseItem.description,
             clinicalDomain: caseItem.clinicalDomain,
             difficultyLevel: caseItem.difficultyLevel,
-            verificationStatus: (caseItem.verificationStatus as VerificationStatus | undefined) || 'draft',
             qualityScore: caseItem.qualityScore || 0,
             rigourScore: caseItem.rigourScore || 0,
+            baselineVitals: caseItem.baselineVitals ? JSON.stringify(caseItem.baselineVitals, null, 2) : '',
+            patientDemographics: caseItem.patientDemographics ?? null,
+            stageTimeLimitSeconds: caseItem.stageTimeLimitSeconds ?? null,
+            templateVariables: caseItem.templateVariables?.length ? JSON.stringify(caseItem.templateVariables, null, 2) : '',
         });
     };
 
@@ -396,9 +789,12 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
             description: editCaseForm.description,
             clinicalDomain: editCaseForm.clinicalDomain,
             difficultyLevel: editCaseForm.difficultyLevel,
-            verificationStatus: editCaseForm.verificationStatus,
             qualityScore: editCaseForm.qualityScore,
             rigourScore: editCaseForm.rigourScore,
+            baselineVitals: editCaseForm.baselineVitals,
+            patientDemographics: editCaseForm.patientDemographics,
+            stageTimeLimitSeconds: editCaseForm.stageTimeLimitSeconds,
+            templateVariables: editCaseForm.templateVariables,
         });
         if (res.success) {
             setEditingCaseId(null);
@@ -423,6 +819,12 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                 ? stage.clinicalData
                 : JSON.stringify(stage.clinicalData, null, 2),
             mediaUrl: stage.mediaUrl,
+            investigations: (stage.investigations ?? []).map(({ investigation, result, isIndicated }) => ({ investigation, result, isIndicated })),
+            stageType: stage.stageType ?? 'decision',
+            patientScript: stage.patientScript ? JSON.stringify(stage.patientScript, null, 2) : '',
+            decisionType: stage.decisionType ?? 'single',
+            timeLimitSeconds: stage.timeLimitSeconds ?? null,
+            hints: stage.hints ?? [],
         });
     };
 
@@ -441,6 +843,12 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
             narrative: editStageForm.narrative,
             clinicalData: editStageForm.clinicalData,
             mediaUrl: editStageForm.mediaUrl,
+            investigations: editStageForm.investigations,
+            stageType: editStageForm.stageType,
+            patientScript: editStageForm.patientScript,
+            decisionType: editStageForm.decisionType,
+            timeLimitSeconds: editStageForm.timeLimitSeconds,
+            hints: editStageForm.hints,
         });
         if (res.success) {
             setEditingStageId(null);
@@ -472,6 +880,13 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
             isCorrect: option.isCorrect,
             scoreWeight: option.scoreWeight,
             feedback: option.feedback,
+            nextStep: encodeNextStep(option),
+            vitalEffects: option.vitalEffects || {},
+            durationMinutes: option.durationMinutes ?? 5,
+            correctPosition: option.correctPosition ?? null,
+            acceptedAnswers: (option.acceptedAnswers ?? []).join(', '),
+            isTimeout: option.isTimeout ?? false,
+            safetyClass: option.safetyClass ?? null,
         });
     };
 
@@ -493,6 +908,13 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
             isCorrect: editOptionForm.isCorrect,
             scoreWeight: editOptionForm.scoreWeight,
             feedback: editOptionForm.feedback,
+            ...decodeNextStep(editOptionForm.nextStep),
+            vitalEffects: editOptionForm.vitalEffects,
+            durationMinutes: editOptionForm.durationMinutes,
+            correctPosition: editOptionForm.correctPosition,
+            acceptedAnswers: parseAcceptedAnswers(editOptionForm.acceptedAnswers ?? ''),
+            isTimeout: editOptionForm.isTimeout,
+            safetyClass: editOptionForm.safetyClass,
         });
         if (res.success) {
             setEditingOptionId(null);
@@ -526,6 +948,18 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                         <Link href="/admin/ukmla" className="text-sm text-primary hover:underline">
                             Open UKMLA Question Bank →
                         </Link>
+                        <Link href="/admin/safety" className="ml-4 text-sm text-primary hover:underline">
+                            Critical Errors Report →
+                        </Link>
+                        <Link href="/admin/classroom" className="ml-4 text-sm text-primary hover:underline">
+                            Live Classroom →
+                        </Link>
+                        <Link href="/admin/osce" className="ml-4 text-sm text-primary hover:underline">
+                            OSCE Stations →
+                        </Link>
+                        <Link href="/admin/reviews" className="ml-4 text-sm text-primary hover:underline">
+                            Editorial Reviews →
+                        </Link>
                     </div>
                 </div>
                 <div className="text-right">
@@ -760,6 +1194,27 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                         <Button variant="outline" onClick={clearFilters} disabled={loading}>
                             Reset
                         </Button>
+                        <div className="ml-auto flex gap-2">
+                            <Button
+                                variant="outline"
+                                onClick={() => handleExportCases(cases.map((c) => c.id), 'json')}
+                                disabled={loading || cases.length === 0}
+                            >
+                                <Download className="h-4 w-4 mr-2" /> Export Page (JSON)
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={() => handleExportCases(cases.map((c) => c.id), 'yaml')}
+                                disabled={loading || cases.length === 0}
+                            >
+                                <Download className="h-4 w-4 mr-2" /> Export Page (YAML)
+                            </Button>
+                            <Link href="/admin/cases/import">
+                                <Button variant="outline">
+                                    <Upload className="h-4 w-4 mr-2" /> Import Bundle
+                                </Button>
+                            </Link>
+                        </div>
                     </CardFooter>
                 </Card>
 
@@ -798,24 +1253,74 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                             </div>
                             <div className="flex items-center gap-2">
                                 {(() => {
-                                    const completionStatus = isCaseComplete(c);
+                                    const issues = lintCase(c.stages);
+                                    const health = getCaseHealth(issues);
                                     return (
-                                        <>
-                                            {completionStatus.complete ? (
-                                                <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 flex items-center gap-1">
-                                                    ✓ Complete
-                                                </span>
-                                            ) : (
-                                                <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 flex items-center gap-1" title={completionStatus.reason}>
-                                                    ⚠ {completionStatus.reason}
-                                                </span>
-                                            )}
-                                        </>
+                                        <span
+                                            className={`text-xs px-2 py-1 rounded-full flex items-center gap-1 ${caseHealthStyles[health]}`}
+                                            title={issues.length > 0 ? issues.map((issue) => `${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.message}`).join('\n') : 'No structural problems found'}
+                                        >
+                                            {health === 'healthy' ? '✓' : '⚠'} {describeCaseHealth(issues)}
+                                        </span>
                                     );
                                 })()}
                                 <span className={`text-xs px-2 py-1 rounded-full ${c.isPublished ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300'}`}>
                                     {c.isPublished ? 'Published' : 'Draft'}
                                 </span>
+                                <span className={`text-xs px-2 py-1 rounded-full ${reviewStatusStyles[c.verificationStatus ?? 'draft']}`}>
+                                    {reviewStatusLabels[c.verificationStatus ?? 'draft']}
+                                </span>
+                                {(() => {
+                                    const live = c.versions?.find((version) => version.id === c.publishedVersionId);
+                                    return live && (
+                                        <span className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground" title="Students play this version; edits below change the draft">
+                                            v{live.versionNumber}
+                                        </span>
+                                    );
+                                })()}
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-8 w-8 p-0"
+                                    onClick={(e) => { e.stopPropagation(); handleExportCases([c.id], 'json'); }}
+                                    title="Export as a case bundle"
+                                    disabled={loading}
+                                >
+                                    <Download className="h-4 w-4" />
+                                </Button>
+                                <Link href={`/admin/reviews/case/${c.id}`} onClick={(e) => e.stopPropagation()}>
+                                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title="Editorial review">
+                                        <ClipboardCheck className="h-4 w-4" />
+                                    </Button>
+                                </Link>
+                                <Link href={`/admin/cases/${c.id}/preview`} onClick={(e) => e.stopPropagation()}>
+                                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title="Test play the draft (nothing is recorded)">
+                                        <PlayCircle className="h-4 w-4" />
+                                    </Button>
+                                </Link>
+                                <Link href={`/admin/cases/${c.id}/versions`} onClick={(e) => e.stopPropagation()}>
+                                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title="Version history">
+                                        <History className="h-4 w-4" />
+                                    </Button>
+                                </Link>
+                                {c.isPublished && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-8 w-8 p-0 text-green-600 hover:text-green-700"
+                                        onClick={(e) => { e.stopPropagation(); handlePublishChanges(c.id); }}
+                                        title={
+                                            getPublishLintError(c)
+                                                ? `Cannot publish: ${getPublishLintError(c)}`
+                                                : c.verificationStatus !== 'approved'
+                                                    ? 'Cannot publish: the draft needs approving in editorial review'
+                                                    : 'Publish draft changes as a new version'
+                                        }
+                                        disabled={loading || Boolean(getPublishLintError(c)) || c.verificationStatus !== 'approved'}
+                                    >
+                                        <Upload className="h-4 w-4" />
+                                    </Button>
+                                )}
                                 <Button
                                     size="sm"
                                     variant="ghost"
@@ -831,13 +1336,15 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                     className={`h-8 w-8 p-0 ${c.isPublished ? 'text-yellow-600 hover:text-yellow-700' : 'text-green-600 hover:text-green-700'}`}
                                     onClick={(e) => { e.stopPropagation(); handleTogglePublish(c.id, c.isPublished); }}
                                     title={
-                                        !c.isPublished && !isCaseComplete(c).complete
-                                            ? `Cannot publish: ${isCaseComplete(c).reason}`
-                                            : c.isPublished
-                                                ? 'Unpublish (hide from students)'
-                                                : 'Publish (show to all students)'
+                                        !c.isPublished && getPublishLintError(c)
+                                            ? `Cannot publish: ${getPublishLintError(c)}`
+                                            : !c.isPublished && c.verificationStatus !== 'approved'
+                                                ? 'Cannot publish: the case needs approving in editorial review'
+                                                : c.isPublished
+                                                    ? 'Unpublish (hide from students)'
+                                                    : 'Publish (show to all students)'
                                     }
-                                    disabled={!c.isPublished && !isCaseComplete(c).complete}
+                                    disabled={!c.isPublished && (Boolean(getPublishLintError(c)) || c.verificationStatus !== 'approved')}
                                 >
                                     {c.isPublished ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                                 </Button>
@@ -901,20 +1408,15 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                         </Select>
                                     </div>
                                     <div className="space-y-2">
-                                        <Label>Verification Status</Label>
-                                        <Select
-                                            value={editCaseForm.verificationStatus || 'draft'}
-                                            onValueChange={(val) => setEditCaseForm({ ...editCaseForm, verificationStatus: val as VerificationStatus })}
-                                        >
-                                            <SelectTrigger>
-                                                <SelectValue />
-                                            </SelectTrigger>
-                                            <SelectContent>
-                                                <SelectItem value="draft">Draft</SelectItem>
-                                                <SelectItem value="verified">Verified</SelectItem>
-                                                <SelectItem value="rejected">Rejected</SelectItem>
-                                            </SelectContent>
-                                        </Select>
+                                        <Label>Review Status</Label>
+                                        <div className="flex h-10 items-center gap-3 text-sm">
+                                            <span className={`text-xs px-2 py-1 rounded-full ${reviewStatusStyles[c.verificationStatus ?? 'draft']}`}>
+                                                {reviewStatusLabels[c.verificationStatus ?? 'draft']}
+                                            </span>
+                                            <Link href={`/admin/reviews/case/${c.id}`} className="text-primary hover:underline">
+                                                Open review →
+                                            </Link>
+                                        </div>
                                     </div>
                                     <div className="space-y-2">
                                         <Label>Quality Score (0-100)</Label>
@@ -940,12 +1442,80 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                             className="border-purple-300 dark:border-purple-700"
                                         />
                                     </div>
+                                    <div className="space-y-2 md:col-span-2">
+                                        <Label>Baseline Vitals (JSON)</Label>
+                                        <Textarea
+                                            placeholder={'{\n  "BP": "120/80",\n  "HR": 75,\n  "RR": 16,\n  "Temp": 37.0,\n  "SpO2": 98\n}'}
+                                            value={editCaseForm.baselineVitals || ''}
+                                            onChange={e => setEditCaseForm({ ...editCaseForm, baselineVitals: e.target.value })}
+                                            className="font-mono text-xs min-h-[120px]"
+                                        />
+                                        <p className="text-xs text-muted-foreground">
+                                            Starting physiology for the case. Stage clinical data only needs the values that change; option effects carry forward.
+                                        </p>
+                                    </div>
+                                    <div className="space-y-2 md:col-span-2">
+                                        <Label>Patient</Label>
+                                        <PatientDemographicsInputs
+                                            value={editCaseForm.patientDemographics ?? null}
+                                            onChange={patientDemographics => setEditCaseForm({ ...editCaseForm, patientDemographics })}
+                                        />
+                                        <p className="text-xs text-muted-foreground">
+                                            Sets the reference ranges used to flag abnormal vitals and labs, and the NEWS2 SpO2 scale. Leave age blank for adult defaults.
+                                        </p>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Stage Time Limit (seconds)</Label>
+                                        <Input
+                                            type="number"
+                                            min="10"
+                                            max="3600"
+                                            placeholder="Untimed"
+                                            value={editCaseForm.stageTimeLimitSeconds ?? ''}
+                                            onChange={e => setEditCaseForm({ ...editCaseForm, stageTimeLimitSeconds: parseInt(e.target.value) || null })}
+                                        />
+                                        <p className="text-xs text-muted-foreground">
+                                            Timed emergency mode: every stage counts down from this unless it sets its own limit.
+                                        </p>
+                                    </div>
+                                    <div className="space-y-2 md:col-span-2">
+                                        <Label>Template Variables (JSON)</Label>
+                                        <Textarea
+                                            placeholder={'[\n  { "key": "name", "kind": "choice", "values": ["Mr Patel", "Mrs Jones"], "group": "patient" },\n  { "key": "sex", "kind": "choice", "values": ["male", "female"], "group": "patient" },\n  { "key": "age", "kind": "number", "min": 55, "max": 80 },\n  { "key": "hr", "kind": "number", "min": 105, "max": 130 }\n]'}
+                                            value={editCaseForm.templateVariables || ''}
+                                            onChange={e => setEditCaseForm({ ...editCaseForm, templateVariables: e.target.value })}
+                                            className="font-mono text-xs min-h-[120px]"
+                                        />
+                                        <p className="text-xs text-muted-foreground">
+                                            Each attempt draws fresh values and fills {'{{key}}'} in narratives, options, feedback and clinical data. A JSON value of just {'"{{hr}}"'} becomes the number itself. The age and sex keys also set the patient; choices in the same group stay paired.
+                                        </p>
+                                    </div>
                                 </div>
                             </div>
                         )}
 
                         {expandedCaseId === c.id && editingCaseId !== c.id && (
                             <div className="bg-muted/10 p-6 border-t animate-in fade-in zoom-in-95 duration-200">
+                                {/* STRUCTURAL CHECKS */}
+                                {(() => {
+                                    const issues = lintCase(c.stages);
+                                    return issues.length > 0 && (
+                                        <div className="mb-6 rounded-md border p-4 space-y-2">
+                                            <h4 className="font-semibold flex items-center gap-2">
+                                                <AlertTriangle className="h-4 w-4" /> Structural checks
+                                            </h4>
+                                            <p className="text-xs text-muted-foreground">Errors block publishing; warnings are worth a look.</p>
+                                            <ul className="space-y-1 text-sm">
+                                                {issues.map((issue, index) => (
+                                                    <li key={index} className={issue.severity === 'error' ? 'text-red-700 dark:text-red-400' : 'text-amber-700 dark:text-amber-400'}>
+                                                        {issue.severity === 'error' ? 'Error' : 'Warning'}: {issue.message}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    );
+                                })()}
+
                                 {/* STAGES */}
                                 <div className="space-y-6">
                                     <div className="flex items-center justify-between">
@@ -1014,7 +1584,7 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                                         variant="ghost"
                                                                         size="sm"
                                                                         className="h-6 text-xs text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50"
-                                                                        onClick={() => handleGenerateClinicalData(editStageForm.narrative || '', 'edit')}
+                                                                        onClick={() => handleGenerateClinicalData(editStageForm.narrative || '', 'edit', c.id)}
                                                                         disabled={loading || !editStageForm.narrative}
                                                                         type="button"
                                                                     >
@@ -1027,6 +1597,11 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                                     className="min-h-[120px] font-mono text-xs"
                                                                 />
                                                             </div>
+                                                            <LabPanelsEditor
+                                                                clinicalData={typeof editStageForm.clinicalData === 'string' ? editStageForm.clinicalData : JSON.stringify(editStageForm.clinicalData, null, 2)}
+                                                                onChange={clinicalData => setEditStageForm({ ...editStageForm, clinicalData })}
+                                                                patient={c.patientDemographics}
+                                                            />
                                                             <div className="space-y-2">
                                                                 <Label>Media URL (optional)</Label>
                                                                 <Input
@@ -1035,6 +1610,105 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                                     placeholder="https://..."
                                                                 />
                                                             </div>
+                                                            <div className="space-y-2">
+                                                                <Label>Stage Type</Label>
+                                                                <Select
+                                                                    value={editStageForm.stageType ?? 'decision'}
+                                                                    onValueChange={val => setEditStageForm({
+                                                                        ...editStageForm,
+                                                                        stageType: val as StageType,
+                                                                        patientScript: editStageForm.patientScript || (val === 'history' ? patientScriptTemplate : ''),
+                                                                    })}
+                                                                >
+                                                                    <SelectTrigger className="w-[220px]">
+                                                                        <SelectValue />
+                                                                    </SelectTrigger>
+                                                                    <SelectContent>
+                                                                        {stageTypes.map(type => (
+                                                                            <SelectItem key={type} value={type}>{stageTypeLabels[type]}</SelectItem>
+                                                                        ))}
+                                                                    </SelectContent>
+                                                                </Select>
+                                                            </div>
+                                                            <div className="space-y-2">
+                                                                <Label>Decision Type</Label>
+                                                                <Select
+                                                                    value={editStageForm.decisionType ?? 'single'}
+                                                                    onValueChange={val => setEditStageForm({ ...editStageForm, decisionType: val as DecisionType })}
+                                                                >
+                                                                    <SelectTrigger className="w-[220px]">
+                                                                        <SelectValue />
+                                                                    </SelectTrigger>
+                                                                    <SelectContent>
+                                                                        {decisionTypes.map(type => (
+                                                                            <SelectItem key={type} value={type}>{decisionTypeLabels[type]}</SelectItem>
+                                                                        ))}
+                                                                    </SelectContent>
+                                                                </Select>
+                                                                {(editStageForm.decisionType === 'multi' || editStageForm.decisionType === 'ordering') && (
+                                                                    <p className="text-xs text-muted-foreground">
+                                                                        The first option added decides where the case goes next and its vital effects; the others only affect the score.
+                                                                    </p>
+                                                                )}
+                                                                {editStageForm.decisionType === 'free_text' && (
+                                                                    <p className="text-xs text-muted-foreground">
+                                                                        Answers are matched against each option&apos;s accepted answers. An option with none catches everything else.
+                                                                    </p>
+                                                                )}
+                                                            </div>
+                                                            <div className="space-y-2">
+                                                                <Label>Time Limit (seconds)</Label>
+                                                                <Input
+                                                                    type="number"
+                                                                    min="10"
+                                                                    max="3600"
+                                                                    className="w-[220px]"
+                                                                    placeholder={c.stageTimeLimitSeconds ? `Case default: ${c.stageTimeLimitSeconds}` : 'Untimed'}
+                                                                    value={editStageForm.timeLimitSeconds ?? ''}
+                                                                    onChange={e => setEditStageForm({ ...editStageForm, timeLimitSeconds: parseInt(e.target.value) || null })}
+                                                                />
+                                                                <p className="text-xs text-muted-foreground">
+                                                                    When time runs out the stage&apos;s no-decision option is followed, or a {DEFAULT_NO_DECISION_PENALTY} point penalty applies if it has none.
+                                                                </p>
+                                                            </div>
+                                                            {editStageForm.stageType === 'history' && (
+                                                                <div className="space-y-2">
+                                                                    <Label>Patient Script (JSON, hidden from students)</Label>
+                                                                    <Textarea
+                                                                        value={editStageForm.patientScript ?? ''}
+                                                                        onChange={e => setEditStageForm({ ...editStageForm, patientScript: e.target.value })}
+                                                                        className="min-h-[200px] font-mono text-xs"
+                                                                    />
+                                                                    <p className="text-xs text-muted-foreground">
+                                                                        Each fact is scored when a question contains one of its keywords. Students still choose an option after taking the history.
+                                                                    </p>
+                                                                </div>
+                                                            )}
+                                                            <div className="space-y-2">
+                                                                <Label>Images</Label>
+                                                                <MediaAttachmentsEditor
+                                                                    target="stage"
+                                                                    targetId={stage.id}
+                                                                    initialItems={(stage.media ?? []).map(toMediaItem)}
+                                                                />
+                                                            </div>
+                                                            <div className="space-y-2">
+                                                                <Label>Investigations</Label>
+                                                                <StageInvestigationsEditor
+                                                                    value={editStageForm.investigations ?? []}
+                                                                    onChange={investigations => setEditStageForm({ ...editStageForm, investigations })}
+                                                                />
+                                                            </div>
+                                                            <div className="space-y-2">
+                                                                <Label>Hints</Label>
+                                                                <StageHintsEditor
+                                                                    value={editStageForm.hints ?? []}
+                                                                    onChange={hints => setEditStageForm({ ...editStageForm, hints })}
+                                                                />
+                                                                <p className="text-xs text-muted-foreground">
+                                                                    Students reveal hints one at a time, in this order; each costs its points off the case score.
+                                                                </p>
+                                                            </div>
                                                         </div>
                                                     </div>
                                                 )}
@@ -1052,11 +1726,57 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                             </div>
                                                         </div>
 
+                                                        {stage.stageType === 'history' && (
+                                                            <div className="space-y-1 text-sm">
+                                                                <Label className="text-muted-foreground">History Taking</Label>
+                                                                <p className="text-muted-foreground">
+                                                                    {stage.patientScript
+                                                                        ? `${stage.patientScript.facts.length} key facts in the patient script`
+                                                                        : 'No patient script yet'}
+                                                                </p>
+                                                            </div>
+                                                        )}
+
+                                                        {stage.investigations && stage.investigations.length > 0 && (
+                                                            <div className="space-y-1 text-sm">
+                                                                <Label className="text-muted-foreground">Investigations</Label>
+                                                                {stage.investigations.map(row => (
+                                                                    <div key={row.investigation} className="flex gap-2 items-baseline">
+                                                                        <span className="font-medium w-12 shrink-0">{row.investigation}</span>
+                                                                        <span className="text-muted-foreground flex-1">{row.result}</span>
+                                                                        {row.isIndicated && (
+                                                                            <span className="text-xs px-1.5 py-0.5 rounded bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">Indicated</span>
+                                                                        )}
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        )}
+
+                                                        {stage.hints && stage.hints.length > 0 && (
+                                                            <div className="space-y-1 text-sm">
+                                                                <Label className="text-muted-foreground">Hints</Label>
+                                                                {stage.hints.map((hint, index) => (
+                                                                    <div key={index} className="flex gap-2 items-baseline">
+                                                                        <span className="font-mono text-xs text-muted-foreground w-6 shrink-0">{index + 1}.</span>
+                                                                        <span className="flex-1">{hint.text}</span>
+                                                                        <span className="text-xs text-muted-foreground">−{hint.cost}</span>
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        )}
+
                                                         <Separator />
 
                                                         {/* OPTIONS */}
                                                         <div>
-                                                            <h5 className="text-sm font-semibold mb-3 flex items-center gap-2"><MessageSquare className="h-3 w-3" /> Options ({stage.options.length})</h5>
+                                                            <h5 className="text-sm font-semibold mb-3 flex items-center gap-2"><MessageSquare className="h-3 w-3" /> Options ({stage.options.length})
+                                                                {stage.decisionType && stage.decisionType !== 'single' && (
+                                                                    <span className="text-xs font-normal text-muted-foreground">· {decisionTypeLabels[stage.decisionType]}</span>
+                                                                )}
+                                                                {(stage.timeLimitSeconds ?? c.stageTimeLimitSeconds) && (
+                                                                    <span className="text-xs font-normal text-muted-foreground">· {stage.timeLimitSeconds ?? c.stageTimeLimitSeconds}s to decide</span>
+                                                                )}
+                                                            </h5>
                                                             <div className="space-y-2 mb-4">
                                                                 {stage.options.map(opt => (
                                                                     <div key={opt.id}>
@@ -1107,13 +1827,89 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                                                             />
                                                                                             <Label htmlFor={`edit-correct-${opt.id}`} className="cursor-pointer">Is Correct</Label>
                                                                                         </div>
+                                                                                        <div className="flex items-center gap-2 border px-3 py-2 rounded-md bg-background">
+                                                                                            <Checkbox
+                                                                                                id={`edit-timeout-${opt.id}`}
+                                                                                                checked={editOptionForm.isTimeout ?? false}
+                                                                                                onCheckedChange={checked => setEditOptionForm({ ...editOptionForm, isTimeout: checked as boolean })}
+                                                                                            />
+                                                                                            <Label htmlFor={`edit-timeout-${opt.id}`} className="cursor-pointer">No Decision (time ran out)</Label>
+                                                                                        </div>
+                                                                                        <div className="space-y-2">
+                                                                                            <Label>Safety</Label>
+                                                                                            <SafetyClassSelect
+                                                                                                value={editOptionForm.safetyClass ?? null}
+                                                                                                onChange={val => setEditOptionForm({ ...editOptionForm, safetyClass: val })}
+                                                                                            />
+                                                                                        </div>
+                                                                                        <div className="space-y-2">
+                                                                                            <Label>Leads To</Label>
+                                                                                            <NextStepSelect
+                                                                                                value={editOptionForm.nextStep || 'next'}
+                                                                                                onChange={val => setEditOptionForm({ ...editOptionForm, nextStep: val })}
+                                                                                                stages={c.stages}
+                                                                                                currentStageId={stage.id}
+                                                                                            />
+                                                                                        </div>
+                                                                                        {stage.decisionType === 'ordering' && (
+                                                                                            <div className="space-y-2">
+                                                                                                <Label>Correct Position</Label>
+                                                                                                <Input
+                                                                                                    type="number"
+                                                                                                    min={1}
+                                                                                                    className="w-24"
+                                                                                                    value={editOptionForm.correctPosition ?? ''}
+                                                                                                    onChange={e => setEditOptionForm({ ...editOptionForm, correctPosition: parseInt(e.target.value) || null })}
+                                                                                                />
+                                                                                            </div>
+                                                                                        )}
+                                                                                    </div>
+                                                                                    {stage.decisionType === 'free_text' && (
+                                                                                        <div className="space-y-2">
+                                                                                            <Label>Accepted Answers (comma-separated, blank for catch-all)</Label>
+                                                                                            <Input
+                                                                                                value={editOptionForm.acceptedAnswers ?? ''}
+                                                                                                onChange={e => setEditOptionForm({ ...editOptionForm, acceptedAnswers: e.target.value })}
+                                                                                            />
+                                                                                        </div>
+                                                                                    )}
+                                                                                    <div className="space-y-2">
+                                                                                        <Label>Vital Effects</Label>
+                                                                                        <VitalEffectsInputs
+                                                                                            value={editOptionForm.vitalEffects || {}}
+                                                                                            onChange={val => setEditOptionForm({ ...editOptionForm, vitalEffects: val })}
+                                                                                            durationMinutes={editOptionForm.durationMinutes ?? 5}
+                                                                                            onDurationChange={val => setEditOptionForm({ ...editOptionForm, durationMinutes: val })}
+                                                                                        />
                                                                                     </div>
                                                                                 </div>
                                                                             </div>
                                                                         ) : (
                                                                             <div className={`p-3 rounded-md border text-sm flex justify-between items-center ${opt.isCorrect ? 'bg-green-500/10 border-green-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
                                                                                 <div className="space-y-1 flex-1">
-                                                                                    <div className="font-medium">{opt.text} <span className="text-xs text-muted-foreground ml-2">({opt.scoreWeight} pts)</span></div>
+                                                                                    <div className="font-medium">
+                                                                                        {opt.text} <span className="text-xs text-muted-foreground ml-2">({opt.scoreWeight} pts)</span>
+                                                                                        <span className="text-xs text-muted-foreground ml-2 capitalize">{describeNextStep(opt, c.stages)}</span>
+                                                                                        {opt.isTimeout && (
+                                                                                            <span className="text-xs ml-2 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">No decision</span>
+                                                                                        )}
+                                                                                        {opt.safetyClass && (
+                                                                                            <span className={`text-xs ml-2 px-1.5 py-0.5 rounded ${isCriticalError(opt.safetyClass) ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300' : 'bg-muted text-muted-foreground'}`}>
+                                                                                                {safetyClassLabels[opt.safetyClass]}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {stage.decisionType === 'ordering' && opt.correctPosition && (
+                                                                                            <span className="text-xs text-muted-foreground ml-2">#{opt.correctPosition}</span>
+                                                                                        )}
+                                                                                        {stage.decisionType === 'free_text' && (
+                                                                                            <span className="text-xs text-muted-foreground ml-2">
+                                                                                                {opt.acceptedAnswers?.length ? `"${opt.acceptedAnswers.join('", "')}"` : 'catch-all'}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {describeVitalEffects(opt.vitalEffects) && (
+                                                                                            <span className="text-xs text-muted-foreground ml-2 font-mono">[{describeVitalEffects(opt.vitalEffects)}]</span>
+                                                                                        )}
+                                                                                    </div>
                                                                                     <div className="text-xs italic text-muted-foreground">{opt.feedback}</div>
                                                                                 </div>
                                                                                 <div className="flex gap-1">
@@ -1178,6 +1974,61 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                                             />
                                                                             <Label htmlFor="isCorrect" className="cursor-pointer">Is Correct Answer</Label>
                                                                         </div>
+                                                                        <div className="flex items-center gap-2 border px-3 py-2 rounded-md bg-background">
+                                                                            <Checkbox
+                                                                                id="isTimeout"
+                                                                                checked={newOption.isTimeout}
+                                                                                onCheckedChange={checked => setNewOption({ ...newOption, isTimeout: checked as boolean })}
+                                                                            />
+                                                                            <Label htmlFor="isTimeout" className="cursor-pointer">No Decision (time ran out)</Label>
+                                                                        </div>
+                                                                        <div className="flex items-center gap-2">
+                                                                            <Label>Safety</Label>
+                                                                            <SafetyClassSelect
+                                                                                value={newOption.safetyClass}
+                                                                                onChange={val => setNewOption({ ...newOption, safetyClass: val })}
+                                                                            />
+                                                                        </div>
+                                                                        <div className="flex items-center gap-2">
+                                                                            <Label>Leads To</Label>
+                                                                            <NextStepSelect
+                                                                                value={newOption.nextStep}
+                                                                                onChange={val => setNewOption({ ...newOption, nextStep: val })}
+                                                                                stages={c.stages}
+                                                                                currentStageId={stage.id}
+                                                                            />
+                                                                        </div>
+                                                                        {stage.decisionType === 'ordering' && (
+                                                                            <div className="flex items-center gap-2">
+                                                                                <Label>Position</Label>
+                                                                                <Input
+                                                                                    type="number"
+                                                                                    min={1}
+                                                                                    className="w-20"
+                                                                                    value={newOption.correctPosition ?? ''}
+                                                                                    onChange={e => setNewOption({ ...newOption, correctPosition: parseInt(e.target.value) || null })}
+                                                                                />
+                                                                            </div>
+                                                                        )}
+                                                                        {stage.decisionType === 'free_text' && (
+                                                                            <div className="w-full space-y-2">
+                                                                                <Label>Accepted Answers (comma-separated, blank for catch-all)</Label>
+                                                                                <Input
+                                                                                    placeholder="e.g. adrenaline, epinephrine"
+                                                                                    value={newOption.acceptedAnswers}
+                                                                                    onChange={e => setNewOption({ ...newOption, acceptedAnswers: e.target.value })}
+                                                                                />
+                                                                            </div>
+                                                                        )}
+                                                                        <div className="w-full space-y-2">
+                                                                            <Label>Vital Effects</Label>
+                                                                            <VitalEffectsInputs
+                                                                                value={newOption.vitalEffects}
+                                                                                onChange={val => setNewOption({ ...newOption, vitalEffects: val })}
+                                                                                durationMinutes={newOption.durationMinutes}
+                                                                                onDurationChange={val => setNewOption({ ...newOption, durationMinutes: val })}
+                                                                            />
+                                                                        </div>
                                                                         <Button size="sm" onClick={() => handleCreateOption(stage.id)} disabled={loading || !newOption.text} className="ml-auto">Add Option</Button>
                                                                     </div>
                                                                 </div>
@@ -1209,7 +2060,7 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                         variant="ghost"
                                                         size="sm"
                                                         className="h-6 text-xs text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50"
-                                                        onClick={() => handleGenerateClinicalData(newStage.narrative, 'new')}
+                                                        onClick={() => handleGenerateClinicalData(newStage.narrative, 'new', c.id)}
                                                         disabled={loading || !newStage.narrative}
                                                         type="button"
                                                     >
@@ -1222,6 +2073,11 @@ export default function AdminDashboard({ userEmail, userId }: AdminDashboardProp
                                                     onChange={e => setNewStage({ ...newStage, clinicalData: e.target.value })}
                                                 />
                                             </div>
+                                            <LabPanelsEditor
+                                                clinicalData={newStage.clinicalData}
+                                                onChange={clinicalData => setNewStage({ ...newStage, clinicalData })}
+                                                patient={c.patientDemographics}
+                                            />
                                             <Button onClick={() => handleCreateStage(c.id, c.stages.length)} disabled={loading || !newStage.narrative} variant="secondary">
                                                 Add Stage {c.stages.length + 1}
                                             </Button>
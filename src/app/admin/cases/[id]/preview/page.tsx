@@ -0,0 +1,48 @@
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+import Link from 'next/link';
+import { loadCasePreview } from '@/actions/simulator';
+import { CasePreviewPlayer } from '@/components/case-preview-player';
+import { Button } from '@/components/ui/button';
+import { isAdmin } from '@/lib/admin';
+
+export default async function CasePreviewPage(props: {
+    params: Promise<{ id: string }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const { id } = await props.params;
+    const caseId = Number(id);
+    if (!Number.isInteger(caseId) || caseId <= 0) {
+        notFound();
+    }
+
+    const preview = await loadCasePreview(caseId);
+    if (!preview) {
+        notFound();
+    }
+
+    return (
+        <div className="container mx-auto max-w-7xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">Test Play: {preview.title}</h1>
+                    <p className="text-muted-foreground">
+                        The draft, with scoring shown and any stage a click away. Nothing you do here is recorded.
+                    </p>
+                </div>
+                <Link href="/admin">
+                    <Button variant="outline">Back to Admin</Button>
+                </Link>
+            </div>
+
+            <CasePreviewPlayer preview={preview} />
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getCaseVersionDiff, getCaseVersions } from '@/actions/admin';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isAdmin } from '@/lib/admin';
+import { History } from 'lucide-react';
+
+type VersionRef = number | 'draft';
+
+const changeStyles = {
+    added: 'text-green-700 dark:text-green-400',
+    removed: 'text-red-700 dark:text-red-400',
+    changed: 'text-amber-700 dark:text-amber-400',
+} as const;
+
+export default async function CaseVersionsPage(props: {
+    params: Promise<{ id: string }>;
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const { id } = await props.params;
+    const caseId = Number(id);
+    if (!Number.isInteger(caseId) || caseId <= 0) {
+        notFound();
+    }
+
+    const medicalCase = await getCaseVersions(caseId);
+    if (!medicalCase) {
+        notFound();
+    }
+
+    const { versions } = medicalCase;
+    const label = (ref: VersionRef) => ref === 'draft'
+        ? 'Draft'
+        : `Version ${versions.find((version) => version.id === ref)?.versionNumber ?? '?'}`;
+
+    // Only this case's versions can be picked; by default the live version is compared with the draft
+    const searchParams = await props.searchParams;
+    const toRef = (value: string | string[] | undefined): VersionRef | null => {
+        if (value === 'draft') return 'draft';
+        const version = versions.find((row) => row.id === Number(value));
+        return version ? version.id : null;
+    };
+    const liveOrLatest = medicalCase.publishedVersionId ?? versions[0]?.id ?? null;
+    const from = toRef(searchParams.from) ?? liveOrLatest;
+    const to = toRef(searchParams.to) ?? 'draft';
+
+    const diff = from !== null && from !== to
+        ? await getCaseVersionDiff({ caseId, from, to })
+        : null;
+
+    const compareHref = (fromRef: VersionRef, toRef: VersionRef) =>
+        `/admin/cases/${caseId}/versions?from=${fromRef}&to=${toRef}`;
+
+    return (
+        <div className="container mx-auto max-w-7xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">Version History</h1>
+                    <p className="text-muted-foreground">{medicalCase.title}</p>
+                </div>
+                <Link href="/admin">
+                    <Button variant="outline">Back to Admin</Button>
+                </Link>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <History className="h-5 w-5" />
+                        Published versions
+                    </CardTitle>
+                    <CardDescription>
+                        Each publish freezes the draft as a new version. Attempts stay linked to the version they were played on,
+                        so editing the draft never changes past scores.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {versions.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-muted-foreground">
+                                        <th className="py-2 pr-4 font-medium">Version</th>
+                                        <th className="py-2 pr-4 font-medium">Published</th>
+                                        <th className="py-2 pr-4 font-medium">By</th>
+                                        <th className="py-2 pr-4 font-medium text-right">Attempts</th>
+                                        <th className="py-2 font-medium text-right">Compare</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {versions.map((version, index) => {
+                                        const previous = versions[index + 1];
+                                        const isLive = version.id === medicalCase.publishedVersionId;
+                                        return (
+                                            <tr key={version.id} className="border-b last:border-0">
+                                                <td className="py-2 pr-4 font-medium">
+                                                    v{version.versionNumber}
+                                                    {isLive && (
+                                                        <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                                                            {medicalCase.isPublished ? 'Live' : 'Unpublished'}
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="py-2 pr-4 text-muted-foreground">{version.publishedAt.toLocaleString()}</td>
+                                                <td className="py-2 pr-4 text-muted-foreground">
+                                                    {version.publishedBy
+                                                        ? [version.publishedBy.firstName, version.publishedBy.lastName].filter(Boolean).join(' ') || version.publishedBy.email
+                                                        : '—'}
+                                                </td>
+                                                <td className="py-2 pr-4 text-right font-mono">{version.attempts}</td>
+                                                <td className="py-2">
+                                                    <div className="flex justify-end gap-2">
+                                                        {previous && (
+                                                            <Link href={compareHref(previous.id, version.id)}>
+                                                                <Button size="sm" variant="outline">vs v{previous.versionNumber}</Button>
+                                                            </Link>
+                                                        )}
+                                                        <Link href={compareHref(version.id, 'draft')}>
+                                                            <Button size="sm" variant="outline">vs draft</Button>
+                                                        </Link>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        <p className="py-8 text-center text-muted-foreground">
+                            Not published yet. Until it is, anyone allowed to play the case plays the draft.
+                        </p>
+                    )}
+                </CardContent>
+            </Card>
+
+            {from !== null && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{label(from)} → {label(to)}</CardTitle>
+                        <CardDescription>
+                            Stages are matched by their order and options by their position in the stage.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {!diff ? (
+                            <p className="py-8 text-center text-muted-foreground">Pick two different versions to compare.</p>
+                        ) : !diff.success ? (
+                            <p className="py-8 text-center text-destructive">{diff.message}</p>
+                        ) : diff.changes.length === 0 ? (
+                            <p className="py-8 text-center text-muted-foreground">No differences.</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2 pr-4 font-medium">Field</th>
+                                            <th className="py-2 pr-4 font-medium">{label(from)}</th>
+                                            <th className="py-2 font-medium">{label(to)}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {diff.changes.map((change) => (
+                                            <tr key={change.path} className="border-b last:border-0 align-top">
+                                                <td className={`py-2 pr-4 font-medium ${changeStyles[change.kind]}`}>{change.path}</td>
+                                                <td className="py-2 pr-4 whitespace-pre-wrap break-words text-muted-foreground">
+                                                    {change.before ?? '—'}
+                                                </td>
+                                                <td className="py-2 whitespace-pre-wrap break-words">{change.after ?? '—'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
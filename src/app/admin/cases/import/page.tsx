@@ -0,0 +1,34 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { CaseBundleImport } from '@/components/case-bundle-import';
+import { Button } from '@/components/ui/button';
+import { isAdmin } from '@/lib/admin';
+
+export default async function ImportCaseBundlePage() {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    return (
+        <div className="container mx-auto max-w-7xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">Import Case Bundle</h1>
+                    <p className="text-muted-foreground">
+                        Load cases exported from another environment. Preview the bundle first to see what each case would change.
+                    </p>
+                </div>
+                <Link href="/admin">
+                    <Button variant="outline">Back to Admin</Button>
+                </Link>
+            </div>
+
+            <CaseBundleImport />
+        </div>
+    );
+}
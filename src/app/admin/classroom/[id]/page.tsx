@@ -0,0 +1,34 @@
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+import { getClassroomSession } from '@/actions/classroom';
+import { ClassroomPresenter } from '@/components/classroom-presenter';
+import { isAdmin } from '@/lib/admin';
+
+export default async function ClassroomPresenterPage({
+    params
+}: {
+    params: Promise<{ id: string }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const { id } = await params;
+    const classroomSessionId = parseInt(id);
+
+    if (isNaN(classroomSessionId)) {
+        notFound();
+    }
+
+    // Only the instructor who opened the classroom presents it
+    const result = await getClassroomSession(classroomSessionId);
+    if (!result.success || !result.data?.isHost) {
+        notFound();
+    }
+
+    return <ClassroomPresenter initialClassroom={result.data.classroom} />;
+}
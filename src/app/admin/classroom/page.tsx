@@ -0,0 +1,82 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getAllCases } from '@/actions/admin';
+import { getHostedClassroomSessions } from '@/actions/classroom';
+import { ClassroomCreateForm } from '@/components/classroom-create-form';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isAdmin } from '@/lib/admin';
+import { classroomPhaseLabels } from '@/lib/classroom';
+
+/**
+ * Live Classroom Page - Server Component
+ * Open a case for the whole class to vote on, or return to a running classroom
+ */
+export default async function AdminClassroomPage() {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const [allCases, classrooms] = await Promise.all([getAllCases(), getHostedClassroomSessions()]);
+
+    return (
+        <div className="container mx-auto max-w-4xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">Live Classroom</h1>
+                    <p className="text-muted-foreground">
+                        Present a case to the room: students vote on each decision from their own devices, and you reveal the results before the feedback.
+                    </p>
+                </div>
+                <Link href="/admin">
+                    <Button variant="outline">Back to Admin</Button>
+                </Link>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Open a Classroom</CardTitle>
+                    <CardDescription>Students join at /classroom with the code on your presenter screen.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <ClassroomCreateForm cases={allCases.map((item) => ({ id: item.id, title: item.title }))} />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Your Classrooms</CardTitle>
+                    <CardDescription>Classrooms you are running that haven&apos;t ended.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {classrooms.length > 0 ? (
+                        <div className="space-y-2">
+                            {classrooms.map((classroom) => (
+                                <div key={classroom.id} className="flex items-center justify-between rounded-lg border p-3">
+                                    <div>
+                                        <p className="font-medium">{classroom.case.title}</p>
+                                        <p className="text-sm text-muted-foreground font-mono">{classroom.joinCode}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant="outline">{classroomPhaseLabels[classroom.phase]}</Badge>
+                                        <Link href={`/admin/classroom/${classroom.id}`}>
+                                            <Button size="sm">Present</Button>
+                                        </Link>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="py-6 text-center text-muted-foreground">No classrooms running.</p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
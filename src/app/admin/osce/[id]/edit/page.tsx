@@ -0,0 +1,33 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect, notFound } from 'next/navigation';
+import { getAdminOsceStation } from '@/actions/osce-admin';
+import { OsceStationForm } from '@/components/osce-station-form';
+import { isAdmin } from '@/lib/admin';
+
+export default async function EditOsceStationPage({ params }: { params: Promise<{ id: string }> }) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const { id } = await params;
+    const stationId = Number(id);
+    if (Number.isNaN(stationId)) {
+        notFound();
+    }
+
+    const station = await getAdminOsceStation(stationId);
+
+    if (!station) {
+        notFound();
+    }
+
+    return (
+        <div className="container mx-auto max-w-5xl px-4 py-8">
+            <OsceStationForm station={station} />
+        </div>
+    );
+}
@@ -0,0 +1,35 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getAdminOsceStations } from '@/actions/osce-admin';
+import { OsceAdminTable } from '@/components/osce-admin-table';
+import { Button } from '@/components/ui/button';
+import { isAdmin } from '@/lib/admin';
+
+export default async function AdminOscePage() {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const stations = await getAdminOsceStations();
+
+    return (
+        <div className="container mx-auto max-w-7xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">OSCE Stations</h1>
+                    <p className="text-muted-foreground">Write timed stations with a candidate brief and an examiner marking checklist.</p>
+                </div>
+                <Link href="/admin">
+                    <Button variant="outline">Back to Admin</Button>
+                </Link>
+            </div>
+
+            <OsceAdminTable stations={stations} />
+        </div>
+    );
+}
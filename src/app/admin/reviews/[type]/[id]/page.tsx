@@ -0,0 +1,286 @@
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getReview } from '@/actions/editorial-review';
+import { ReviewActions } from '@/components/review-actions';
+import { ReviewCommentThread } from '@/components/review-comment-thread';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { reviewContentTypes, type ReviewCommentAnchor, type ReviewContentType } from '@/db/schema';
+import { isAdmin } from '@/lib/admin';
+import {
+    isSameReviewAnchor,
+    reviewActionLabels,
+    reviewContentTypeLabels,
+    reviewStatusLabels,
+    reviewStatusStyles,
+} from '@/lib/editorial-review';
+import { AlertTriangle, CheckCircle2, History } from 'lucide-react';
+
+function isReviewContentType(value: string): value is ReviewContentType {
+    return (reviewContentTypes as readonly string[]).includes(value);
+}
+
+export default async function ReviewPage(props: {
+    params: Promise<{ type: string; id: string }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const { type, id } = await props.params;
+    const contentId = Number(id);
+    if (!isReviewContentType(type) || !Number.isInteger(contentId) || contentId <= 0) {
+        notFound();
+    }
+
+    const review = await getReview({ contentType: type, contentId });
+    if (!review) {
+        notFound();
+    }
+
+    const { content } = review;
+    const openComments = review.comments.filter((comment) => !comment.resolvedAt).length;
+
+    const thread = (anchor: ReviewCommentAnchor, stageOrder?: number, optionNumber?: number) => (
+        <ReviewCommentThread
+            contentType={review.contentType}
+            contentId={review.contentId}
+            anchor={anchor}
+            stageOrder={stageOrder}
+            optionNumber={optionNumber}
+            comments={review.comments.filter((comment) => isSameReviewAnchor(comment, { anchor, stageOrder, optionNumber }))}
+        />
+    );
+
+    const editHref = content.contentType === 'case' ? '/admin' : `/admin/ukmla/${review.contentId}/edit`;
+
+    return (
+        <div className="container mx-auto max-w-7xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">Review {reviewContentTypeLabels[review.contentType]}</h1>
+                    <p className="text-muted-foreground line-clamp-2">
+                        {content.contentType === 'case' ? content.title : content.stem}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Link href={editHref}>
+                        <Button variant="outline">Edit</Button>
+                    </Link>
+                    <Link href="/admin/reviews">
+                        <Button variant="outline">Back to Reviews</Button>
+                    </Link>
+                </div>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                <div className="space-y-6 lg:col-span-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>General</CardTitle>
+                            <CardDescription>
+                                {openComments > 0
+                                    ? `${openComments} open comment${openComments === 1 ? '' : 's'}. Comments on a stage, option or field sit beside it.`
+                                    : 'No open comments.'}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {content.contentType === 'case' ? (
+                                <dl className="grid gap-3 text-sm sm:grid-cols-2">
+                                    <div>
+                                        <dt className="text-muted-foreground">Domain</dt>
+                                        <dd>{content.clinicalDomain}</dd>
+                                    </div>
+                                    <div>
+                                        <dt className="text-muted-foreground">Difficulty</dt>
+                                        <dd className="capitalize">{content.difficultyLevel}</dd>
+                                    </div>
+                                    <div className="sm:col-span-2">
+                                        <dt className="text-muted-foreground">Description</dt>
+                                        <dd className="whitespace-pre-wrap">{content.description}</dd>
+                                    </div>
+                                </dl>
+                            ) : (
+                                <dl className="grid gap-3 text-sm sm:grid-cols-2">
+                                    <div>
+                                        <dt className="text-muted-foreground">Category</dt>
+                                        <dd>{content.category}</dd>
+                                    </div>
+                                    <div>
+                                        <dt className="text-muted-foreground">Difficulty</dt>
+                                        <dd className="capitalize">{content.difficultyLevel}</dd>
+                                    </div>
+                                </dl>
+                            )}
+                            {thread('general')}
+                        </CardContent>
+                    </Card>
+
+                    {content.contentType === 'case' ? (
+                        content.stages.length > 0 ? (
+                            content.stages.map((stage) => (
+                                <Card key={stage.stageOrder}>
+                                    <CardHeader>
+                                        <CardTitle className="flex flex-wrap items-center gap-2">
+                                            Stage {stage.stageOrder}
+                                            <Badge variant="outline" className="capitalize">{stage.stageType}</Badge>
+                                            <Badge variant="outline" className="capitalize">{stage.decisionType.replace('_', ' ')}</Badge>
+                                        </CardTitle>
+                                    </CardHeader>
+                                    <CardContent className="space-y-4">
+                                        <p className="whitespace-pre-wrap text-sm">{stage.narrative}</p>
+                                        {thread('stage', stage.stageOrder)}
+                                        <div className="space-y-3">
+                                            {stage.options.map((option, index) => (
+                                                <div key={index} className="rounded-md border p-3 space-y-2">
+                                                    <div className="flex flex-wrap items-start justify-between gap-2">
+                                                        <p className="text-sm font-medium">
+                                                            {index + 1}. {option.text}
+                                                        </p>
+                                                        <div className="flex gap-1">
+                                                            {option.isCorrect && (
+                                                                <Badge variant="secondary" className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                                                                    Correct
+                                                                </Badge>
+                                                            )}
+                                                            <Badge variant="outline">Weight {option.scoreWeight}</Badge>
+                                                            {option.nextStageOrder !== null && (
+                                                                <Badge variant="outline">→ Stage {option.nextStageOrder}</Badge>
+                                                            )}
+                                                        </div>
+                                                    </div>
+                                                    {option.feedback && (
+                                                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{option.feedback}</p>
+                                                    )}
+                                                    {thread('option', stage.stageOrder, index + 1)}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </CardContent>
+                                </Card>
+                            ))
+                        ) : (
+                            <Card>
+                                <CardContent className="py-8 text-center text-muted-foreground">
+                                    This case has no stages yet.
+                                </CardContent>
+                            </Card>
+                        )
+                    ) : (
+                        <>
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Stem</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <p className="whitespace-pre-wrap text-sm">{content.stem}</p>
+                                    {thread('stem')}
+                                </CardContent>
+                            </Card>
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Options</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-3">
+                                    {content.options.map((option, index) => (
+                                        <div key={index} className="rounded-md border p-3 space-y-2">
+                                            <div className="flex flex-wrap items-start justify-between gap-2">
+                                                <p className="text-sm font-medium">
+                                                    {index + 1}. {option.text}
+                                                </p>
+                                                {option.isCorrect && (
+                                                    <Badge variant="secondary" className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                                                        Correct
+                                                    </Badge>
+                                                )}
+                                            </div>
+                                            {thread('option', undefined, index + 1)}
+                                        </div>
+                                    ))}
+                                </CardContent>
+                            </Card>
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Explanation</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <p className="whitespace-pre-wrap text-sm">{content.explanation}</p>
+                                    {thread('explanation')}
+                                </CardContent>
+                            </Card>
+                        </>
+                    )}
+                </div>
+
+                <div className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex flex-wrap items-center gap-2">
+                                <Badge variant="secondary" className={reviewStatusStyles[review.status]}>
+                                    {reviewStatusLabels[review.status]}
+                                </Badge>
+                                <Badge variant="outline">{review.isPublished ? 'Published' : 'Not published'}</Badge>
+                            </CardTitle>
+                            {review.status === 'approved' && !review.changedSinceApproval && (
+                                <CardDescription className="flex items-center gap-1 text-green-700 dark:text-green-400">
+                                    <CheckCircle2 className="h-4 w-4" /> Can be published as it stands.
+                                </CardDescription>
+                            )}
+                            {review.changedSinceApproval && (
+                                <CardDescription className="flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                                    <AlertTriangle className="h-4 w-4" /> Edited since it was approved: resubmit it before publishing.
+                                </CardDescription>
+                            )}
+                        </CardHeader>
+                        <CardContent>
+                            <ReviewActions
+                                contentType={review.contentType}
+                                contentId={review.contentId}
+                                status={review.status}
+                                isAssignedReviewer={review.isAssignedReviewer}
+                                reviewers={review.reviewers}
+                                candidates={review.candidates}
+                            />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <History className="h-5 w-5" />
+                                History
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {review.events.length > 0 ? (
+                                <ol className="space-y-3 text-sm">
+                                    {review.events.map((event) => (
+                                        <li key={event.id} className="border-l-2 pl-3">
+                                            <p>
+                                                <span className="font-medium">{reviewActionLabels[event.action]}</span>
+                                                {event.reviewer && ` ${event.reviewer}`}
+                                            </p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {event.actor} · {event.createdAt.toLocaleString()}
+                                                {event.fromStatus !== event.toStatus && ` · ${reviewStatusLabels[event.fromStatus]} → ${reviewStatusLabels[event.toStatus]}`}
+                                            </p>
+                                            {event.note && <p className="mt-1 whitespace-pre-wrap">{event.note}</p>}
+                                        </li>
+                                    ))}
+                                </ol>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">Not yet submitted for review.</p>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    );
+}
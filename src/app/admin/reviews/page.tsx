@@ -0,0 +1,116 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getReviewQueue } from '@/actions/editorial-review';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isAdmin } from '@/lib/admin';
+import { reviewContentTypeLabels, reviewStatusLabels, reviewStatusStyles } from '@/lib/editorial-review';
+import { ClipboardCheck } from 'lucide-react';
+
+export default async function AdminReviewsPage({
+    searchParams,
+}: {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const params = await searchParams;
+    const mine = params.mine === '1';
+    const queue = await getReviewQueue({ mine });
+
+    return (
+        <div className="container mx-auto max-w-7xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">Editorial Reviews</h1>
+                    <p className="text-muted-foreground">
+                        Cases and UKMLA questions in review, waiting on changes, or approved and ready to publish.
+                    </p>
+                </div>
+                <Link href="/admin">
+                    <Button variant="outline">Back to Admin</Button>
+                </Link>
+            </div>
+
+            <Card>
+                <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3">
+                    <div className="space-y-1.5">
+                        <CardTitle className="flex items-center gap-2">
+                            <ClipboardCheck className="h-5 w-5" />
+                            Review queue
+                        </CardTitle>
+                        <CardDescription>
+                            Drafts appear here once their author submits them for review.
+                        </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                        <Link href="/admin/reviews">
+                            <Button size="sm" variant={mine ? 'outline' : 'default'}>All</Button>
+                        </Link>
+                        <Link href="/admin/reviews?mine=1">
+                            <Button size="sm" variant={mine ? 'default' : 'outline'}>Assigned to me</Button>
+                        </Link>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {queue.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-muted-foreground">
+                                        <th className="py-2 pr-4 font-medium">Type</th>
+                                        <th className="py-2 pr-4 font-medium">Title</th>
+                                        <th className="py-2 pr-4 font-medium">Status</th>
+                                        <th className="py-2 pr-4 font-medium">Reviewers</th>
+                                        <th className="py-2 pr-4 font-medium">Updated</th>
+                                        <th className="py-2 font-medium" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {queue.map((item) => (
+                                        <tr key={`${item.contentType}-${item.contentId}`} className="border-b last:border-0">
+                                            <td className="py-2 pr-4 whitespace-nowrap">{reviewContentTypeLabels[item.contentType]}</td>
+                                            <td className="py-2 pr-4">
+                                                <span className="line-clamp-2">{item.title}</span>
+                                            </td>
+                                            <td className="py-2 pr-4 whitespace-nowrap">
+                                                <Badge variant="secondary" className={reviewStatusStyles[item.status]}>
+                                                    {item.status === 'approved' ? 'Ready to publish' : reviewStatusLabels[item.status]}
+                                                </Badge>
+                                            </td>
+                                            <td className="py-2 pr-4">
+                                                {item.reviewers.length > 0 ? item.reviewers.join(', ') : (
+                                                    <span className="text-muted-foreground">Unassigned</span>
+                                                )}
+                                            </td>
+                                            <td className="py-2 pr-4 whitespace-nowrap text-muted-foreground">
+                                                {item.updatedAt.toLocaleDateString()}
+                                            </td>
+                                            <td className="py-2 text-right">
+                                                <Link href={`/admin/reviews/${item.contentType}/${item.contentId}`}>
+                                                    <Button size="sm" variant="outline">Open</Button>
+                                                </Link>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        <p className="py-8 text-center text-muted-foreground">
+                            {mine ? 'Nothing is waiting on you.' : 'Nothing is waiting on review.'}
+                        </p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
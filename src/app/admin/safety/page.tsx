@@ -0,0 +1,87 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getCriticalErrorReport } from '@/actions/admin';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isAdmin } from '@/lib/admin';
+import { ShieldAlert } from 'lucide-react';
+
+export default async function AdminSafetyPage() {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+    if (!(await isAdmin())) {
+        redirect('/cases');
+    }
+
+    const report = await getCriticalErrorReport();
+
+    return (
+        <div className="container mx-auto max-w-7xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-3xl font-bold">Critical Errors Report</h1>
+                    <p className="text-muted-foreground">
+                        Cases where students most often choose harmful options or never-events.
+                    </p>
+                </div>
+                <Link href="/admin">
+                    <Button variant="outline">Back to Admin</Button>
+                </Link>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <ShieldAlert className="h-5 w-5 text-red-500" />
+                        Cases by critical errors
+                    </CardTitle>
+                    <CardDescription>
+                        Counted from every recorded decision. Options that haven&apos;t been classified are never counted as harmful.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {report.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-muted-foreground">
+                                        <th className="py-2 pr-4 font-medium">Case</th>
+                                        <th className="py-2 pr-4 font-medium">Domain</th>
+                                        <th className="py-2 pr-4 font-medium text-right">Never events</th>
+                                        <th className="py-2 pr-4 font-medium text-right">Harmful</th>
+                                        <th className="py-2 pr-4 font-medium text-right">Rate</th>
+                                        <th className="py-2 font-medium">Most chosen critical option</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.map((row) => (
+                                        <tr key={row.caseId} className="border-b last:border-0 align-top">
+                                            <td className="py-2 pr-4 font-medium">{row.title}</td>
+                                            <td className="py-2 pr-4 text-muted-foreground">{row.clinicalDomain}</td>
+                                            <td className={`py-2 pr-4 text-right font-mono ${row.neverEvents > 0 ? 'font-bold text-red-600' : ''}`}>{row.neverEvents}</td>
+                                            <td className="py-2 pr-4 text-right font-mono">{row.harmful}</td>
+                                            <td className="py-2 pr-4 text-right font-mono">
+                                                {row.criticalRate}%
+                                                <span className="block text-xs text-muted-foreground">of {row.decisions}</span>
+                                            </td>
+                                            <td className="py-2">
+                                                {row.topCriticalOption
+                                                    ? <>{row.topCriticalOption.text} <span className="text-muted-foreground">({row.topCriticalOption.count}×)</span></>
+                                                    : <span className="text-muted-foreground">—</span>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        <p className="py-8 text-center text-muted-foreground">No critical errors recorded yet.</p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,9 +1,12 @@
 import { auth } from '@clerk/nextjs/server';
 import { redirect, notFound } from 'next/navigation';
-import { eq } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
 import { db } from '@/db';
-import { ukmlaQuestions } from '@/db/schema';
+import { ukmlaQuestionMedia, ukmlaQuestions } from '@/db/schema';
 import { UkmlaAdminForm } from '@/components/ukmla-admin-form';
+import { MediaAttachmentsEditor } from '@/components/media-attachments-editor';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toMediaItem } from '@/lib/media';
 import { requireAdmin } from '@/lib/admin';
 
 export default async function EditUkmlaQuestionPage({ params }: { params: Promise<{ id: string }> }) {
@@ -24,6 +27,10 @@ export default async function EditUkmlaQuestionPage({ params }: { params: Promis
         where: eq(ukmlaQuestions.id, questionId),
         with: {
             options: true,
+            media: {
+                orderBy: [asc(ukmlaQuestionMedia.displayOrder), asc(ukmlaQuestionMedia.id)],
+                with: { asset: { columns: { storageKey: true } } },
+            },
         },
     });
 
@@ -32,8 +39,20 @@ export default async function EditUkmlaQuestionPage({ params }: { params: Promis
     }
 
     return (
-        <div className="container mx-auto max-w-5xl px-4 py-8">
+        <div className="container mx-auto max-w-5xl space-y-6 px-4 py-8">
             <UkmlaAdminForm question={question as never} />
+            <Card>
+                <CardHeader>
+                    <CardTitle>Images</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <MediaAttachmentsEditor
+                        target="ukmla_question"
+                        targetId={question.id}
+                        initialItems={question.media.map(toMediaItem)}
+                    />
+                </CardContent>
+            </Card>
         </div>
     );
 }
@@ -4,8 +4,9 @@ import Link from 'next/link';
 import { getAdminUkmlaQuestions } from '@/actions/ukmla-admin';
 import { UkmlaAdminTable } from '@/components/ukmla-admin-table';
 import { Button } from '@/components/ui/button';
-import { ukmlaCategories, difficultyLevels } from '@/db/schema';
+import { ukmlaCategories, difficultyLevels, reviewStatuses } from '@/db/schema';
 import { isAdmin } from '@/lib/admin';
+import { reviewStatusLabels } from '@/lib/editorial-review';
 
 export default async function AdminUkmlaPage(props: {
     searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
@@ -81,10 +82,12 @@ export default async function AdminUkmlaPage(props: {
                     defaultValue={verificationStatus || ''}
                     className="h-10 rounded-md border bg-background px-3"
                 >
-                    <option value="">All verification states</option>
-                    <option value="draft">Draft</option>
-                    <option value="verified">Verified</option>
-                    <option value="rejected">Rejected</option>
+                    <option value="">All review states</option>
+                    {reviewStatuses.map((item) => (
+                        <option key={item} value={item}>
+                            {reviewStatusLabels[item]}
+                        </option>
+                    ))}
                 </select>
 
                 <input
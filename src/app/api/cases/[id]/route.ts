@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db, cases } from '@/db';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import { caseIdSchema } from '@/schemas/case';
 
 /**
@@ -54,6 +54,7 @@ export async function GET(
             ),
             with: {
                 stages: {
+                    where: (stages) => isNull(stages.caseVersionId), // The draft the owner edits
                     orderBy: (stages, { asc }) => [asc(stages.stageOrder)],
                     with: {
                         options: true,
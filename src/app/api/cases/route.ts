@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db, cases } from '@/db';
-import { eq } from 'drizzle-orm';
+import { eq, isNull } from 'drizzle-orm';
 
 /**
  * GET /api/cases
@@ -30,6 +30,7 @@ export async function GET() {
             where: eq(cases.userId, userId), // CRITICAL: Only return user's own cases
             with: {
                 stages: {
+                    where: (stages) => isNull(stages.caseVersionId), // The draft the owner edits
                     orderBy: (stages, { asc }) => [asc(stages.stageOrder)],
                     with: {
                         options: true,
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getClassroomAccess, getClassroomVersion, loadClassroomState } from '@/lib/classroom-state';
+import { createStateEventStream } from '@/lib/event-stream';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/classroom/[id]/events
+ * Server-sent events for a live classroom: the classroom state whenever the
+ * instructor moves it on, a student joins or a vote comes in. The host gets
+ * the live tally; students see it once voting closes.
+ */
+export async function GET(
+    request: Request,
+    props: { params: Promise<{ id: string }> }
+) {
+    const { id } = await props.params;
+
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Unauthorized - Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const classroomSessionId = Number(id);
+        const access = Number.isInteger(classroomSessionId) && classroomSessionId > 0
+            ? await getClassroomAccess(classroomSessionId, userId)
+            : undefined;
+
+        if (!access || (!access.isHost && !access.isParticipant)) {
+            return NextResponse.json({ success: false, error: 'Classroom not found' }, { status: 404 });
+        }
+
+        return createStateEventStream(request.signal, {
+            event: 'classroom',
+            getVersion: () => getClassroomVersion(classroomSessionId),
+            loadState: () => loadClassroomState(classroomSessionId, { userId, isHost: access.isHost }),
+            // Nothing changes once the classroom has ended
+            isFinished: (state) => state.phase === 'ended',
+            label: 'classroom session',
+        });
+    } catch (error) {
+        console.error('Error opening classroom stream:', error);
+        return NextResponse.json({ success: false, error: 'Failed to open classroom stream' }, { status: 500 });
+    }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { caseStages, mediaAssets, stageMedia, ukmlaQuestionMedia, ukmlaQuestions } from '@/db/schema';
+import { isAdmin } from '@/lib/admin';
+import { isValidStorageKey } from '@/lib/media';
+import { getMediaStorage } from '@/lib/storage';
+
+/**
+ * Whether an asset is attached to content students can see: a stage of a
+ * published case version, or a published UKMLA question
+ */
+async function isPublishedMedia(mediaAssetId: number): Promise<boolean> {
+    const [stage] = await db.select({ id: stageMedia.id })
+        .from(stageMedia)
+        .innerJoin(caseStages, eq(caseStages.id, stageMedia.stageId))
+        .where(and(eq(stageMedia.mediaAssetId, mediaAssetId), isNotNull(caseStages.caseVersionId)))
+        .limit(1);
+    if (stage) return true;
+
+    const [question] = await db.select({ id: ukmlaQuestionMedia.id })
+        .from(ukmlaQuestionMedia)
+        .innerJoin(ukmlaQuestions, eq(ukmlaQuestions.id, ukmlaQuestionMedia.questionId))
+        .where(and(eq(ukmlaQuestionMedia.mediaAssetId, mediaAssetId), eq(ukmlaQuestions.isPublished, true)))
+        .limit(1);
+    return Boolean(question);
+}
+
+/**
+ * GET /api/media/[key]
+ * Stream an uploaded image from media storage to a signed-in user. Media only
+ * attached to drafts is for admins.
+ */
+export async function GET(
+    request: Request,
+    props: { params: Promise<{ key: string }> }
+) {
+    const { key } = await props.params;
+
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Unauthorized - Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        if (!isValidStorageKey(key)) {
+            return NextResponse.json({ success: false, error: 'Media not found' }, { status: 404 });
+        }
+
+        const asset = await db.query.mediaAssets.findFirst({
+            where: eq(mediaAssets.storageKey, key),
+            columns: { id: true, contentType: true },
+        });
+
+        // Answer as if it doesn't exist, so draft media can't be probed for
+        const canView = asset && ((await isAdmin()) || (await isPublishedMedia(asset.id)));
+        const data = canView ? await getMediaStorage().get(key) : null;
+        if (!asset || !data) {
+            return NextResponse.json({ success: false, error: 'Media not found' }, { status: 404 });
+        }
+
+        // Keys are never reused, so the bytes behind a URL never change
+        return new NextResponse(Buffer.from(data), {
+            headers: {
+                'Content-Type': asset.contentType,
+                'X-Content-Type-Options': 'nosniff',
+                'Cache-Control': 'private, max-age=31536000, immutable',
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching media:', error);
+        return NextResponse.json({ success: false, error: 'Failed to fetch media' }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createStateEventStream } from '@/lib/event-stream';
+import { getOsceRole, getOsceSessionVersion, loadOsceSessionState } from '@/lib/osce-session-state';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/osce-sessions/[id]/events
+ * Server-sent events for an OSCE station: the station state whenever the
+ * examiner joins, starts the clock or submits the marks. Candidate and examiner only.
+ */
+export async function GET(
+    request: Request,
+    props: { params: Promise<{ id: string }> }
+) {
+    const { id } = await props.params;
+
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Unauthorized - Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const osceSessionId = Number(id);
+        const role = Number.isInteger(osceSessionId) && osceSessionId > 0
+            ? await getOsceRole(osceSessionId, userId)
+            : null;
+
+        if (!role) {
+            return NextResponse.json({ success: false, error: 'Station not found' }, { status: 404 });
+        }
+
+        return createStateEventStream(request.signal, {
+            event: 'osce',
+            getVersion: () => getOsceSessionVersion(osceSessionId),
+            loadState: () => loadOsceSessionState(osceSessionId, role),
+            // Nothing changes once the station is marked or called off
+            isFinished: (state) => state.status === 'completed' || state.status === 'abandoned',
+            label: 'OSCE session',
+        });
+    } catch (error) {
+        console.error('Error opening OSCE session stream:', error);
+        return NextResponse.json({ success: false, error: 'Failed to open OSCE session stream' }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createStateEventStream } from '@/lib/event-stream';
+import { getTeamMembership, getTeamSessionVersion, loadTeamSessionState } from '@/lib/team-session-state';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/team-sessions/[id]/events
+ * Server-sent events for a team session: the full team state whenever the
+ * roster, the chat or the shared case changes. Members only.
+ */
+export async function GET(
+    request: Request,
+    props: { params: Promise<{ id: string }> }
+) {
+    const { id } = await props.params;
+
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json(
+                { success: false, error: 'Unauthorized - Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const teamSessionId = Number(id);
+        const membership = Number.isInteger(teamSessionId) && teamSessionId > 0
+            ? await getTeamMembership(teamSessionId, userId)
+            : undefined;
+
+        if (!membership) {
+            return NextResponse.json({ success: false, error: 'Team not found' }, { status: 404 });
+        }
+
+        return createStateEventStream(request.signal, {
+            event: 'team',
+            getVersion: () => getTeamSessionVersion(teamSessionId),
+            loadState: () => loadTeamSessionState(teamSessionId),
+            // Nothing changes once the team has finished
+            isFinished: (state) => state.status === 'completed' || state.status === 'abandoned',
+            label: 'team session',
+        });
+    } catch (error) {
+        console.error('Error opening team session stream:', error);
+        return NextResponse.json({ success: false, error: 'Failed to open team session stream' }, { status: 500 });
+    }
+}
@@ -0,0 +1,310 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect, notFound } from 'next/navigation';
+import Link from 'next/link';
+import { getCaseAttemptReplay } from '@/actions/student';
+import { PatientPresentation } from '@/components/simulator/PatientPresentation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatSimulatedTime } from '@/lib/physiology';
+import { describeConfidence, isConfidentlyWrong } from '@/lib/calibration';
+import { isCriticalError, safetyClassLabels } from '@/lib/patient-safety';
+import { teamRoleLabels } from '@/lib/team-sessions';
+import type { ReplayOption } from '@/types/simulator-types';
+import { CheckCircle, XCircle, Star, History, MessagesSquare, Lightbulb } from 'lucide-react';
+
+function ReplayOptionCard({ label, option, highlight }: { label: string; option: ReplayOption; highlight: 'chosen' | 'optimal' }) {
+    const isGood = option.scoreWeight > 0;
+
+    return (
+        <div className={`rounded-lg border p-4 space-y-2 ${highlight === 'optimal'
+            ? 'border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/30'
+            : isGood
+                ? 'border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/30'
+                : 'border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/30'
+            }`}>
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{label}</span>
+                <span className={`text-sm font-bold ${isGood ? 'text-green-600' : option.scoreWeight < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    {option.scoreWeight > 0 ? '+' : ''}{option.scoreWeight}
+                </span>
+            </div>
+            <p className="font-medium flex items-start gap-2">
+                {highlight === 'optimal'
+                    ? <Star className="h-4 w-4 mt-1 shrink-0 text-green-600" />
+                    : isGood
+                        ? <CheckCircle className="h-4 w-4 mt-1 shrink-0 text-blue-600" />
+                        : <XCircle className="h-4 w-4 mt-1 shrink-0 text-red-600" />}
+                {option.text}
+            </p>
+            <p className="text-sm text-muted-foreground">{option.feedback}</p>
+        </div>
+    );
+}
+
+/**
+ * Attempt Replay - Server Component
+ * Walks back through a completed attempt stage by stage, showing what the
+ * student saw and chose next to the best available option.
+ * Accessible by: the student who made the attempt
+ */
+export default async function AttemptReplayPage({
+    params,
+}: {
+    params: Promise<{ id: string; attemptId: string }>;
+}) {
+    const { id, attemptId } = await params;
+
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+
+    const caseId = parseInt(id);
+    const parsedAttemptId = parseInt(attemptId);
+    if (isNaN(caseId) || isNaN(parsedAttemptId)) {
+        notFound();
+    }
+
+    const result = await getCaseAttemptReplay(caseId, parsedAttemptId);
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    const replay = result.data;
+    const optimalCount = replay.steps.filter((step) => !step.decision.timedOut && step.optimal && step.chosen.id === step.optimal.id).length;
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            {/* Header */}
+            <div>
+                <div className="flex items-center gap-4 mb-4">
+                    <Link href="/performance">
+                        <Button variant="outline" size="sm">
+                            ← Back to Performance
+                        </Button>
+                    </Link>
+                    <Link href={`/cases/${replay.caseId}/simulate`}>
+                        <Button size="sm">Play Again</Button>
+                    </Link>
+                </div>
+
+                <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+                    <History className="h-7 w-7 text-primary" />
+                    {replay.title}
+                </h1>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <Badge variant="outline">{replay.clinicalDomain}</Badge>
+                    <Badge variant="outline">{replay.difficultyLevel}</Badge>
+                    <span className="text-muted-foreground">
+                        Completed {new Date(replay.completedAt).toLocaleString()}
+                    </span>
+                    {replay.outcome && (
+                        <Badge variant="secondary" className="capitalize">{replay.outcome}</Badge>
+                    )}
+                    {replay.teamRole && (
+                        <Badge variant="secondary">Team session · {teamRoleLabels[replay.teamRole]}</Badge>
+                    )}
+                </div>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Score</CardDescription>
+                        <CardTitle className="text-3xl">{replay.score}</CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Optimal Decisions</CardDescription>
+                        <CardTitle className="text-3xl">{optimalCount} / {replay.steps.length}</CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Simulated Time</CardDescription>
+                        <CardTitle className="text-3xl">
+                            {replay.elapsedMinutes !== null ? formatSimulatedTime(replay.elapsedMinutes) : '—'}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+            </div>
+
+            {/* Stage-by-stage replay */}
+            {replay.steps.length > 0 ? (
+                <div className="space-y-6">
+                    {replay.steps.map((step, index) => {
+                        const choseOptimal = step.optimal?.id === step.chosen.id;
+                        const confidence = describeConfidence(step.confidence);
+
+                        return (
+                            <Card key={step.stageId}>
+                                <CardHeader className="flex flex-row items-center justify-between gap-4">
+                                    <CardTitle className="text-lg flex items-center gap-2">
+                                        Decision {index + 1}
+                                        {isCriticalError(step.decision.safetyClass) && step.decision.safetyClass && (
+                                            <Badge variant="destructive">{safetyClassLabels[step.decision.safetyClass]}</Badge>
+                                        )}
+                                    </CardTitle>
+                                    <span className="text-xs text-muted-foreground">
+                                        {step.decision.timedOut
+                                            ? 'Time ran out · '
+                                            : step.decision.decisionSeconds !== null ? `Decided in ${step.decision.decisionSeconds}s · ` : ''}
+                                        {confidence && (
+                                            <span className={isConfidentlyWrong({ confidence: step.confidence, correct: step.scoreWeight > 0 }) ? 'font-medium text-red-600' : ''}>
+                                                {confidence} ·{' '}
+                                            </span>
+                                        )}
+                                        {new Date(step.decidedAt).toLocaleTimeString()}
+                                    </span>
+                                </CardHeader>
+                                <CardContent className="space-y-6">
+                                    <PatientPresentation
+                                        stage={step}
+                                        investigations={step.investigations}
+                                        patient={replay.patientDemographics}
+                                        trend={replay.steps.slice(0, index + 1).map((s) => ({ label: `Stage ${s.stageOrder}`, data: s.clinicalData }))}
+                                    />
+
+                                    {step.investigations.some((row) => !row.isIndicated) && (
+                                        <p className="text-xs text-muted-foreground">
+                                            Not indicated: {step.investigations
+                                                .filter((row) => !row.isIndicated)
+                                                .map((row) => `${row.investigation} (${row.scoreDelta})`)
+                                                .join(', ')}
+                                        </p>
+                                    )}
+
+                                    {step.history && (
+                                        <div className="rounded-lg border p-4 space-y-3 text-sm">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-semibold flex items-center gap-2">
+                                                    <MessagesSquare className="h-4 w-4" />
+                                                    History taking
+                                                </span>
+                                                <span className="font-mono text-muted-foreground">
+                                                    {step.history.score > 0 ? '+' : ''}{step.history.score}
+                                                </span>
+                                            </div>
+                                            {step.history.messages.length > 0 ? (
+                                                <div className="space-y-1">
+                                                    {step.history.messages.map((message, messageIndex) => (
+                                                        <p key={messageIndex} className={message.role === 'student' ? 'font-medium' : 'text-muted-foreground'}>
+                                                            {message.role === 'student' ? 'You' : 'Patient'}: {message.content}
+                                                        </p>
+                                                    ))}
+                                                </div>
+                                            ) : (
+                                                <p className="text-muted-foreground">No questions were asked.</p>
+                                            )}
+                                            {step.history.elicited.length > 0 && (
+                                                <p><span className="font-medium text-green-600">Elicited:</span> {step.history.elicited.join(', ')}</p>
+                                            )}
+                                            {step.history.missed.length > 0 && (
+                                                <p><span className="font-medium text-red-600">Missed:</span> {step.history.missed.join(', ')}</p>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    {step.hints.length > 0 && (
+                                        <div className="rounded-lg border p-4 space-y-2 text-sm">
+                                            <span className="font-semibold flex items-center gap-2">
+                                                <Lightbulb className="h-4 w-4" />
+                                                Hints used
+                                            </span>
+                                            {step.hints.map((hint, hintIndex) => (
+                                                <p key={hintIndex} className="flex justify-between gap-2 text-muted-foreground">
+                                                    <span>{hint.text}</span>
+                                                    <span className="font-mono shrink-0">{hint.scoreDelta}</span>
+                                                </p>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {step.decision.decisionType === 'free_text' && !step.decision.timedOut && (
+                                        <p className="text-sm">
+                                            You answered: <span className="font-medium">&ldquo;{step.decision.text}&rdquo;</span>
+                                            {!step.decision.matched && <span className="text-muted-foreground"> (not an accepted answer)</span>}
+                                        </p>
+                                    )}
+
+                                    {step.decision.timedOut ? (
+                                        <div className={`grid gap-4 text-sm ${step.optimal ? 'md:grid-cols-2' : ''}`}>
+                                            <div className="rounded-lg border border-red-300 bg-red-50/50 dark:bg-red-950/20 p-4">
+                                                <div className="flex items-center justify-between gap-2 mb-2">
+                                                    <span className="font-semibold">No decision: time ran out</span>
+                                                    <span className="font-mono text-muted-foreground">
+                                                        {step.scoreWeight > 0 ? '+' : ''}{step.scoreWeight}
+                                                    </span>
+                                                </div>
+                                                <p className="text-muted-foreground">{step.chosen.feedback}</p>
+                                            </div>
+                                            {step.optimal && (
+                                                <ReplayOptionCard label="Optimal choice" option={step.optimal} highlight="optimal" />
+                                            )}
+                                        </div>
+                                    ) : step.decision.decisionType === 'multi' || step.decision.decisionType === 'ordering' ? (
+                                        <div className="grid gap-4 md:grid-cols-2 text-sm">
+                                            <div className="rounded-lg border p-4">
+                                                <div className="flex items-center justify-between gap-2 mb-2">
+                                                    <span className="font-semibold">{step.decision.decisionType === 'multi' ? 'Your selection' : 'Your order'}</span>
+                                                    <span className="font-mono text-muted-foreground">
+                                                        {step.scoreWeight > 0 ? '+' : ''}{step.scoreWeight}
+                                                    </span>
+                                                </div>
+                                                <ol className={step.decision.decisionType === 'ordering' ? 'list-decimal list-inside space-y-1' : 'space-y-1'}>
+                                                    {step.decision.selectedOptionIds.map((id) => (
+                                                        <li key={id}>{step.options.find((option) => option.id === id)?.text}</li>
+                                                    ))}
+                                                </ol>
+                                            </div>
+                                            <div className="rounded-lg border border-green-300 bg-green-50/50 dark:bg-green-950/20 p-4">
+                                                <span className="font-semibold block mb-2">{step.decision.decisionType === 'multi' ? 'Appropriate options' : 'Recommended order'}</span>
+                                                <ol className={step.decision.decisionType === 'ordering' ? 'list-decimal list-inside space-y-1' : 'space-y-1'}>
+                                                    {step.decision.correctOptionIds.map((id) => {
+                                                        const option = step.options.find((row) => row.id === id);
+                                                        return option ? (
+                                                            <li key={id}>
+                                                                {option.text}
+                                                                <span className="block text-xs text-muted-foreground">{option.feedback}</span>
+                                                            </li>
+                                                        ) : null;
+                                                    })}
+                                                </ol>
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <div className={`grid gap-4 ${choseOptimal || !step.optimal ? '' : 'md:grid-cols-2'}`}>
+                                                <ReplayOptionCard
+                                                    label={choseOptimal ? 'Your choice (optimal)' : 'Your choice'}
+                                                    option={step.chosen}
+                                                    highlight={choseOptimal ? 'optimal' : 'chosen'}
+                                                />
+                                                {step.optimal && !choseOptimal && (
+                                                    <ReplayOptionCard label="Optimal choice" option={step.optimal} highlight="optimal" />
+                                                )}
+                                            </div>
+
+                                            {step.decision.matched && step.scoreWeight !== step.chosen.scoreWeight && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    This option was worth {step.scoreWeight} points when you chose it; the case has since been updated.
+                                                </p>
+                                            )}
+                                        </>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="text-center py-12 text-muted-foreground border border-dashed rounded-xl">
+                    No decisions were recorded for this attempt.
+                </div>
+            )}
+        </div>
+    );
+}
@@ -3,8 +3,10 @@ import { redirect, notFound } from 'next/navigation';
 import { db } from '@/db';
 import { cases } from '@/db/schema';
 import { eq, and, or } from 'drizzle-orm';
+import { inCurrentCaseVersion } from '@/lib/case-versions';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
+import { StartTeamSessionButton } from '@/components/start-team-session-button';
 
 /**
  * Single Case View - Server Component
@@ -41,6 +43,7 @@ export default async function CasePage({
         ),
         with: {
             stages: {
+                where: inCurrentCaseVersion, // The version students play
                 orderBy: (stages, { asc }) => [asc(stages.stageOrder)],
                 with: {
                     options: true,
@@ -105,11 +108,15 @@ export default async function CasePage({
                         Start the simulation to test your clinical reasoning skills.
                         You&apos;ll interact with the patient and make decisions in real-time.
                     </p>
-                    <Link href={`/cases/${caseId}/simulate`}>
-                        <Button size="lg" className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto">
-                            ▶ Start Simulation
-                        </Button>
-                    </Link>
+                    <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                        <Link href={`/cases/${caseId}/simulate`}>
+                            <Button size="lg" className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto">
+                                ▶ Start Simulation
+                            </Button>
+                        </Link>
+                        {/* Teammates need to be able to open the case, so teams are for published cases */}
+                        {medicalCase.isPublished && <StartTeamSessionButton caseId={caseId} />}
+                    </div>
                 </div>
             </div>
         </div>
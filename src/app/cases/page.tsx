@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import Link from 'next/link';
 import { isAdmin } from '@/lib/auth-helpers';
+import { inCurrentCaseVersion } from '@/lib/case-versions';
 import { CasesFilterControls } from '@/components/cases-filter-controls';
 import { PaginationControls } from '@/components/pagination-controls';
 
@@ -84,6 +85,7 @@ export default async function CasesPage(props: {
         offset: offset,
         with: {
             stages: {
+                where: inCurrentCaseVersion, // The version students play
                 orderBy: (stages, { asc }) => [asc(stages.stageOrder)],
             },
         },
@@ -0,0 +1,35 @@
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+import { getClassroomSession } from '@/actions/classroom';
+import { ClassroomStudent } from '@/components/classroom-student';
+
+export default async function ClassroomSessionPage({
+    params
+}: {
+    params: Promise<{ id: string }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+
+    const { id } = await params;
+    const classroomSessionId = parseInt(id);
+
+    if (isNaN(classroomSessionId)) {
+        notFound();
+    }
+
+    // Participants only; anyone else has to join with the code first
+    const result = await getClassroomSession(classroomSessionId);
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    // The instructor's own view is the presenter screen
+    if (result.data.isHost) {
+        redirect(`/admin/classroom/${classroomSessionId}`);
+    }
+
+    return <ClassroomStudent initialClassroom={result.data.classroom} />;
+}
@@ -0,0 +1,36 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import { ClassroomJoinForm } from '@/components/classroom-join-form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+/**
+ * Classroom Join Page - Server Component
+ * Students enter the code on their instructor's screen to vote along
+ */
+export default async function ClassroomJoinPage() {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+
+    return (
+        <div className="container mx-auto max-w-xl px-4 py-12 space-y-6">
+            <div>
+                <h1 className="text-3xl font-bold">Live Classroom</h1>
+                <p className="text-muted-foreground">
+                    Your instructor presents the case; you vote on each decision from this device.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Join a Classroom</CardTitle>
+                    <CardDescription>Enter the code shown on your instructor&apos;s screen.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <ClassroomJoinForm />
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
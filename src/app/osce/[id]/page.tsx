@@ -0,0 +1,30 @@
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+import { getOsceSession } from '@/actions/osce';
+import { OsceStationRunner } from '@/components/osce-station-runner';
+
+export default async function OsceSessionPage({
+    params
+}: {
+    params: Promise<{ id: string }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+
+    const { id } = await params;
+    const osceSessionId = parseInt(id);
+
+    if (isNaN(osceSessionId)) {
+        notFound();
+    }
+
+    // The candidate and their examiner only
+    const result = await getOsceSession(osceSessionId);
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    return <OsceStationRunner initialOsce={result.data.osce} role={result.data.role} />;
+}
@@ -0,0 +1,106 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getMyOsceAttempts, getPublishedOsceStations } from '@/actions/osce';
+import { OsceExaminerJoinForm } from '@/components/osce-examiner-join-form';
+import { StartOsceStationButton } from '@/components/start-osce-station-button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatStationDuration, isPassingRating, osceGlobalRatingLabels, osceScorePercent } from '@/lib/osce';
+
+/**
+ * OSCE Stations Page - Server Component
+ * Sit a timed station while a peer or examiner marks you, or mark someone else's
+ */
+export default async function OscePage() {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+
+    const [{ data: stations }, { data: attempts }] = await Promise.all([
+        getPublishedOsceStations(),
+        getMyOsceAttempts(),
+    ]);
+
+    return (
+        <div className="container mx-auto max-w-4xl px-4 py-8 space-y-6">
+            <div>
+                <h1 className="text-3xl font-bold">OSCE Stations</h1>
+                <p className="text-muted-foreground">
+                    Read the brief, perform the station against the clock, and get marked live on a checklist and global rating by an examiner on another device.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Examine a Station</CardTitle>
+                    <CardDescription>Enter the code on the candidate&apos;s screen to open their marking sheet.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <OsceExaminerJoinForm />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Stations</CardTitle>
+                    <CardDescription>Choose a station to sit, then give your examiner the code.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {stations.length > 0 ? (
+                        <div className="space-y-2">
+                            {stations.map((station) => (
+                                <div key={station.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                                    <div>
+                                        <p className="font-medium">{station.title}</p>
+                                        <p className="text-sm text-muted-foreground">
+                                            {station.clinicalDomain} • {formatStationDuration(station.durationSeconds)}
+                                        </p>
+                                    </div>
+                                    <StartOsceStationButton stationId={station.id} />
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="py-6 text-center text-muted-foreground">No stations have been published yet.</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Your Results</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {attempts.length > 0 ? (
+                        <div className="space-y-2">
+                            {attempts.map((attempt) => (
+                                <div key={attempt.id} className="flex items-center justify-between rounded-lg border p-3">
+                                    <div>
+                                        <p className="font-medium">{attempt.station.title}</p>
+                                        <p className="text-sm text-muted-foreground">
+                                            {new Date(attempt.completedAt).toLocaleDateString()} • {attempt.score}/{attempt.maxScore} ({osceScorePercent(attempt)}%)
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant={isPassingRating(attempt.globalRating) ? 'default' : 'destructive'}>
+                                            {osceGlobalRatingLabels[attempt.globalRating]}
+                                        </Badge>
+                                        {attempt.osceSessionId && (
+                                            <Link href={`/osce/${attempt.osceSessionId}`} className="text-sm text-primary hover:underline">
+                                                View
+                                            </Link>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="py-6 text-center text-muted-foreground">You haven&apos;t been marked on a station yet.</p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -5,13 +5,24 @@ import {
     getDifficultyStats,
     getStudentStats,
     getPercentileRank,
-    getRecentAttempts
+    getRecentAttempts,
+    getDecisionSpeedStats,
+    getCalibrationStats,
+    getSafetyProfile
 } from '@/actions/student';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
 import { PerformanceCharts } from '@/components/performance-chart';
-import { ArrowRight, Trophy, Target, Activity, TrendingUp } from 'lucide-react';
+import { CalibrationChart } from '@/components/calibration-chart';
+import { ArrowRight, Trophy, Target, Activity, TrendingUp, Timer, Gauge, AlertTriangle, ShieldAlert, Stethoscope } from 'lucide-react';
+import { safetyClassLabels } from '@/lib/patient-safety';
+import { safetyClasses } from '@/db/schema';
+
+function formatSeconds(seconds: number | null) {
+    if (seconds === null) return '—';
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
 
 export default async function PerformancePage(props: { searchParams: Promise<{ mode?: string }> }) {
     const { userId } = await auth();
@@ -29,13 +40,19 @@ export default async function PerformancePage(props: { searchParams: Promise<{ m
         difficultyStatsResult,
         userStatsResult,
         percentileResult,
-        recentAttemptsResult
+        recentAttemptsResult,
+        decisionSpeedResult,
+        calibrationResult,
+        safetyResult
     ] = await Promise.all([
         getCategoryStats(undefined, mode),
         getDifficultyStats(undefined, mode),
         getStudentStats(undefined, mode),
         getPercentileRank(undefined, mode),
-        getRecentAttempts(5, mode)
+        getRecentAttempts(5, mode),
+        getDecisionSpeedStats(),
+        getCalibrationStats(undefined, mode),
+        getSafetyProfile()
     ]);
 
     const categoryStats = categoryStatsResult.success ? categoryStatsResult.data : [];
@@ -48,6 +65,16 @@ export default async function PerformancePage(props: { searchParams: Promise<{ m
         totalUsers: percentile?.totalUsers ?? 0,
     };
     const recentAttempts = recentAttemptsResult.success ? recentAttemptsResult.data : [];
+    // Only case stages are timed; UKMLA questions have no decision speed
+    const decisionSpeed = mode !== 'ukmla' && decisionSpeedResult.success ? decisionSpeedResult.data : null;
+    const hasDecisionSpeed = decisionSpeed !== null && (decisionSpeed.overall.decisions > 0 || decisionSpeed.overall.timeouts > 0);
+    // Safety classes apply to case options only
+    const safety = mode !== 'ukmla' && safetyResult.success && safetyResult.data && safetyResult.data.overall.decisions > 0
+        ? safetyResult.data
+        : null;
+    const calibration = calibrationResult.success && calibrationResult.data && calibrationResult.data.ratedAnswers > 0
+        ? calibrationResult.data
+        : null;
 
     // Identify weak areas (categories with score < 70)
     const weakAreas = categoryStats.filter(stat => stat.averageScore < 70).sort((a, b) => a.averageScore - b.averageScore);
@@ -159,6 +186,162 @@ export default async function PerformancePage(props: { searchParams: Promise<{ m
             {/* Performance Charts */}
             <PerformanceCharts categoryStats={categoryStats} difficultyStats={difficultyStats} />
 
+            {userStats?.osce && userStats.osce.totalAttempts > 0 && (
+                <Card className="shadow-md">
+                    <CardHeader>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                            <Stethoscope className="h-5 w-5 text-teal-500" />
+                            OSCE Stations
+                        </CardTitle>
+                        <CardDescription>
+                            Examiner-marked stations, reported separately from your case and UKMLA scores
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid grid-cols-3 gap-4 text-center">
+                            <div>
+                                <p className="text-2xl font-bold">{userStats.osce.totalAttempts}</p>
+                                <p className="text-xs text-muted-foreground">Stations marked</p>
+                            </div>
+                            <div>
+                                <p className="text-2xl font-bold">{userStats.osce.averagePercent}%</p>
+                                <p className="text-xs text-muted-foreground">Average checklist score</p>
+                            </div>
+                            <div>
+                                <p className="text-2xl font-bold">{userStats.osce.passRate}%</p>
+                                <p className="text-xs text-muted-foreground">Passed on global rating</p>
+                            </div>
+                        </div>
+                        <Link href="/osce" className="text-sm text-primary hover:underline">
+                            See your station results →
+                        </Link>
+                    </CardContent>
+                </Card>
+            )}
+
+            {hasDecisionSpeed && decisionSpeed && (
+                <Card className="shadow-md">
+                    <CardHeader>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                            <Timer className="h-5 w-5 text-amber-500" />
+                            Decision Speed
+                        </CardTitle>
+                        <CardDescription>
+                            Time taken to decide at each case stage, and stages where time ran out
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid grid-cols-3 gap-4 text-center">
+                            <div>
+                                <p className="text-2xl font-bold">{formatSeconds(decisionSpeed.overall.medianSeconds)}</p>
+                                <p className="text-xs text-muted-foreground">Median per decision</p>
+                            </div>
+                            <div>
+                                <p className="text-2xl font-bold">{formatSeconds(decisionSpeed.overall.averageSeconds)}</p>
+                                <p className="text-xs text-muted-foreground">Average per decision</p>
+                            </div>
+                            <div>
+                                <p className={`text-2xl font-bold ${decisionSpeed.overall.timeouts > 0 ? 'text-red-600' : ''}`}>{decisionSpeed.overall.timeouts}</p>
+                                <p className="text-xs text-muted-foreground">Timed out</p>
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            {decisionSpeed.byDomain.map((domain) => (
+                                <div key={domain.clinicalDomain} className="flex items-center justify-between text-sm rounded-lg bg-muted/40 px-3 py-2">
+                                    <span className="font-medium text-foreground">{domain.clinicalDomain}</span>
+                                    <span className="text-muted-foreground">
+                                        {formatSeconds(domain.medianSeconds)} median · {domain.decisions} decisions
+                                        {domain.timeouts > 0 && <span className="text-red-600 ml-1">· {domain.timeouts} timed out</span>}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {safety && (
+                <Card className="shadow-md">
+                    <CardHeader>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                            <ShieldAlert className="h-5 w-5 text-red-500" />
+                            Safety Profile
+                        </CardTitle>
+                        <CardDescription>
+                            How safe your case decisions have been, with harmful choices and never-events by domain
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+                            {safetyClasses.map((safetyClass) => (
+                                <div key={safetyClass}>
+                                    <p className={`text-2xl font-bold ${(safetyClass === 'harmful' || safetyClass === 'never_event') && safety.overall.counts[safetyClass] > 0 ? 'text-red-600' : ''}`}>
+                                        {safety.overall.counts[safetyClass]}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">{safetyClassLabels[safetyClass]}</p>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-2">
+                            {safety.byDomain.map((domain) => (
+                                <div key={domain.clinicalDomain} className="flex items-center justify-between text-sm rounded-lg bg-muted/40 px-3 py-2">
+                                    <span className="font-medium text-foreground">{domain.clinicalDomain}</span>
+                                    <span className="text-muted-foreground">
+                                        {domain.decisions} decisions
+                                        {domain.counts.harmful > 0 && <span className="text-red-600 ml-1">· {domain.counts.harmful} harmful</span>}
+                                        {domain.counts.never_event > 0 && <span className="text-red-600 font-semibold ml-1">· {domain.counts.never_event} never {domain.counts.never_event === 1 ? 'event' : 'events'}</span>}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {calibration && (
+                <Card className="shadow-md">
+                    <CardHeader>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                            <Gauge className="h-5 w-5 text-indigo-500" />
+                            Confidence Calibration
+                        </CardTitle>
+                        <CardDescription>
+                            How often you were right at each confidence level, across {calibration.ratedAnswers} rated answers
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="lg:col-span-2">
+                            <CalibrationChart curve={calibration.curve} />
+                        </div>
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-semibold flex items-center gap-2">
+                                <AlertTriangle className="h-4 w-4 text-red-500" />
+                                Confidently Wrong
+                            </h4>
+                            {calibration.confidentlyWrongTopics.length > 0 ? (
+                                <>
+                                    {calibration.confidentlyWrongTopics.map((topic) => (
+                                        <div key={topic.topic} className="flex items-center justify-between text-sm rounded-lg bg-red-50 px-3 py-2 dark:bg-red-950/30">
+                                            <span className="font-medium text-foreground">{topic.topic}</span>
+                                            <span className="text-red-600">
+                                                {topic.confidentlyWrong} of {topic.confidentAnswers} sure answers wrong
+                                            </span>
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-muted-foreground">
+                                        Being sure and wrong is the riskiest pattern in practice. These topics come first in your review queue.
+                                    </p>
+                                </>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">
+                                    No topics where you have repeatedly been sure and wrong.
+                                </p>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 {/* Weak Areas */}
                 <Card className="lg:col-span-1 shadow-md">
@@ -217,13 +400,24 @@ export default async function PerformancePage(props: { searchParams: Promise<{ m
                         {recentAttempts.length > 0 ? (
                             <div className="space-y-4">
                                 {recentAttempts.map((attempt) => (
-                                    <div key={attempt.id} className="flex items-center justify-between rounded-lg bg-muted/40 p-3 transition-colors hover:bg-muted/70">
+                                    <div key={`${attempt.type}-${attempt.id}`} className="flex items-center justify-between rounded-lg bg-muted/40 p-3 transition-colors hover:bg-muted/70">
                                         <div>
-                                            <p className="font-medium text-foreground">{attempt.case.title}</p>
+                                            {attempt.type === 'case' ? (
+                                                <Link href={`/cases/${attempt.case.id}/attempts/${attempt.id}`} className="font-medium text-foreground hover:underline">
+                                                    {attempt.case.title}
+                                                </Link>
+                                            ) : (
+                                                <p className="font-medium text-foreground">{attempt.case.title}</p>
+                                            )}
                                             <div className="flex items-center gap-2 mt-1">
                                                 <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700 dark:bg-blue-950/50 dark:text-blue-300">
                                                     {attempt.case.clinicalDomain}
                                                 </span>
+                                                {attempt.hintsUsed > 0 && (
+                                                    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-700 dark:bg-amber-950/50 dark:text-amber-300">
+                                                        {attempt.hintsUsed} {attempt.hintsUsed === 1 ? 'hint' : 'hints'}
+                                                    </span>
+                                                )}
                                                 <span className="text-xs text-muted-foreground">
                                                     {new Date(attempt.completedAt).toLocaleDateString()}
                                                 </span>
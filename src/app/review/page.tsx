@@ -4,7 +4,7 @@ import { getReviewQueue, getDueReviewCount } from '@/actions/student';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
-import { Brain, Calendar, Clock, ArrowRight, CheckCircle2 } from 'lucide-react';
+import { Brain, Calendar, Clock, ArrowRight, CheckCircle2, History } from 'lucide-react';
 import { Badge } from '@/components/ui/badge'; // Assuming badge exists, if not I'll just use tailwind classes or remove it
 
 export default async function ReviewPage() {
@@ -50,9 +50,16 @@ export default async function ReviewPage() {
                             <Card key={card.id} className="flex flex-col h-full hover:shadow-md transition-all border-indigo-100/50">
                                 <CardHeader>
                                     <div className="flex justify-between items-start mb-2">
-                                        <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                                            {card.case.clinicalDomain}
-                                        </Badge>
+                                        <div className="flex flex-wrap gap-1">
+                                            <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                                                {card.case.clinicalDomain}
+                                            </Badge>
+                                            {card.confidentlyWrong && (
+                                                <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                                                    Confidently wrong
+                                                </Badge>
+                                            )}
+                                        </div>
                                         <Badge variant="outline" className={`${card.case.difficultyLevel === 'Foundation' ? 'bg-green-50 text-green-700 border-green-200' :
                                                 card.case.difficultyLevel === 'Core' ? 'bg-yellow-50 text-yellow-700 border-yellow-200' :
                                                     'bg-red-50 text-red-700 border-red-200'
@@ -83,13 +90,21 @@ export default async function ReviewPage() {
                                         </div>
                                     </div>
                                 </CardContent>
-                                <CardFooter className="pt-4 border-t bg-gray-50/50">
+                                <CardFooter className="pt-4 border-t bg-gray-50/50 flex flex-col gap-2">
                                     <Link href={`/cases/${card.case.id}`} className="w-full">
                                         <Button className="w-full gap-2 bg-indigo-600 hover:bg-indigo-700">
                                             Start Review
                                             <ArrowRight className="h-4 w-4" />
                                         </Button>
                                     </Link>
+                                    {card.lastAttemptId && (
+                                        <Link href={`/cases/${card.case.id}/attempts/${card.lastAttemptId}`} className="w-full">
+                                            <Button variant="outline" className="w-full gap-2">
+                                                <History className="h-4 w-4" />
+                                                Replay Last Attempt
+                                            </Button>
+                                        </Link>
+                                    )}
                                 </CardFooter>
                             </Card>
                         );
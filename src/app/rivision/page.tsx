@@ -34,12 +34,15 @@ function noteScopeKey(domain: string, difficulty: string | null, clusterKey: str
     return `${domain}::${difficulty || 'any'}::${clusterKey || 'any'}`;
 }
 
-export default async function RivisionPage() {
+export default async function RivisionPage(props: { searchParams: Promise<{ focus?: string }> }) {
     const { userId } = await auth();
     if (!userId) {
         redirect('/sign-in');
     }
 
+    // contextId of a card to pull to the top, e.g. when linked from a case debrief
+    const { focus } = await props.searchParams;
+
     const [caseAttempts, ukmlaRows, fallbackCategoryStats] = await Promise.all([
         db.query.studentAttempts.findMany({
             where: eq(studentAttempts.userId, userId),
@@ -234,6 +237,10 @@ export default async function RivisionPage() {
         });
 
     const weakCardCount = cards.filter((row) => row.averageScore < 70).length;
+    const focusContextId = cards.some((card) => card.contextId === focus) ? focus : undefined;
+    const orderedCards = focusContextId
+        ? [...cards].sort((a, b) => Number(b.contextId === focusContextId) - Number(a.contextId === focusContextId))
+        : cards;
 
     return (
         <div className="container mx-auto max-w-6xl px-4 py-8 space-y-6">
@@ -256,7 +263,7 @@ export default async function RivisionPage() {
                 </CardContent>
             </Card>
 
-            <RivisionMaterials cards={cards} />
+            <RivisionMaterials cards={orderedCards} focusContextId={focusContextId} />
         </div>
     );
 }
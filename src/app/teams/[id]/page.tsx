@@ -0,0 +1,43 @@
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+import { getTeamSession } from '@/actions/team';
+import { loadCaseForSimulator } from '@/actions/simulator';
+import { TeamSimulatorPlayer } from '@/components/simulator/TeamSimulatorPlayer';
+
+export default async function TeamSessionPage({
+    params
+}: {
+    params: Promise<{ id: string }>;
+}) {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+
+    const { id } = await params;
+    const teamSessionId = parseInt(id);
+
+    if (isNaN(teamSessionId)) {
+        notFound();
+    }
+
+    // Members only; anyone else has to join with the code first
+    const result = await getTeamSession(teamSessionId);
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    const { team, role } = result.data;
+    // Once started, the team keeps playing the version it started on
+    const medicalCase = await loadCaseForSimulator(team.caseId, { teamSessionId });
+
+    if (!medicalCase) {
+        notFound();
+    }
+
+    return (
+        <div className="min-h-screen bg-slate-50 dark:bg-slate-950">
+            <TeamSimulatorPlayer medicalCase={medicalCase} initialTeam={team} currentUserId={userId} role={role} />
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getMyTeamSessions } from '@/actions/team';
+import { TeamJoinForm } from '@/components/team-join-form';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { teamRoleLabels, TEAM_MAX_MEMBERS, TEAM_MIN_MEMBERS } from '@/lib/team-sessions';
+
+/**
+ * Team Sessions Page - Server Component
+ * Join a teammate's lobby by code, or return to a team already joined
+ */
+export default async function TeamsPage() {
+    const { userId } = await auth();
+    if (!userId) {
+        redirect('/sign-in');
+    }
+
+    const { data: teams } = await getMyTeamSessions();
+
+    return (
+        <div className="container mx-auto max-w-3xl px-4 py-8 space-y-6">
+            <div>
+                <h1 className="text-3xl font-bold">Team Sessions</h1>
+                <p className="text-muted-foreground">
+                    Manage a patient together: {TEAM_MIN_MEMBERS} to {TEAM_MAX_MEMBERS} students share one case, discuss in a side chat, and the team lead commits each decision.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Join a Team</CardTitle>
+                    <CardDescription>Enter the code your team lead shared with you.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <TeamJoinForm />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Your Teams</CardTitle>
+                    <CardDescription>
+                        To lead a team, open a published case and choose &quot;Play as a Team&quot;.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {teams.length > 0 ? (
+                        <div className="space-y-2">
+                            {teams.map((team) => (
+                                <div key={team.teamSessionId} className="flex items-center justify-between rounded-lg border p-3">
+                                    <div>
+                                        <p className="font-medium">{team.caseTitle}</p>
+                                        <p className="text-sm text-muted-foreground font-mono">{team.joinCode}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant="secondary">{teamRoleLabels[team.role]}</Badge>
+                                        <Badge variant="outline" className="capitalize">{team.status}</Badge>
+                                        <Link href={`/teams/${team.teamSessionId}`}>
+                                            <Button size="sm">Open</Button>
+                                        </Link>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="py-6 text-center text-muted-foreground">You&apos;re not in any teams right now.</p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -44,6 +44,9 @@ export default async function UkmlaReviewPage() {
                                 <p className="text-xs text-muted-foreground">
                                     {card.question.category} • {card.question.difficultyLevel}
                                 </p>
+                                {card.confidentlyWrong && (
+                                    <p className="text-xs font-medium text-red-600">Confidently wrong topic: review first</p>
+                                )}
                             </CardHeader>
                             <CardContent>
                                 <p className="text-xs text-muted-foreground">
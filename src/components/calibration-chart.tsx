@@ -0,0 +1,50 @@
+'use client';
+
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { CalibrationPoint } from '@/lib/calibration';
+
+type CalibrationChartProps = {
+    curve: CalibrationPoint[];
+};
+
+export function CalibrationChart({ curve }: CalibrationChartProps) {
+    const data = curve.map((point) => ({
+        label: point.label,
+        accuracy: point.accuracy,
+        expected: point.expected,
+        answers: point.answers,
+    }));
+
+    return (
+        <div className="h-[280px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+                    <Tooltip
+                        formatter={(value, name) => [value === null ? 'No answers' : `${value}%`, name]}
+                        labelFormatter={(label, payload) => `${label} (${payload?.[0]?.payload.answers ?? 0} answers)`}
+                    />
+                    <Legend />
+                    <Line
+                        type="monotone"
+                        dataKey="expected"
+                        name="Well calibrated"
+                        stroke="#94a3b8"
+                        strokeDasharray="5 5"
+                        dot={false}
+                    />
+                    <Line
+                        type="monotone"
+                        dataKey="accuracy"
+                        name="Your accuracy"
+                        stroke="#6366f1"
+                        strokeWidth={2}
+                        connectNulls
+                    />
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
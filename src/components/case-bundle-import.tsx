@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { importCaseBundle, previewCaseBundleImport } from '@/actions/case-bundles';
+import type { CaseBundlePlanEntry } from '@/lib/case-bundle-store';
+import type { CaseBundleFormat } from '@/schemas/case-bundle';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+
+const actionStyles = {
+    create: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    update: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    unchanged: 'bg-muted text-muted-foreground',
+} as const;
+
+const changeStyles = {
+    added: 'text-green-700 dark:text-green-400',
+    removed: 'text-red-700 dark:text-red-400',
+    changed: 'text-amber-700 dark:text-amber-400',
+} as const;
+
+export function CaseBundleImport() {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+
+    const [format, setFormat] = useState<CaseBundleFormat>('json');
+    const [content, setContent] = useState('');
+    const [plan, setPlan] = useState<CaseBundlePlanEntry[] | null>(null);
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    const onContentChange = (value: string) => {
+        setContent(value);
+        // The preview only holds for the text it was made from
+        setPlan(null);
+    };
+
+    const onFileChange = async (file: File | undefined) => {
+        if (!file) return;
+        if (/\.ya?ml$/i.test(file.name)) setFormat('yaml');
+        else if (/\.json$/i.test(file.name)) setFormat('json');
+        onContentChange(await file.text());
+    };
+
+    const handlePreview = () => {
+        startTransition(async () => {
+            const res = await previewCaseBundleImport({ content, format });
+            if (!res.success || !res.plan) {
+                setPlan(null);
+                setMessage({ text: res.message, error: true });
+                return;
+            }
+            setPlan(res.plan);
+            setMessage({ text: res.message, error: false });
+        });
+    };
+
+    const handleImport = () => {
+        if (!plan) return;
+        const pending = plan.filter((entry) => entry.action !== 'unchanged').length;
+        if (!confirm(`Import ${pending} case${pending === 1 ? '' : 's'}? Matched cases have their draft replaced.`)) return;
+
+        startTransition(async () => {
+            const res = await importCaseBundle({ content, format });
+            setMessage({ text: res.message, error: !res.success });
+            if (res.success && res.plan) {
+                setPlan(res.plan.map((entry) => ({ ...entry, action: 'unchanged', changes: [] })));
+                router.refresh();
+            }
+        });
+    };
+
+    const pendingCount = plan?.filter((entry) => entry.action !== 'unchanged').length ?? 0;
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Bundle</CardTitle>
+                    <CardDescription>
+                        Upload a .json or .yaml bundle, or paste one below. Media is matched to files already uploaded here by storage key.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                        <div className="space-y-2 md:col-span-2">
+                            <Label>File</Label>
+                            <Input
+                                type="file"
+                                accept=".json,.yaml,.yml,application/json,application/yaml"
+                                onChange={(event) => onFileChange(event.target.files?.[0])}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Format</Label>
+                            <Select value={format} onValueChange={(value) => { setFormat(value as CaseBundleFormat); setPlan(null); }}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Format" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="json">JSON</SelectItem>
+                                    <SelectItem value="yaml">YAML</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Contents</Label>
+                        <Textarea
+                            value={content}
+                            onChange={(event) => onContentChange(event.target.value)}
+                            className="min-h-64 font-mono text-xs"
+                            placeholder={'format: nextmed-case-bundle\nversion: 1\ncases:\n  - key: chest-pain-acs\n    ...'}
+                        />
+                    </div>
+                    {message && (
+                        <p className={message.error ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>{message.text}</p>
+                    )}
+                </CardContent>
+                <CardFooter className="flex gap-2">
+                    <Button variant="outline" onClick={handlePreview} disabled={isPending || !content.trim()}>
+                        Preview (dry run)
+                    </Button>
+                    <Button onClick={handleImport} disabled={isPending || !plan || pendingCount === 0}>
+                        {isPending ? 'Working...' : `Import ${pendingCount} case${pendingCount === 1 ? '' : 's'}`}
+                    </Button>
+                </CardFooter>
+            </Card>
+
+            {plan && plan.map((entry) => (
+                <Card key={entry.key}>
+                    <CardHeader>
+                        <CardTitle className="flex flex-wrap items-center gap-2 text-lg">
+                            {entry.title}
+                            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${actionStyles[entry.action]}`}>
+                                {entry.action === 'create' ? 'New' : entry.action === 'update' ? 'Update' : 'Unchanged'}
+                            </span>
+                        </CardTitle>
+                        <CardDescription>
+                            {entry.key}
+                            {entry.caseId !== null && ` · case #${entry.caseId}`}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {entry.warnings.length > 0 && (
+                            <ul className="list-disc pl-5 text-sm text-amber-700 dark:text-amber-400">
+                                {entry.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+                            </ul>
+                        )}
+                        {entry.changes.length > 0 ? (
+                            <div className="max-h-96 overflow-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2 pr-4 font-medium">Field</th>
+                                            <th className="py-2 pr-4 font-medium">Current</th>
+                                            <th className="py-2 font-medium">Bundle</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {entry.changes.map((change) => (
+                                            <tr key={change.path} className="border-b last:border-0 align-top">
+                                                <td className={`py-2 pr-4 font-medium ${changeStyles[change.kind]}`}>{change.path}</td>
+                                                <td className="py-2 pr-4 whitespace-pre-wrap break-words text-muted-foreground">
+                                                    {change.before ?? '—'}
+                                                </td>
+                                                <td className="py-2 whitespace-pre-wrap break-words">{change.after ?? '—'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-muted-foreground">No differences.</p>
+                        )}
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
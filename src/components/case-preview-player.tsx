@@ -0,0 +1,459 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { CaseOutcome, ClinicalData, DecisionResponse, InvestigationType } from '@/db/schema';
+import type { CasePreview, DecisionFeedback } from '@/types/simulator-types';
+import { getStartStage, resolveNextStep, type NextStep } from '@/lib/case-graph';
+import { lintCase } from '@/lib/case-lint';
+import { createVariantSeed, findTemplateKeys, instantiateCaseTemplate } from '@/lib/case-templates';
+import { toDecisionFeedback } from '@/lib/decision-feedback';
+import { decisionTypeLabels, resolveDecision } from '@/lib/decision-types';
+import { getNextHint } from '@/lib/hints';
+import { investigationCatalogue, resolveInvestigationOrder, scoreMissedInvestigations } from '@/lib/investigations';
+import { classifyDecision, safetyClassLabels } from '@/lib/patient-safety';
+import { applyVitalEffects, formatSimulatedTime, mergeStageClinicalData } from '@/lib/physiology';
+import { DecisionPanel } from '@/components/simulator/DecisionPanel';
+import { FeedbackDisplay } from '@/components/simulator/FeedbackDisplay';
+import { InvestigationPanel } from '@/components/simulator/InvestigationPanel';
+import { PatientPresentation } from '@/components/simulator/PatientPresentation';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { AlertTriangle, Bug, Dices, RotateCcw, Trophy } from 'lucide-react';
+
+type PreviewStage = CasePreview['stages'][number];
+type PreviewOption = PreviewStage['options'][number];
+
+type PendingFeedback = {
+    option: PreviewOption;
+    decision: DecisionFeedback;
+    next: NextStep;
+    flags: string[]; // Problems only seen by playing this path
+};
+
+function describeNextStep(option: PreviewOption, stages: PreviewStage[]): string {
+    if (option.outcome) return `Ends: ${option.outcome}`;
+    if (option.nextStageId) {
+        const target = stages.find((stage) => stage.id === option.nextStageId);
+        return target ? `→ Stage ${target.stageOrder}` : '→ Missing stage';
+    }
+    return 'Next in order';
+}
+
+// Placeholders left in the text a student would see, e.g. a variable that was renamed
+function unfilledPlaceholders(stage: PreviewStage): string[] {
+    const keys = findTemplateKeys([stage.narrative, stage.clinicalData, stage.patientOpening, stage.options.map((option) => [option.text, option.feedback])]);
+    return [...keys];
+}
+
+export function CasePreviewPlayer({ preview }: { preview: CasePreview }) {
+    const isTemplated = (preview.templateVariables ?? []).length > 0;
+    // A fixed first seed, so the page renders the same variant on the server and in the browser
+    const [variantSeed, setVariantSeed] = useState(1);
+    const medicalCase = useMemo(() => instantiateCaseTemplate(preview, isTemplated ? variantSeed : null), [preview, isTemplated, variantSeed]);
+    const issues = useMemo(() => lintCase(preview.stages), [preview.stages]);
+
+    const startStageId = getStartStage(medicalCase.stages)?.id ?? null;
+    const [currentStageId, setCurrentStageId] = useState<number | null>(startStageId);
+    const [score, setScore] = useState(0);
+    const [elapsedMinutes, setElapsedMinutes] = useState(0);
+    const [carriedVitals, setCarriedVitals] = useState<ClinicalData | null>(medicalCase.baselineVitals);
+    const [investigations, setInvestigations] = useState<{ stageId: number; investigation: InvestigationType; result: string }[]>([]);
+    const [hintsShown, setHintsShown] = useState<Record<number, number>>({});
+    const [pending, setPending] = useState<PendingFeedback | null>(null);
+    const [outcome, setOutcome] = useState<CaseOutcome | null>(null);
+    const [isComplete, setIsComplete] = useState(false);
+    const [decisionError, setDecisionError] = useState<string | null>(null);
+    const [jumped, setJumped] = useState(false);
+
+    const currentStage = medicalCase.stages.find((stage) => stage.id === currentStageId);
+    const stageInvestigations = investigations.filter((row) => row.stageId === currentStage?.id);
+    const stageClinicalData = mergeStageClinicalData(carriedVitals, currentStage?.clinicalData);
+    const liveClinicalData = pending ? applyVitalEffects(stageClinicalData, pending.option.vitalEffects) : stageClinicalData;
+
+    const stageIssues = currentStage
+        ? issues.filter((issue) => issue.stageOrder === null || issue.stageOrder === currentStage.stageOrder)
+        : issues;
+    const placeholders = currentStage ? unfilledPlaceholders(currentStage) : [];
+
+    const resetPlay = () => {
+        setCurrentStageId(startStageId);
+        setScore(0);
+        setElapsedMinutes(0);
+        setCarriedVitals(medicalCase.baselineVitals);
+        setInvestigations([]);
+        setHintsShown({});
+        setPending(null);
+        setOutcome(null);
+        setIsComplete(false);
+        setDecisionError(null);
+        setJumped(false);
+    };
+
+    const handleNewVariant = () => {
+        const seed = createVariantSeed();
+        const variant = instantiateCaseTemplate(preview, seed);
+        setVariantSeed(seed);
+        resetPlay();
+        setCarriedVitals(variant.baselineVitals);
+    };
+
+    const handleJump = (stageId: number) => {
+        setCurrentStageId(stageId);
+        setPending(null);
+        setOutcome(null);
+        setIsComplete(false);
+        setDecisionError(null);
+        setJumped(true);
+    };
+
+    const handleSubmitDecision = (answer: { optionId?: number; response?: DecisionResponse }) => {
+        if (!currentStage) return;
+
+        const resolved = resolveDecision(currentStage.decisionType, currentStage.options, answer);
+        if (!resolved.valid) {
+            setDecisionError(resolved.message);
+            return;
+        }
+
+        const { decision } = resolved;
+        const option = currentStage.options.find((row) => row.id === decision.optionId);
+        if (!option) return;
+
+        const ordered = stageInvestigations.map((row) => row.investigation);
+        const next = resolveNextStep(medicalCase.stages, currentStage.id, option);
+
+        const flags: string[] = [];
+        if (currentStage.decisionType === 'free_text' && !decision.matched) {
+            flags.push(`No accepted answer matched, so the answer scored ${decision.scoreWeight} and followed "${option.text}"`);
+        }
+        if (next.type === 'end' && !next.outcome) {
+            flags.push('This path ends the case without a patient outcome');
+        }
+        if (next.type === 'stage' && !medicalCase.stages.some((stage) => stage.id === next.stageId)) {
+            flags.push('This option leads to a stage that is not in the draft');
+        }
+        if (!option.feedback.trim()) {
+            flags.push('The option followed has no feedback for the student');
+        }
+
+        setDecisionError(null);
+        setScore((prev) => prev + decision.scoreWeight + scoreMissedInvestigations(currentStage.investigations, ordered));
+        setPending({
+            option,
+            next,
+            flags,
+            decision: toDecisionFeedback(
+                currentStage,
+                decision,
+                { timedOut: false, decisionSeconds: null },
+                classifyDecision(currentStage.decisionType, currentStage.options, decision)
+            ),
+        });
+    };
+
+    const handleContinue = () => {
+        if (!pending) return;
+
+        setCarriedVitals(liveClinicalData);
+        setElapsedMinutes((prev) => prev + pending.option.durationMinutes);
+        setPending(null);
+
+        if (pending.next.type === 'end') {
+            setOutcome(pending.next.outcome);
+            setIsComplete(true);
+        } else {
+            setCurrentStageId(pending.next.stageId);
+        }
+    };
+
+    const handleOrderInvestigation = (investigation: InvestigationType) => {
+        if (!currentStage || stageInvestigations.some((row) => row.investigation === investigation)) return;
+
+        const order = resolveInvestigationOrder(currentStage.investigations, investigation);
+        setInvestigations((prev) => [...prev, { stageId: currentStage.id, investigation, result: order.result }]);
+        setScore((prev) => prev + order.scoreDelta);
+        setElapsedMinutes((prev) => prev + order.durationMinutes);
+    };
+
+    const handleRequestHint = () => {
+        if (!currentStage) return;
+
+        const revealed = hintsShown[currentStage.id] ?? 0;
+        const hint = getNextHint(currentStage.hints, revealed);
+        if (!hint) return;
+
+        setHintsShown((prev) => ({ ...prev, [currentStage.id]: revealed + 1 }));
+        setScore((prev) => prev + hint.scoreDelta);
+    };
+
+    const optionDetail = (optionId: number) => {
+        const option = currentStage?.options.find((row) => row.id === optionId);
+        if (!option) return null;
+        return (
+            <span className="mt-1 flex flex-wrap items-center gap-1 text-xs font-normal">
+                <span className={`rounded px-1.5 py-0.5 ${option.isCorrect ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-muted text-muted-foreground'}`}>
+                    {option.isCorrect ? '✓ Correct' : '✗ Incorrect'}
+                </span>
+                <span className={`rounded px-1.5 py-0.5 font-mono ${option.scoreWeight < 0 ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-muted text-muted-foreground'}`}>
+                    {option.scoreWeight > 0 ? '+' : ''}{option.scoreWeight}
+                </span>
+                {option.correctPosition !== null && currentStage?.decisionType === 'ordering' && (
+                    <span className="rounded bg-muted px-1.5 py-0.5 text-muted-foreground">#{option.correctPosition}</span>
+                )}
+            </span>
+        );
+    };
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-3">
+            <div className="space-y-6 lg:col-span-2">
+                {isComplete ? (
+                    <Card>
+                        <CardContent className="space-y-6 py-10 text-center">
+                            <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
+                                <Trophy className="h-8 w-8 text-primary" />
+                            </div>
+                            <div>
+                                <h2 className="text-2xl font-bold">End of the case</h2>
+                                <p className="text-muted-foreground">
+                                    {outcome ? <>Patient outcome: <span className="font-medium capitalize">{outcome}</span></> : 'No patient outcome was set on this path.'}
+                                </p>
+                            </div>
+                            <p className="font-mono text-4xl font-bold">{score}</p>
+                            <Button onClick={resetPlay} className="gap-2">
+                                <RotateCcw className="h-4 w-4" /> Play again
+                            </Button>
+                        </CardContent>
+                    </Card>
+                ) : !currentStage ? (
+                    <Card>
+                        <CardContent className="py-10 text-center text-muted-foreground">
+                            This case has no stages to play yet.
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <>
+                        <Card className="p-6 border-l-4 border-l-primary shadow-sm">
+                            <PatientPresentation
+                                stage={{ ...currentStage, clinicalData: liveClinicalData }}
+                                investigations={stageInvestigations}
+                                patient={medicalCase.patientDemographics}
+                            />
+                        </Card>
+
+                        {pending ? (
+                            <FeedbackDisplay
+                                key={`${currentStage.id}-${pending.option.id}`}
+                                onContinue={handleContinue}
+                                isFinalStep={pending.next.type === 'end'}
+                                decision={pending.decision}
+                                options={currentStage.options}
+                            />
+                        ) : (
+                            <Card className="p-6">
+                                {decisionError && (
+                                    <p className="mb-4 rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                                        {decisionError}
+                                    </p>
+                                )}
+                                <InvestigationPanel
+                                    ordered={stageInvestigations.map((row) => row.investigation)}
+                                    onOrder={handleOrderInvestigation}
+                                    disabled={false}
+                                />
+                                <Separator className="my-6" />
+                                <DecisionPanel
+                                    key={`${currentStage.id}-${variantSeed}`}
+                                    decisionType={currentStage.decisionType}
+                                    options={currentStage.options}
+                                    onSelectOption={(optionId) => handleSubmitDecision({ optionId })}
+                                    onSubmitResponse={(response) => handleSubmitDecision({ response })}
+                                    hints={currentStage.hints.slice(0, hintsShown[currentStage.id] ?? 0).map((hint) => hint.text)}
+                                    hintCosts={currentStage.hintCosts}
+                                    onRequestHint={handleRequestHint}
+                                    renderOptionDetail={optionDetail}
+                                    disabled={false}
+                                />
+                            </Card>
+                        )}
+                    </>
+                )}
+            </div>
+
+            <div className="space-y-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Bug className="h-5 w-5" /> Test play
+                        </CardTitle>
+                        <CardDescription>
+                            Plays the draft as it stands. Nothing is recorded: no attempt, session or score.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid grid-cols-2 gap-2 text-sm">
+                            <div>
+                                <p className="text-xs uppercase tracking-wider text-muted-foreground">Score</p>
+                                <p className={`font-mono text-xl font-bold ${score < 0 ? 'text-destructive' : ''}`}>{score}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs uppercase tracking-wider text-muted-foreground">Clock</p>
+                                <p className="font-mono text-xl font-bold">{formatSimulatedTime(elapsedMinutes)}</p>
+                            </div>
+                        </div>
+                        {jumped && (
+                            <p className="text-xs text-muted-foreground">
+                                You jumped between stages, so the score and vitals don&apos;t follow a single path.
+                            </p>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                            <Button size="sm" variant="outline" onClick={resetPlay} className="gap-2">
+                                <RotateCcw className="h-4 w-4" /> Restart
+                            </Button>
+                            {isTemplated && (
+                                <Button size="sm" variant="outline" onClick={handleNewVariant} className="gap-2" title={`Variant ${variantSeed}`}>
+                                    <Dices className="h-4 w-4" /> New variant
+                                </Button>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Stages</CardTitle>
+                        <CardDescription>Jump to any stage.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-1">
+                        {medicalCase.stages.map((stage) => {
+                            const errors = issues.filter((issue) => issue.stageOrder === stage.stageOrder && issue.severity === 'error').length;
+                            const warnings = issues.filter((issue) => issue.stageOrder === stage.stageOrder && issue.severity === 'warning').length;
+                            return (
+                                <button
+                                    key={stage.id}
+                                    type="button"
+                                    onClick={() => handleJump(stage.id)}
+                                    className={`flex w-full items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted ${stage.id === currentStageId && !isComplete ? 'bg-muted font-medium' : ''}`}
+                                >
+                                    <span className="truncate">
+                                        Stage {stage.stageOrder}
+                                        <span className="ml-2 text-muted-foreground">{stage.narrative.slice(0, 40)}</span>
+                                    </span>
+                                    {errors > 0 ? (
+                                        <span className="shrink-0 text-xs text-red-600 dark:text-red-400">{errors} error{errors === 1 ? '' : 's'}</span>
+                                    ) : warnings > 0 ? (
+                                        <span className="shrink-0 text-xs text-amber-600 dark:text-amber-400">{warnings} warning{warnings === 1 ? '' : 's'}</span>
+                                    ) : null}
+                                </button>
+                            );
+                        })}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <AlertTriangle className="h-5 w-5" /> Content issues
+                        </CardTitle>
+                        <CardDescription>{currentStage && !isComplete ? `At stage ${currentStage.stageOrder} and across the case` : 'Across the case'}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {stageIssues.length + placeholders.length + (pending?.flags.length ?? 0) > 0 ? (
+                            <ul className="space-y-1 text-sm">
+                                {stageIssues.map((issue, index) => (
+                                    <li key={`lint-${index}`} className={issue.severity === 'error' ? 'text-red-700 dark:text-red-400' : 'text-amber-700 dark:text-amber-400'}>
+                                        {issue.severity === 'error' ? 'Error' : 'Warning'}: {issue.message}
+                                    </li>
+                                ))}
+                                {placeholders.map((key) => (
+                                    <li key={`placeholder-${key}`} className="text-amber-700 dark:text-amber-400">
+                                        Warning: {`{{${key}}}`} isn&apos;t filled in by any template variable
+                                    </li>
+                                ))}
+                                {pending?.flags.map((flag) => (
+                                    <li key={`flag-${flag}`} className="text-amber-700 dark:text-amber-400">
+                                        Warning: {flag}
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-sm text-muted-foreground">No issues found here.</p>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {currentStage && !isComplete && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Stage {currentStage.stageOrder} internals</CardTitle>
+                            <CardDescription>
+                                {decisionTypeLabels[currentStage.decisionType]}
+                                {currentStage.timeLimitSeconds !== null && ` · ${currentStage.timeLimitSeconds}s limit (not enforced in test play)`}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4 text-sm">
+                            <div className="space-y-2">
+                                {currentStage.options.map((option) => (
+                                    <div key={option.id} className="rounded-md border p-2 space-y-1">
+                                        <p className="font-medium">{option.isTimeout ? 'No decision (time ran out)' : option.text}</p>
+                                        <div className="flex flex-wrap gap-1">
+                                            {option.isCorrect && <Badge variant="secondary" className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">Correct</Badge>}
+                                            <Badge variant="outline" className="font-mono">{option.scoreWeight > 0 ? '+' : ''}{option.scoreWeight}</Badge>
+                                            <Badge variant="outline">{describeNextStep(option, medicalCase.stages)}</Badge>
+                                            {option.safetyClass && <Badge variant="outline">{safetyClassLabels[option.safetyClass]}</Badge>}
+                                        </div>
+                                        {option.acceptedAnswers.length > 0 && (
+                                            <p className="text-xs text-muted-foreground">Accepts: {option.acceptedAnswers.join(', ')}</p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+
+                            {currentStage.investigations.length > 0 && (
+                                <div>
+                                    <p className="mb-1 font-medium">Investigations</p>
+                                    <ul className="space-y-1 text-xs text-muted-foreground">
+                                        {currentStage.investigations.map((row) => (
+                                            <li key={row.investigation}>
+                                                {investigationCatalogue[row.investigation].label}: {row.isIndicated ? 'indicated' : 'not indicated'}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {currentStage.hints.length > 0 && (
+                                <div>
+                                    <p className="mb-1 font-medium">Hints</p>
+                                    <ol className="list-decimal space-y-1 pl-4 text-xs text-muted-foreground">
+                                        {currentStage.hints.map((hint, index) => (
+                                            <li key={index}>{hint.text} (−{Math.abs(hint.cost)} pts)</li>
+                                        ))}
+                                    </ol>
+                                </div>
+                            )}
+
+                            {currentStage.patientScript && (
+                                <div>
+                                    <p className="mb-1 font-medium">Patient script</p>
+                                    <p className="mb-1 text-xs text-muted-foreground">
+                                        History-taking uses the AI patient, so it isn&apos;t played or scored here.
+                                    </p>
+                                    <ul className="space-y-1 text-xs text-muted-foreground">
+                                        {currentStage.patientScript.facts.map((fact) => (
+                                            <li key={fact.id}>
+                                                <span className="font-medium">{fact.label}</span> ({fact.weight} pts): {fact.detail}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Presentation } from 'lucide-react';
+import { createClassroomSession } from '@/actions/classroom';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type ClassroomCreateFormProps = {
+    cases: { id: number; title: string }[];
+};
+
+export function ClassroomCreateForm({ cases }: ClassroomCreateFormProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [caseId, setCaseId] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleCreate = () => {
+        setError(null);
+
+        startTransition(async () => {
+            const result = await createClassroomSession(Number(caseId));
+            if (!result.success || !result.classroomSessionId) {
+                setError(result.message);
+                return;
+            }
+            router.push(`/admin/classroom/${result.classroomSessionId}`);
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-col gap-2 sm:flex-row">
+                <Select value={caseId} onValueChange={setCaseId} disabled={isPending}>
+                    <SelectTrigger className="sm:flex-1">
+                        <SelectValue placeholder="Choose a case" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {cases.map((item) => (
+                            <SelectItem key={item.id} value={String(item.id)}>
+                                {item.title}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button onClick={handleCreate} disabled={isPending || !caseId} className="gap-2">
+                    {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Presentation className="h-4 w-4" />}
+                    Open Classroom
+                </Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+    );
+}
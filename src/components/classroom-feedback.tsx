@@ -0,0 +1,46 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { ClassroomState } from '@/types/simulator-types';
+
+type ClassroomFeedbackProps = {
+    classroom: ClassroomState;
+};
+
+/**
+ * Every option's feedback at the current stage, marking the one the class chose
+ */
+export function ClassroomFeedback({ classroom }: ClassroomFeedbackProps) {
+    if (!classroom.stage || !classroom.feedback) return null;
+
+    return (
+        <div className="space-y-3">
+            {classroom.stage.options.map((option) => {
+                const feedback = classroom.feedback?.find((row) => row.optionId === option.id);
+                if (!feedback) return null;
+
+                return (
+                    <div
+                        key={option.id}
+                        className={`rounded-lg border p-4 space-y-1 ${option.id === classroom.classChoiceOptionId ? 'border-primary bg-primary/5' : ''}`}
+                    >
+                        <div className="flex items-start justify-between gap-3">
+                            <p className="font-medium flex items-center gap-2">
+                                {feedback.isCorrect
+                                    ? <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                                    : <XCircle className="h-4 w-4 shrink-0 text-destructive" />}
+                                {option.text}
+                            </p>
+                            <div className="flex shrink-0 items-center gap-2">
+                                {option.id === classroom.classChoiceOptionId && <Badge>Class choice</Badge>}
+                                <Badge variant="outline" className="font-mono">
+                                    {feedback.scoreWeight > 0 ? `+${feedback.scoreWeight}` : feedback.scoreWeight}
+                                </Badge>
+                            </div>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{feedback.feedback}</p>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { VoteTally } from '@/lib/classroom';
+
+type ClassroomHistogramProps = {
+    tally: VoteTally[];
+    highlightOptionId?: number | null; // The class's choice, once voting has closed
+};
+
+// Long option text is cut short on the axis; the tooltip shows it in full
+const LABEL_LENGTH = 28;
+
+export function ClassroomHistogram({ tally, highlightOptionId = null }: ClassroomHistogramProps) {
+    const data = tally.map((row, index) => ({
+        optionId: row.optionId,
+        label: `${String.fromCharCode(65 + index)}. ${row.text.length > LABEL_LENGTH ? `${row.text.slice(0, LABEL_LENGTH)}…` : row.text}`,
+        text: row.text,
+        votes: row.votes,
+        percent: row.percent,
+    }));
+
+    return (
+        <div className="w-full" style={{ height: Math.max(160, data.length * 56) }}>
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+                    <YAxis type="category" dataKey="label" width={220} tick={{ fontSize: 12 }} />
+                    <Tooltip
+                        formatter={(value, _name, item) => [`${value} (${item.payload.percent}%)`, 'Votes']}
+                        labelFormatter={(_label, payload) => payload?.[0]?.payload.text ?? ''}
+                    />
+                    <Bar dataKey="votes" radius={[0, 4, 4, 0]}>
+                        {data.map((row) => (
+                            <Cell key={row.optionId} fill={row.optionId === highlightOptionId ? '#6366f1' : '#94a3b8'} />
+                        ))}
+                    </Bar>
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { Loader2, Presentation, Square, Users } from 'lucide-react';
+import { advanceClassroomSession, endClassroomSession } from '@/actions/classroom';
+import { ClassroomFeedback } from '@/components/classroom-feedback';
+import { ClassroomHistogram } from '@/components/classroom-histogram';
+import { PatientPresentation } from '@/components/simulator/PatientPresentation';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { classroomAdvanceLabels, classroomPhaseLabels } from '@/lib/classroom';
+import type { ClassroomState } from '@/types/simulator-types';
+
+type ClassroomPresenterProps = {
+    initialClassroom: ClassroomState;
+};
+
+export function ClassroomPresenter({ initialClassroom }: ClassroomPresenterProps) {
+    const [classroom, setClassroom] = useState(initialClassroom);
+    const [error, setError] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    const hasEnded = classroom.phase === 'ended';
+
+    // Joins and votes stream in as they happen
+    useEffect(() => {
+        if (hasEnded) return;
+
+        const source = new EventSource(`/api/classroom/${classroom.classroomSessionId}/events`);
+        source.addEventListener('classroom', (event) => {
+            const next = JSON.parse((event as MessageEvent<string>).data) as ClassroomState;
+            setClassroom(next);
+            if (next.phase === 'ended') source.close();
+        });
+        return () => source.close();
+    }, [classroom.classroomSessionId, hasEnded]);
+
+    const handleAdvance = () => {
+        setError(null);
+        startTransition(async () => {
+            const result = await advanceClassroomSession(classroom.classroomSessionId);
+            if (!result.success || !result.classroom) {
+                setError(result.message);
+                return;
+            }
+            setClassroom(result.classroom);
+        });
+    };
+
+    const handleEnd = () => {
+        if (!confirm('End this classroom for everyone?')) return;
+
+        setError(null);
+        startTransition(async () => {
+            const result = await endClassroomSession(classroom.classroomSessionId);
+            if (!result.success) {
+                setError(result.message);
+                return;
+            }
+            setClassroom((current) => ({ ...current, phase: 'ended', stage: null }));
+        });
+    };
+
+    const advanceLabel = classroomAdvanceLabels[classroom.phase];
+
+    return (
+        <div className="container mx-auto max-w-6xl px-4 py-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold flex items-center gap-2">
+                        <Presentation className="h-7 w-7 text-primary" />
+                        {classroom.title}
+                    </h1>
+                    <div className="mt-1 flex items-center gap-2 text-sm text-muted-foreground">
+                        <Badge variant="secondary">{classroomPhaseLabels[classroom.phase]}</Badge>
+                        <span className="flex items-center gap-1">
+                            <Users className="h-4 w-4" />
+                            {classroom.participantCount} joined
+                        </span>
+                    </div>
+                </div>
+                <div className="rounded-lg border bg-muted/50 px-6 py-3 text-center">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Join at /classroom</p>
+                    <p className="text-3xl font-mono font-bold tracking-[0.3em]">{classroom.joinCode}</p>
+                </div>
+            </div>
+
+            {error && (
+                <p className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                    {error}
+                </p>
+            )}
+
+            {classroom.phase === 'lobby' && (
+                <Card>
+                    <CardContent className="py-12 text-center text-muted-foreground">
+                        Students join from their own devices with the code above. Start the case when everyone is in.
+                    </CardContent>
+                </Card>
+            )}
+
+            {classroom.stage && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <Card className="p-6 border-l-4 border-l-primary">
+                        <PatientPresentation stage={classroom.stage} patient={classroom.patient} />
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>
+                                {classroom.phase === 'voting' ? 'Live Votes' : classroom.phase === 'feedback' ? 'Feedback' : 'Results'}
+                            </CardTitle>
+                            <CardDescription>
+                                {classroom.votesCast} of {classroom.participantCount} students voted
+                                {classroom.phase === 'voting' && ' • students can change their vote until you close voting'}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            {classroom.tally && (
+                                <ClassroomHistogram tally={classroom.tally} highlightOptionId={classroom.classChoiceOptionId} />
+                            )}
+                            {classroom.phase === 'feedback' && <ClassroomFeedback classroom={classroom} />}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+
+            {hasEnded ? (
+                <Card>
+                    <CardContent className="py-12 text-center space-y-4">
+                        <h2 className="text-2xl font-bold">Classroom Ended</h2>
+                        {classroom.outcome && (
+                            <p className="text-sm">
+                                <span className="font-medium text-muted-foreground uppercase tracking-wider mr-2">Patient Outcome</span>
+                                <span className="capitalize font-medium">{classroom.outcome}</span>
+                            </p>
+                        )}
+                        <Link href="/admin/classroom">
+                            <Button variant="outline">Back to Classrooms</Button>
+                        </Link>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="flex flex-wrap justify-end gap-3">
+                    <Button variant="outline" onClick={handleEnd} disabled={isPending} className="gap-2">
+                        <Square className="h-4 w-4" />
+                        End Classroom
+                    </Button>
+                    {advanceLabel && (
+                        <Button size="lg" onClick={handleAdvance} disabled={isPending} className="gap-2">
+                            {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                            {advanceLabel}
+                        </Button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
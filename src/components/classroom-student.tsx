@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { castClassroomVote } from '@/actions/classroom';
+import { ClassroomFeedback } from '@/components/classroom-feedback';
+import { ClassroomHistogram } from '@/components/classroom-histogram';
+import { PatientPresentation } from '@/components/simulator/PatientPresentation';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { classroomPhaseLabels } from '@/lib/classroom';
+import type { ClassroomState } from '@/types/simulator-types';
+
+type ClassroomStudentProps = {
+    initialClassroom: ClassroomState;
+};
+
+export function ClassroomStudent({ initialClassroom }: ClassroomStudentProps) {
+    const [classroom, setClassroom] = useState(initialClassroom);
+    const [error, setError] = useState<string | null>(null);
+    const [isPending, startTransition] = useTransition();
+
+    const hasEnded = classroom.phase === 'ended';
+
+    // The instructor drives the case; each change arrives here
+    useEffect(() => {
+        if (hasEnded) return;
+
+        const source = new EventSource(`/api/classroom/${classroom.classroomSessionId}/events`);
+        source.addEventListener('classroom', (event) => {
+            const next = JSON.parse((event as MessageEvent<string>).data) as ClassroomState;
+            setClassroom(next);
+            if (next.phase === 'ended') source.close();
+        });
+        return () => source.close();
+    }, [classroom.classroomSessionId, hasEnded]);
+
+    const handleVote = (optionId: number) => {
+        setError(null);
+        startTransition(async () => {
+            const result = await castClassroomVote({ classroomSessionId: classroom.classroomSessionId, optionId });
+            if (!result.success) {
+                setError(result.message);
+                return;
+            }
+            setClassroom((current) => ({ ...current, myVoteOptionId: optionId }));
+        });
+    };
+
+    if (hasEnded) {
+        return (
+            <div className="container mx-auto max-w-2xl px-4 py-12 text-center space-y-4">
+                <h1 className="text-2xl font-bold">Classroom Ended</h1>
+                <p className="text-muted-foreground">Thanks for taking part in &quot;{classroom.title}&quot;.</p>
+                {classroom.outcome && (
+                    <p className="text-sm">
+                        <span className="font-medium text-muted-foreground uppercase tracking-wider mr-2">Patient Outcome</span>
+                        <span className="capitalize font-medium">{classroom.outcome}</span>
+                    </p>
+                )}
+                <Link href="/cases">
+                    <Button variant="outline">Browse Cases</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    const stage = classroom.stage;
+
+    return (
+        <div className="container mx-auto max-w-3xl px-4 py-6 space-y-6">
+            <div className="flex items-center justify-between gap-3">
+                <h1 className="text-xl font-bold truncate">{classroom.title}</h1>
+                <Badge variant="secondary">{classroomPhaseLabels[classroom.phase]}</Badge>
+            </div>
+
+            {error && (
+                <p className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                    {error}
+                </p>
+            )}
+
+            {!stage ? (
+                <Card>
+                    <CardContent className="py-12 text-center text-muted-foreground flex flex-col items-center gap-3">
+                        <Loader2 className="h-6 w-6 animate-spin" />
+                        Waiting for your instructor to start the case…
+                    </CardContent>
+                </Card>
+            ) : (
+                <>
+                    <Card className="p-6 border-l-4 border-l-primary">
+                        <PatientPresentation stage={stage} patient={classroom.patient} />
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>
+                                {classroom.phase === 'voting' ? 'What would you do?' : classroom.phase === 'feedback' ? 'Feedback' : 'Class Results'}
+                            </CardTitle>
+                            <CardDescription>
+                                {classroom.phase === 'voting'
+                                    ? 'You can change your vote until your instructor closes voting.'
+                                    : `${classroom.votesCast} of ${classroom.participantCount} students voted.`}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            {classroom.phase === 'voting' && (
+                                <div className="space-y-2">
+                                    {stage.options.map((option) => {
+                                        const isMine = option.id === classroom.myVoteOptionId;
+                                        return (
+                                            <Button
+                                                key={option.id}
+                                                variant={isMine ? 'default' : 'outline'}
+                                                onClick={() => handleVote(option.id)}
+                                                disabled={isPending}
+                                                className="w-full h-auto justify-start whitespace-normal py-3 text-left gap-2"
+                                            >
+                                                {isMine && <CheckCircle2 className="h-4 w-4 shrink-0" />}
+                                                {option.text}
+                                            </Button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            {classroom.phase !== 'voting' && classroom.tally && (
+                                <>
+                                    <ClassroomHistogram tally={classroom.tally} highlightOptionId={classroom.classChoiceOptionId} />
+                                    {classroom.myVoteOptionId === null && (
+                                        <p className="text-sm text-muted-foreground">You didn&apos;t vote at this stage.</p>
+                                    )}
+                                </>
+                            )}
+
+                            {classroom.phase === 'feedback' && <ClassroomFeedback classroom={classroom} />}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+}
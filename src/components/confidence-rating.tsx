@@ -0,0 +1,36 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { confidenceLabels, confidenceLevels, type ConfidenceLevel } from '@/lib/calibration';
+
+type ConfidenceRatingProps = {
+    value: ConfidenceLevel | null;
+    onChange: (value: ConfidenceLevel) => void;
+    disabled?: boolean;
+};
+
+/**
+ * Asked before an answer is submitted, so the rating reflects how sure the
+ * student was rather than how the answer turned out
+ */
+export function ConfidenceRating({ value, onChange, disabled = false }: ConfidenceRatingProps) {
+    return (
+        <div className="space-y-2">
+            <p className="text-sm font-medium text-muted-foreground">How confident are you?</p>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                {confidenceLevels.map((level) => (
+                    <Button
+                        key={level}
+                        type="button"
+                        size="sm"
+                        variant={value === level ? 'default' : 'outline'}
+                        onClick={() => onChange(level)}
+                        disabled={disabled}
+                    >
+                        {level}. {confidenceLabels[level]}
+                    </Button>
+                ))}
+            </div>
+        </div>
+    );
+}
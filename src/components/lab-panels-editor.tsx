@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { labFlags, type LabResult, type PatientDemographics } from '@/db/schema';
+import { labPanelTemplates, labResultTemplate } from '@/lib/lab-results';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type LabPanelsEditorProps = {
+    clinicalData: string; // The stage's clinicalData JSON text
+    onChange: (clinicalData: string) => void;
+    patient?: PatientDemographics | null; // Used for the ranges filled in on new panels
+};
+
+function parseClinicalData(json: string): Record<string, unknown> | null {
+    try {
+        const data = json ? JSON.parse(json) : {};
+        return data && typeof data === 'object' && !Array.isArray(data) ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+// Numbers stay numbers so they can be flagged, trended and converted
+function toValue(text: string): number | string {
+    return /^-?\d+(\.\d+)?$/.test(text.trim()) ? Number(text) : text;
+}
+
+function toBound(text: string): number | undefined {
+    return text.trim() === '' ? undefined : Number(text);
+}
+
+/**
+ * Table editor for the labPanels entry of a stage's clinicalData. It reads and
+ * writes the same JSON as the raw textarea, so either can be used.
+ */
+export function LabPanelsEditor({ clinicalData, onChange, patient = null }: LabPanelsEditorProps) {
+    const [template, setTemplate] = useState(Object.keys(labPanelTemplates)[0]);
+    const data = parseClinicalData(clinicalData);
+
+    if (!data) {
+        return <p className="text-xs text-muted-foreground">Fix the clinical data JSON to edit lab results.</p>;
+    }
+
+    const results: LabResult[] = Array.isArray(data.labPanels) ? data.labPanels : [];
+
+    const save = (next: LabResult[]) => {
+        const rest = { ...data };
+        delete rest.labPanels;
+        onChange(JSON.stringify(next.length > 0 ? { ...rest, labPanels: next } : rest, null, 2));
+    };
+
+    const updateResult = (index: number, patch: Partial<LabResult>) => {
+        save(results.map((result, i) => (i === index ? { ...result, ...patch } : result)));
+    };
+
+    const addPanel = () => {
+        save([...results, ...labPanelTemplates[template].map((analyte) => labResultTemplate(template, analyte, patient))]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label>Lab Results</Label>
+            {results.length > 0 && (
+                <div className="space-y-1">
+                    <div className="grid grid-cols-[1fr_1fr_0.8fr_0.8fr_0.6fr_0.6fr_0.9fr_auto] gap-1 text-xs text-muted-foreground">
+                        <span>Panel</span>
+                        <span>Analyte</span>
+                        <span>Value</span>
+                        <span>Unit</span>
+                        <span>Low</span>
+                        <span>High</span>
+                        <span>Flag</span>
+                        <span className="w-8" />
+                    </div>
+                    {results.map((result, index) => (
+                        <div key={index} className="grid grid-cols-[1fr_1fr_0.8fr_0.8fr_0.6fr_0.6fr_0.9fr_auto] gap-1">
+                            <Input className="h-8 text-xs" value={result.panel} onChange={e => updateResult(index, { panel: e.target.value })} />
+                            <Input className="h-8 text-xs" value={result.analyte} onChange={e => updateResult(index, { analyte: e.target.value })} />
+                            <Input className="h-8 text-xs font-mono" value={String(result.value)} onChange={e => updateResult(index, { value: toValue(e.target.value) })} />
+                            <Input className="h-8 text-xs" value={result.unit} onChange={e => updateResult(index, { unit: e.target.value })} />
+                            <Input
+                                className="h-8 text-xs"
+                                type="number"
+                                value={result.range?.low ?? ''}
+                                onChange={e => updateResult(index, { range: { ...result.range, low: toBound(e.target.value) } })}
+                            />
+                            <Input
+                                className="h-8 text-xs"
+                                type="number"
+                                value={result.range?.high ?? ''}
+                                onChange={e => updateResult(index, { range: { ...result.range, high: toBound(e.target.value) } })}
+                            />
+                            <Select
+                                value={result.flag ?? 'auto'}
+                                onValueChange={(value) => updateResult(index, { flag: value === 'auto' ? undefined : value as LabResult['flag'] })}
+                            >
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="auto">From range</SelectItem>
+                                    {labFlags.map((flag) => (
+                                        <SelectItem key={flag} value={flag} className="capitalize">{flag}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                type="button"
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                onClick={() => save(results.filter((_, i) => i !== index))}
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+                <Select value={template} onValueChange={setTemplate}>
+                    <SelectTrigger className="h-8 w-[200px] text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {Object.keys(labPanelTemplates).map((name) => (
+                            <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button type="button" size="sm" variant="outline" onClick={addPanel}>
+                    <Plus className="h-3 w-3 mr-1" /> Add Panel
+                </Button>
+                <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => save([...results, { panel: 'Other', analyte: '', value: '', unit: '' }])}
+                >
+                    <Plus className="h-3 w-3 mr-1" /> Add Result
+                </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+                Enter values in SI units; students can switch to conventional units. Ranges default to the patient&apos;s reference ranges.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useRef, useState, useTransition } from 'react';
+import { Eye, Loader2, Save, Trash2, Upload } from 'lucide-react';
+import { removeMediaAttachment, updateMediaAttachment, uploadMediaAttachment } from '@/actions/media';
+import { mediaContentTypes, type MediaItem } from '@/lib/media';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+type MediaAttachmentsEditorProps = {
+    target: 'stage' | 'ukmla_question';
+    targetId: number;
+    initialItems: MediaItem[];
+};
+
+/**
+ * Upload, caption and remove images on a stage or UKMLA question. Changes are
+ * saved straight away rather than with the surrounding form.
+ */
+export function MediaAttachmentsEditor({ target, targetId, initialItems }: MediaAttachmentsEditorProps) {
+    const [items, setItems] = useState<MediaItem[]>(initialItems);
+    const [caption, setCaption] = useState('');
+    const [revealOnRequest, setRevealOnRequest] = useState(false);
+    const [isPending, startTransition] = useTransition();
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const handleUpload = () => {
+        const file = fileInput.current?.files?.[0];
+        if (!file) {
+            alert('Choose an image to upload');
+            return;
+        }
+
+        const formData = new FormData();
+        formData.set('file', file);
+        formData.set('target', target);
+        formData.set('targetId', String(targetId));
+        formData.set('caption', caption);
+        formData.set('revealOnRequest', String(revealOnRequest));
+
+        startTransition(async () => {
+            const res = await uploadMediaAttachment(formData);
+            if (res.success && res.media) {
+                setItems((prev) => [...prev, res.media]);
+                setCaption('');
+                setRevealOnRequest(false);
+                if (fileInput.current) fileInput.current.value = '';
+            } else {
+                alert(res.message);
+            }
+        });
+    };
+
+    const updateItem = (id: number, patch: Partial<MediaItem>) => {
+        setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+    };
+
+    const handleSave = (item: MediaItem) => {
+        startTransition(async () => {
+            const res = await updateMediaAttachment({
+                target,
+                id: item.id,
+                caption: item.caption,
+                revealOnRequest: item.revealOnRequest,
+            });
+            if (!res.success) alert(res.message);
+        });
+    };
+
+    const handleRemove = (id: number) => {
+        if (!confirm('Remove this image?')) return;
+        startTransition(async () => {
+            const res = await removeMediaAttachment({ target, id });
+            if (res.success) {
+                setItems((prev) => prev.filter((item) => item.id !== id));
+            } else {
+                alert(res.message);
+            }
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            {items.map((item) => (
+                <div key={item.id} className="flex flex-col gap-2 rounded-md border p-2 sm:flex-row sm:items-center">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={item.url} alt={item.caption || 'Attached media'} className="h-16 w-24 shrink-0 rounded bg-black object-contain" />
+                    <Input
+                        value={item.caption}
+                        onChange={(e) => updateItem(item.id, { caption: e.target.value })}
+                        placeholder="Caption"
+                        className="flex-1"
+                    />
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id={`reveal-${target}-${item.id}`}
+                            checked={item.revealOnRequest}
+                            onCheckedChange={(checked) => updateItem(item.id, { revealOnRequest: checked === true })}
+                        />
+                        <Label htmlFor={`reveal-${target}-${item.id}`} className="text-xs whitespace-nowrap">
+                            <Eye className="mr-1 inline h-3 w-3" />
+                            On request
+                        </Label>
+                    </div>
+                    <div className="flex gap-1">
+                        <Button type="button" size="icon" variant="ghost" onClick={() => handleSave(item)} disabled={isPending} title="Save">
+                            <Save className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" size="icon" variant="ghost" onClick={() => handleRemove(item.id)} disabled={isPending} title="Remove">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex flex-col gap-2 rounded-md border border-dashed p-2 sm:flex-row sm:items-center">
+                <Input ref={fileInput} type="file" accept={Object.keys(mediaContentTypes).join(',')} className="sm:w-56" />
+                <Input
+                    value={caption}
+                    onChange={(e) => setCaption(e.target.value)}
+                    placeholder="Caption (optional)"
+                    className="flex-1"
+                />
+                <div className="flex items-center gap-2">
+                    <Checkbox
+                        id={`reveal-${target}-new`}
+                        checked={revealOnRequest}
+                        onCheckedChange={(checked) => setRevealOnRequest(checked === true)}
+                    />
+                    <Label htmlFor={`reveal-${target}-new`} className="text-xs whitespace-nowrap">On request</Label>
+                </div>
+                <Button type="button" size="sm" onClick={handleUpload} disabled={isPending}>
+                    {isPending ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Upload className="mr-1 h-4 w-4" />}
+                    Upload
+                </Button>
+            </div>
+        </div>
+    );
+}
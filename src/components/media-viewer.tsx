@@ -0,0 +1,130 @@
+'use client';
+
+import { useRef, useState, type PointerEvent, type WheelEvent } from 'react';
+import { Eye, ZoomIn, ZoomOut, RotateCcw, ImageIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { MediaItem } from '@/lib/media';
+
+const minZoom = 1;
+const maxZoom = 6;
+
+type MediaViewerProps = {
+    items: MediaItem[];
+};
+
+/**
+ * Clinical images with zoom and pan. Items marked revealOnRequest stay hidden
+ * until the student asks for them, e.g. an ECG they should request first.
+ */
+export function MediaViewer({ items }: MediaViewerProps) {
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [revealedIds, setRevealedIds] = useState<number[]>([]);
+
+    if (items.length === 0) return null;
+
+    const active = items[Math.min(activeIndex, items.length - 1)];
+    const isHidden = active.revealOnRequest && !revealedIds.includes(active.id);
+
+    return (
+        <div className="space-y-2">
+            {isHidden ? (
+                <div className="flex h-[300px] flex-col items-center justify-center gap-3 rounded-lg border border-dashed bg-muted/30 text-center">
+                    <ImageIcon className="h-10 w-10 text-muted-foreground" />
+                    <p className="text-sm text-muted-foreground">{active.caption || 'Clinical image available'}</p>
+                    <Button variant="outline" size="sm" className="gap-2" onClick={() => setRevealedIds((prev) => [...prev, active.id])}>
+                        <Eye className="h-4 w-4" />
+                        Reveal
+                    </Button>
+                </div>
+            ) : (
+                <ZoomPanImage key={active.id} src={active.url} alt={active.caption || 'Clinical media'} />
+            )}
+
+            {active.caption && !isHidden && (
+                <p className="text-sm text-muted-foreground text-center">{active.caption}</p>
+            )}
+
+            {items.length > 1 && (
+                <div className="flex flex-wrap justify-center gap-2">
+                    {items.map((item, index) => (
+                        <Button
+                            key={item.id}
+                            variant={index === activeIndex ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setActiveIndex(index)}
+                        >
+                            {item.caption || `Image ${index + 1}`}
+                        </Button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function ZoomPanImage({ src, alt }: { src: string; alt: string }) {
+    const [zoom, setZoom] = useState(1);
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const dragStart = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+    const applyZoom = (next: number) => {
+        const clamped = Math.min(maxZoom, Math.max(minZoom, next));
+        setZoom(clamped);
+        if (clamped === minZoom) setOffset({ x: 0, y: 0 });
+    };
+
+    const handleWheel = (event: WheelEvent<HTMLDivElement>) => {
+        applyZoom(zoom * (event.deltaY < 0 ? 1.2 : 1 / 1.2));
+    };
+
+    const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+        if (zoom === minZoom) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragStart.current = { x: event.clientX, y: event.clientY, offsetX: offset.x, offsetY: offset.y };
+    };
+
+    const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+        if (!dragStart.current) return;
+        setOffset({
+            x: dragStart.current.offsetX + (event.clientX - dragStart.current.x),
+            y: dragStart.current.offsetY + (event.clientY - dragStart.current.y),
+        });
+    };
+
+    const handlePointerUp = () => {
+        dragStart.current = null;
+    };
+
+    return (
+        <div className="relative overflow-hidden rounded-lg border bg-black">
+            <div
+                className={`h-[400px] touch-none select-none ${zoom > minZoom ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                onWheel={handleWheel}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                    src={src}
+                    alt={alt}
+                    draggable={false}
+                    className="h-full w-full object-contain transition-transform duration-75"
+                    style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})` }}
+                />
+            </div>
+            <div className="absolute right-2 top-2 flex gap-1">
+                <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => applyZoom(zoom * 1.5)} title="Zoom in">
+                    <ZoomIn className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => applyZoom(zoom / 1.5)} title="Zoom out">
+                    <ZoomOut className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => applyZoom(minZoom)} title="Reset view">
+                    <RotateCcw className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import Link from 'next/link';
+import { useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { deleteOsceStation, toggleOscePublish } from '@/actions/osce-admin';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatStationDuration } from '@/lib/osce';
+
+type Station = {
+    id: number;
+    title: string;
+    clinicalDomain: string;
+    durationSeconds: number;
+    isPublished: boolean;
+    updatedAt: Date;
+    itemCount: number;
+    maxScore: number;
+    attemptCount: number;
+};
+
+type Props = {
+    stations: Station[];
+};
+
+export function OsceAdminTable({ stations }: Props) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+
+    const handlePublishToggle = (id: number, currentStatus: boolean) => {
+        startTransition(async () => {
+            const result = await toggleOscePublish(id, !currentStatus);
+            if (!result.success) {
+                alert(result.message || 'Failed to update publish status');
+                return;
+            }
+            router.refresh();
+        });
+    };
+
+    const handleDelete = (id: number) => {
+        if (!confirm('Delete this station and all its results?')) return;
+
+        startTransition(async () => {
+            const result = await deleteOsceStation(id);
+            if (!result.success) {
+                alert(result.message || 'Failed to delete station');
+                return;
+            }
+            router.refresh();
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Stations</h2>
+                <Link href="/admin/osce/new">
+                    <Button>Create Station</Button>
+                </Link>
+            </div>
+
+            <Card>
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead className="border-b bg-muted/50">
+                                <tr>
+                                    <th className="p-3 text-left">Station</th>
+                                    <th className="p-3 text-left">Length</th>
+                                    <th className="p-3 text-left">Checklist</th>
+                                    <th className="p-3 text-left">Status</th>
+                                    <th className="p-3 text-left">Attempts</th>
+                                    <th className="p-3 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {stations.map((station) => (
+                                    <tr key={station.id} className="border-b">
+                                        <td className="p-3 max-w-[360px]">
+                                            <div className="text-sm font-medium">{station.title}</div>
+                                            <div className="text-xs text-muted-foreground">{station.clinicalDomain}</div>
+                                        </td>
+                                        <td className="p-3 text-sm">{formatStationDuration(station.durationSeconds)}</td>
+                                        <td className="p-3 text-sm">{station.itemCount} items • {station.maxScore} marks</td>
+                                        <td className="p-3 text-sm">{station.isPublished ? 'Published' : 'Draft'}</td>
+                                        <td className="p-3 text-sm">{station.attemptCount}</td>
+                                        <td className="p-3">
+                                            <div className="flex justify-end gap-2">
+                                                <Link href={`/admin/osce/${station.id}/edit`}>
+                                                    <Button size="sm" variant="outline">Edit</Button>
+                                                </Link>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onClick={() => handlePublishToggle(station.id, station.isPublished)}
+                                                    disabled={isPending}
+                                                >
+                                                    {station.isPublished ? 'Unpublish' : 'Publish'}
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="destructive"
+                                                    onClick={() => handleDelete(station.id)}
+                                                    disabled={isPending}
+                                                >
+                                                    Delete
+                                                </Button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {stations.length === 0 && (
+                                    <tr>
+                                        <td colSpan={6} className="p-6 text-center text-muted-foreground">
+                                            No stations yet.
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
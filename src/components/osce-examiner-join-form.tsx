@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useTransition, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { ClipboardCheck, Loader2 } from 'lucide-react';
+import { joinOsceSessionAsExaminer } from '@/actions/osce';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { JOIN_CODE_LENGTH } from '@/lib/join-codes';
+
+export function OsceExaminerJoinForm() {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [joinCode, setJoinCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault();
+        setError(null);
+
+        startTransition(async () => {
+            const result = await joinOsceSessionAsExaminer({ joinCode });
+            if (!result.success || !result.osceSessionId) {
+                setError(result.message);
+                return;
+            }
+            router.push(`/osce/${result.osceSessionId}`);
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="flex gap-2">
+                <Input
+                    value={joinCode}
+                    onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                    placeholder="e.g. K7PX2M"
+                    maxLength={JOIN_CODE_LENGTH + 2}
+                    className="font-mono tracking-widest uppercase"
+                    aria-label="Examiner code"
+                    disabled={isPending}
+                />
+                <Button type="submit" disabled={isPending || !joinCode.trim()} className="gap-2">
+                    {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ClipboardCheck className="h-4 w-4" />}
+                    Examine
+                </Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+    );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { osceGlobalRatings, type OsceGlobalRating } from '@/db/schema';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { osceGlobalRatingLabels } from '@/lib/osce';
+import type { OsceSessionState } from '@/types/simulator-types';
+
+type OsceMarkingSheetProps = {
+    checklist: NonNullable<OsceSessionState['checklist']>;
+    disabled: boolean; // Until the station starts
+    isSubmitting: boolean;
+    onSubmit: (marks: { awardedItemIds: number[]; globalRating: OsceGlobalRating; examinerComments: string }) => void;
+};
+
+export function OsceMarkingSheet({ checklist, disabled, isSubmitting, onSubmit }: OsceMarkingSheetProps) {
+    const [awarded, setAwarded] = useState<Set<number>>(new Set());
+    const [globalRating, setGlobalRating] = useState<OsceGlobalRating | null>(null);
+    const [examinerComments, setExaminerComments] = useState('');
+
+    const maxScore = checklist.reduce((total, item) => total + item.marks, 0);
+    const score = checklist.reduce((total, item) => total + (awarded.has(item.id) ? item.marks : 0), 0);
+
+    const toggleItem = (itemId: number, checked: boolean) => {
+        setAwarded((current) => {
+            const next = new Set(current);
+            if (checked) {
+                next.add(itemId);
+            } else {
+                next.delete(itemId);
+            }
+            return next;
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <Label>Checklist</Label>
+                    <span className="text-sm font-mono text-muted-foreground">{score} / {maxScore}</span>
+                </div>
+                {checklist.map((item, index) => (
+                    <label
+                        key={item.id}
+                        className={`flex items-start gap-3 rounded-md border p-3 text-sm ${awarded.has(item.id) ? 'border-primary bg-primary/5' : ''}`}
+                    >
+                        <Checkbox
+                            checked={awarded.has(item.id)}
+                            onCheckedChange={(value) => toggleItem(item.id, Boolean(value))}
+                            disabled={disabled || isSubmitting}
+                            className="mt-0.5"
+                        />
+                        <span className="flex-1">
+                            <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                            {item.description}
+                        </span>
+                        <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                            {item.marks} {item.marks === 1 ? 'mark' : 'marks'}
+                        </span>
+                    </label>
+                ))}
+            </div>
+
+            <div className="space-y-2">
+                <Label>Global Rating</Label>
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+                    {osceGlobalRatings.map((rating) => (
+                        <Button
+                            key={rating}
+                            type="button"
+                            variant={globalRating === rating ? 'default' : 'outline'}
+                            onClick={() => setGlobalRating(rating)}
+                            disabled={disabled || isSubmitting}
+                        >
+                            {osceGlobalRatingLabels[rating]}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <Label>Comments for the candidate</Label>
+                <Textarea
+                    value={examinerComments}
+                    onChange={(event) => setExaminerComments(event.target.value)}
+                    maxLength={2000}
+                    placeholder="What went well, and what to work on"
+                    disabled={disabled || isSubmitting}
+                />
+            </div>
+
+            <Button
+                onClick={() => globalRating && onSubmit({ awardedItemIds: Array.from(awarded), globalRating, examinerComments })}
+                disabled={disabled || isSubmitting || !globalRating}
+                className="w-full gap-2"
+                size="lg"
+            >
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                {globalRating ? 'Submit Marks' : 'Choose a global rating to submit'}
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,52 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { isPassingRating, osceGlobalRatingLabels, osceScorePercent } from '@/lib/osce';
+import type { OsceSessionState } from '@/types/simulator-types';
+
+type OsceResultProps = {
+    result: NonNullable<OsceSessionState['result']>;
+};
+
+export function OsceResult({ result }: OsceResultProps) {
+    const passed = isPassingRating(result.globalRating);
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+                <div className="rounded-lg bg-muted/50 p-4 text-center">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">Checklist</p>
+                    <p className="text-3xl font-bold font-mono">{result.score} / {result.maxScore}</p>
+                    <p className="text-sm text-muted-foreground">{osceScorePercent(result)}%</p>
+                </div>
+                <div className="rounded-lg bg-muted/50 p-4 text-center">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">Global Rating</p>
+                    <p className={`text-2xl font-bold ${passed ? 'text-primary' : 'text-destructive'}`}>
+                        {osceGlobalRatingLabels[result.globalRating]}
+                    </p>
+                    <Badge variant={passed ? 'default' : 'destructive'} className="mt-1">{passed ? 'Pass' : 'Not yet'}</Badge>
+                </div>
+            </div>
+
+            {result.examinerComments && (
+                <div className="rounded-lg border p-4 space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Examiner&apos;s comments</p>
+                    <p className="text-sm whitespace-pre-wrap">{result.examinerComments}</p>
+                </div>
+            )}
+
+            <ul className="space-y-2">
+                {result.checklist.map((item) => (
+                    <li key={item.itemId} className="flex items-start gap-3 text-sm">
+                        {item.awarded
+                            ? <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600 mt-0.5" />
+                            : <XCircle className="h-4 w-4 shrink-0 text-destructive mt-0.5" />}
+                        <span className="flex-1">{item.description}</span>
+                        <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                            {item.awarded ? item.marks : 0}/{item.marks}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
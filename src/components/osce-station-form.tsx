@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { createOsceStation, updateOsceStation } from '@/actions/osce-admin';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { OSCE_DEFAULT_DURATION_SECONDS } from '@/lib/osce';
+
+type ChecklistItemInput = {
+    description: string;
+    marks: number;
+};
+
+type ExistingStation = {
+    id: number;
+    title: string;
+    clinicalDomain: string;
+    candidateBrief: string;
+    examinerNotes: string | null;
+    durationSeconds: number;
+    checklistItems: ChecklistItemInput[];
+};
+
+type Props = {
+    station?: ExistingStation;
+};
+
+export function OsceStationForm({ station }: Props) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+
+    const [title, setTitle] = useState(station?.title || '');
+    const [clinicalDomain, setClinicalDomain] = useState(station?.clinicalDomain || '');
+    const [candidateBrief, setCandidateBrief] = useState(station?.candidateBrief || '');
+    const [examinerNotes, setExaminerNotes] = useState(station?.examinerNotes || '');
+    const [durationMinutes, setDurationMinutes] = useState((station?.durationSeconds ?? OSCE_DEFAULT_DURATION_SECONDS) / 60);
+    const [checklistItems, setChecklistItems] = useState<ChecklistItemInput[]>(
+        station?.checklistItems.length
+            ? station.checklistItems.map((item) => ({ description: item.description, marks: item.marks }))
+            : [{ description: '', marks: 1 }]
+    );
+
+    const maxScore = checklistItems.reduce((total, item) => total + item.marks, 0);
+
+    const onItemChange = (index: number, next: Partial<ChecklistItemInput>) => {
+        setChecklistItems((prev) => prev.map((item, itemIndex) => (itemIndex === index ? { ...item, ...next } : item)));
+    };
+
+    const addItem = () => {
+        setChecklistItems((prev) => (prev.length >= 40 ? prev : [...prev, { description: '', marks: 1 }]));
+    };
+
+    const removeItem = (index: number) => {
+        setChecklistItems((prev) => (prev.length <= 1 ? prev : prev.filter((_, itemIndex) => itemIndex !== index)));
+    };
+
+    const moveItem = (index: number, direction: -1 | 1) => {
+        setChecklistItems((prev) => {
+            const target = index + direction;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const handleSubmit = () => {
+        startTransition(async () => {
+            const payload = {
+                title,
+                clinicalDomain,
+                candidateBrief,
+                examinerNotes: examinerNotes.trim() || undefined,
+                durationSeconds: Math.round(durationMinutes * 60),
+                checklistItems,
+            };
+
+            const response = station
+                ? await updateOsceStation({ id: station.id, ...payload })
+                : await createOsceStation(payload);
+
+            if (!response.success) {
+                alert(response.message || 'Failed to save station');
+                return;
+            }
+
+            router.push('/admin/osce');
+            router.refresh();
+        });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{station ? 'Edit OSCE Station' : 'Create OSCE Station'}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                    <div className="space-y-2 md:col-span-2">
+                        <Label>Title</Label>
+                        <Input value={title} onChange={(event) => setTitle(event.target.value)} placeholder="e.g. Chest pain history" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Clinical Domain</Label>
+                        <Input value={clinicalDomain} onChange={(event) => setClinicalDomain(event.target.value)} placeholder="e.g. Cardiology" />
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <Label>Candidate Brief</Label>
+                    <Textarea
+                        value={candidateBrief}
+                        onChange={(event) => setCandidateBrief(event.target.value)}
+                        className="min-h-28"
+                        placeholder="The instructions the candidate reads at the door of the station"
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <Label>Examiner Notes (optional)</Label>
+                    <Textarea
+                        value={examinerNotes}
+                        onChange={(event) => setExaminerNotes(event.target.value)}
+                        className="min-h-20"
+                        placeholder="Patient script, expected findings, or guidance for the examiner. Never shown to the candidate."
+                    />
+                </div>
+
+                <div className="space-y-2 max-w-xs">
+                    <Label>Station Length (minutes)</Label>
+                    <Input
+                        type="number"
+                        min={1}
+                        max={30}
+                        step={0.5}
+                        value={durationMinutes}
+                        onChange={(event) => setDurationMinutes(Number(event.target.value || 0))}
+                    />
+                </div>
+
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                        <Label>Marking Checklist ({maxScore} marks)</Label>
+                        <Button type="button" variant="outline" onClick={addItem}>
+                            Add Item
+                        </Button>
+                    </div>
+
+                    {checklistItems.map((item, index) => (
+                        <div key={index} className="flex items-center gap-2 rounded-md border p-3">
+                            <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                            <Input
+                                value={item.description}
+                                onChange={(event) => onItemChange(index, { description: event.target.value })}
+                                placeholder="e.g. Introduces self and confirms patient identity"
+                                className="flex-1"
+                            />
+                            <Input
+                                type="number"
+                                min={1}
+                                max={10}
+                                value={item.marks}
+                                onChange={(event) => onItemChange(index, { marks: Math.max(1, Math.min(10, Number(event.target.value || 1))) })}
+                                className="w-20"
+                                aria-label="Marks"
+                            />
+                            <Button type="button" variant="ghost" size="sm" onClick={() => moveItem(index, -1)} disabled={index === 0}>
+                                ↑
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" onClick={() => moveItem(index, 1)} disabled={index === checklistItems.length - 1}>
+                                ↓
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" onClick={() => removeItem(index)}>
+                                Remove
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex gap-2">
+                    <Button onClick={handleSubmit} disabled={isPending}>
+                        {isPending ? 'Saving...' : 'Save Station'}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => router.push('/admin/osce')}>
+                        Cancel
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
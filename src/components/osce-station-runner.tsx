@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, ClipboardCheck, Loader2, Play, Stethoscope, Timer } from 'lucide-react';
+import { abandonOsceSession, startOsceStation, submitOsceMarks } from '@/actions/osce';
+import { OsceMarkingSheet } from '@/components/osce-marking-sheet';
+import { OsceResult } from '@/components/osce-result';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCountdown } from '@/lib/timed-stages';
+import type { OsceGlobalRating } from '@/db/schema';
+import type { OsceRole, OsceSessionState } from '@/types/simulator-types';
+
+type OsceStationRunnerProps = {
+    initialOsce: OsceSessionState;
+    role: OsceRole;
+};
+
+export function OsceStationRunner({ initialOsce, role }: OsceStationRunnerProps) {
+    const [osce, setOsce] = useState(initialOsce);
+    // When the latest state arrived, by this browser's clock, for the station countdown
+    const [receivedAt, setReceivedAt] = useState(() => Date.now());
+    const [now, setNow] = useState(() => Date.now());
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const isExaminer = role === 'examiner';
+    const hasEnded = osce.status === 'completed' || osce.status === 'abandoned';
+
+    // The examiner's actions reach the candidate's screen, and vice versa
+    useEffect(() => {
+        if (hasEnded) return;
+
+        const source = new EventSource(`/api/osce-sessions/${osce.osceSessionId}/events`);
+        source.addEventListener('osce', (event) => {
+            const next = JSON.parse((event as MessageEvent<string>).data) as OsceSessionState;
+            setOsce(next);
+            setReceivedAt(Date.now());
+            if (next.status === 'completed' || next.status === 'abandoned') source.close();
+        });
+        return () => source.close();
+    }, [osce.osceSessionId, hasEnded]);
+
+    useEffect(() => {
+        if (osce.status !== 'running') return;
+
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [osce.status]);
+
+    const secondsRemaining = osce.durationSeconds - osce.elapsedSeconds - Math.floor(Math.max(0, now - receivedAt) / 1000);
+    const isTimeUp = osce.status === 'running' && secondsRemaining <= 0;
+
+    const handleStart = async () => {
+        setIsSubmitting(true);
+        const result = await startOsceStation(osce.osceSessionId);
+        setIsSubmitting(false);
+
+        if (!result.success || !result.osce) {
+            setError(result.message);
+            return;
+        }
+
+        setError(null);
+        setOsce(result.osce);
+        setReceivedAt(Date.now());
+    };
+
+    const handleSubmitMarks = async (marks: { awardedItemIds: number[]; globalRating: OsceGlobalRating; examinerComments: string }) => {
+        setIsSubmitting(true);
+        const result = await submitOsceMarks({ osceSessionId: osce.osceSessionId, ...marks });
+        setIsSubmitting(false);
+
+        if (!result.success || !result.osce) {
+            setError(result.message);
+            return;
+        }
+
+        setError(null);
+        setOsce(result.osce);
+    };
+
+    const handleAbandon = async () => {
+        if (!confirm('Call off this station? Nothing will be recorded.')) return;
+
+        const result = await abandonOsceSession(osce.osceSessionId);
+        if (!result.success) {
+            setError(result.message);
+            return;
+        }
+        setOsce((current) => ({ ...current, status: 'abandoned' }));
+    };
+
+    const header = (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+                <h1 className="text-2xl font-bold flex items-center gap-2">
+                    <Stethoscope className="h-6 w-6 text-primary" />
+                    {osce.title}
+                </h1>
+                <div className="mt-1 flex items-center gap-2 text-sm text-muted-foreground">
+                    <Badge variant="secondary">{isExaminer ? 'Examiner' : 'Candidate'}</Badge>
+                    <span>{osce.clinicalDomain}</span>
+                    <span>•</span>
+                    <span>{isExaminer ? `Candidate: ${osce.candidateName}` : `Examiner: ${osce.examinerName ?? 'not joined yet'}`}</span>
+                </div>
+            </div>
+            {osce.status === 'running' && (
+                <div
+                    className={`flex items-center gap-2 rounded-lg border px-4 py-2 text-3xl font-mono font-bold ${secondsRemaining <= 60 ? 'text-destructive border-destructive/40' : ''} ${isTimeUp ? 'animate-pulse' : ''}`}
+                    role="timer"
+                    aria-label="Time left in the station"
+                >
+                    <Timer className="h-6 w-6" />
+                    {formatCountdown(secondsRemaining)}
+                </div>
+            )}
+        </div>
+    );
+
+    const errorBanner = error && (
+        <p className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+        </p>
+    );
+
+    if (osce.status === 'abandoned') {
+        return (
+            <div className="p-12 text-center">
+                <AlertTriangle className="mx-auto h-12 w-12 text-amber-500 mb-4" />
+                <h3 className="text-xl font-bold">Station Called Off</h3>
+                <p className="text-muted-foreground">This station was abandoned before it was marked.</p>
+                <Link href="/osce">
+                    <Button className="mt-4">Back to OSCE Stations</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    if (osce.status === 'completed') {
+        return (
+            <div className="container mx-auto max-w-3xl px-4 py-8 space-y-6">
+                {header}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{isExaminer ? 'Marks Submitted' : 'Your Result'}</CardTitle>
+                        <CardDescription>
+                            {isExaminer
+                                ? `${osce.candidateName} can now see this result.`
+                                : 'OSCE results are reported separately from your case scores.'}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {osce.result ? (
+                            <OsceResult result={osce.result} />
+                        ) : (
+                            <div className="flex justify-center text-muted-foreground">
+                                <Loader2 className="h-6 w-6 animate-spin" />
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+                <div className="flex justify-center gap-4">
+                    <Link href="/osce">
+                        <Button variant="outline">Back to OSCE Stations</Button>
+                    </Link>
+                    {!isExaminer && (
+                        <Link href="/performance">
+                            <Button>View Performance</Button>
+                        </Link>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    if (!isExaminer) {
+        return (
+            <div className="container mx-auto max-w-3xl px-4 py-8 space-y-6">
+                {header}
+                {errorBanner}
+                {osce.status === 'waiting' ? (
+                    <Card>
+                        <CardContent className="py-10 space-y-6 text-center">
+                            <div className="rounded-lg bg-muted/50 p-6">
+                                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Examiner Code</p>
+                                <p className="text-4xl font-mono font-bold tracking-[0.3em]">{osce.joinCode}</p>
+                                <p className="text-sm text-muted-foreground mt-2">
+                                    Your examiner enters this code at /osce on their own device
+                                </p>
+                            </div>
+                            <p className="text-muted-foreground">
+                                {osce.examinerName
+                                    ? `${osce.examinerName} is ready. The brief appears when they start the clock.`
+                                    : 'Waiting for your examiner to join…'}
+                            </p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <Card className="border-l-4 border-l-primary">
+                        <CardHeader>
+                            <CardTitle>Candidate Brief</CardTitle>
+                            {isTimeUp && (
+                                <CardDescription className="text-destructive font-medium">
+                                    Time&apos;s up. Please stop and wait for your examiner.
+                                </CardDescription>
+                            )}
+                        </CardHeader>
+                        <CardContent>
+                            <p className="text-lg leading-relaxed whitespace-pre-wrap">{osce.candidateBrief}</p>
+                        </CardContent>
+                    </Card>
+                )}
+                <Button variant="outline" onClick={handleAbandon} className="w-full">
+                    Abandon Station
+                </Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto max-w-6xl px-4 py-8 space-y-6">
+            {header}
+            {errorBanner}
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                <div className="lg:col-span-2 space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Candidate Brief</CardTitle>
+                            <CardDescription>What the candidate reads when the clock starts</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap">{osce.candidateBrief}</p>
+                        </CardContent>
+                    </Card>
+                    {osce.examinerNotes && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Examiner Notes</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <p className="text-sm leading-relaxed whitespace-pre-wrap">{osce.examinerNotes}</p>
+                            </CardContent>
+                        </Card>
+                    )}
+                    {osce.status === 'waiting' && (
+                        <Button onClick={handleStart} disabled={isSubmitting} size="lg" className="w-full gap-2">
+                            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                            Start the Clock
+                        </Button>
+                    )}
+                    <Button variant="outline" onClick={handleAbandon} className="w-full">
+                        Abandon Station
+                    </Button>
+                </div>
+
+                <Card className="lg:col-span-3">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <ClipboardCheck className="h-5 w-5 text-primary" />
+                            Marking Sheet
+                        </CardTitle>
+                        <CardDescription>
+                            {osce.status === 'waiting'
+                                ? 'Marking opens when you start the clock.'
+                                : isTimeUp
+                                    ? 'Time is up. Finish marking and submit.'
+                                    : 'Tick each item as the candidate does it.'}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <OsceMarkingSheet
+                            checklist={osce.checklist ?? []}
+                            disabled={osce.status !== 'running'}
+                            isSubmitting={isSubmitting}
+                            onSubmit={handleSubmitMarks}
+                        />
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
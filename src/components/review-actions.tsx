@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { assignReviewer, decideReview, removeReviewer, submitForReview } from '@/actions/editorial-review';
+import type { ReviewContentType, ReviewStatus } from '@/db/schema';
+import type { ReviewDecisionInput } from '@/schemas/editorial-review';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, Send, UserMinus, XCircle } from 'lucide-react';
+
+type Person = { userId: string; name: string };
+
+type Props = {
+    contentType: ReviewContentType;
+    contentId: number;
+    status: ReviewStatus;
+    isAssignedReviewer: boolean;
+    reviewers: Person[];
+    candidates: Person[];
+};
+
+export function ReviewActions({ contentType, contentId, status, isAssignedReviewer, reviewers, candidates }: Props) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [note, setNote] = useState('');
+    const [reviewerUserId, setReviewerUserId] = useState('');
+
+    const run = (action: () => Promise<{ success: boolean; message: string }>, onDone?: () => void) => {
+        startTransition(async () => {
+            const res = await action();
+            if (!res.success) {
+                alert(res.message);
+                return;
+            }
+            onDone?.();
+            router.refresh();
+        });
+    };
+
+    const target = { contentType, contentId };
+    const canSubmit = status === 'draft' || status === 'changes_requested' || status === 'approved';
+    const canDecide = status === 'in_review' && isAssignedReviewer;
+
+    const handleDecision = (decision: ReviewDecisionInput['decision']) =>
+        run(() => decideReview({ ...target, decision, note: note || undefined }), () => setNote(''));
+
+    return (
+        <div className="space-y-5">
+            <div className="space-y-2">
+                <Label>Reviewers</Label>
+                {reviewers.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                        {reviewers.map((reviewer) => (
+                            <li key={reviewer.userId} className="flex items-center justify-between gap-2">
+                                <span>{reviewer.name}</span>
+                                <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="h-7 w-7"
+                                    title="Remove reviewer"
+                                    onClick={() => run(() => removeReviewer({ ...target, reviewerUserId: reviewer.userId }))}
+                                    disabled={isPending}
+                                >
+                                    <UserMinus className="h-4 w-4" />
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-muted-foreground">No reviewers assigned yet.</p>
+                )}
+                {candidates.length > 0 && (
+                    <div className="flex gap-2">
+                        <Select value={reviewerUserId} onValueChange={setReviewerUserId}>
+                            <SelectTrigger className="flex-1">
+                                <SelectValue placeholder="Choose an admin" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {candidates.map((candidate) => (
+                                    <SelectItem key={candidate.userId} value={candidate.userId}>
+                                        {candidate.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button
+                            variant="outline"
+                            onClick={() => run(() => assignReviewer({ ...target, reviewerUserId }), () => setReviewerUserId(''))}
+                            disabled={isPending || !reviewerUserId}
+                        >
+                            Assign
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            {(canSubmit || canDecide) && (
+                <div className="space-y-2">
+                    <Label htmlFor="review-note">{canDecide ? 'Review note' : 'Note for reviewers'}</Label>
+                    <Textarea
+                        id="review-note"
+                        value={note}
+                        onChange={(event) => setNote(event.target.value)}
+                        className="min-h-20"
+                        placeholder={canDecide ? 'Required when requesting changes' : 'Optional: what changed since the last review?'}
+                    />
+                </div>
+            )}
+
+            {canSubmit && (
+                <Button
+                    className="w-full"
+                    onClick={() => run(() => submitForReview({ ...target, note: note || undefined }), () => setNote(''))}
+                    disabled={isPending}
+                >
+                    <Send className="mr-2 h-4 w-4" />
+                    {status === 'draft' ? 'Submit for review' : 'Resubmit for review'}
+                </Button>
+            )}
+
+            {canDecide && (
+                <div className="grid grid-cols-2 gap-2">
+                    <Button
+                        variant="outline"
+                        className="text-amber-700 dark:text-amber-300"
+                        onClick={() => handleDecision('request_changes')}
+                        disabled={isPending}
+                    >
+                        <XCircle className="mr-2 h-4 w-4" /> Request changes
+                    </Button>
+                    <Button onClick={() => handleDecision('approve')} disabled={isPending}>
+                        <CheckCircle2 className="mr-2 h-4 w-4" /> Approve
+                    </Button>
+                </div>
+            )}
+
+            {status === 'in_review' && !isAssignedReviewer && (
+                <p className="text-sm text-muted-foreground">
+                    Waiting on an assigned reviewer to approve or request changes.
+                </p>
+            )}
+        </div>
+    );
+}
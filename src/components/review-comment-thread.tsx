@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { addReviewComment, resolveReviewComment } from '@/actions/editorial-review';
+import type { ReviewCommentAnchor, ReviewContentType } from '@/db/schema';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare } from 'lucide-react';
+
+type Comment = {
+    id: number;
+    body: string;
+    author: string;
+    createdAt: Date;
+    resolvedAt: Date | null;
+};
+
+type Props = {
+    contentType: ReviewContentType;
+    contentId: number;
+    anchor: ReviewCommentAnchor;
+    stageOrder?: number;
+    optionNumber?: number;
+    comments: Comment[];
+};
+
+export function ReviewCommentThread({ contentType, contentId, anchor, stageOrder, optionNumber, comments }: Props) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [isWriting, setIsWriting] = useState(false);
+    const [body, setBody] = useState('');
+
+    const handleAdd = () => {
+        startTransition(async () => {
+            const res = await addReviewComment({ contentType, contentId, anchor, stageOrder, optionNumber, body });
+            if (!res.success) {
+                alert(res.message);
+                return;
+            }
+            setBody('');
+            setIsWriting(false);
+            router.refresh();
+        });
+    };
+
+    const handleResolve = (commentId: number) => {
+        startTransition(async () => {
+            const res = await resolveReviewComment({ commentId });
+            if (!res.success) {
+                alert(res.message);
+                return;
+            }
+            router.refresh();
+        });
+    };
+
+    return (
+        <div className="space-y-2">
+            {comments.map((comment) => (
+                <div
+                    key={comment.id}
+                    className={`rounded-md border-l-4 px-3 py-2 text-sm ${comment.resolvedAt ? 'border-muted bg-muted/30 text-muted-foreground' : 'border-amber-400 bg-amber-50 dark:bg-amber-950/20'}`}
+                >
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span>
+                            <span className="font-medium">{comment.author}</span> · {comment.createdAt.toLocaleString()}
+                            {comment.resolvedAt && ' · Resolved'}
+                        </span>
+                        {!comment.resolvedAt && (
+                            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => handleResolve(comment.id)} disabled={isPending}>
+                                Resolve
+                            </Button>
+                        )}
+                    </div>
+                    <p className="whitespace-pre-wrap">{comment.body}</p>
+                </div>
+            ))}
+
+            {isWriting ? (
+                <div className="space-y-2">
+                    <Textarea
+                        value={body}
+                        onChange={(event) => setBody(event.target.value)}
+                        className="min-h-20"
+                        placeholder="What should change, and why?"
+                    />
+                    <div className="flex gap-2">
+                        <Button size="sm" onClick={handleAdd} disabled={isPending || !body.trim()}>
+                            Comment
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setIsWriting(false)} disabled={isPending}>
+                            Cancel
+                        </Button>
+                    </div>
+                </div>
+            ) : (
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs text-muted-foreground" onClick={() => setIsWriting(true)}>
+                    <MessageSquare className="mr-1 h-3 w-3" /> Comment
+                </Button>
+            )}
+        </div>
+    );
+}
@@ -27,6 +27,7 @@ type RivisionCard = {
 
 type RivisionMaterialsProps = {
     cards: RivisionCard[];
+    focusContextId?: string;
 };
 
 type NoteState = {
@@ -38,7 +39,7 @@ function getCardId(card: RivisionCard) {
     return `${card.domain}::${card.difficulty || 'any'}::${card.clusterKey || 'any'}`;
 }
 
-export function RivisionMaterials({ cards }: RivisionMaterialsProps) {
+export function RivisionMaterials({ cards, focusContextId }: RivisionMaterialsProps) {
     const [isPending, startTransition] = useTransition();
     const [activeCardId, setActiveCardId] = useState<string | null>(null);
     const [notesByCard, setNotesByCard] = useState<Record<string, NoteState>>({});
@@ -129,7 +130,7 @@ export function RivisionMaterials({ cards }: RivisionMaterialsProps) {
                 const loading = isPending && activeCardId === cardId;
 
                 return (
-                    <Card key={cardId} className="border-border/80">
+                    <Card key={cardId} className={card.contextId === focusContextId ? 'border-primary ring-2 ring-primary/30' : 'border-border/80'}>
                         <CardHeader>
                             <div className="flex flex-wrap items-start justify-between gap-3">
                                 <div className="space-y-2">
@@ -142,6 +143,7 @@ export function RivisionMaterials({ cards }: RivisionMaterialsProps) {
                                     </CardDescription>
                                 </div>
                                 <div className="flex flex-wrap items-center gap-2">
+                                    {card.contextId === focusContextId && <Badge variant="default">From your last case</Badge>}
                                     <Badge variant="destructive">Priority #{card.rank}</Badge>
                                     <Badge variant="outline">
                                         <Medal className="mr-1 h-3.5 w-3.5" />
@@ -1,47 +1,65 @@
 import { Activity, Thermometer, Wind, Droplets } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import type { ReactNode } from "react";
-
-interface ClinicalData {
-    BP?: string;
-    HR?: number;
-    RR?: number;
-    Temp?: number;
-    SpO2?: number;
-    notes?: string[];
-    labs?: Record<string, string | number>;
-    [key: string]: unknown;
-}
+import type { ClinicalData, InvestigationType, PatientDemographics } from "@/db/schema";
+import { investigationCatalogue } from "@/lib/investigations";
+import { calculateNews2, type News2Risk } from "@/lib/news2";
+import { describePatient, flagValue, flagVital, formatReferenceRange, getReferenceRange } from "@/lib/reference-ranges";
+import type { TrendSnapshot } from "@/lib/clinical-trends";
+import { VitalTrends } from "./VitalTrends";
+import { LabPanelsDisplay } from "./LabPanelsDisplay";
 
 interface ClinicalDataDisplayProps {
     data: ClinicalData | null;
+    investigations?: { investigation: InvestigationType; result: string }[]; // Only those the student ordered
+    patient?: PatientDemographics | null; // Drives reference ranges; adult defaults when absent
+    trend?: TrendSnapshot[]; // Stages visited so far, oldest first, ending with this one
 }
 
-export function ClinicalDataDisplay({ data }: ClinicalDataDisplayProps) {
-    if (!data) return null;
+const news2RiskStyles: Record<News2Risk, string> = {
+    low: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+    "low-medium": "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+    medium: "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300",
+    high: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
 
-    // Helper to determine if a value is abnormal (rudimentary logic for demo)
-    const isAbnormal = (key: string, value: unknown) => {
-        if (!value) return false;
-        // Add more sophisticated logic later
-        if (key === 'SpO2' && typeof value === 'number' && value < 94) return true;
-        if (key === 'HR' && typeof value === 'number' && (value > 100 || value < 60)) return true;
-        if (key === 'RR' && typeof value === 'number' && (value > 20 || value < 12)) return true;
-        if (key === 'Temp' && typeof value === 'number' && (value > 37.5 || value < 36)) return true;
-        if (key === 'BP' && typeof value === 'string') {
-            const systolic = parseInt(value.split('/')[0]);
-            return systolic < 90 || systolic > 140;
-        }
-        return false;
+export function ClinicalDataDisplay({ data: stageData, investigations = [], patient = null, trend = [] }: ClinicalDataDisplayProps) {
+    if (!stageData && investigations.length === 0) return null;
+    const data: ClinicalData = stageData ?? {};
+
+    const isAbnormal = (key: "BP" | "HR" | "RR" | "SpO2" | "Temp") => {
+        const flag = flagVital(key, data, patient);
+        return flag === "low" || flag === "high";
+    };
+    const rangeHint = (key: string) => {
+        const range = getReferenceRange(key, patient);
+        return range ? `Reference ${formatReferenceRange(range)}` : undefined;
     };
 
+    const news2 = calculateNews2(stageData, patient);
+    const patientLabel = describePatient(patient);
+
     return (
         <Card className="border-l-4 border-l-blue-500 shadow-md">
             <CardHeader className="pb-2">
-                <CardTitle className="text-lg flex items-center gap-2">
-                    <Activity className="h-5 w-5 text-blue-500" />
-                    Clinical Data
-                </CardTitle>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                        <Activity className="h-5 w-5 text-blue-500" />
+                        Clinical Data
+                    </CardTitle>
+                    {news2 && (
+                        <span
+                            className={`px-2 py-0.5 rounded text-xs font-semibold ${news2RiskStyles[news2.risk]}`}
+                            title={news2.components.map(c => `${c.parameter}: ${c.score}`).join(", ")
+                                + (news2.missing.length > 0 ? ` (not recorded: ${news2.missing.join(", ")})` : "")}
+                        >
+                            NEWS2 {news2.total}{news2.spo2Scale === 2 ? " (SpO2 scale 2)" : ""}
+                        </span>
+                    )}
+                </div>
+                {patientLabel && (
+                    <p className="text-xs text-muted-foreground">Ranges for a {patientLabel}</p>
+                )}
             </CardHeader>
             <CardContent>
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
@@ -50,52 +68,95 @@ export function ClinicalDataDisplay({ data }: ClinicalDataDisplayProps) {
                         label="HR"
                         value={data.HR}
                         unit="bpm"
-                        abnormal={isAbnormal('HR', data.HR)}
+                        abnormal={isAbnormal("HR")}
+                        hint={rangeHint("HR")}
                     />
                     <VitalSign
                         icon={<div className="font-bold text-xs">BP</div>}
                         label="BP"
                         value={data.BP}
                         unit="mmHg"
-                        abnormal={isAbnormal('BP', data.BP)}
+                        abnormal={isAbnormal("BP")}
+                        hint={rangeHint("SBP")}
                     />
                     <VitalSign
                         icon={<Wind className="h-4 w-4" />}
                         label="RR"
                         value={data.RR}
                         unit="/min"
-                        abnormal={isAbnormal('RR', data.RR)}
+                        abnormal={isAbnormal("RR")}
+                        hint={rangeHint("RR")}
                     />
                     <VitalSign
                         icon={<Droplets className="h-4 w-4" />}
                         label="SpO2"
                         value={data.SpO2}
                         unit="%"
-                        abnormal={isAbnormal('SpO2', data.SpO2)}
+                        abnormal={isAbnormal("SpO2")}
+                        hint={rangeHint("SpO2")}
                     />
                     <VitalSign
                         icon={<Thermometer className="h-4 w-4" />}
                         label="Temp"
                         value={data.Temp}
                         unit="°C"
-                        abnormal={isAbnormal('Temp', data.Temp)}
+                        abnormal={isAbnormal("Temp")}
+                        hint={rangeHint("Temp")}
                     />
                 </div>
 
+                {(data.supplementalOxygen || data.consciousness) && (
+                    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mb-4">
+                        {data.consciousness && (
+                            <span className={data.consciousness !== "A" ? "font-medium text-red-600 dark:text-red-400" : ""}>
+                                ACVPU: {data.consciousness}
+                            </span>
+                        )}
+                        {data.supplementalOxygen && <span>On supplemental oxygen</span>}
+                    </div>
+                )}
+
                 {data.labs && Object.keys(data.labs).length > 0 && (
                     <div className="mt-4 pt-4 border-t">
                         <h4 className="text-sm font-semibold mb-2 text-muted-foreground">Lab Results</h4>
                         <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
-                            {Object.entries(data.labs).map(([key, value]) => (
-                                <div key={key} className="flex justify-between">
-                                    <span className="capitalize">{key}:</span>
-                                    <span className="font-mono font-medium">{String(value)}</span>
+                            {Object.entries(data.labs).map(([key, value]) => {
+                                const flag = flagValue(key, value, patient);
+                                const abnormal = flag === "low" || flag === "high";
+                                return (
+                                    <div key={key} className="flex justify-between" title={rangeHint(key)}>
+                                        <span className="capitalize">{key}:</span>
+                                        <span className={`font-mono font-medium ${abnormal ? "text-red-600 dark:text-red-400" : ""}`}>
+                                            {String(value)}
+                                            {abnormal && <span className="ml-1 text-xs">{flag === "high" ? "↑" : "↓"}</span>}
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
+                {data.labPanels && data.labPanels.length > 0 && (
+                    <LabPanelsDisplay results={data.labPanels} patient={patient} />
+                )}
+
+                {investigations.length > 0 && (
+                    <div className="mt-4 pt-4 border-t">
+                        <h4 className="text-sm font-semibold mb-2 text-muted-foreground">Investigation Results</h4>
+                        <div className="space-y-2 text-sm">
+                            {investigations.map((row) => (
+                                <div key={row.investigation}>
+                                    <span className="font-medium">{investigationCatalogue[row.investigation].label}:</span>{" "}
+                                    <span className="font-mono">{row.result}</span>
                                 </div>
                             ))}
                         </div>
                     </div>
                 )}
 
+                {trend.length >= 2 && <VitalTrends snapshots={trend} patient={patient} />}
+
                 {data.notes && data.notes.length > 0 && (
                     <div className="mt-4 pt-4 border-t">
                         <h4 className="text-sm font-semibold mb-2 text-muted-foreground">Clinical Notes</h4>
@@ -117,13 +178,14 @@ type VitalSignProps = {
     value: string | number | null | undefined;
     unit: string;
     abnormal: boolean;
+    hint?: string; // Reference range, shown on hover
 };
 
-function VitalSign({ icon, label, value, unit, abnormal }: VitalSignProps) {
+function VitalSign({ icon, label, value, unit, abnormal, hint }: VitalSignProps) {
     if (value === undefined || value === null) return null;
 
     return (
-        <div className={`flex flex-col items-center p-2 rounded bg-slate-50 dark:bg-slate-900 border ${abnormal ? 'border-red-200 bg-red-50 dark:bg-red-950/20 dark:border-red-900' : 'border-slate-100 dark:border-slate-800'}`}>
+        <div title={hint} className={`flex flex-col items-center p-2 rounded bg-slate-50 dark:bg-slate-900 border ${abnormal ? 'border-red-200 bg-red-50 dark:bg-red-950/20 dark:border-red-900' : 'border-slate-100 dark:border-slate-800'}`}>
             <span className="text-xs text-muted-foreground flex items-center gap-1 mb-1">
                 {icon} {label}
             </span>
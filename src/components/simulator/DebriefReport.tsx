@@ -0,0 +1,93 @@
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { BookOpen, CheckCircle2, Star, Users } from "lucide-react";
+import type { CaseDebrief } from "@/types/simulator-types";
+
+interface DebriefReportProps {
+    debrief: CaseDebrief;
+}
+
+export function DebriefReport({ debrief }: DebriefReportProps) {
+    const rivisionHref = `/rivision?focus=${encodeURIComponent(debrief.rivision.contextId)}`;
+
+    return (
+        <div className="space-y-6 text-left">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+                <div>
+                    <h3 className="text-2xl font-bold">Debrief</h3>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Users className="h-4 w-4" />
+                        Compared with {debrief.cohortSize} completed {debrief.cohortSize === 1 ? "attempt" : "attempts"}
+                    </p>
+                </div>
+                <Link href={rivisionHref}>
+                    <Button variant="outline" className="gap-2">
+                        <BookOpen className="h-4 w-4" />
+                        Rivision: {debrief.rivision.clusterKey || debrief.rivision.domain}
+                    </Button>
+                </Link>
+            </div>
+
+            {debrief.stages.map((stage, index) => (
+                <Card key={stage.stageId}>
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-lg">Decision {index + 1}</CardTitle>
+                        <CardDescription className="line-clamp-2">{stage.narrative}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {stage.options.map((option) => {
+                            const isChosen = option.id === stage.chosenOptionId;
+                            const isOptimal = option.id === stage.optimalOptionId;
+
+                            return (
+                                <div
+                                    key={option.id}
+                                    className={`rounded-lg border p-3 space-y-2 ${isChosen
+                                        ? isOptimal
+                                            ? "border-green-300 bg-green-50 dark:border-green-800 dark:bg-green-950/30"
+                                            : "border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30"
+                                        : isOptimal
+                                            ? "border-green-200 dark:border-green-900"
+                                            : "border-border"
+                                        }`}
+                                >
+                                    <div className="flex items-start justify-between gap-3">
+                                        <p className="font-medium text-sm">{option.text}</p>
+                                        <div className="flex shrink-0 items-center gap-1">
+                                            {isChosen && (
+                                                <Badge variant="secondary" className="gap-1">
+                                                    <CheckCircle2 className="h-3 w-3" />
+                                                    Your choice
+                                                </Badge>
+                                            )}
+                                            {isOptimal && (
+                                                <Badge className="gap-1 bg-green-600 hover:bg-green-600">
+                                                    <Star className="h-3 w-3" />
+                                                    Best
+                                                </Badge>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    {(isChosen || isOptimal) && (
+                                        <p className="text-sm text-muted-foreground">{option.feedback}</p>
+                                    )}
+
+                                    <div className="flex items-center gap-3">
+                                        <Progress value={option.cohortPercent} className="h-2 flex-1" />
+                                        <span className="w-24 text-right text-xs text-muted-foreground">
+                                            {option.cohortPercent}% of cohort
+                                        </span>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
@@ -1,43 +1,193 @@
+import { useState, type ReactNode } from "react";
 import { Button } from "@/components/ui/button";
-import { StageOption } from "@/db/schema"; // We can use the inferred type from schema
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ConfidenceRating } from "@/components/confidence-rating";
+import type { ConfidenceLevel } from "@/lib/calibration";
+import type { DecisionResponse, DecisionType } from "@/db/schema";
+import { ArrowDown, ArrowUp, Lightbulb } from "lucide-react";
 import { motion } from "framer-motion";
 
 interface DecisionPanelProps {
+    decisionType?: DecisionType;
     options: {
         id: number;
         text: string;
+        isTimeout?: boolean; // Hidden "no decision" option, never offered
         // we don't need other props for selection phase
     }[];
-    onSelectOption: (optionId: number) => void;
+    // Confidence is rated before any answer can be submitted
+    onSelectOption: (optionId: number, confidence: ConfidenceLevel) => void;
+    onSubmitResponse?: (response: DecisionResponse, confidence: ConfidenceLevel) => void; // Multi-select, ordering and free-text stages
+    hints?: string[]; // Revealed at this stage, in tier order
+    hintCosts?: number[]; // Points each tier costs
+    onRequestHint?: () => void;
+    renderOptionDetail?: (optionId: number) => ReactNode; // Admin test-play: scoring shown beside each option
     disabled: boolean;
 }
 
-export function DecisionPanel({ options, onSelectOption, disabled }: DecisionPanelProps) {
+const prompts: Record<DecisionType, string> = {
+    single: "What is your next step?",
+    multi: "Select all that apply",
+    ordering: "Put these steps in the order you would do them",
+    free_text: "What is your answer?",
+};
+
+// Start ordering stages shuffled so the authored order doesn't give the answer away
+function shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+export function DecisionPanel({ decisionType = "single", options: stageOptions, onSelectOption, onSubmitResponse, hints = [], hintCosts = [], onRequestHint, renderOptionDetail, disabled }: DecisionPanelProps) {
+    const options = stageOptions.filter(option => !option.isTimeout);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [orderedIds, setOrderedIds] = useState<number[]>(() => shuffle(options.map(option => option.id)));
+    const [answer, setAnswer] = useState("");
+    const [confidence, setConfidence] = useState<ConfidenceLevel | null>(null);
+    const locked = disabled || confidence === null;
+
+    const toggle = (optionId: number) => {
+        setSelectedIds(prev => prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId]);
+    };
+
+    const move = (index: number, offset: number) => {
+        setOrderedIds(prev => {
+            const next = [...prev];
+            [next[index], next[index + offset]] = [next[index + offset], next[index]];
+            return next;
+        });
+    };
+
     return (
         <div className="space-y-4">
-            <h3 className="text-xl font-semibold mb-4">What is your next step?</h3>
-            <div className="grid grid-cols-1 gap-3">
-                {options.map((option, index) => (
-                    <motion.div
-                        key={option.id}
-                        initial={{ opacity: 0, y: 10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.1 }}
-                    >
-                        <Button
-                            variant="outline"
-                            className="w-full justify-start text-left h-auto p-4 whitespace-normal text-base hover:bg-primary/5 hover:border-primary transition-all"
-                            onClick={() => onSelectOption(option.id)}
-                            disabled={disabled}
+            <h3 className="text-xl font-semibold mb-4">{prompts[decisionType]}</h3>
+
+            {hints.length > 0 && (
+                <div className="space-y-2">
+                    {hints.map((hint, index) => (
+                        <div key={index} className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm dark:border-amber-900 dark:bg-amber-950/30">
+                            <Lightbulb className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+                            <span>{hint}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {onRequestHint && hints.length < hintCosts.length && (
+                <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={onRequestHint} disabled={disabled}>
+                    <Lightbulb className="h-4 w-4 mr-2" />
+                    Show hint {hints.length + 1} of {hintCosts.length}
+                    {hintCosts[hints.length] > 0 && ` (−${hintCosts[hints.length]} pts)`}
+                </Button>
+            )}
+
+            <ConfidenceRating value={confidence} onChange={setConfidence} disabled={disabled} />
+
+            {decisionType === "single" && (
+                <div className="grid grid-cols-1 gap-3">
+                    {options.map((option, index) => (
+                        <motion.div
+                            key={option.id}
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: index * 0.1 }}
+                        >
+                            <Button
+                                variant="outline"
+                                className="w-full justify-start text-left h-auto p-4 whitespace-normal text-base hover:bg-primary/5 hover:border-primary transition-all"
+                                onClick={() => confidence !== null && onSelectOption(option.id, confidence)}
+                                disabled={locked}
+                            >
+                                <span className="mr-3 font-mono text-muted-foreground opacity-50">
+                                    {String.fromCharCode(65 + index)}.
+                                </span>
+                                {option.text}
+                            </Button>
+                            {renderOptionDetail?.(option.id)}
+                        </motion.div>
+                    ))}
+                </div>
+            )}
+
+            {decisionType === "multi" && (
+                <div className="space-y-3">
+                    {options.map((option) => (
+                        <label
+                            key={option.id}
+                            className={`flex items-start gap-3 rounded-md border p-4 text-base cursor-pointer transition-all ${selectedIds.includes(option.id) ? "border-primary bg-primary/5" : "hover:bg-primary/5"}`}
                         >
-                            <span className="mr-3 font-mono text-muted-foreground opacity-50">
-                                {String.fromCharCode(65 + index)}.
-                            </span>
-                            {option.text}
-                        </Button>
-                    </motion.div>
-                ))}
-            </div>
+                            <Checkbox
+                                checked={selectedIds.includes(option.id)}
+                                onCheckedChange={() => toggle(option.id)}
+                                disabled={disabled}
+                                className="mt-1"
+                            />
+                            <span className="flex-1">{option.text}</span>
+                            {renderOptionDetail?.(option.id)}
+                        </label>
+                    ))}
+                    <Button
+                        className="w-full"
+                        onClick={() => confidence !== null && onSubmitResponse?.({ optionIds: selectedIds }, confidence)}
+                        disabled={locked || selectedIds.length === 0}
+                    >
+                        Submit Selection
+                    </Button>
+                </div>
+            )}
+
+            {decisionType === "ordering" && (
+                <div className="space-y-3">
+                    {orderedIds.map((optionId, index) => {
+                        const option = options.find(o => o.id === optionId);
+                        if (!option) return null;
+                        return (
+                            <div key={optionId} className="flex items-center gap-3 rounded-md border p-3 text-base">
+                                <span className="font-mono text-muted-foreground w-6">{index + 1}.</span>
+                                <span className="flex-1">{option.text}</span>
+                                {renderOptionDetail?.(option.id)}
+                                <div className="flex flex-col">
+                                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => move(index, -1)} disabled={disabled || index === 0}>
+                                        <ArrowUp className="h-4 w-4" />
+                                    </Button>
+                                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => move(index, 1)} disabled={disabled || index === orderedIds.length - 1}>
+                                        <ArrowDown className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    <Button className="w-full" onClick={() => confidence !== null && onSubmitResponse?.({ optionIds: orderedIds }, confidence)} disabled={locked}>
+                        Submit Order
+                    </Button>
+                </div>
+            )}
+
+            {decisionType === "free_text" && (
+                <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        if (answer.trim() && confidence !== null) onSubmitResponse?.({ text: answer.trim() }, confidence);
+                    }}
+                >
+                    <Input
+                        value={answer}
+                        onChange={e => setAnswer(e.target.value)}
+                        placeholder="Type your answer"
+                        maxLength={500}
+                        disabled={disabled}
+                    />
+                    <Button type="submit" disabled={locked || !answer.trim()}>
+                        Submit
+                    </Button>
+                </form>
+            )}
         </div>
     );
 }
@@ -1,22 +1,23 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, AlertTriangle, XCircle, ArrowRight } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CheckCircle, AlertTriangle, XCircle, ArrowRight, MessagesSquare, Timer, ShieldAlert } from "lucide-react";
 import { motion } from "framer-motion";
+import type { DecisionFeedback, HistorySummary } from "@/types/simulator-types";
 
 interface FeedbackDisplayProps {
-    selectedOption: {
-        id: number;
-        text: string;
-        isCorrect: boolean;
-        scoreWeight: number;
-        feedback: string;
-    };
     onContinue: () => void;
+    isFinalStep?: boolean; // The chosen option ends the case
+    history?: HistorySummary | null; // Set after a history-taking stage
+    decision: DecisionFeedback; // How the answer was scored, with the feedback to show
+    options?: { id: number; text: string }[]; // The stage's options, for multi-select and ordering breakdowns
 }
 
-export function FeedbackDisplay({ selectedOption, onContinue }: FeedbackDisplayProps) {
-    const isGood = selectedOption.scoreWeight > 0;
-    const isNeutral = selectedOption.scoreWeight === 0;
-    const isBad = selectedOption.scoreWeight < 0;
+export function FeedbackDisplay({ onContinue, isFinalStep = false, history = null, decision, options = [] }: FeedbackDisplayProps) {
+    const [acknowledged, setAcknowledged] = useState(false);
+    // Multi-select and ordering stages are scored on the whole answer rather than one option
+    const points = decision.scoreWeight;
+    const optionText = (id: number) => options.find(o => o.id === id)?.text ?? "";
 
     // Determine visual style based on score weight, not just isCorrect
     // isCorrect is boolean, but scoreWeight gives nuance (Safe vs Optimal vs Dangerous)
@@ -24,19 +25,19 @@ export function FeedbackDisplay({ selectedOption, onContinue }: FeedbackDisplayP
     let Icon = CheckCircle;
     let title = "Excellent Decision";
 
-    if (selectedOption.scoreWeight >= 2) {
+    if (points >= 2) {
         variant = "success";
         Icon = CheckCircle;
         title = "Optimal Choice";
-    } else if (selectedOption.scoreWeight > 0) {
+    } else if (points > 0) {
         variant = "success";
         Icon = CheckCircle;
         title = "Good Choice";
-    } else if (selectedOption.scoreWeight === 0) {
+    } else if (points === 0) {
         variant = "warning";
         Icon = AlertTriangle;
         title = "Neutral Choice";
-    } else if (selectedOption.scoreWeight >= -2) {
+    } else if (points >= -2) {
         variant = "warning";
         Icon = AlertTriangle;
         title = "Suboptimal Choice";
@@ -46,6 +47,26 @@ export function FeedbackDisplay({ selectedOption, onContinue }: FeedbackDisplayP
         title = "Dangerous Choice"; // -5 points
     }
 
+    // Running out of time on a timed stage is its own outcome, whatever the option followed
+    const timedOut = decision.timedOut;
+    if (timedOut) {
+        variant = points < -2 ? "destructive" : "warning";
+        Icon = Timer;
+        title = "Time Ran Out";
+    }
+
+    // Authored safety classes override the weight-based style; a never-event stops the student until acknowledged
+    const neverEvent = decision.safetyClass === "never_event";
+    if (decision.safetyClass === "harmful") {
+        variant = "destructive";
+        Icon = XCircle;
+        title = "Harmful Choice";
+    } else if (neverEvent) {
+        variant = "destructive";
+        Icon = ShieldAlert;
+        title = "Never Event";
+    }
+
     const colorClasses = {
         success: "bg-green-500/10 border-green-500/20 text-green-700 dark:text-green-400",
         warning: "bg-amber-500/10 border-amber-500/20 text-amber-700 dark:text-amber-400",
@@ -70,21 +91,124 @@ export function FeedbackDisplay({ selectedOption, onContinue }: FeedbackDisplayP
                     <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
                         {title}
                         <span className={`text-sm px-2 py-0.5 rounded-full bg-white/50 dark:bg-black/20 border font-mono ${iconColors[variant]}`}>
-                            {selectedOption.scoreWeight > 0 ? '+' : ''}{selectedOption.scoreWeight} points
+                            {points > 0 ? '+' : ''}{points} points
                         </span>
                     </h3>
 
-                    <p className="markdown prose dark:prose-invert max-w-none mb-6">
-                        {selectedOption.feedback}
-                    </p>
+                    {neverEvent && (
+                        <div className="mb-4 rounded-md border-2 border-red-600 bg-red-600/10 p-4 text-sm text-foreground">
+                            <p className="font-semibold text-red-700 dark:text-red-400">Stop. This decision is a never event.</p>
+                            <p className="mt-1">
+                                Never events are serious, preventable errors that should not happen in practice. Read the feedback below before you continue.
+                            </p>
+                        </div>
+                    )}
+
+                    {timedOut && (
+                        <div className="mb-6 space-y-2 text-sm text-foreground">
+                            <p className="markdown prose dark:prose-invert max-w-none">
+                                {decision.feedback}
+                            </p>
+                            {decision.correctOptionIds.length > 0 && (
+                                <p>
+                                    <span className="font-medium">Recommended:</span> {decision.correctOptionIds.map(optionText).join(decision.decisionType === "ordering" ? ", then " : "; ")}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {!timedOut && decision.decisionType === "multi" && (
+                        <ul className="mb-6 space-y-3 text-sm text-foreground">
+                            {decision.optionFeedback.map((option) => {
+                                const picked = decision.selectedOptionIds.includes(option.optionId);
+                                if (!picked && !option.isCorrect) return null;
+                                const mark = picked
+                                    ? option.isCorrect ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                                    : "text-amber-600 dark:text-amber-400";
+                                return (
+                                    <li key={option.optionId}>
+                                        <span className={`font-medium ${mark}`}>
+                                            {picked ? (option.isCorrect ? "Selected" : "Shouldn't have selected") : "Missed"}:
+                                        </span>{" "}
+                                        {optionText(option.optionId)}
+                                        <p className="text-muted-foreground">{option.feedback}</p>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    {!timedOut && decision.decisionType === "ordering" && (
+                        <div className="mb-6 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-foreground">
+                            <div>
+                                <p className="font-semibold mb-1">Your order</p>
+                                <ol className="list-decimal list-inside space-y-1">
+                                    {decision.selectedOptionIds.map((id, index) => (
+                                        <li key={id} className={decision.correctOptionIds[index] === id ? "" : "text-amber-700 dark:text-amber-400"}>
+                                            {optionText(id)}
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                            <div>
+                                <p className="font-semibold mb-1">Recommended order</p>
+                                <ol className="list-decimal list-inside space-y-1">
+                                    {decision.correctOptionIds.map((id) => (
+                                        <li key={id}>{optionText(id)}</li>
+                                    ))}
+                                </ol>
+                            </div>
+                        </div>
+                    )}
+
+                    {!timedOut && decision.decisionType === "free_text" && (
+                        <p className="mb-2 text-sm text-foreground">
+                            You answered: <span className="font-medium">&ldquo;{decision.text}&rdquo;</span>
+                            {!decision.matched && decision.correctOptionIds.length > 0 && (
+                                <> &mdash; accepted answer: {decision.correctOptionIds.map(optionText).join(" or ")}</>
+                            )}
+                        </p>
+                    )}
+
+                    {!timedOut && (decision.decisionType === "single" || decision.decisionType === "free_text") && (
+                        <p className="markdown prose dark:prose-invert max-w-none mb-6">
+                            {decision.feedback}
+                        </p>
+                    )}
+
+                    {history && (
+                        <div className="mb-6 rounded-md border bg-background/60 p-4 text-sm text-foreground">
+                            <div className="font-semibold mb-2 flex items-center gap-2">
+                                <MessagesSquare className="h-4 w-4" />
+                                History taking: {history.elicited.length} of {history.elicited.length + history.missed.length} key facts
+                                <span className="font-mono text-muted-foreground">
+                                    ({history.score > 0 ? '+' : ''}{history.score} points)
+                                </span>
+                            </div>
+                            {history.elicited.length > 0 && (
+                                <p><span className="text-green-600 dark:text-green-400 font-medium">Elicited:</span> {history.elicited.join(', ')}</p>
+                            )}
+                            {history.missed.length > 0 && (
+                                <p><span className="text-amber-600 dark:text-amber-400 font-medium">Missed:</span> {history.missed.join(', ')}</p>
+                            )}
+                        </div>
+                    )}
+
+                    {neverEvent && (
+                        <label className="mb-4 flex items-start gap-2 text-sm text-foreground cursor-pointer">
+                            <Checkbox checked={acknowledged} onCheckedChange={(checked) => setAcknowledged(checked === true)} className="mt-0.5" />
+                            I understand why this choice could seriously harm the patient
+                        </label>
+                    )}
 
                     <Button
                         onClick={onContinue}
                         className="w-full md:w-auto gap-2"
                         size="lg"
                         variant={variant === 'destructive' ? 'destructive' : 'default'}
+                        disabled={neverEvent && !acknowledged}
                     >
-                        Continue to Next Stage
+                        {isFinalStep ? "Finish Case" : "Continue to Next Stage"}
                         <ArrowRight className="h-4 w-4" />
                     </Button>
                 </div>
@@ -0,0 +1,88 @@
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { MessagesSquare, Send, Loader2 } from "lucide-react";
+import type { HistoryMessageRole } from "@/db/schema";
+
+interface HistoryTakingPanelProps {
+    openingStatement: string | null;
+    messages: { role: HistoryMessageRole; content: string }[];
+    onAsk: (message: string) => Promise<boolean>; // Resolves false when the question wasn't sent
+    disabled: boolean;
+}
+
+export function HistoryTakingPanel({ openingStatement, messages, onAsk, disabled }: HistoryTakingPanelProps) {
+    const [draft, setDraft] = useState("");
+    const [isAsking, setIsAsking] = useState(false);
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+        const message = draft.trim();
+        if (!message || disabled || isAsking) return;
+
+        setIsAsking(true);
+        const sent = await onAsk(message);
+        setIsAsking(false);
+        if (sent) setDraft("");
+    };
+
+    const transcript = openingStatement
+        ? [{ role: "patient" as const, content: openingStatement }, ...messages]
+        : messages;
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                    <MessagesSquare className="h-5 w-5 text-primary" />
+                    Take a History
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                    Ask the patient questions. Key facts you uncover add to your score when you decide.
+                </p>
+            </div>
+
+            <ScrollArea className="h-72 rounded-md border p-3">
+                <div className="space-y-3">
+                    {transcript.map((message, index) => (
+                        <div
+                            key={index}
+                            className={`flex ${message.role === "student" ? "justify-end" : "justify-start"}`}
+                        >
+                            <div
+                                className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                                    message.role === "student"
+                                        ? "bg-primary text-primary-foreground"
+                                        : "bg-muted"
+                                }`}
+                            >
+                                {message.content}
+                            </div>
+                        </div>
+                    ))}
+                    {isAsking && (
+                        <div className="flex justify-start">
+                            <div className="rounded-lg bg-muted px-3 py-2">
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </ScrollArea>
+
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <Input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="e.g. Do you take any regular medications?"
+                    maxLength={500}
+                    disabled={disabled || isAsking}
+                />
+                <Button type="submit" size="icon" disabled={disabled || isAsking || !draft.trim()}>
+                    <Send className="h-4 w-4" />
+                </Button>
+            </form>
+        </div>
+    );
+}
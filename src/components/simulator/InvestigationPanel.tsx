@@ -0,0 +1,51 @@
+import { Button } from "@/components/ui/button";
+import { FlaskConical, Check, Clock } from "lucide-react";
+import { investigationTypes, type InvestigationType } from "@/db/schema";
+import { investigationCatalogue } from "@/lib/investigations";
+
+interface InvestigationPanelProps {
+    ordered: InvestigationType[];
+    onOrder: (investigation: InvestigationType) => void;
+    disabled: boolean;
+}
+
+export function InvestigationPanel({ ordered, onOrder, disabled }: InvestigationPanelProps) {
+    return (
+        <div className="space-y-3">
+            <div>
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                    <FlaskConical className="h-5 w-5 text-primary" />
+                    Investigations
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                    Each request takes time, and unnecessary tests cost points.
+                </p>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {investigationTypes.map((investigation) => {
+                    const isOrdered = ordered.includes(investigation);
+                    const entry = investigationCatalogue[investigation];
+
+                    return (
+                        <Button
+                            key={investigation}
+                            variant={isOrdered ? "secondary" : "outline"}
+                            className="h-auto flex-col items-start gap-0.5 p-3 text-left whitespace-normal"
+                            onClick={() => onOrder(investigation)}
+                            disabled={disabled || isOrdered}
+                        >
+                            <span className="font-medium flex items-center gap-1">
+                                {isOrdered && <Check className="h-3.5 w-3.5" />}
+                                {entry.label}
+                            </span>
+                            <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                {entry.turnaroundMinutes} min
+                            </span>
+                        </Button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
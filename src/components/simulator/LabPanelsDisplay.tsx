@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { LabFlag, LabResult, PatientDemographics } from "@/db/schema";
+import { convertLabResult, flagLabResult, getLabRange, groupLabPanels, isConvertible, type UnitSystem } from "@/lib/lab-results";
+
+interface LabPanelsDisplayProps {
+    results: LabResult[];
+    patient?: PatientDemographics | null;
+}
+
+const flagMarks: Record<LabFlag, string> = {
+    low: "↓",
+    normal: "",
+    high: "↑",
+    critical: "!!",
+};
+
+function formatRange(range: { low?: number; high?: number } | null): string {
+    if (!range) return "";
+    if (range.low !== undefined && range.high !== undefined) return `${range.low}–${range.high}`;
+    if (range.high !== undefined) return `≤ ${range.high}`;
+    if (range.low !== undefined) return `≥ ${range.low}`;
+    return "";
+}
+
+export function LabPanelsDisplay({ results, patient = null }: LabPanelsDisplayProps) {
+    const [unitSystem, setUnitSystem] = useState<UnitSystem>("si");
+    const canConvert = results.some(isConvertible);
+
+    return (
+        <div className="mt-4 pt-4 border-t">
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-muted-foreground">Lab Results</h4>
+                {canConvert && (
+                    <div className="flex gap-1">
+                        <Button
+                            size="sm"
+                            variant={unitSystem === "si" ? "secondary" : "ghost"}
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setUnitSystem("si")}
+                        >
+                            SI
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant={unitSystem === "conventional" ? "secondary" : "ghost"}
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setUnitSystem("conventional")}
+                        >
+                            Conventional
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            <div className="space-y-3">
+                {groupLabPanels(results).map(({ panel, results: panelResults }) => (
+                    <div key={panel}>
+                        <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-1">{panel}</p>
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {panelResults.map((result, idx) => {
+                                    // Flag against the authored unit, then convert for display
+                                    const flag = flagLabResult(result, patient);
+                                    const abnormal = flag !== null && flag !== "normal";
+                                    const shown = convertLabResult({ ...result, range: getLabRange(result, patient) ?? undefined }, unitSystem);
+                                    return (
+                                        <tr key={`${result.analyte}-${idx}`} className="border-b last:border-0">
+                                            <td className="py-1 pr-2">{result.analyte}</td>
+                                            <td className={`py-1 pr-2 text-right font-mono font-medium ${abnormal ? "text-red-600 dark:text-red-400" : ""} ${flag === "critical" ? "font-bold" : ""}`}>
+                                                {String(shown.value)}
+                                                {flag && flagMarks[flag] && <span className="ml-1 text-xs">{flagMarks[flag]}</span>}
+                                            </td>
+                                            <td className="py-1 pr-2 text-xs text-muted-foreground">{shown.unit}</td>
+                                            <td className="py-1 text-right text-xs text-muted-foreground">{formatRange(shown.range ?? null)}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,7 @@
-import type { ClinicalData } from "@/db/schema";
+import type { ClinicalData, InvestigationType, PatientDemographics } from "@/db/schema";
+import type { MediaItem } from "@/lib/media";
+import type { TrendSnapshot } from "@/lib/clinical-trends";
+import { MediaViewer } from "@/components/media-viewer";
 import { ClinicalDataDisplay } from "./ClinicalDataDisplay";
 import { User } from "lucide-react";
 
@@ -7,11 +10,21 @@ interface PatientPresentationProps {
         narrative: string;
         clinicalData: ClinicalData | null;
         mediaUrl: string | null;
+        media?: MediaItem[];
         stageOrder: number;
     };
+    investigations?: { investigation: InvestigationType; result: string }[];
+    patient?: PatientDemographics | null;
+    trend?: TrendSnapshot[];
 }
 
-export function PatientPresentation({ stage }: PatientPresentationProps) {
+export function PatientPresentation({ stage, investigations = [], patient = null, trend = [] }: PatientPresentationProps) {
+    // Older cases carry a single mediaUrl; show it alongside any uploaded attachments
+    const media: MediaItem[] = [
+        ...(stage.mediaUrl ? [{ id: 0, url: stage.mediaUrl, caption: "", revealOnRequest: false }] : []),
+        ...(stage.media ?? []),
+    ];
+
     return (
         <div className="space-y-6">
             <div className="flex items-start gap-4">
@@ -27,19 +40,15 @@ export function PatientPresentation({ stage }: PatientPresentationProps) {
                 </div>
             </div>
 
-            {stage.clinicalData && (
+            {(stage.clinicalData || investigations.length > 0) && (
                 <div className="mt-6">
-                    <ClinicalDataDisplay data={stage.clinicalData} />
+                    <ClinicalDataDisplay data={stage.clinicalData} investigations={investigations} patient={patient} trend={trend} />
                 </div>
             )}
 
-            {stage.mediaUrl && (
-                <div className="mt-6 rounded-lg overflow-hidden border">
-                    <img
-                        src={stage.mediaUrl}
-                        alt="Clinical Media"
-                        className="w-full h-auto max-h-[400px] object-contain bg-black"
-                    />
+            {media.length > 0 && (
+                <div className="mt-6">
+                    <MediaViewer items={media} />
                 </div>
             )}
         </div>
@@ -0,0 +1,15 @@
+import { Clock } from "lucide-react";
+import { formatSimulatedTime } from "@/lib/physiology";
+
+interface SimulatedClockProps {
+    elapsedMinutes: number;
+}
+
+export function SimulatedClock({ elapsedMinutes }: SimulatedClockProps) {
+    return (
+        <div className="inline-flex items-center gap-1.5 font-mono text-lg font-semibold" title="Simulated time since presentation">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            {formatSimulatedTime(elapsedMinutes)}
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { CaseWithStagesAndOptions } from "@/types/simulator-types";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { CaseDebrief, CaseSessionState, CaseWithStagesAndOptions, DecisionFeedback, HistorySummary } from "@/types/simulator-types";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { PatientPresentation } from "./PatientPresentation";
@@ -9,74 +9,322 @@ import { DecisionPanel } from "./DecisionPanel";
 import { FeedbackDisplay } from "./FeedbackDisplay";
 import { ScoreTracker } from "./ScoreTracker";
 import { StageProgress } from "./StageProgress";
+import { SimulatedClock } from "./SimulatedClock";
+import { DebriefReport } from "./DebriefReport";
+import { InvestigationPanel } from "./InvestigationPanel";
+import { HistoryTakingPanel } from "./HistoryTakingPanel";
+import { Separator } from "@/components/ui/separator";
 import { motion, AnimatePresence } from "framer-motion";
-import { RotateCcw, Trophy, AlertTriangle } from "lucide-react";
+import { RotateCcw, Trophy, AlertTriangle, Loader2 } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import Confetti from "react-confetti";
 import { useWindowSize } from "react-use";
-import { recordAttempt } from "@/actions/student";
+import { getCaseDebrief, orderInvestigation, requestHint, startCaseSession, startStageTimer, submitCaseDecision } from "@/actions/student";
+import { askSimulatedPatient } from "@/actions/ai";
+import { countRemainingStages } from "@/lib/case-graph";
+import { instantiateCaseTemplate } from "@/lib/case-templates";
+import { applyVitalEffects, mergeStageClinicalData, replayClinicalData } from "@/lib/physiology";
+import type { CaseOutcome, ClinicalData, DecisionResponse, InvestigationType } from "@/db/schema";
+import type { TrendSnapshot } from "@/lib/clinical-trends";
+import type { ConfidenceLevel } from "@/lib/calibration";
 
 interface SimulatorPlayerProps {
     medicalCase: CaseWithStagesAndOptions;
 }
 
-export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
-    const [currentStageIndex, setCurrentStageIndex] = useState(0);
+type PendingStep = {
+    nextStageId: number | null;
+    isComplete: boolean;
+    outcome: CaseOutcome | null;
+};
+
+// Rebuild the carried physiology for a resumed session from its recorded decisions
+export function replayVitals(medicalCase: CaseWithStagesAndOptions, decisions: CaseSessionState["decisions"]) {
+    const steps = decisions.map((decision) => {
+        const stage = medicalCase.stages.find(s => s.id === decision.stageId);
+        const option = stage?.options.find(o => o.id === decision.optionId);
+        return { clinicalData: stage?.clinicalData, vitalEffects: option?.vitalEffects };
+    });
+    return replayClinicalData(medicalCase.baselineVitals, steps).carried;
+}
+
+// Clinical data as shown at each stage already decided, for the trend charts
+function previousSnapshots(medicalCase: CaseWithStagesAndOptions, optionIds: number[]): TrendSnapshot[] {
+    const steps = optionIds.flatMap((optionId) => {
+        const stage = medicalCase.stages.find(s => s.options.some(o => o.id === optionId));
+        const option = stage?.options.find(o => o.id === optionId);
+        return stage && option ? [{ stage, option }] : [];
+    });
+    const { shown } = replayClinicalData(
+        medicalCase.baselineVitals,
+        steps.map(({ stage, option }) => ({ clinicalData: stage.clinicalData, vitalEffects: option.vitalEffects }))
+    );
+    return steps.map(({ stage }, index) => ({ label: `Stage ${stage.stageOrder}`, data: shown[index] }));
+}
+
+export function SimulatorPlayer({ medicalCase: template }: SimulatorPlayerProps) {
+    const router = useRouter();
+    const [sessionId, setSessionId] = useState<number | null>(null);
+    // Templated cases are played as the variant the server picked for this session
+    const [variantSeed, setVariantSeed] = useState<number | null>(null);
+    const medicalCase = useMemo(() => instantiateCaseTemplate(template, variantSeed), [template, variantSeed]);
+    const [sessionError, setSessionError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [currentStageId, setCurrentStageId] = useState<number | null>(null);
     const [score, setScore] = useState(0);
     const [showingFeedback, setShowingFeedback] = useState(false);
     const [selectedOptionId, setSelectedOptionId] = useState<number | null>(null);
-    const [selectedOptionIds, setSelectedOptionIds] = useState<Record<number, number>>({});
+    // Option ids in the order they were chosen, mirrored from the server session
+    const [selectedOptionIds, setSelectedOptionIds] = useState<number[]>([]);
+    const [pendingStep, setPendingStep] = useState<PendingStep | null>(null);
+    const [outcome, setOutcome] = useState<CaseOutcome | null>(null);
+    // Physiology carried between stages, starting from the case baseline
+    const [carriedVitals, setCarriedVitals] = useState<ClinicalData | null>(medicalCase.baselineVitals);
+    const [elapsedMinutes, setElapsedMinutes] = useState(0);
     const [isComplete, setIsComplete] = useState(false);
-    const attemptSavedRef = useRef(false);
+    // Investigation results ordered so far, across all stages of the session
+    const [investigations, setInvestigations] = useState<CaseSessionState["investigations"]>([]);
+    // History-taking chat, across all history stages of the session
+    const [historyMessages, setHistoryMessages] = useState<CaseSessionState["historyMessages"]>([]);
+    const [historySummary, setHistorySummary] = useState<HistorySummary | null>(null);
+    // Hints revealed so far, across all stages of the session
+    const [hints, setHints] = useState<CaseSessionState["hints"]>([]);
+    const [decisionFeedback, setDecisionFeedback] = useState<DecisionFeedback | null>(null);
+    const [debrief, setDebrief] = useState<CaseDebrief | null>(null);
+    const [debriefError, setDebriefError] = useState<string | null>(null);
+    // Timed stages: when the current stage was shown, by this browser's clock, and the last countdown tick
+    const [stageStartedAt, setStageStartedAt] = useState<number | null>(null);
+    const [now, setNow] = useState(0);
     const { width, height } = useWindowSize();
 
-    const currentStage = medicalCase.stages[currentStageIndex];
+    const currentStage = medicalCase.stages.find(s => s.id === currentStageId);
+    const currentStageIndex = selectedOptionIds.length - (showingFeedback ? 1 : 0);
+    const totalStages = currentStage
+        ? currentStageIndex + countRemainingStages(medicalCase.stages, currentStage.id)
+        : medicalCase.stages.length;
+    const timeLimitSeconds = currentStage?.timeLimitSeconds ?? null;
+    const secondsRemaining = timeLimitSeconds !== null && stageStartedAt !== null
+        ? Math.max(0, timeLimitSeconds - Math.floor(Math.max(0, now - stageStartedAt) / 1000))
+        : null;
 
-    const handleOptionSelect = (optionId: number) => {
-        const option = currentStage.options.find(o => o.id === optionId);
-        if (!option) return;
+    const applySession = useCallback((session: CaseSessionState) => {
+        setSessionId(session.sessionId);
+        setVariantSeed(session.variantSeed);
+        setCurrentStageId(session.currentStageId);
+        setScore(session.score);
+        setElapsedMinutes(session.elapsedMinutes);
+        setSelectedOptionIds(session.decisions.map(d => d.optionId));
+        setCarriedVitals(replayVitals(instantiateCaseTemplate(template, session.variantSeed), session.decisions));
+        setInvestigations(session.investigations);
+        setHistoryMessages(session.historyMessages);
+        setHints(session.hints);
+        setHistorySummary(null);
+        setDecisionFeedback(null);
+        setShowingFeedback(false);
+        setSelectedOptionId(null);
+        setPendingStep(null);
+        setOutcome(null);
+        setIsComplete(false);
+        setDebrief(null);
+        setDebriefError(null);
+        setSessionError(null);
+        // A resumed stage keeps counting down from where the server says it is
+        const resumedAt = Date.now();
+        setStageStartedAt(resumedAt - session.stageElapsedSeconds * 1000);
+        setNow(resumedAt);
+    }, [template]);
 
-        setScore(prev => prev + option.scoreWeight);
+    // The server owns the session; a refreshed tab resumes where it left off
+    useEffect(() => {
+        let cancelled = false;
+        void startCaseSession(template.id).then((result) => {
+            if (cancelled) return;
+            if (result.success && result.session) {
+                // The page was rendered for another version of the case; reload it for this session's
+                if (result.session.caseVersionId !== template.caseVersionId) {
+                    router.refresh();
+                } else {
+                    applySession(result.session);
+                }
+            } else {
+                setSessionError(result.message);
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [template.id, template.caseVersionId, applySession, router]);
+
+    // Single-choice stages send the option; other decision types send the student's response
+    const handleSubmitDecision = useCallback(async (answer: { optionId?: number; response?: DecisionResponse; timedOut?: true; confidence?: ConfidenceLevel }) => {
+        if (!currentStage || sessionId === null || isSubmitting) return;
+
+        setIsSubmitting(true);
+        const result = await submitCaseDecision({ sessionId, stageId: currentStage.id, ...answer });
+        setIsSubmitting(false);
+
+        if (!result.success || result.optionId === undefined) {
+            setSessionError(result.message);
+            return;
+        }
+
+        // The option the pathway follows, which for multi-select and ordering stages isn't one the student picked
+        const optionId = result.optionId;
+        setSessionError(null);
+        if (result.score !== undefined) setScore(result.score);
         setSelectedOptionId(optionId);
-        setSelectedOptionIds((prev) => ({
-            ...prev,
-            [currentStage.id]: optionId,
-        }));
+        setSelectedOptionIds((prev) => [...prev, optionId]);
+        setHistorySummary(result.history ?? null);
+        setDecisionFeedback(result.decision ?? null);
+        setPendingStep({
+            nextStageId: result.nextStageId ?? null,
+            isComplete: Boolean(result.isComplete),
+            outcome: result.outcome ?? null,
+        });
         setShowingFeedback(true);
+    }, [currentStage, sessionId, isSubmitting]);
+
+    // Count down timed stages; when time runs out the server records "no decision"
+    useEffect(() => {
+        if (timeLimitSeconds === null || stageStartedAt === null || showingFeedback) return;
+
+        const deadline = stageStartedAt + timeLimitSeconds * 1000;
+        const timer = setInterval(() => {
+            const tick = Date.now();
+            setNow(tick);
+            if (tick >= deadline) {
+                clearInterval(timer);
+                void handleSubmitDecision({ timedOut: true });
+            }
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [timeLimitSeconds, stageStartedAt, showingFeedback, handleSubmitDecision]);
+
+    const handleOrderInvestigation = async (investigation: InvestigationType) => {
+        if (!currentStage || sessionId === null || isSubmitting) return;
+
+        setIsSubmitting(true);
+        const result = await orderInvestigation({ sessionId, stageId: currentStage.id, investigation });
+        setIsSubmitting(false);
+
+        if (!result.success || result.result === undefined) {
+            setSessionError(result.message);
+            return;
+        }
+
+        const orderedResult = result.result;
+        setSessionError(null);
+        setInvestigations((prev) => [...prev, { stageId: currentStage.id, investigation, result: orderedResult }]);
+        if (result.score !== undefined) setScore(result.score);
+        if (result.elapsedMinutes !== undefined) setElapsedMinutes(result.elapsedMinutes);
+    };
+
+    const handleRequestHint = async () => {
+        if (!currentStage || sessionId === null || isSubmitting) return;
+
+        setIsSubmitting(true);
+        const result = await requestHint({ sessionId, stageId: currentStage.id });
+        setIsSubmitting(false);
+
+        if (!result.success || !result.hint) {
+            setSessionError(result.message);
+            return;
+        }
+
+        const hint = result.hint;
+        setSessionError(null);
+        setHints((prev) => [...prev, { stageId: currentStage.id, ...hint }]);
+        if (result.score !== undefined) setScore(result.score);
+    };
+
+    const handleAskPatient = async (message: string) => {
+        if (!currentStage || sessionId === null) return false;
+
+        const stageId = currentStage.id;
+        const result = await askSimulatedPatient({ sessionId, stageId, message });
+
+        if (!result.success || result.reply === undefined) {
+            setSessionError(result.message);
+            return false;
+        }
+
+        const reply = result.reply;
+        setSessionError(null);
+        setHistoryMessages((prev) => [
+            ...prev,
+            { stageId, role: "student", content: message },
+            { stageId, role: "patient", content: reply },
+        ]);
+        return true;
     };
 
     const handleNextStage = () => {
+        if (!selectedOption || !pendingStep) return;
+
+        setCarriedVitals(liveClinicalData);
+        setElapsedMinutes(prev => prev + selectedOption.durationMinutes);
         setShowingFeedback(false);
         setSelectedOptionId(null);
+        setPendingStep(null);
+        setHistorySummary(null);
+        setDecisionFeedback(null);
 
-        if (currentStageIndex < medicalCase.stages.length - 1) {
-            setCurrentStageIndex(prev => prev + 1);
-        } else {
+        if (pendingStep.isComplete) {
+            setOutcome(pendingStep.outcome);
             setIsComplete(true);
+            if (sessionId !== null) {
+                void getCaseDebrief(sessionId).then((result) => {
+                    if (result.success && result.data) {
+                        setDebrief(result.data);
+                    } else {
+                        setDebriefError(result.message);
+                    }
+                });
+            }
+        } else {
+            setCurrentStageId(pendingStep.nextStageId);
+            const shownAt = Date.now();
+            setStageStartedAt(shownAt);
+            setNow(shownAt);
+            if (sessionId !== null) void startStageTimer(sessionId);
         }
     };
 
-    const handleRestart = () => {
-        setCurrentStageIndex(0);
-        setScore(0);
-        setShowingFeedback(false);
-        setSelectedOptionId(null);
-        setIsComplete(false);
-        attemptSavedRef.current = false;
-        setSelectedOptionIds({});
+    const handleRestart = async () => {
+        setSessionId(null);
+        const result = await startCaseSession(medicalCase.id, { restart: true });
+        if (result.success && result.session) {
+            // A restart plays the live version, which may be newer than the one on screen
+            if (result.session.caseVersionId !== template.caseVersionId) {
+                router.refresh();
+            } else {
+                applySession(result.session);
+            }
+        } else {
+            setSessionError(result.message);
+        }
     };
 
-    useEffect(() => {
-        if (!isComplete || attemptSavedRef.current) return;
-        attemptSavedRef.current = true;
-        void recordAttempt(medicalCase.id, Object.values(selectedOptionIds)).catch((error) => {
-            console.error("Failed to save attempt:", error);
-        });
-    }, [isComplete, medicalCase.id, selectedOptionIds]);
+    const selectedOption = currentStage?.options.find(o => o.id === selectedOptionId);
+    const stageInvestigations = investigations.filter(row => row.stageId === currentStage?.id);
+    const stageHistoryMessages = historyMessages.filter(row => row.stageId === currentStage?.id);
+
+    // Stage values override the carried vitals; once a decision is made its effects show immediately
+    const stageClinicalData = mergeStageClinicalData(carriedVitals, currentStage?.clinicalData);
+    const liveClinicalData = showingFeedback && selectedOption
+        ? applyVitalEffects(stageClinicalData, selectedOption.vitalEffects)
+        : stageClinicalData;
+    const trend: TrendSnapshot[] = currentStage
+        ? [
+            ...previousSnapshots(medicalCase, selectedOptionIds.slice(0, currentStageIndex)),
+            { label: `Stage ${currentStage.stageOrder}`, data: liveClinicalData },
+        ]
+        : [];
 
     if (isComplete) {
         return (
-            <div className="max-w-2xl mx-auto py-12 px-4 text-center space-y-8">
+            <div className="max-w-3xl mx-auto py-12 px-4 text-center space-y-8">
                 {score > 0 && <Confetti width={width} height={height} recycle={false} numberOfPieces={500} />}
 
                 <motion.div
@@ -93,6 +341,15 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                         You have finished the simulation for &quot;{medicalCase.title}&quot;
                     </p>
 
+                    {outcome && (
+                        <p className="mb-6 text-sm">
+                            <span className="font-medium text-muted-foreground uppercase tracking-wider mr-2">Patient Outcome</span>
+                            <span className={`px-2 py-0.5 rounded font-medium capitalize ${outcome === "deteriorated" || outcome === "deceased" ? "bg-destructive/10 text-destructive" : "bg-primary/10 text-primary"}`}>
+                                {outcome}
+                            </span>
+                        </p>
+                    )}
+
                     <div className="flex flex-col items-center justify-center bg-muted/50 rounded-lg p-6 mb-8 max-w-xs mx-auto">
                         <span className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-1">Final Score</span>
                         <span className={`text-5xl font-bold font-mono ${score >= 0 ? 'text-primary' : 'text-destructive'}`}>
@@ -110,6 +367,35 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                         </Button>
                     </div>
                 </motion.div>
+
+                {debrief ? (
+                    <DebriefReport debrief={debrief} />
+                ) : debriefError ? (
+                    <p className="text-sm text-muted-foreground">{debriefError}</p>
+                ) : (
+                    <div className="flex justify-center text-muted-foreground">
+                        <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    if (sessionId === null) {
+        if (sessionError) {
+            return (
+                <div className="p-12 text-center">
+                    <AlertTriangle className="mx-auto h-12 w-12 text-amber-500 mb-4" />
+                    <h3 className="text-xl font-bold">Unable to Start Simulation</h3>
+                    <p className="text-muted-foreground">{sessionError}</p>
+                    <Button onClick={() => window.location.reload()} className="mt-4">Reload Page</Button>
+                </div>
+            );
+        }
+
+        return (
+            <div className="p-12 flex justify-center text-muted-foreground">
+                <Loader2 className="h-8 w-8 animate-spin" />
             </div>
         );
     }
@@ -125,8 +411,6 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
         );
     }
 
-    const selectedOption = currentStage.options.find(o => o.id === selectedOptionId);
-
     return (
         <div className="max-w-4xl mx-auto py-6 px-4 space-y-8 pb-32">
             {/* Header */}
@@ -145,6 +429,10 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                 </div>
 
                 <div className="flex items-center gap-6">
+                    <div className="text-right hidden sm:block">
+                        <div className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Clock</div>
+                        <SimulatedClock elapsedMinutes={elapsedMinutes} />
+                    </div>
                     <div className="text-right hidden sm:block">
                         <div className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Current Score</div>
                         <ScoreTracker score={score} />
@@ -152,7 +440,9 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                     <div className="w-[120px]">
                         <StageProgress
                             currentStageIndex={currentStageIndex}
-                            totalStages={medicalCase.stages.length}
+                            totalStages={totalStages}
+                            timeLimitSeconds={timeLimitSeconds}
+                            secondsRemaining={secondsRemaining}
                         />
                     </div>
                 </div>
@@ -170,7 +460,12 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                             transition={{ duration: 0.3 }}
                         >
                             <Card className="p-6 border-l-4 border-l-primary shadow-sm">
-                                <PatientPresentation stage={currentStage} />
+                                <PatientPresentation
+                                    stage={{ ...currentStage, clinicalData: liveClinicalData }}
+                                    investigations={stageInvestigations}
+                                    patient={medicalCase.patientDemographics}
+                                    trend={trend}
+                                />
                             </Card>
                         </motion.div>
                     </AnimatePresence>
@@ -179,7 +474,7 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                 {/* Interaction Area (Right/Bottom) */}
                 <div className="space-y-6">
                     <AnimatePresence mode="wait">
-                        {showingFeedback && selectedOption ? (
+                        {showingFeedback && decisionFeedback ? (
                             <motion.div
                                 key="feedback"
                                 initial={{ opacity: 0, y: 20 }}
@@ -187,8 +482,11 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                                 exit={{ opacity: 0, y: -20 }}
                             >
                                 <FeedbackDisplay
-                                    selectedOption={selectedOption}
                                     onContinue={handleNextStage}
+                                    isFinalStep={Boolean(pendingStep?.isComplete)}
+                                    history={historySummary}
+                                    decision={decisionFeedback}
+                                    options={currentStage.options}
                                 />
                             </motion.div>
                         ) : (
@@ -199,10 +497,38 @@ export function SimulatorPlayer({ medicalCase }: SimulatorPlayerProps) {
                                 exit={{ opacity: 0, y: -20 }}
                             >
                                 <Card className="p-6">
+                                    {sessionError && (
+                                        <p className="mb-4 rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                                            {sessionError}
+                                        </p>
+                                    )}
+                                    {currentStage.stageType === "history" && (
+                                        <>
+                                            <HistoryTakingPanel
+                                                openingStatement={currentStage.patientOpening}
+                                                messages={stageHistoryMessages}
+                                                onAsk={handleAskPatient}
+                                                disabled={showingFeedback || isSubmitting}
+                                            />
+                                            <Separator className="my-6" />
+                                        </>
+                                    )}
+                                    <InvestigationPanel
+                                        ordered={stageInvestigations.map(row => row.investigation)}
+                                        onOrder={handleOrderInvestigation}
+                                        disabled={showingFeedback || isSubmitting}
+                                    />
+                                    <Separator className="my-6" />
                                     <DecisionPanel
+                                        key={currentStage.id}
+                                        decisionType={currentStage.decisionType}
                                         options={currentStage.options}
-                                        onSelectOption={handleOptionSelect}
-                                        disabled={showingFeedback}
+                                        onSelectOption={(optionId, confidence) => handleSubmitDecision({ optionId, confidence })}
+                                        onSubmitResponse={(response, confidence) => handleSubmitDecision({ response, confidence })}
+                                        hints={hints.filter(row => row.stageId === currentStage.id).map(row => row.text)}
+                                        hintCosts={currentStage.hintCosts}
+                                        onRequestHint={handleRequestHint}
+                                        disabled={showingFeedback || isSubmitting}
                                     />
                                 </Card>
                             </motion.div>
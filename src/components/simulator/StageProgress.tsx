@@ -1,13 +1,19 @@
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle2, Circle } from "lucide-react";
+import { CheckCircle2, Circle, Timer } from "lucide-react";
+import { formatCountdown } from "@/lib/timed-stages";
 
 interface StageProgressProps {
     currentStageIndex: number;
     totalStages: number;
+    timeLimitSeconds?: number | null; // Set on timed stages
+    secondsRemaining?: number | null;
 }
 
-export function StageProgress({ currentStageIndex, totalStages }: StageProgressProps) {
+export function StageProgress({ currentStageIndex, totalStages, timeLimitSeconds = null, secondsRemaining = null }: StageProgressProps) {
     const progressPercentage = ((currentStageIndex + 1) / totalStages) * 100;
+    const isTimed = timeLimitSeconds !== null && secondsRemaining !== null;
+    // The last fifth of the time, or ten seconds, whichever is longer
+    const isRunningOut = isTimed && secondsRemaining <= Math.max(10, timeLimitSeconds / 5);
 
     return (
         <div className="space-y-2">
@@ -30,6 +36,17 @@ export function StageProgress({ currentStageIndex, totalStages }: StageProgressP
                     </div>
                 ))}
             </div>
+
+            {isTimed && (
+                <div
+                    className={`flex items-center justify-center gap-1 text-sm font-mono font-semibold ${isRunningOut ? "text-destructive animate-pulse" : "text-muted-foreground"}`}
+                    role="timer"
+                    aria-label="Time left to decide"
+                >
+                    <Timer className="h-4 w-4" />
+                    {formatCountdown(secondsRemaining)}
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,100 @@
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Crown, Send, Users } from "lucide-react";
+import { teamRoleLabels } from "@/lib/team-sessions";
+import type { TeamSessionState } from "@/types/simulator-types";
+
+interface TeamPanelProps {
+    members: TeamSessionState["members"];
+    messages: TeamSessionState["messages"];
+    currentUserId: string;
+    onSend: (content: string) => Promise<boolean>; // Resolves false when the message wasn't sent
+    disabled: boolean;
+}
+
+export function TeamPanel({ members, messages, currentUserId, onSend, disabled }: TeamPanelProps) {
+    const [draft, setDraft] = useState("");
+    const [isSending, setIsSending] = useState(false);
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+        const content = draft.trim();
+        if (!content || disabled || isSending) return;
+
+        setIsSending(true);
+        const sent = await onSend(content);
+        setIsSending(false);
+        if (sent) setDraft("");
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                    <Users className="h-5 w-5 text-primary" />
+                    Team
+                </h3>
+                <ul className="space-y-1">
+                    {members.map((member) => (
+                        <li key={member.userId} className="flex items-center justify-between text-sm">
+                            <span className="flex items-center gap-2">
+                                {member.role === "lead" && <Crown className="h-4 w-4 text-amber-500" />}
+                                {member.name}
+                                {member.userId === currentUserId && <span className="text-muted-foreground">(you)</span>}
+                            </span>
+                            <Badge variant={member.role === "lead" ? "default" : "secondary"}>{teamRoleLabels[member.role]}</Badge>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            <div className="space-y-3">
+                <div>
+                    <h3 className="text-lg font-semibold">Team Chat</h3>
+                    <p className="text-sm text-muted-foreground">
+                        Talk it through here. The team lead commits each decision.
+                    </p>
+                </div>
+
+                <ScrollArea className="h-72 rounded-md border p-3">
+                    <div className="space-y-3">
+                        {messages.length === 0 && (
+                            <p className="text-sm text-muted-foreground text-center py-8">No messages yet.</p>
+                        )}
+                        {messages.map((message) => {
+                            const isMine = message.userId === currentUserId;
+                            return (
+                                <div key={message.id} className={`flex flex-col ${isMine ? "items-end" : "items-start"}`}>
+                                    {!isMine && <span className="text-xs text-muted-foreground mb-0.5">{message.name}</span>}
+                                    <div
+                                        className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                                            isMine ? "bg-primary text-primary-foreground" : "bg-muted"
+                                        }`}
+                                    >
+                                        {message.content}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </ScrollArea>
+
+                <form onSubmit={handleSubmit} className="flex gap-2">
+                    <Input
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder="Message your team"
+                        maxLength={500}
+                        disabled={disabled || isSending}
+                    />
+                    <Button type="submit" size="icon" disabled={disabled || isSending || !draft.trim()}>
+                        <Send className="h-4 w-4" />
+                    </Button>
+                </form>
+            </div>
+        </div>
+    );
+}
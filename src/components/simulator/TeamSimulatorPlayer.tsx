@@ -0,0 +1,473 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { CaseDebrief, CaseWithStagesAndOptions, DecisionFeedback, HistorySummary, TeamSessionState } from "@/types/simulator-types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { PatientPresentation } from "./PatientPresentation";
+import { DecisionPanel } from "./DecisionPanel";
+import { FeedbackDisplay } from "./FeedbackDisplay";
+import { ScoreTracker } from "./ScoreTracker";
+import { StageProgress } from "./StageProgress";
+import { SimulatedClock } from "./SimulatedClock";
+import { DebriefReport } from "./DebriefReport";
+import { InvestigationPanel } from "./InvestigationPanel";
+import { HistoryTakingPanel } from "./HistoryTakingPanel";
+import { TeamPanel } from "./TeamPanel";
+import { replayVitals } from "./SimulatorPlayer";
+import { AlertTriangle, Loader2, Trophy, Users } from "lucide-react";
+import { getCaseDebrief, orderInvestigation, requestHint, startStageTimer, submitCaseDecision } from "@/actions/student";
+import { askSimulatedPatient } from "@/actions/ai";
+import { leaveTeamSession, sendTeamMessage, startTeamSession } from "@/actions/team";
+import { countRemainingStages } from "@/lib/case-graph";
+import { instantiateCaseTemplate } from "@/lib/case-templates";
+import { applyVitalEffects, mergeStageClinicalData } from "@/lib/physiology";
+import { TEAM_MIN_MEMBERS } from "@/lib/team-sessions";
+import type { DecisionResponse, InvestigationType, TeamRole } from "@/db/schema";
+import type { ConfidenceLevel } from "@/lib/calibration";
+
+interface TeamSimulatorPlayerProps {
+    medicalCase: CaseWithStagesAndOptions;
+    initialTeam: TeamSessionState;
+    currentUserId: string;
+    role: TeamRole;
+}
+
+// The lead reads a decision's feedback before the team moves on
+type LeadFeedback = {
+    stageId: number;
+    optionId: number;
+    decisionIndex: number; // How many decisions came before this one
+    decision: DecisionFeedback | null;
+    history: HistorySummary | null;
+    isComplete: boolean;
+};
+
+export function TeamSimulatorPlayer({ medicalCase: template, initialTeam, currentUserId, role }: TeamSimulatorPlayerProps) {
+    const router = useRouter();
+    const [team, setTeam] = useState(initialTeam);
+    // When the latest state arrived, by this browser's clock, for the stage countdown
+    const [receivedAt, setReceivedAt] = useState(() => Date.now());
+    const [now, setNow] = useState(() => Date.now());
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [feedback, setFeedback] = useState<LeadFeedback | null>(null);
+    const [debrief, setDebrief] = useState<CaseDebrief | null>(null);
+    const [debriefError, setDebriefError] = useState<string | null>(null);
+
+    const isLead = role === "lead";
+    const session = team.session;
+    const hasEnded = team.status === "completed" || team.status === "abandoned";
+
+    // The server pushes the whole team state whenever anything changes
+    useEffect(() => {
+        if (hasEnded) return;
+
+        const source = new EventSource(`/api/team-sessions/${team.teamSessionId}/events`);
+        source.addEventListener("team", (event) => {
+            const next = JSON.parse((event as MessageEvent<string>).data) as TeamSessionState;
+            setTeam(next);
+            setReceivedAt(Date.now());
+            if (next.status === "completed" || next.status === "abandoned") source.close();
+        });
+        return () => source.close();
+    }, [team.teamSessionId, hasEnded]);
+
+    const sessionId = session?.sessionId ?? null;
+    // Every teammate sees the variant the shared session was started with
+    const variantSeed = session?.variantSeed ?? null;
+    const medicalCase = useMemo(() => instantiateCaseTemplate(template, variantSeed), [template, variantSeed]);
+    const currentStage = medicalCase.stages.find(s => s.id === session?.currentStageId);
+    const decisions = session?.decisions ?? [];
+
+    // While the lead reads feedback the stage just decided stays on screen
+    const shownStage = feedback
+        ? medicalCase.stages.find(s => s.id === feedback.stageId)
+        : currentStage;
+    const shownDecisions = feedback ? decisions.slice(0, feedback.decisionIndex) : decisions;
+    const feedbackOption = feedback ? shownStage?.options.find(o => o.id === feedback.optionId) : undefined;
+    const stageClinicalData = mergeStageClinicalData(replayVitals(medicalCase, shownDecisions), shownStage?.clinicalData);
+    const liveClinicalData = feedbackOption ? applyVitalEffects(stageClinicalData, feedbackOption.vitalEffects) : stageClinicalData;
+
+    // What the team last decided, for members following along
+    const lastDecision = decisions[decisions.length - 1];
+    const lastDecisionOption = lastDecision
+        ? medicalCase.stages.find(s => s.id === lastDecision.stageId)?.options.find(o => o.id === lastDecision.optionId)
+        : undefined;
+
+    const currentStageIndex = shownDecisions.length;
+    const totalStages = shownStage
+        ? currentStageIndex + countRemainingStages(medicalCase.stages, shownStage.id)
+        : medicalCase.stages.length;
+    const timeLimitSeconds = feedback ? null : currentStage?.timeLimitSeconds ?? null;
+    const secondsRemaining = timeLimitSeconds !== null && session
+        ? Math.max(0, timeLimitSeconds - session.stageElapsedSeconds - Math.floor(Math.max(0, now - receivedAt) / 1000))
+        : null;
+
+    const handleSubmitDecision = useCallback(async (answer: { optionId?: number; response?: DecisionResponse; timedOut?: true; confidence?: ConfidenceLevel }) => {
+        if (!isLead || !currentStage || sessionId === null || isSubmitting) return;
+
+        setIsSubmitting(true);
+        const result = await submitCaseDecision({ sessionId, stageId: currentStage.id, ...answer });
+        setIsSubmitting(false);
+
+        if (!result.success || result.optionId === undefined) {
+            setError(result.message);
+            return;
+        }
+
+        setError(null);
+        setFeedback({
+            stageId: currentStage.id,
+            optionId: result.optionId,
+            decisionIndex: decisions.length,
+            decision: result.decision ?? null,
+            history: result.history ?? null,
+            isComplete: Boolean(result.isComplete),
+        });
+    }, [isLead, currentStage, sessionId, isSubmitting, decisions.length]);
+
+    // Count down timed stages; when time runs out the lead's browser reports "no decision"
+    const stageElapsedSeconds = session?.stageElapsedSeconds ?? 0;
+    useEffect(() => {
+        if (timeLimitSeconds === null || team.status !== "active") return;
+
+        const deadline = receivedAt + (timeLimitSeconds - stageElapsedSeconds) * 1000;
+        const timer = setInterval(() => {
+            const tick = Date.now();
+            setNow(tick);
+            if (tick >= deadline) {
+                clearInterval(timer);
+                if (isLead) void handleSubmitDecision({ timedOut: true });
+            }
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [timeLimitSeconds, team.status, receivedAt, stageElapsedSeconds, isLead, handleSubmitDecision]);
+
+    // Teammates get the same debrief once the case is over
+    useEffect(() => {
+        if (team.status !== "completed" || sessionId === null || feedback) return;
+
+        let cancelled = false;
+        void getCaseDebrief(sessionId).then((result) => {
+            if (cancelled) return;
+            if (result.success && result.data) {
+                setDebrief(result.data);
+            } else {
+                setDebriefError(result.message);
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [team.status, sessionId, feedback]);
+
+    const handleStart = async () => {
+        setIsSubmitting(true);
+        const result = await startTeamSession(team.teamSessionId);
+        setIsSubmitting(false);
+
+        if (!result.success || !result.team) {
+            setError(result.message);
+            return;
+        }
+
+        setError(null);
+        setTeam(result.team);
+        setReceivedAt(Date.now());
+    };
+
+    const handleLeave = async () => {
+        const result = await leaveTeamSession(team.teamSessionId);
+        if (!result.success) {
+            setError(result.message);
+            return;
+        }
+        router.push("/teams");
+    };
+
+    const handleSendMessage = async (content: string) => {
+        const result = await sendTeamMessage({ teamSessionId: team.teamSessionId, content });
+        if (!result.success) {
+            setError(result.message);
+            return false;
+        }
+        setError(null);
+        return true;
+    };
+
+    const handleOrderInvestigation = async (investigation: InvestigationType) => {
+        if (!currentStage || sessionId === null || isSubmitting) return;
+
+        setIsSubmitting(true);
+        const result = await orderInvestigation({ sessionId, stageId: currentStage.id, investigation });
+        setIsSubmitting(false);
+        setError(result.success ? null : result.message);
+    };
+
+    const handleRequestHint = async () => {
+        if (!currentStage || sessionId === null || isSubmitting) return;
+
+        setIsSubmitting(true);
+        const result = await requestHint({ sessionId, stageId: currentStage.id });
+        setIsSubmitting(false);
+        setError(result.success ? null : result.message);
+    };
+
+    const handleAskPatient = async (message: string) => {
+        if (!currentStage || sessionId === null) return false;
+
+        const result = await askSimulatedPatient({ sessionId, stageId: currentStage.id, message });
+        setError(result.success ? null : result.message);
+        return result.success;
+    };
+
+    const handleContinue = () => {
+        if (!feedback) return;
+
+        const wasComplete = feedback.isComplete;
+        setFeedback(null);
+        // Reading feedback doesn't count against the next stage's time limit
+        if (!wasComplete && sessionId !== null) void startStageTimer(sessionId);
+    };
+
+    const teamPanel = (
+        <Card className="p-6">
+            <TeamPanel
+                members={team.members}
+                messages={team.messages}
+                currentUserId={currentUserId}
+                onSend={handleSendMessage}
+                disabled={hasEnded}
+            />
+        </Card>
+    );
+
+    const errorBanner = error && (
+        <p className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+        </p>
+    );
+
+    if (team.status === "lobby") {
+        const canStart = team.members.length >= TEAM_MIN_MEMBERS;
+        return (
+            <div className="max-w-4xl mx-auto py-10 px-4 grid grid-cols-1 md:grid-cols-2 gap-8">
+                <Card className="p-6 space-y-6">
+                    <div>
+                        <h1 className="text-2xl font-bold">{medicalCase.title}</h1>
+                        <p className="text-sm text-muted-foreground">{medicalCase.clinicalDomain} • {medicalCase.difficultyLevel}</p>
+                    </div>
+                    <div className="rounded-lg bg-muted/50 p-6 text-center">
+                        <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Join Code</p>
+                        <p className="text-4xl font-mono font-bold tracking-[0.3em]">{team.joinCode}</p>
+                        <p className="text-sm text-muted-foreground mt-2">Teammates join at /teams with this code</p>
+                    </div>
+                    {errorBanner}
+                    {isLead ? (
+                        <Button onClick={handleStart} disabled={!canStart || isSubmitting} className="w-full gap-2" size="lg">
+                            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Users className="h-4 w-4" />}
+                            {canStart ? "Start Case" : "Waiting for teammates…"}
+                        </Button>
+                    ) : (
+                        <p className="text-sm text-muted-foreground text-center">Waiting for the team lead to start the case…</p>
+                    )}
+                    <Button variant="outline" onClick={handleLeave} className="w-full">
+                        {isLead ? "Close Team" : "Leave Team"}
+                    </Button>
+                </Card>
+                {teamPanel}
+            </div>
+        );
+    }
+
+    if (team.status === "abandoned") {
+        return (
+            <div className="p-12 text-center">
+                <AlertTriangle className="mx-auto h-12 w-12 text-amber-500 mb-4" />
+                <h3 className="text-xl font-bold">Team Session Ended</h3>
+                <p className="text-muted-foreground">The team lead closed this session.</p>
+                <Link href="/teams">
+                    <Button className="mt-4">Back to Teams</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    if (team.status === "completed" && !feedback) {
+        return (
+            <div className="max-w-3xl mx-auto py-12 px-4 text-center space-y-8">
+                <div className="bg-card border rounded-xl p-12 shadow-lg">
+                    <div className="mx-auto w-24 h-24 bg-primary/10 rounded-full flex items-center justify-center mb-6">
+                        <Trophy className="w-12 h-12 text-primary" />
+                    </div>
+                    <h2 className="text-3xl font-bold mb-2">Case Completed!</h2>
+                    <p className="text-muted-foreground mb-8 text-lg">
+                        Your team finished &quot;{medicalCase.title}&quot;. The attempt is recorded for every teammate.
+                    </p>
+                    {session?.outcome && (
+                        <p className="mb-6 text-sm">
+                            <span className="font-medium text-muted-foreground uppercase tracking-wider mr-2">Patient Outcome</span>
+                            <span className={`px-2 py-0.5 rounded font-medium capitalize ${session.outcome === "deteriorated" || session.outcome === "deceased" ? "bg-destructive/10 text-destructive" : "bg-primary/10 text-primary"}`}>
+                                {session.outcome}
+                            </span>
+                        </p>
+                    )}
+                    <div className="flex flex-col items-center justify-center bg-muted/50 rounded-lg p-6 mb-8 max-w-xs mx-auto">
+                        <span className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-1">Team Score</span>
+                        <span className={`text-5xl font-bold font-mono ${(session?.score ?? 0) >= 0 ? "text-primary" : "text-destructive"}`}>
+                            {session?.score ?? 0}
+                        </span>
+                    </div>
+                    <div className="flex gap-4 justify-center">
+                        <Link href="/cases">
+                            <Button variant="outline" size="lg">Exit to Cases</Button>
+                        </Link>
+                        <Link href="/performance">
+                            <Button size="lg">View Performance</Button>
+                        </Link>
+                    </div>
+                </div>
+
+                {debrief ? (
+                    <DebriefReport debrief={debrief} />
+                ) : debriefError ? (
+                    <p className="text-sm text-muted-foreground">{debriefError}</p>
+                ) : (
+                    <div className="flex justify-center text-muted-foreground">
+                        <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    if (!session || !shownStage) {
+        return (
+            <div className="p-12 flex justify-center text-muted-foreground">
+                <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+        );
+    }
+
+    const lead = team.members.find(member => member.role === "lead");
+    const stageInvestigations = session.investigations.filter(row => row.stageId === shownStage.id);
+    const stageHistoryMessages = session.historyMessages.filter(row => row.stageId === shownStage.id);
+
+    return (
+        <div className="max-w-6xl mx-auto py-6 px-4 space-y-8 pb-32">
+            {/* Header */}
+            <div className="flex items-center justify-between sticky top-0 bg-background/95 backdrop-blur z-10 py-4 border-b">
+                <div>
+                    <h1 className="text-xl font-bold truncate max-w-[200px] md:max-w-md">
+                        {medicalCase.title}
+                    </h1>
+                    <div className="text-sm text-muted-foreground flex items-center gap-2">
+                        <span className="px-2 py-0.5 bg-primary/10 text-primary rounded text-xs font-medium">
+                            Team • {isLead ? "You lead" : `${lead?.name ?? "Lead"} leads`}
+                        </span>
+                        <span>•</span>
+                        <span>{medicalCase.clinicalDomain}</span>
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-6">
+                    <div className="text-right hidden sm:block">
+                        <div className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Clock</div>
+                        <SimulatedClock elapsedMinutes={session.elapsedMinutes} />
+                    </div>
+                    <div className="text-right hidden sm:block">
+                        <div className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Team Score</div>
+                        <ScoreTracker score={session.score} />
+                    </div>
+                    <div className="w-[120px]">
+                        <StageProgress
+                            currentStageIndex={currentStageIndex}
+                            totalStages={totalStages}
+                            timeLimitSeconds={timeLimitSeconds}
+                            secondsRemaining={secondsRemaining}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-2 space-y-6">
+                    <Card className="p-6 border-l-4 border-l-primary shadow-sm">
+                        <PatientPresentation
+                            stage={{ ...shownStage, clinicalData: liveClinicalData }}
+                            investigations={stageInvestigations}
+                            patient={medicalCase.patientDemographics}
+                        />
+                    </Card>
+
+                    {feedback?.decision ? (
+                        <FeedbackDisplay
+                            onContinue={handleContinue}
+                            isFinalStep={feedback.isComplete}
+                            history={feedback.history}
+                            decision={feedback.decision}
+                            options={shownStage.options}
+                        />
+                    ) : (
+                        <Card className="p-6">
+                            {errorBanner && <div className="mb-4">{errorBanner}</div>}
+                            {!isLead && lastDecisionOption && (
+                                <div className="mb-6 rounded-lg bg-muted/50 p-4 text-sm space-y-1">
+                                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Team&apos;s last decision</p>
+                                    <p className="font-medium">{lastDecisionOption.text}</p>
+                                    <p className="text-muted-foreground">{lastDecision.feedback}</p>
+                                </div>
+                            )}
+                            {!isLead && (
+                                <p className="mb-6 text-sm text-muted-foreground">
+                                    {lead?.name ?? "The team lead"} orders investigations and commits the decision. Share your reasoning in the team chat.
+                                </p>
+                            )}
+                            {shownStage.stageType === "history" && (
+                                <>
+                                    <HistoryTakingPanel
+                                        openingStatement={shownStage.patientOpening}
+                                        messages={stageHistoryMessages}
+                                        onAsk={handleAskPatient}
+                                        disabled={!isLead || isSubmitting}
+                                    />
+                                    <Separator className="my-6" />
+                                </>
+                            )}
+                            <InvestigationPanel
+                                ordered={stageInvestigations.map(row => row.investigation)}
+                                onOrder={handleOrderInvestigation}
+                                disabled={!isLead || isSubmitting}
+                            />
+                            <Separator className="my-6" />
+                            <DecisionPanel
+                                key={shownStage.id}
+                                decisionType={shownStage.decisionType}
+                                options={shownStage.options}
+                                onSelectOption={(optionId, confidence) => handleSubmitDecision({ optionId, confidence })}
+                                onSubmitResponse={(response, confidence) => handleSubmitDecision({ response, confidence })}
+                                hints={session.hints.filter(row => row.stageId === shownStage.id).map(row => row.text)}
+                                hintCosts={shownStage.hintCosts}
+                                onRequestHint={handleRequestHint}
+                                disabled={!isLead || isSubmitting}
+                            />
+                        </Card>
+                    )}
+                </div>
+
+                <div className="space-y-6">
+                    {teamPanel}
+                    {isLead && (
+                        <Button variant="outline" onClick={handleLeave} className="w-full">
+                            End Team Session
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PatientDemographics } from "@/db/schema";
+import { buildTrendSeries, type TrendSnapshot } from "@/lib/clinical-trends";
+import { getReferenceRange } from "@/lib/reference-ranges";
+
+interface VitalTrendsProps {
+    snapshots: TrendSnapshot[]; // Oldest first, ending with the current stage
+    patient?: PatientDemographics | null;
+}
+
+const trendLabels: Record<string, string> = {
+    SBP: "Systolic BP",
+    DBP: "Diastolic BP",
+};
+
+export function VitalTrends({ snapshots, patient = null }: VitalTrendsProps) {
+    const [open, setOpen] = useState(false);
+    const series = buildTrendSeries(snapshots);
+    if (series.length === 0) return null;
+
+    return (
+        <div className="mt-4 pt-4 border-t">
+            <Button variant="ghost" size="sm" className="px-0 text-muted-foreground" onClick={() => setOpen(!open)}>
+                <TrendingUp className="h-4 w-4 mr-1" />
+                {open ? "Hide trends" : `Show trends (${series.length})`}
+            </Button>
+
+            {open && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-2">
+                    {series.map(({ parameter, points }) => {
+                        const range = getReferenceRange(parameter, patient);
+                        return (
+                            <div key={parameter}>
+                                <p className="text-xs font-semibold text-muted-foreground mb-1">
+                                    {trendLabels[parameter] ?? parameter}
+                                    {range?.unit && <span className="font-normal"> ({range.unit})</span>}
+                                </p>
+                                <div className="h-[140px] w-full">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <LineChart data={points} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                            {/* Shaded band is the patient's reference range */}
+                                            {range && (
+                                                <ReferenceArea y1={range.low} y2={range.high} fill="#10b981" fillOpacity={0.1} ifOverflow="extendDomain" />
+                                            )}
+                                            <XAxis dataKey="label" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+                                            <YAxis domain={["auto", "auto"]} tick={{ fill: '#9ca3af', fontSize: 10 }} />
+                                            <Tooltip
+                                                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                                            />
+                                            <Line
+                                                type="monotone"
+                                                dataKey="value"
+                                                name={trendLabels[parameter] ?? parameter}
+                                                stroke="#2563eb"
+                                                strokeWidth={2}
+                                                dot={{ r: 3 }}
+                                                connectNulls
+                                            />
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -83,6 +83,21 @@ export function SiteHeader({ transparentAtTopOnHome = true }: SiteHeaderProps) {
                 UKMLA
               </Button>
             </Link>
+            <Link href="/teams">
+              <Button variant="ghost" size="sm">
+                Teams
+              </Button>
+            </Link>
+            <Link href="/classroom">
+              <Button variant="ghost" size="sm">
+                Classroom
+              </Button>
+            </Link>
+            <Link href="/osce">
+              <Button variant="ghost" size="sm">
+                OSCE
+              </Button>
+            </Link>
             <Link href="/rivision">
               <Button variant="ghost" size="sm">
                 Rivision
@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Play } from 'lucide-react';
+import { startOsceSession } from '@/actions/osce';
+import { Button } from '@/components/ui/button';
+
+type StartOsceStationButtonProps = {
+    stationId: number;
+};
+
+export function StartOsceStationButton({ stationId }: StartOsceStationButtonProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+
+    const handleClick = () => {
+        setError(null);
+
+        startTransition(async () => {
+            const result = await startOsceSession(stationId);
+            if (!result.success || !result.osceSessionId) {
+                setError(result.message);
+                return;
+            }
+            router.push(`/osce/${result.osceSessionId}`);
+        });
+    };
+
+    return (
+        <div className="space-y-1 text-right">
+            <Button size="sm" onClick={handleClick} disabled={isPending} className="gap-2">
+                {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                Sit Station
+            </Button>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+    );
+}
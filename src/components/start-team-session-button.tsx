@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Users } from 'lucide-react';
+import { createTeamSession } from '@/actions/team';
+import { Button } from '@/components/ui/button';
+
+type StartTeamSessionButtonProps = {
+    caseId: number;
+};
+
+export function StartTeamSessionButton({ caseId }: StartTeamSessionButtonProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+
+    const handleClick = () => {
+        setError(null);
+
+        startTransition(async () => {
+            const result = await createTeamSession(caseId);
+            if (!result.success || !result.teamSessionId) {
+                setError(result.message);
+                return;
+            }
+            router.push(`/teams/${result.teamSessionId}`);
+        });
+    };
+
+    return (
+        <div className="space-y-2">
+            <Button size="lg" variant="outline" onClick={handleClick} disabled={isPending} className="gap-2 w-full sm:w-auto">
+                {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Users className="h-4 w-4" />}
+                Play as a Team
+            </Button>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+    );
+}
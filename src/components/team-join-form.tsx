@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useTransition, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, LogIn } from 'lucide-react';
+import { joinTeamSession } from '@/actions/team';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { JOIN_CODE_LENGTH } from '@/lib/join-codes';
+
+export function TeamJoinForm() {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [joinCode, setJoinCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault();
+        setError(null);
+
+        startTransition(async () => {
+            const result = await joinTeamSession({ joinCode });
+            if (!result.success || !result.teamSessionId) {
+                setError(result.message);
+                return;
+            }
+            router.push(`/teams/${result.teamSessionId}`);
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="flex gap-2">
+                <Input
+                    value={joinCode}
+                    onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                    placeholder="e.g. K7PX2M"
+                    maxLength={JOIN_CODE_LENGTH + 2}
+                    className="font-mono tracking-widest uppercase"
+                    aria-label="Join code"
+                    disabled={isPending}
+                />
+                <Button type="submit" disabled={isPending || !joinCode.trim()} className="gap-2">
+                    {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+                    Join
+                </Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+    );
+}
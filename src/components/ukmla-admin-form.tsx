@@ -2,7 +2,8 @@
 
 import { useState, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
-import { ukmlaCategories, difficultyLevels } from '@/db/schema';
+import Link from 'next/link';
+import { ukmlaCategories, difficultyLevels, type ReviewStatus } from '@/db/schema';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -17,6 +18,7 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 import { createUkmlaQuestion, updateUkmlaQuestion } from '@/actions/ukmla-admin';
+import { reviewStatusLabels, reviewStatusStyles } from '@/lib/editorial-review';
 
 type OptionInput = {
     id?: number;
@@ -31,7 +33,7 @@ type ExistingQuestion = {
     explanation: string;
     category: (typeof ukmlaCategories)[number];
     difficultyLevel: (typeof difficultyLevels)[number];
-    verificationStatus: 'draft' | 'verified' | 'rejected';
+    verificationStatus: ReviewStatus;
     qualityScore: number;
     rigourScore: number;
     isPublished: boolean;
@@ -63,12 +65,8 @@ export function UkmlaAdminForm({ question }: Props) {
     const [difficultyLevel, setDifficultyLevel] = useState<(typeof difficultyLevels)[number]>(
         question?.difficultyLevel || difficultyLevels[0]
     );
-    const [verificationStatus, setVerificationStatus] = useState<'draft' | 'verified' | 'rejected'>(
-        question?.verificationStatus || 'draft'
-    );
     const [qualityScore, setQualityScore] = useState<number>(question?.qualityScore ?? 0);
     const [rigourScore, setRigourScore] = useState<number>(question?.rigourScore ?? 0);
-    const [isPublished, setIsPublished] = useState<boolean>(question?.isPublished ?? false);
     const [options, setOptions] = useState<OptionInput[]>(
         question?.options?.length ? question.options : buildDefaultOptions()
     );
@@ -126,10 +124,8 @@ export function UkmlaAdminForm({ question }: Props) {
                 ? await updateUkmlaQuestion({
                       id: question.id,
                       ...payload,
-                      verificationStatus,
                       qualityScore,
                       rigourScore,
-                      isPublished,
                   })
                 : await createUkmlaQuestion(payload);
 
@@ -147,6 +143,18 @@ export function UkmlaAdminForm({ question }: Props) {
         <Card>
             <CardHeader>
                 <CardTitle>{question ? 'Edit UKMLA Question' : 'Create UKMLA Question'}</CardTitle>
+                {question && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${reviewStatusStyles[question.verificationStatus]}`}>
+                            {reviewStatusLabels[question.verificationStatus]}
+                        </span>
+                        {question.isPublished ? 'Published' : 'Not published'}
+                        <span>•</span>
+                        <Link href={`/admin/reviews/ukmla_question/${question.id}`} className="underline underline-offset-4">
+                            Open review
+                        </Link>
+                    </div>
+                )}
             </CardHeader>
             <CardContent className="space-y-4">
                 <div className="space-y-2">
@@ -201,20 +209,7 @@ export function UkmlaAdminForm({ question }: Props) {
                 </div>
 
                 {question && (
-                    <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
-                        <div className="space-y-2">
-                            <Label>Verification</Label>
-                            <Select value={verificationStatus} onValueChange={(value) => setVerificationStatus(value as 'draft' | 'verified' | 'rejected')}>
-                                <SelectTrigger>
-                                    <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                    <SelectItem value="draft">Draft</SelectItem>
-                                    <SelectItem value="verified">Verified</SelectItem>
-                                    <SelectItem value="rejected">Rejected</SelectItem>
-                                </SelectContent>
-                            </Select>
-                        </div>
+                    <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
                         <div className="space-y-2">
                             <Label>Quality Score</Label>
                             <Input
@@ -235,12 +230,6 @@ export function UkmlaAdminForm({ question }: Props) {
                                 max={100}
                             />
                         </div>
-                        <div className="space-y-2">
-                            <Label>Published</Label>
-                            <div className="flex h-10 items-center rounded-md border px-3">
-                                <Checkbox checked={isPublished} onCheckedChange={(value) => setIsPublished(Boolean(value))} />
-                            </div>
-                        </div>
                     </div>
                 )}
 
@@ -13,7 +13,8 @@ import {
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select';
-import { difficultyLevels, ukmlaCategories } from '@/db/schema';
+import { difficultyLevels, ukmlaCategories, type ReviewStatus } from '@/db/schema';
+import { reviewStatusLabels, reviewStatusStyles } from '@/lib/editorial-review';
 import {
     deleteUkmlaQuestion,
     generateUkmlaQuestionsAction,
@@ -27,7 +28,7 @@ type Question = {
     category: string;
     difficultyLevel: string;
     isPublished: boolean;
-    verificationStatus: string;
+    verificationStatus: ReviewStatus;
     updatedAt: Date;
     options: { id: number; isCorrect: boolean }[];
 };
@@ -179,7 +180,12 @@ export function UkmlaAdminTable({ questions }: Props) {
                                             <td className="p-3 text-sm">{question.category}</td>
                                             <td className="p-3 text-sm">{question.difficultyLevel}</td>
                                             <td className="p-3 text-sm">
-                                                {question.isPublished ? 'Published' : 'Draft'} • {question.verificationStatus}
+                                                <div className="flex flex-wrap items-center gap-2">
+                                                    {question.isPublished ? 'Published' : 'Unpublished'}
+                                                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${reviewStatusStyles[question.verificationStatus]}`}>
+                                                        {reviewStatusLabels[question.verificationStatus]}
+                                                    </span>
+                                                </div>
                                             </td>
                                             <td className="p-3 text-sm text-muted-foreground">
                                                 {new Date(question.updatedAt).toLocaleDateString()}
@@ -189,11 +195,15 @@ export function UkmlaAdminTable({ questions }: Props) {
                                                     <Link href={`/admin/ukmla/${question.id}/edit`}>
                                                         <Button size="sm" variant="outline">Edit</Button>
                                                     </Link>
+                                                    <Link href={`/admin/reviews/ukmla_question/${question.id}`}>
+                                                        <Button size="sm" variant="outline">Review</Button>
+                                                    </Link>
                                                     <Button
                                                         size="sm"
                                                         variant="outline"
                                                         onClick={() => handlePublishToggle(question.id, question.isPublished)}
-                                                        disabled={isPending}
+                                                        disabled={isPending || (!question.isPublished && question.verificationStatus !== 'approved')}
+                                                        title={!question.isPublished && question.verificationStatus !== 'approved' ? 'Only approved questions can be published' : undefined}
                                                     >
                                                         {question.isPublished ? 'Unpublish' : 'Publish'}
                                                     </Button>
@@ -4,7 +4,11 @@ import { useMemo, useState, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MediaViewer } from '@/components/media-viewer';
+import { ConfidenceRating } from '@/components/confidence-rating';
 import { recordUkmlaAttempt } from '@/actions/ukmla-student';
+import type { MediaItem } from '@/lib/media';
+import type { ConfidenceLevel } from '@/lib/calibration';
 
 type Option = {
     id: number;
@@ -20,6 +24,7 @@ type Question = {
     category: string;
     difficultyLevel: string;
     options: Option[];
+    media?: MediaItem[];
 };
 
 type UkmlaPlayerProps = {
@@ -30,6 +35,7 @@ type UkmlaPlayerProps = {
 export function UkmlaPlayer({ question, nextQuestionId }: UkmlaPlayerProps) {
     const router = useRouter();
     const [selectedOptionId, setSelectedOptionId] = useState<number | null>(null);
+    const [confidence, setConfidence] = useState<ConfidenceLevel | null>(null);
     const [submitted, setSubmitted] = useState(false);
     const [result, setResult] = useState<{ isCorrect: boolean; score: number } | null>(null);
     const [isPending, startTransition] = useTransition();
@@ -40,12 +46,13 @@ export function UkmlaPlayer({ question, nextQuestionId }: UkmlaPlayerProps) {
     );
 
     const submitAnswer = () => {
-        if (!selectedOptionId || submitted) return;
+        if (!selectedOptionId || confidence === null || submitted) return;
 
         startTransition(async () => {
             const response = await recordUkmlaAttempt({
                 questionId: question.id,
                 selectedOptionId,
+                confidence,
             });
 
             if (!response.success) {
@@ -80,6 +87,11 @@ export function UkmlaPlayer({ question, nextQuestionId }: UkmlaPlayerProps) {
                     <CardTitle className="text-xl leading-relaxed">{question.stem}</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                    {question.media && question.media.length > 0 && (
+                        <div className="pb-3">
+                            <MediaViewer items={question.media} />
+                        </div>
+                    )}
                     {question.options
                         .sort((a, b) => a.optionOrder - b.optionOrder)
                         .map((option, index) => {
@@ -105,9 +117,12 @@ export function UkmlaPlayer({ question, nextQuestionId }: UkmlaPlayerProps) {
                         })}
 
                     {!submitted ? (
-                        <Button onClick={submitAnswer} disabled={!selectedOptionId || isPending}>
-                            {isPending ? 'Submitting...' : 'Submit Answer'}
-                        </Button>
+                        <div className="space-y-3 pt-2">
+                            <ConfidenceRating value={confidence} onChange={setConfidence} disabled={isPending} />
+                            <Button onClick={submitAnswer} disabled={!selectedOptionId || confidence === null || isPending}>
+                                {isPending ? 'Submitting...' : 'Submit Answer'}
+                            </Button>
+                        </div>
                     ) : (
                         <div
                             className={`rounded-md border p-4 ${
@@ -0,0 +1,110 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db } from './index';
+import { cases, users } from './schema';
+import { parseCaseBundle, serializeCaseBundle } from '@/lib/case-bundles';
+import { applyCaseBundleImport, exportCaseBundle, planCaseBundleImport, type CaseBundlePlanEntry } from '@/lib/case-bundle-store';
+import type { CaseBundleFormat } from '@/schemas/case-bundle';
+
+// Command-line equivalent of the admin dashboard's bundle export and import:
+//   tsx src/db/case-bundles.ts export <file.json|file.yaml> [caseId...]
+//   tsx src/db/case-bundles.ts import <file.json|file.yaml> [--owner <userId>] [--dry-run]
+
+const usage = `Usage:
+  npm run db:bundle:export -- <file.json|file.yaml> [caseId...]
+  npm run db:bundle:import -- <file.json|file.yaml> [--owner <userId>] [--dry-run]`;
+
+function formatFor(file: string): CaseBundleFormat {
+    const extension = extname(file).toLowerCase();
+    if (extension === '.json') return 'json';
+    if (extension === '.yaml' || extension === '.yml') return 'yaml';
+    throw new Error(`Bundle files must end in .json, .yaml or .yml (got "${file}")`);
+}
+
+function printPlan(plan: CaseBundlePlanEntry[]) {
+    for (const entry of plan) {
+        const target = entry.caseId === null ? 'new case' : `case #${entry.caseId}`;
+        console.log(`\n[${entry.action}] ${entry.key} — ${entry.title} (${target})`);
+        for (const change of entry.changes) {
+            console.log(`  ${change.kind.padEnd(7)} ${change.path}`);
+        }
+        for (const warning of entry.warnings) {
+            console.log(`  warning: ${warning}`);
+        }
+    }
+}
+
+async function exportBundle(file: string, ids: string[]) {
+    const format = formatFor(file);
+    const caseIds = ids.map(Number);
+    if (caseIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+        throw new Error('Case ids must be positive whole numbers');
+    }
+
+    // With no ids given, every case is exported
+    const rows = await db.query.cases.findMany({
+        where: caseIds.length > 0 ? inArray(cases.id, caseIds) : undefined,
+        columns: { id: true },
+        orderBy: [asc(cases.id)],
+    });
+    const bundle = rows.length > 0 ? await exportCaseBundle(rows.map((row) => row.id)) : null;
+    if (!bundle) {
+        throw new Error('No matching cases to export');
+    }
+
+    await writeFile(resolve(file), serializeCaseBundle(bundle, format), 'utf8');
+    console.log(`Exported ${bundle.cases.length} case(s) to ${file}.`);
+}
+
+async function importBundle(file: string, flags: string[]) {
+    const dryRun = flags.includes('--dry-run');
+    const ownerIndex = flags.indexOf('--owner');
+    const ownerId = ownerIndex >= 0 ? flags[ownerIndex + 1] : undefined;
+
+    const parsed = parseCaseBundle(await readFile(resolve(file), 'utf8'), formatFor(file));
+    if (!parsed.success) {
+        throw new Error(`Invalid bundle: ${parsed.message}`);
+    }
+
+    if (dryRun) {
+        printPlan(await planCaseBundleImport(parsed.bundle));
+        console.log('\nDry run: nothing was written.');
+        return;
+    }
+
+    // New cases need an owner; by default the first admin, as for the seeds
+    const owner = await db.query.users.findFirst({
+        where: ownerId ? eq(users.id, ownerId) : eq(users.role, 'admin'),
+        columns: { id: true },
+        orderBy: [asc(users.createdAt)],
+    });
+    if (!owner) {
+        throw new Error(ownerId ? `No user with id ${ownerId}` : 'No admin user found. Pass --owner <userId>.');
+    }
+
+    const results = await applyCaseBundleImport(parsed.bundle, owner.id);
+    printPlan(results);
+    const created = results.filter((entry) => entry.action === 'create').length;
+    const updated = results.filter((entry) => entry.action === 'update').length;
+    console.log(`\nImported: ${created} created, ${updated} updated.`);
+}
+
+async function main() {
+    const [command, file, ...rest] = process.argv.slice(2);
+    if (!file || (command !== 'export' && command !== 'import')) {
+        console.error(usage);
+        process.exit(1);
+    }
+
+    if (command === 'export') {
+        await exportBundle(file, rest);
+    } else {
+        await importBundle(file, rest);
+    }
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -9,6 +9,7 @@ import {
     jsonb,
     index,
     uniqueIndex,
+    type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 
 // ============================================================================
@@ -41,6 +42,97 @@ export type RivisionContextType = typeof rivisionContextTypes[number];
 export const rivisionEvidenceTypes = ['ukmla_attempt', 'case_attempt'] as const;
 export type RivisionEvidenceType = typeof rivisionEvidenceTypes[number];
 
+export const caseOutcomes = ['recovered', 'stabilised', 'transferred', 'deteriorated', 'deceased'] as const;
+export type CaseOutcome = typeof caseOutcomes[number];
+
+export const simulationSessionStatuses = ['in_progress', 'completed', 'abandoned'] as const;
+export type SimulationSessionStatus = typeof simulationSessionStatuses[number];
+
+export const investigationTypes = ['FBC', 'U&E', 'ABG', 'ECG', 'CXR', 'CT'] as const;
+export type InvestigationType = typeof investigationTypes[number];
+
+export const stageTypes = ['decision', 'history'] as const;
+export type StageType = typeof stageTypes[number];
+
+// How the student answers a stage: pick one option, pick all that apply, put the options in order, or type an answer
+export const decisionTypes = ['single', 'multi', 'ordering', 'free_text'] as const;
+export type DecisionType = typeof decisionTypes[number];
+
+export const historyFactCategories = [
+    'presenting_complaint',
+    'past_medical_history',
+    'medications',
+    'allergies',
+    'family_history',
+    'social_history',
+    'red_flag',
+] as const;
+export type HistoryFactCategory = typeof historyFactCategories[number];
+
+export const historyMessageRoles = ['student', 'patient'] as const;
+export type HistoryMessageRole = typeof historyMessageRoles[number];
+
+export const patientSexes = ['male', 'female'] as const;
+export type PatientSex = typeof patientSexes[number];
+
+// Conditions that change what counts as normal, e.g. COPD lowers the SpO2 target
+export const patientConditions = ['copd'] as const;
+export type PatientCondition = typeof patientConditions[number];
+
+// ACVPU: Alert, new Confusion, responds to Voice, responds to Pain, Unresponsive
+export const consciousnessLevels = ['A', 'C', 'V', 'P', 'U'] as const;
+export type ConsciousnessLevel = typeof consciousnessLevels[number];
+
+// Lab result flags as printed on a report; critical values need urgent action
+export const labFlags = ['low', 'normal', 'high', 'critical'] as const;
+export type LabFlag = typeof labFlags[number];
+
+// Patient-safety class of an option, best to worst; a never-event is a choice that should never happen
+export const safetyClasses = ['optimal', 'acceptable', 'suboptimal', 'harmful', 'never_event'] as const;
+export type SafetyClass = typeof safetyClasses[number];
+
+// Team sessions: students gather in a lobby, then play one shared session
+export const teamSessionStatuses = ['lobby', 'active', 'completed', 'abandoned'] as const;
+export type TeamSessionStatus = typeof teamSessionStatuses[number];
+
+// Only the lead commits decisions; members follow along and discuss
+export const teamRoles = ['lead', 'member'] as const;
+export type TeamRole = typeof teamRoles[number];
+
+// Live classroom: each stage is voted on, the class's choices revealed, then the feedback shown
+export const classroomPhases = ['lobby', 'voting', 'revealed', 'feedback', 'ended'] as const;
+export type ClassroomPhase = typeof classroomPhases[number];
+
+// An OSCE station is set up, then run against the clock while the examiner marks it
+export const osceSessionStatuses = ['waiting', 'running', 'completed', 'abandoned'] as const;
+export type OsceSessionStatus = typeof osceSessionStatuses[number];
+
+// The examiner's overall judgement, alongside the checklist score
+export const osceGlobalRatings = ['clear_fail', 'borderline', 'clear_pass', 'good', 'excellent'] as const;
+export type OsceGlobalRating = typeof osceGlobalRatings[number];
+
+// Editorial review: authors submit content, assigned reviewers request changes or approve it, and only approved content is published
+export const reviewStatuses = ['draft', 'in_review', 'changes_requested', 'approved'] as const;
+export type ReviewStatus = typeof reviewStatuses[number];
+
+export const reviewContentTypes = ['case', 'ukmla_question'] as const;
+export type ReviewContentType = typeof reviewContentTypes[number];
+
+export const reviewActions = ['submitted', 'reviewer_assigned', 'reviewer_removed', 'changes_requested', 'approved', 'reopened'] as const;
+export type ReviewAction = typeof reviewActions[number];
+
+// Where an inline review comment points: stages and options by their order, as in version diffs, so comments survive edits
+export const reviewCommentAnchors = ['general', 'stem', 'explanation', 'stage', 'option'] as const;
+export type ReviewCommentAnchor = typeof reviewCommentAnchors[number];
+
+// One checklist item as it was marked, kept on the attempt so later edits to the station don't change past results
+export type OsceChecklistMark = {
+    itemId: number;
+    description: string;
+    marks: number;
+    awarded: boolean;
+};
+
 // ============================================================================
 // TABLE: users
 // ============================================================================
@@ -69,14 +161,50 @@ export const cases = pgTable('cases', {
     clinicalDomain: text('clinical_domain').notNull(), // e.g., "Cardiology", "Respiratory"
     difficultyLevel: text('difficulty_level', { enum: difficultyLevels }).notNull(),
     source: text('source').default('human').notNull(), // 'human' or 'ai'
-    verificationStatus: text('verification_status').default('draft').notNull(), // 'draft', 'verified', 'rejected'
+    verificationStatus: text('verification_status', { enum: reviewStatuses }).default('draft').notNull(), // Moved only by the review workflow
     qualityScore: integer('quality_score').default(0).notNull(), // 0-100 score
     rigourScore: integer('rigour_score').default(0).notNull(), // 0-100 human expert quality assessment
     rivisionClusterKey: text('rivision_cluster_key'),
+    baselineVitals: jsonb('baseline_vitals').$type<ClinicalData>(), // Starting physiology; stage clinicalData overrides it
+    patientDemographics: jsonb('patient_demographics').$type<PatientDemographics>(), // Who the patient is, for reference ranges
+    stageTimeLimitSeconds: integer('stage_time_limit_seconds'), // Timed emergency mode: applies to every stage without its own limit
+    templateVariables: jsonb('template_variables').$type<CaseTemplateVariable[]>(), // Filled into {{key}} placeholders afresh for each attempt
     isPublished: boolean('is_published').default(false).notNull(),
+    // The version students play; null until first published, when they play the draft stages
+    publishedVersionId: integer('published_version_id')
+        .references((): AnyPgColumn => caseVersions.id, { onDelete: 'set null' }),
+    bundleKey: text('bundle_key'), // Set once imported from a case bundle, so importing again updates this case
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => ({
+    bundleKeyUnique: uniqueIndex('cases_bundle_key_uq').on(table.bundleKey),
+}));
+
+// ============================================================================
+// TABLE: case_versions (Immutable snapshots of a case's content, made on publish)
+// ============================================================================
+
+export const caseVersions = pgTable(
+    'case_versions',
+    {
+        id: serial('id').primaryKey(),
+        caseId: integer('case_id')
+            .notNull()
+            .references(() => cases.id, { onDelete: 'cascade' }),
+        versionNumber: integer('version_number').notNull(), // 1, 2, 3... per case
+        // Case-level settings as published; the stages are frozen copies pointing at this row
+        baselineVitals: jsonb('baseline_vitals').$type<ClinicalData>(),
+        patientDemographics: jsonb('patient_demographics').$type<PatientDemographics>(),
+        stageTimeLimitSeconds: integer('stage_time_limit_seconds'),
+        templateVariables: jsonb('template_variables').$type<CaseTemplateVariable[]>(),
+        publishedByUserId: text('published_by_user_id')
+            .references(() => users.id, { onDelete: 'set null' }),
+        publishedAt: timestamp('published_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        caseVersionUnique: uniqueIndex('case_versions_case_version_uq').on(table.caseId, table.versionNumber),
+    })
+);
 
 // ============================================================================
 // TABLE: case_stages (Time-based Steps within a Case)
@@ -93,11 +221,20 @@ export const caseStages = pgTable(
         narrative: text('narrative').notNull(), // Main scenario text
         clinicalData: jsonb('clinical_data'), // Flexible vitals: { "BP": "120/80", "HR": 99 }
         mediaUrl: text('media_url'), // Optional: X-rays, ECG images, etc.
+        stageType: text('stage_type', { enum: stageTypes }).default('decision').notNull(),
+        patientScript: jsonb('patient_script').$type<PatientScript>(), // Hidden from students; history stages only
+        decisionType: text('decision_type', { enum: decisionTypes }).default('single').notNull(),
+        timeLimitSeconds: integer('time_limit_seconds'), // Overrides the case's stage time limit
+        hints: jsonb('hints').$type<StageHint[]>().default([]).notNull(), // Tiered, revealed one at a time on request
+        // Null for the draft admins edit; set on the frozen copy made when a version is published
+        caseVersionId: integer('case_version_id')
+            .references(() => caseVersions.id, { onDelete: 'cascade' }),
         createdAt: timestamp('created_at').defaultNow().notNull(),
     },
     (table) => ({
         // Index on case_id for fast lookups when querying stages by case
         caseIdIdx: index('case_stages_case_id_idx').on(table.caseId),
+        caseVersionIdx: index('case_stages_case_version_idx').on(table.caseId, table.caseVersionId),
     })
 );
 
@@ -116,11 +253,414 @@ export const stageOptions = pgTable(
         isCorrect: boolean('is_correct').notNull().default(false),
         scoreWeight: integer('score_weight').notNull().default(0), // +2 optimal, +1 safe, -5 fatal, etc.
         feedback: text('feedback').notNull(), // Immediate explanation after selecting
+        // Branching: jump to a specific stage, or end the case with an outcome.
+        // When both are null the case continues to the next stage by stageOrder.
+        nextStageId: integer('next_stage_id')
+            .references(() => caseStages.id, { onDelete: 'set null' }),
+        outcome: text('outcome', { enum: caseOutcomes }),
+        vitalEffects: jsonb('vital_effects').$type<VitalEffects>(), // e.g. { "HR": -15, "SpO2": 4 }
+        durationMinutes: integer('duration_minutes').notNull().default(5), // Simulated time the action takes
+        correctPosition: integer('correct_position'), // Ordering stages: place in the correct sequence, from 1
+        acceptedAnswers: jsonb('accepted_answers').$type<string[]>().default([]).notNull(), // Free-text stages; empty marks the catch-all option
+        isTimeout: boolean('is_timeout').notNull().default(false), // Hidden "no decision" option followed when a timed stage runs out
+        safetyClass: text('safety_class', { enum: safetyClasses }), // Null until classified; derived from isCorrect and scoreWeight
         createdAt: timestamp('created_at').defaultNow().notNull(),
     },
     (table) => ({
         // Index on stage_id for fast lookups when querying options by stage
         stageIdIdx: index('stage_options_stage_id_idx').on(table.stageId),
+        nextStageIdIdx: index('stage_options_next_stage_id_idx').on(table.nextStageId),
+    })
+);
+
+// ============================================================================
+// TABLE: stage_investigations (Results available to order at a stage)
+// ============================================================================
+
+export const stageInvestigations = pgTable(
+    'stage_investigations',
+    {
+        id: serial('id').primaryKey(),
+        stageId: integer('stage_id')
+            .notNull()
+            .references(() => caseStages.id, { onDelete: 'cascade' }),
+        investigation: text('investigation', { enum: investigationTypes }).notNull(),
+        result: text('result').notNull(), // Shown only once the student orders it
+        isIndicated: boolean('is_indicated').notNull().default(false), // Ordering an unindicated test costs score
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        stageInvestigationUnique: uniqueIndex('stage_investigations_stage_investigation_uq').on(table.stageId, table.investigation),
+    })
+);
+
+// ============================================================================
+// TABLE: simulation_sessions (Server-side state of a case being played)
+// ============================================================================
+
+export const simulationSessions = pgTable(
+    'simulation_sessions',
+    {
+        id: serial('id').primaryKey(),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        caseId: integer('case_id')
+            .notNull()
+            .references(() => cases.id, { onDelete: 'cascade' }),
+        status: text('status', { enum: simulationSessionStatuses }).default('in_progress').notNull(),
+        currentStageId: integer('current_stage_id')
+            .references(() => caseStages.id, { onDelete: 'set null' }), // Null once the case has ended
+        score: integer('score').notNull().default(0),
+        elapsedMinutes: integer('elapsed_minutes').notNull().default(0), // Simulated clock
+        outcome: text('outcome', { enum: caseOutcomes }),
+        startedAt: timestamp('started_at').defaultNow().notNull(),
+        stageStartedAt: timestamp('stage_started_at').defaultNow().notNull(), // Real time the current stage was shown, for time limits
+        updatedAt: timestamp('updated_at').defaultNow().notNull(),
+        completedAt: timestamp('completed_at'),
+        teamSessionId: integer('team_session_id')
+            .references(() => teamSessions.id, { onDelete: 'cascade' }), // Shared session played by a team; owned by its lead
+        variantSeed: integer('variant_seed'), // Picks the template variables' values; null for untemplated cases
+        caseVersionId: integer('case_version_id')
+            .references(() => caseVersions.id, { onDelete: 'set null' }), // The version played; null for a never-published draft
+    },
+    (table) => ({
+        userCaseIdx: index('simulation_sessions_user_case_idx').on(table.userId, table.caseId),
+        teamSessionIdx: index('simulation_sessions_team_session_idx').on(table.teamSessionId),
+        statusIdx: index('simulation_sessions_status_idx').on(table.status),
+    })
+);
+
+// ============================================================================
+// TABLE: session_decisions (One option chosen per stage visited in a session)
+// ============================================================================
+
+export const sessionDecisions = pgTable(
+    'session_decisions',
+    {
+        id: serial('id').primaryKey(),
+        sessionId: integer('session_id')
+            .notNull()
+            .references(() => simulationSessions.id, { onDelete: 'cascade' }),
+        stageId: integer('stage_id')
+            .notNull()
+            .references(() => caseStages.id, { onDelete: 'cascade' }),
+        optionId: integer('option_id')
+            .notNull()
+            .references(() => stageOptions.id, { onDelete: 'cascade' }),
+        scoreWeight: integer('score_weight').notNull(), // Snapshot at decision time
+        // Multi-select, ordering and free-text answers; optionId is then the option the pathway follows
+        response: jsonb('response').$type<DecisionResponse>(),
+        decisionSeconds: integer('decision_seconds'), // Real time taken to decide; null for attempts recorded in one call
+        timedOut: boolean('timed_out').notNull().default(false), // No decision made before the stage's time limit
+        confidence: integer('confidence'), // 1 (guessing) to 4 (certain), rated before deciding
+        safetyClass: text('safety_class', { enum: safetyClasses }), // Snapshot of the least safe option chosen
+        decidedAt: timestamp('decided_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        sessionIdx: index('session_decisions_session_idx').on(table.sessionId),
+        // A stage can only be decided once per session
+        sessionStageUnique: uniqueIndex('session_decisions_session_stage_uq').on(table.sessionId, table.stageId),
+        optionIdx: index('session_decisions_option_idx').on(table.optionId),
+        safetyClassIdx: index('session_decisions_safety_class_idx').on(table.safetyClass),
+    })
+);
+
+// ============================================================================
+// TABLE: session_investigations (Investigations ordered during a session)
+// ============================================================================
+
+export const sessionInvestigations = pgTable(
+    'session_investigations',
+    {
+        id: serial('id').primaryKey(),
+        sessionId: integer('session_id')
+            .notNull()
+            .references(() => simulationSessions.id, { onDelete: 'cascade' }),
+        stageId: integer('stage_id')
+            .notNull()
+            .references(() => caseStages.id, { onDelete: 'cascade' }),
+        investigation: text('investigation', { enum: investigationTypes }).notNull(),
+        result: text('result').notNull(), // Snapshot of what the student was shown
+        isIndicated: boolean('is_indicated').notNull(),
+        scoreDelta: integer('score_delta').notNull().default(0),
+        orderedAt: timestamp('ordered_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        // Each investigation can only be ordered once per stage
+        sessionStageInvestigationUnique: uniqueIndex('session_investigations_session_stage_investigation_uq').on(table.sessionId, table.stageId, table.investigation),
+    })
+);
+
+// ============================================================================
+// TABLE: session_history_messages (History-taking chat at a stage)
+// ============================================================================
+
+export const sessionHistoryMessages = pgTable(
+    'session_history_messages',
+    {
+        id: serial('id').primaryKey(),
+        sessionId: integer('session_id')
+            .notNull()
+            .references(() => simulationSessions.id, { onDelete: 'cascade' }),
+        stageId: integer('stage_id')
+            .notNull()
+            .references(() => caseStages.id, { onDelete: 'cascade' }),
+        role: text('role', { enum: historyMessageRoles }).notNull(),
+        content: text('content').notNull(),
+        elicitedFactIds: jsonb('elicited_fact_ids').$type<string[]>().notNull().default([]), // Script facts this question uncovered
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        sessionStageIdx: index('session_history_messages_session_stage_idx').on(table.sessionId, table.stageId),
+    })
+);
+
+// ============================================================================
+// TABLE: session_hints (Hints revealed at a stage during a session)
+// ============================================================================
+
+export const sessionHints = pgTable(
+    'session_hints',
+    {
+        id: serial('id').primaryKey(),
+        sessionId: integer('session_id')
+            .notNull()
+            .references(() => simulationSessions.id, { onDelete: 'cascade' }),
+        stageId: integer('stage_id')
+            .notNull()
+            .references(() => caseStages.id, { onDelete: 'cascade' }),
+        tier: integer('tier').notNull(), // 1 for the stage's first hint
+        text: text('text').notNull(), // Snapshot of what the student was shown
+        scoreDelta: integer('score_delta').notNull().default(0),
+        revealedAt: timestamp('revealed_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        // Each tier can only be revealed once per stage
+        sessionStageTierUnique: uniqueIndex('session_hints_session_stage_tier_uq').on(table.sessionId, table.stageId, table.tier),
+    })
+);
+
+// ============================================================================
+// TABLE: team_sessions (A case played together by a team of students)
+// ============================================================================
+
+export const teamSessions = pgTable(
+    'team_sessions',
+    {
+        id: serial('id').primaryKey(),
+        caseId: integer('case_id')
+            .notNull()
+            .references(() => cases.id, { onDelete: 'cascade' }),
+        leadUserId: text('lead_user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        joinCode: text('join_code').notNull(), // Shared with teammates to join the lobby
+        status: text('status', { enum: teamSessionStatuses }).default('lobby').notNull(),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+        updatedAt: timestamp('updated_at').defaultNow().notNull(), // Bumped on joins and chat, so listeners know to refresh
+    },
+    (table) => ({
+        joinCodeUnique: uniqueIndex('team_sessions_join_code_uq').on(table.joinCode),
+    })
+);
+
+// ============================================================================
+// TABLE: team_session_members (Students in a team session and their roles)
+// ============================================================================
+
+export const teamSessionMembers = pgTable(
+    'team_session_members',
+    {
+        id: serial('id').primaryKey(),
+        teamSessionId: integer('team_session_id')
+            .notNull()
+            .references(() => teamSessions.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        role: text('role', { enum: teamRoles }).notNull(),
+        joinedAt: timestamp('joined_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        // A student can only join a team once
+        teamUserUnique: uniqueIndex('team_session_members_team_user_uq').on(table.teamSessionId, table.userId),
+        userIdx: index('team_session_members_user_idx').on(table.userId),
+    })
+);
+
+// ============================================================================
+// TABLE: team_session_messages (Side chat between teammates)
+// ============================================================================
+
+export const teamSessionMessages = pgTable(
+    'team_session_messages',
+    {
+        id: serial('id').primaryKey(),
+        teamSessionId: integer('team_session_id')
+            .notNull()
+            .references(() => teamSessions.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        content: text('content').notNull(),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        teamSessionIdx: index('team_session_messages_team_session_idx').on(table.teamSessionId),
+    })
+);
+
+// ============================================================================
+// TABLE: classroom_sessions (A case run live by an instructor in a lecture)
+// ============================================================================
+
+export const classroomSessions = pgTable(
+    'classroom_sessions',
+    {
+        id: serial('id').primaryKey(),
+        caseId: integer('case_id')
+            .notNull()
+            .references(() => cases.id, { onDelete: 'cascade' }),
+        hostUserId: text('host_user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        joinCode: text('join_code').notNull(), // Shown on the presenter screen for students to join
+        phase: text('phase', { enum: classroomPhases }).default('lobby').notNull(),
+        currentStageId: integer('current_stage_id')
+            .references(() => caseStages.id, { onDelete: 'set null' }), // Null in the lobby and once ended
+        classPathOptionIds: jsonb('class_path_option_ids').$type<number[]>().notNull().default([]), // Option the class followed at each stage, in order
+        outcome: text('outcome', { enum: caseOutcomes }), // Where the class's choices led
+        caseVersionId: integer('case_version_id')
+            .references(() => caseVersions.id, { onDelete: 'set null' }), // The version live when the class was created
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+        updatedAt: timestamp('updated_at').defaultNow().notNull(), // Bumped on every phase change and join
+        endedAt: timestamp('ended_at'),
+    },
+    (table) => ({
+        joinCodeUnique: uniqueIndex('classroom_sessions_join_code_uq').on(table.joinCode),
+    })
+);
+
+// ============================================================================
+// TABLE: classroom_participants (Students who joined a live classroom)
+// ============================================================================
+
+export const classroomParticipants = pgTable(
+    'classroom_participants',
+    {
+        id: serial('id').primaryKey(),
+        classroomSessionId: integer('classroom_session_id')
+            .notNull()
+            .references(() => classroomSessions.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        joinedAt: timestamp('joined_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        classroomUserUnique: uniqueIndex('classroom_participants_classroom_user_uq').on(table.classroomSessionId, table.userId),
+    })
+);
+
+// ============================================================================
+// TABLE: classroom_votes (One vote per student per stage, changeable while voting)
+// ============================================================================
+
+export const classroomVotes = pgTable(
+    'classroom_votes',
+    {
+        id: serial('id').primaryKey(),
+        classroomSessionId: integer('classroom_session_id')
+            .notNull()
+            .references(() => classroomSessions.id, { onDelete: 'cascade' }),
+        stageId: integer('stage_id')
+            .notNull()
+            .references(() => caseStages.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        optionId: integer('option_id')
+            .notNull()
+            .references(() => stageOptions.id, { onDelete: 'cascade' }),
+        updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        classroomStageUserUnique: uniqueIndex('classroom_votes_classroom_stage_user_uq').on(table.classroomSessionId, table.stageId, table.userId),
+    })
+);
+
+// ============================================================================
+// TABLE: osce_stations (Timed OSCE stations marked by an examiner)
+// ============================================================================
+
+export const osceStations = pgTable(
+    'osce_stations',
+    {
+        id: serial('id').primaryKey(),
+        createdByUserId: text('created_by_user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        title: text('title').notNull(),
+        clinicalDomain: text('clinical_domain').notNull(),
+        candidateBrief: text('candidate_brief').notNull(), // Read by the candidate when the station starts
+        examinerNotes: text('examiner_notes'), // Only shown on the marking sheet
+        durationSeconds: integer('duration_seconds').notNull().default(480),
+        isPublished: boolean('is_published').default(false).notNull(),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+        updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        publishedIdx: index('osce_stations_published_idx').on(table.isPublished),
+    })
+);
+
+// ============================================================================
+// TABLE: osce_checklist_items (The examiner's marking checklist for a station)
+// ============================================================================
+
+export const osceChecklistItems = pgTable(
+    'osce_checklist_items',
+    {
+        id: serial('id').primaryKey(),
+        stationId: integer('station_id')
+            .notNull()
+            .references(() => osceStations.id, { onDelete: 'cascade' }),
+        description: text('description').notNull(),
+        marks: integer('marks').notNull().default(1),
+        itemOrder: integer('item_order').notNull(),
+    },
+    (table) => ({
+        stationIdx: index('osce_checklist_items_station_idx').on(table.stationId),
+    })
+);
+
+// ============================================================================
+// TABLE: osce_sessions (A candidate sitting a station, marked live by an examiner)
+// ============================================================================
+
+export const osceSessions = pgTable(
+    'osce_sessions',
+    {
+        id: serial('id').primaryKey(),
+        stationId: integer('station_id')
+            .notNull()
+            .references(() => osceStations.id, { onDelete: 'cascade' }),
+        candidateUserId: text('candidate_user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        examinerUserId: text('examiner_user_id')
+            .references(() => users.id, { onDelete: 'set null' }), // Null until an examiner joins with the code
+        joinCode: text('join_code').notNull(), // Given to the examiner to open the marking sheet
+        status: text('status', { enum: osceSessionStatuses }).default('waiting').notNull(),
+        startedAt: timestamp('started_at'), // When the examiner started the clock
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+        updatedAt: timestamp('updated_at').defaultNow().notNull(), // Bumped on every change, so listeners know to refresh
+        completedAt: timestamp('completed_at'),
+    },
+    (table) => ({
+        joinCodeUnique: uniqueIndex('osce_sessions_join_code_uq').on(table.joinCode),
+        candidateIdx: index('osce_sessions_candidate_idx').on(table.candidateUserId),
     })
 );
 
@@ -139,12 +679,51 @@ export const studentAttempts = pgTable(
             .notNull()
             .references(() => cases.id, { onDelete: 'cascade' }),
         score: integer('score').notNull().default(0),
+        sessionId: integer('session_id')
+            .references(() => simulationSessions.id, { onDelete: 'set null' }), // Full decision trail
+        hintsUsed: integer('hints_used').notNull().default(0), // Hinted success counts for less than unaided success
+        teamRole: text('team_role', { enum: teamRoles }), // Null for solo attempts
+        variantSeed: integer('variant_seed'), // The session's variant, so replay shows what the student saw
+        caseVersionId: integer('case_version_id')
+            .references(() => caseVersions.id, { onDelete: 'set null' }), // Replays and scores read this version, not the draft
         completedAt: timestamp('completed_at').defaultNow().notNull(),
     },
     (table) => ({
         // Index for fast lookups by user and case
         userIdIdx: index('student_attempts_user_id_idx').on(table.userId),
         caseIdIdx: index('student_attempts_case_id_idx').on(table.caseId),
+        sessionIdIdx: index('student_attempts_session_id_idx').on(table.sessionId),
+    })
+);
+
+// ============================================================================
+// TABLE: osce_attempts (Marked OSCE stations, reported apart from case attempts)
+// ============================================================================
+
+export const osceAttempts = pgTable(
+    'osce_attempts',
+    {
+        id: serial('id').primaryKey(),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }), // The candidate
+        stationId: integer('station_id')
+            .notNull()
+            .references(() => osceStations.id, { onDelete: 'cascade' }),
+        osceSessionId: integer('osce_session_id')
+            .references(() => osceSessions.id, { onDelete: 'set null' }),
+        examinerUserId: text('examiner_user_id')
+            .references(() => users.id, { onDelete: 'set null' }),
+        score: integer('score').notNull().default(0), // Checklist marks awarded
+        maxScore: integer('max_score').notNull().default(0),
+        globalRating: text('global_rating', { enum: osceGlobalRatings }).notNull(),
+        checklist: jsonb('checklist').$type<OsceChecklistMark[]>().notNull().default([]),
+        examinerComments: text('examiner_comments'),
+        completedAt: timestamp('completed_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        userIdIdx: index('osce_attempts_user_id_idx').on(table.userId),
+        stationIdIdx: index('osce_attempts_station_id_idx').on(table.stationId),
     })
 );
 
@@ -250,7 +829,7 @@ export const ukmlaQuestions = pgTable(
         category: text('category', { enum: ukmlaCategories }).notNull(),
         difficultyLevel: text('difficulty_level', { enum: difficultyLevels }).notNull(),
         source: text('source').default('human').notNull(),
-        verificationStatus: text('verification_status').default('draft').notNull(),
+        verificationStatus: text('verification_status', { enum: reviewStatuses }).default('draft').notNull(), // Moved only by the review workflow
         qualityScore: integer('quality_score').default(0).notNull(),
         rigourScore: integer('rigour_score').default(0).notNull(),
         rivisionClusterKey: text('rivision_cluster_key'),
@@ -306,6 +885,7 @@ export const ukmlaAttempts = pgTable(
             .references(() => ukmlaQuestionOptions.id, { onDelete: 'cascade' }),
         isCorrect: boolean('is_correct').notNull(),
         score: integer('score').notNull().default(0),
+        confidence: integer('confidence'), // 1 (guessing) to 4 (certain), rated before answering
         completedAt: timestamp('completed_at').defaultNow().notNull(),
     },
     (table) => ({
@@ -513,6 +1093,153 @@ export const rivisionNoteEvidence = pgTable(
     })
 );
 
+// ============================================================================
+// TABLE: media_assets (Uploaded files held in media storage)
+// ============================================================================
+
+export const mediaAssets = pgTable(
+    'media_assets',
+    {
+        id: serial('id').primaryKey(),
+        storageKey: text('storage_key').notNull(), // Server-generated, never user supplied
+        originalName: text('original_name').notNull(),
+        contentType: text('content_type').notNull(),
+        sizeBytes: integer('size_bytes').notNull(),
+        uploadedByUserId: text('uploaded_by_user_id')
+            .references(() => users.id, { onDelete: 'set null' }),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        storageKeyUnique: uniqueIndex('media_assets_storage_key_uq').on(table.storageKey),
+    })
+);
+
+// ============================================================================
+// TABLE: stage_media (Images attached to a case stage)
+// ============================================================================
+
+export const stageMedia = pgTable(
+    'stage_media',
+    {
+        id: serial('id').primaryKey(),
+        stageId: integer('stage_id')
+            .notNull()
+            .references(() => caseStages.id, { onDelete: 'cascade' }),
+        mediaAssetId: integer('media_asset_id')
+            .notNull()
+            .references(() => mediaAssets.id, { onDelete: 'cascade' }),
+        caption: text('caption').notNull().default(''),
+        displayOrder: integer('display_order').notNull().default(1),
+        revealOnRequest: boolean('reveal_on_request').notNull().default(false), // Hidden until the student asks to see it
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        stageIdx: index('stage_media_stage_idx').on(table.stageId),
+    })
+);
+
+// ============================================================================
+// TABLE: ukmla_question_media (Images attached to a UKMLA question stem)
+// ============================================================================
+
+export const ukmlaQuestionMedia = pgTable(
+    'ukmla_question_media',
+    {
+        id: serial('id').primaryKey(),
+        questionId: integer('question_id')
+            .notNull()
+            .references(() => ukmlaQuestions.id, { onDelete: 'cascade' }),
+        mediaAssetId: integer('media_asset_id')
+            .notNull()
+            .references(() => mediaAssets.id, { onDelete: 'cascade' }),
+        caption: text('caption').notNull().default(''),
+        displayOrder: integer('display_order').notNull().default(1),
+        revealOnRequest: boolean('reveal_on_request').notNull().default(false),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        questionIdx: index('ukmla_question_media_question_idx').on(table.questionId),
+    })
+);
+
+// ============================================================================
+// TABLE: review_assignments (Reviewers assigned to a case or UKMLA question)
+// ============================================================================
+
+export const reviewAssignments = pgTable(
+    'review_assignments',
+    {
+        id: serial('id').primaryKey(),
+        contentType: text('content_type', { enum: reviewContentTypes }).notNull(),
+        contentId: integer('content_id').notNull(),
+        reviewerUserId: text('reviewer_user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        assignedByUserId: text('assigned_by_user_id')
+            .references(() => users.id, { onDelete: 'set null' }),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        contentReviewerUnique: uniqueIndex('review_assignments_content_reviewer_uq').on(
+            table.contentType,
+            table.contentId,
+            table.reviewerUserId
+        ),
+        reviewerIdx: index('review_assignments_reviewer_idx').on(table.reviewerUserId),
+    })
+);
+
+// ============================================================================
+// TABLE: review_comments (Inline reviewer comments)
+// ============================================================================
+
+export const reviewComments = pgTable(
+    'review_comments',
+    {
+        id: serial('id').primaryKey(),
+        contentType: text('content_type', { enum: reviewContentTypes }).notNull(),
+        contentId: integer('content_id').notNull(),
+        anchor: text('anchor', { enum: reviewCommentAnchors }).default('general').notNull(),
+        stageOrder: integer('stage_order'), // Case stage the comment is on
+        optionNumber: integer('option_number'), // 1-based position of the option in its stage or question
+        body: text('body').notNull(),
+        authorUserId: text('author_user_id')
+            .references(() => users.id, { onDelete: 'set null' }),
+        resolvedByUserId: text('resolved_by_user_id')
+            .references(() => users.id, { onDelete: 'set null' }),
+        resolvedAt: timestamp('resolved_at'),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        contentIdx: index('review_comments_content_idx').on(table.contentType, table.contentId),
+    })
+);
+
+// ============================================================================
+// TABLE: review_events (Every review transition, with who made it and when)
+// ============================================================================
+
+export const reviewEvents = pgTable(
+    'review_events',
+    {
+        id: serial('id').primaryKey(),
+        contentType: text('content_type', { enum: reviewContentTypes }).notNull(),
+        contentId: integer('content_id').notNull(),
+        action: text('action', { enum: reviewActions }).notNull(),
+        fromStatus: text('from_status', { enum: reviewStatuses }).notNull(),
+        toStatus: text('to_status', { enum: reviewStatuses }).notNull(),
+        actorUserId: text('actor_user_id')
+            .references(() => users.id, { onDelete: 'set null' }),
+        reviewerUserId: text('reviewer_user_id') // The reviewer assigned or removed
+            .references(() => users.id, { onDelete: 'set null' }),
+        note: text('note'),
+        contentHash: text('content_hash'), // On approval: what was approved, so later edits need approving again
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+    },
+    (table) => ({
+        contentIdx: index('review_events_content_idx').on(table.contentType, table.contentId, table.createdAt),
+    })
+);
 
 // ============================================================================
 // RELATIONS (For Nested Queries)
@@ -545,17 +1272,99 @@ export const casesRelations = relations(cases, ({ one, many }) => ({
         fields: [cases.userId],
         references: [users.id],
     }),
-    stages: many(caseStages),
+    stages: many(caseStages), // The draft and every version's frozen copy; filter on caseVersionId
+    versions: many(caseVersions),
     attempts: many(studentAttempts), // Track who attempted this case
     spacedRepetitionCards: many(spacedRepetitionCards),
 }));
 
+export const caseVersionsRelations = relations(caseVersions, ({ one, many }) => ({
+    case: one(cases, {
+        fields: [caseVersions.caseId],
+        references: [cases.id],
+    }),
+    publishedBy: one(users, {
+        fields: [caseVersions.publishedByUserId],
+        references: [users.id],
+    }),
+    stages: many(caseStages),
+}));
+
 export const caseStagesRelations = relations(caseStages, ({ one, many }) => ({
     case: one(cases, {
         fields: [caseStages.caseId],
         references: [cases.id],
     }),
+    caseVersion: one(caseVersions, {
+        fields: [caseStages.caseVersionId],
+        references: [caseVersions.id],
+    }),
     options: many(stageOptions),
+    investigations: many(stageInvestigations),
+    media: many(stageMedia),
+}));
+
+export const mediaAssetsRelations = relations(mediaAssets, ({ one, many }) => ({
+    uploadedBy: one(users, {
+        fields: [mediaAssets.uploadedByUserId],
+        references: [users.id],
+    }),
+    stageMedia: many(stageMedia),
+    ukmlaQuestionMedia: many(ukmlaQuestionMedia),
+}));
+
+export const stageMediaRelations = relations(stageMedia, ({ one }) => ({
+    stage: one(caseStages, {
+        fields: [stageMedia.stageId],
+        references: [caseStages.id],
+    }),
+    asset: one(mediaAssets, {
+        fields: [stageMedia.mediaAssetId],
+        references: [mediaAssets.id],
+    }),
+}));
+
+export const ukmlaQuestionMediaRelations = relations(ukmlaQuestionMedia, ({ one }) => ({
+    question: one(ukmlaQuestions, {
+        fields: [ukmlaQuestionMedia.questionId],
+        references: [ukmlaQuestions.id],
+    }),
+    asset: one(mediaAssets, {
+        fields: [ukmlaQuestionMedia.mediaAssetId],
+        references: [mediaAssets.id],
+    }),
+}));
+
+export const reviewAssignmentsRelations = relations(reviewAssignments, ({ one }) => ({
+    reviewer: one(users, {
+        fields: [reviewAssignments.reviewerUserId],
+        references: [users.id],
+    }),
+}));
+
+export const reviewCommentsRelations = relations(reviewComments, ({ one }) => ({
+    author: one(users, {
+        fields: [reviewComments.authorUserId],
+        references: [users.id],
+    }),
+}));
+
+export const reviewEventsRelations = relations(reviewEvents, ({ one }) => ({
+    actor: one(users, {
+        fields: [reviewEvents.actorUserId],
+        references: [users.id],
+    }),
+    reviewer: one(users, {
+        fields: [reviewEvents.reviewerUserId],
+        references: [users.id],
+    }),
+}));
+
+export const stageInvestigationsRelations = relations(stageInvestigations, ({ one }) => ({
+    stage: one(caseStages, {
+        fields: [stageInvestigations.stageId],
+        references: [caseStages.id],
+    }),
 }));
 
 export const stageOptionsRelations = relations(stageOptions, ({ one }) => ({
@@ -565,6 +1374,187 @@ export const stageOptionsRelations = relations(stageOptions, ({ one }) => ({
     }),
 }));
 
+export const simulationSessionsRelations = relations(simulationSessions, ({ one, many }) => ({
+    user: one(users, {
+        fields: [simulationSessions.userId],
+        references: [users.id],
+    }),
+    case: one(cases, {
+        fields: [simulationSessions.caseId],
+        references: [cases.id],
+    }),
+    decisions: many(sessionDecisions),
+    investigations: many(sessionInvestigations),
+    historyMessages: many(sessionHistoryMessages),
+    hints: many(sessionHints),
+    teamSession: one(teamSessions, {
+        fields: [simulationSessions.teamSessionId],
+        references: [teamSessions.id],
+    }),
+}));
+
+export const teamSessionsRelations = relations(teamSessions, ({ one, many }) => ({
+    case: one(cases, {
+        fields: [teamSessions.caseId],
+        references: [cases.id],
+    }),
+    lead: one(users, {
+        fields: [teamSessions.leadUserId],
+        references: [users.id],
+    }),
+    members: many(teamSessionMembers),
+    messages: many(teamSessionMessages),
+    simulationSessions: many(simulationSessions),
+}));
+
+export const classroomSessionsRelations = relations(classroomSessions, ({ one, many }) => ({
+    case: one(cases, {
+        fields: [classroomSessions.caseId],
+        references: [cases.id],
+    }),
+    host: one(users, {
+        fields: [classroomSessions.hostUserId],
+        references: [users.id],
+    }),
+    currentStage: one(caseStages, {
+        fields: [classroomSessions.currentStageId],
+        references: [caseStages.id],
+    }),
+    participants: many(classroomParticipants),
+    votes: many(classroomVotes),
+}));
+
+export const osceStationsRelations = relations(osceStations, ({ one, many }) => ({
+    creator: one(users, {
+        fields: [osceStations.createdByUserId],
+        references: [users.id],
+    }),
+    checklistItems: many(osceChecklistItems),
+    sessions: many(osceSessions),
+    attempts: many(osceAttempts),
+}));
+
+export const osceChecklistItemsRelations = relations(osceChecklistItems, ({ one }) => ({
+    station: one(osceStations, {
+        fields: [osceChecklistItems.stationId],
+        references: [osceStations.id],
+    }),
+}));
+
+export const osceSessionsRelations = relations(osceSessions, ({ one }) => ({
+    station: one(osceStations, {
+        fields: [osceSessions.stationId],
+        references: [osceStations.id],
+    }),
+    candidate: one(users, {
+        fields: [osceSessions.candidateUserId],
+        references: [users.id],
+    }),
+    examiner: one(users, {
+        fields: [osceSessions.examinerUserId],
+        references: [users.id],
+    }),
+}));
+
+export const osceAttemptsRelations = relations(osceAttempts, ({ one }) => ({
+    user: one(users, {
+        fields: [osceAttempts.userId],
+        references: [users.id],
+    }),
+    station: one(osceStations, {
+        fields: [osceAttempts.stationId],
+        references: [osceStations.id],
+    }),
+    osceSession: one(osceSessions, {
+        fields: [osceAttempts.osceSessionId],
+        references: [osceSessions.id],
+    }),
+}));
+
+export const classroomParticipantsRelations = relations(classroomParticipants, ({ one }) => ({
+    classroomSession: one(classroomSessions, {
+        fields: [classroomParticipants.classroomSessionId],
+        references: [classroomSessions.id],
+    }),
+}));
+
+export const classroomVotesRelations = relations(classroomVotes, ({ one }) => ({
+    classroomSession: one(classroomSessions, {
+        fields: [classroomVotes.classroomSessionId],
+        references: [classroomSessions.id],
+    }),
+}));
+
+export const teamSessionMembersRelations = relations(teamSessionMembers, ({ one }) => ({
+    teamSession: one(teamSessions, {
+        fields: [teamSessionMembers.teamSessionId],
+        references: [teamSessions.id],
+    }),
+    user: one(users, {
+        fields: [teamSessionMembers.userId],
+        references: [users.id],
+    }),
+}));
+
+export const teamSessionMessagesRelations = relations(teamSessionMessages, ({ one }) => ({
+    teamSession: one(teamSessions, {
+        fields: [teamSessionMessages.teamSessionId],
+        references: [teamSessions.id],
+    }),
+    user: one(users, {
+        fields: [teamSessionMessages.userId],
+        references: [users.id],
+    }),
+}));
+
+export const sessionHintsRelations = relations(sessionHints, ({ one }) => ({
+    session: one(simulationSessions, {
+        fields: [sessionHints.sessionId],
+        references: [simulationSessions.id],
+    }),
+    stage: one(caseStages, {
+        fields: [sessionHints.stageId],
+        references: [caseStages.id],
+    }),
+}));
+
+export const sessionHistoryMessagesRelations = relations(sessionHistoryMessages, ({ one }) => ({
+    session: one(simulationSessions, {
+        fields: [sessionHistoryMessages.sessionId],
+        references: [simulationSessions.id],
+    }),
+    stage: one(caseStages, {
+        fields: [sessionHistoryMessages.stageId],
+        references: [caseStages.id],
+    }),
+}));
+
+export const sessionInvestigationsRelations = relations(sessionInvestigations, ({ one }) => ({
+    session: one(simulationSessions, {
+        fields: [sessionInvestigations.sessionId],
+        references: [simulationSessions.id],
+    }),
+    stage: one(caseStages, {
+        fields: [sessionInvestigations.stageId],
+        references: [caseStages.id],
+    }),
+}));
+
+export const sessionDecisionsRelations = relations(sessionDecisions, ({ one }) => ({
+    session: one(simulationSessions, {
+        fields: [sessionDecisions.sessionId],
+        references: [simulationSessions.id],
+    }),
+    stage: one(caseStages, {
+        fields: [sessionDecisions.stageId],
+        references: [caseStages.id],
+    }),
+    option: one(stageOptions, {
+        fields: [sessionDecisions.optionId],
+        references: [stageOptions.id],
+    }),
+}));
+
 export const studentAttemptsRelations = relations(studentAttempts, ({ one }) => ({
     user: one(users, {
         fields: [studentAttempts.userId],
@@ -574,6 +1564,10 @@ export const studentAttemptsRelations = relations(studentAttempts, ({ one }) =>
         fields: [studentAttempts.caseId],
         references: [cases.id],
     }),
+    session: one(simulationSessions, {
+        fields: [studentAttempts.sessionId],
+        references: [simulationSessions.id],
+    }),
 }));
 
 export const userStatsRelations = relations(userStats, ({ one }) => ({
@@ -614,6 +1608,7 @@ export const ukmlaQuestionsRelations = relations(ukmlaQuestions, ({ one, many })
         references: [users.id],
     }),
     options: many(ukmlaQuestionOptions),
+    media: many(ukmlaQuestionMedia),
     attempts: many(ukmlaAttempts),
     spacedRepetitionCards: many(ukmlaSpacedRepetitionCards),
 }));
@@ -709,15 +1704,39 @@ export type NewUser = typeof users.$inferInsert;
 export type Case = typeof cases.$inferSelect;
 export type NewCase = typeof cases.$inferInsert;
 
+export type CaseVersion = typeof caseVersions.$inferSelect;
+export type NewCaseVersion = typeof caseVersions.$inferInsert;
+
 export type CaseStage = typeof caseStages.$inferSelect;
 export type NewCaseStage = typeof caseStages.$inferInsert;
 
 export type StageOption = typeof stageOptions.$inferSelect;
 export type NewStageOption = typeof stageOptions.$inferInsert;
 
+export type StageInvestigation = typeof stageInvestigations.$inferSelect;
+export type NewStageInvestigation = typeof stageInvestigations.$inferInsert;
+
+export type SimulationSession = typeof simulationSessions.$inferSelect;
+export type NewSimulationSession = typeof simulationSessions.$inferInsert;
+
+export type SessionDecision = typeof sessionDecisions.$inferSelect;
+export type NewSessionDecision = typeof sessionDecisions.$inferInsert;
+
+export type SessionInvestigation = typeof sessionInvestigations.$inferSelect;
+export type NewSessionInvestigation = typeof sessionInvestigations.$inferInsert;
+
+export type SessionHistoryMessage = typeof sessionHistoryMessages.$inferSelect;
+export type NewSessionHistoryMessage = typeof sessionHistoryMessages.$inferInsert;
+
 export type StudentAttempt = typeof studentAttempts.$inferSelect;
 export type NewStudentAttempt = typeof studentAttempts.$inferInsert;
 
+export type OsceStation = typeof osceStations.$inferSelect;
+export type NewOsceStation = typeof osceStations.$inferInsert;
+
+export type OsceAttempt = typeof osceAttempts.$inferSelect;
+export type NewOsceAttempt = typeof osceAttempts.$inferInsert;
+
 export type UserStats = typeof userStats.$inferSelect;
 export type NewUserStats = typeof userStats.$inferInsert;
 
@@ -763,6 +1782,15 @@ export type NewRivisionNoteRecord = typeof rivisionNotes.$inferInsert;
 export type RivisionNoteEvidence = typeof rivisionNoteEvidence.$inferSelect;
 export type NewRivisionNoteEvidence = typeof rivisionNoteEvidence.$inferInsert;
 
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+export type NewMediaAsset = typeof mediaAssets.$inferInsert;
+
+export type StageMedia = typeof stageMedia.$inferSelect;
+export type NewStageMedia = typeof stageMedia.$inferInsert;
+
+export type UkmlaQuestionMedia = typeof ukmlaQuestionMedia.$inferSelect;
+export type NewUkmlaQuestionMedia = typeof ukmlaQuestionMedia.$inferInsert;
+
 
 // ============================================================================
 // CLINICAL DATA TYPE (For the JSONB field)
@@ -775,11 +1803,103 @@ export interface ClinicalData {
     RR?: number; // Respiratory Rate
     Temp?: number; // Temperature
     SpO2?: number; // Oxygen Saturation
+    consciousness?: ConsciousnessLevel; // ACVPU, assumed Alert when absent
+    supplementalOxygen?: boolean; // On oxygen rather than room air
 
     // Additional structured data
-    labs?: Record<string, string | number>;
+    labs?: Record<string, string | number>; // Free-form, older cases
+    labPanels?: LabResult[];
     notes?: string[];
 
     // Flexible for any other data
     [key: string]: unknown;
 }
+
+export interface LabResult {
+    panel: string; // e.g. "Full blood count"
+    analyte: string; // e.g. "Hb"
+    value: number | string; // Text for non-numeric results, e.g. "Negative"
+    unit: string; // As authored, normally SI
+    range?: { low?: number; high?: number }; // In the same unit as the value
+    flag?: LabFlag; // Worked out from the range when not set
+}
+
+// ============================================================================
+// PATIENT DEMOGRAPHICS TYPE (Who the case patient is)
+// ============================================================================
+
+export interface PatientDemographics {
+    ageYears: number;
+    sex: PatientSex;
+    pregnant?: boolean;
+    conditions?: PatientCondition[];
+}
+
+// ============================================================================
+// CASE TEMPLATE VARIABLE TYPE (A value drawn afresh for each attempt)
+// ============================================================================
+
+export type CaseTemplateVariable =
+    | {
+        key: string; // Referenced as {{key}}; "age" and "sex" also set the patient's demographics
+        kind: 'number';
+        min: number;
+        max: number;
+        decimals?: number; // Whole numbers when absent
+    }
+    | {
+        key: string;
+        kind: 'choice';
+        values: string[];
+        group?: string; // Choices in the same group pick the same position, e.g. a name and its sex
+    };
+
+// ============================================================================
+// VITAL EFFECTS TYPE (Physiological response to a stage option)
+// ============================================================================
+
+export interface VitalEffects {
+    HR?: number; // Change in heart rate
+    RR?: number; // Change in respiratory rate
+    Temp?: number; // Change in temperature
+    SpO2?: number; // Change in oxygen saturation
+    SBP?: number; // Change in systolic blood pressure
+    DBP?: number; // Change in diastolic blood pressure
+}
+
+// ============================================================================
+// DECISION RESPONSE TYPE (What the student submitted at a non-single stage)
+// ============================================================================
+
+export interface DecisionResponse {
+    optionIds?: number[]; // Multi-select picks, or every option in the submitted order
+    text?: string; // Free-text answer as typed
+}
+
+// ============================================================================
+// STAGE HINT TYPE (One tier of help at a stage)
+// ============================================================================
+
+export interface StageHint {
+    text: string; // e.g. "Consider the reversible causes"
+    cost: number; // Points deducted when revealed
+}
+
+// ============================================================================
+// PATIENT SCRIPT TYPE (Hidden brief for a history-taking stage)
+// ============================================================================
+
+export interface PatientScript {
+    persona: string; // Who the patient is and how they talk
+    openingStatement: string; // Volunteered before the student asks anything
+    facts: HistoryFact[];
+}
+
+export interface HistoryFact {
+    id: string; // Stable within the script, e.g. "smoker"
+    category: HistoryFactCategory;
+    label: string; // Shown to the student in feedback, e.g. "Smoking history"
+    detail: string; // What the patient says once asked
+    keywords: string[]; // Words in a question that elicit the fact
+    weight: number; // Score for eliciting it
+}
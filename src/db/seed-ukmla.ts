@@ -3,6 +3,7 @@ import { drizzle } from 'drizzle-orm/neon-http';
 import { neon } from '@neondatabase/serverless';
 import { eq } from 'drizzle-orm';
 import * as schema from './schema';
+import { reviewContentHash } from '@/lib/editorial-review-store';
 
 config({ path: '.env.local' });
 
@@ -65,7 +66,7 @@ async function main() {
                 category: question.category,
                 difficultyLevel: question.difficultyLevel,
                 source: 'human',
-                verificationStatus: 'verified',
+                verificationStatus: 'approved',
                 qualityScore: 80,
                 rigourScore: 80,
                 isPublished: true,
@@ -80,6 +81,18 @@ async function main() {
                 optionOrder: index + 1,
             }))
         );
+
+        // Recorded as approved on what was seeded, so it can be republished until edited
+        const target = { contentType: 'ukmla_question' as const, contentId: inserted.id };
+        await db.insert(schema.reviewEvents).values({
+            ...target,
+            action: 'approved',
+            fromStatus: 'in_review',
+            toStatus: 'approved',
+            actorUserId: creator.id,
+            note: 'Seeded sample question',
+            contentHash: await reviewContentHash(target),
+        });
     }
 
     console.log('Seeded UKMLA sample questions successfully.');
@@ -1,7 +1,7 @@
 import { config } from 'dotenv';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { neon } from '@neondatabase/serverless';
-import { users, cases, caseStages, stageOptions } from './schema';
+import { users, cases, caseStages, stageOptions, stageInvestigations, osceStations, osceChecklistItems } from './schema';
 import { sql } from 'drizzle-orm';
 
 // Load environment variables
@@ -15,6 +15,9 @@ async function main() {
 
     // Drop existing tables in correct order (respecting foreign keys)
     console.log('🗑️  Dropping existing tables...');
+    await db.execute(sql`DROP TABLE IF EXISTS osce_checklist_items CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS osce_stations CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS stage_investigations CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS stage_options CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS case_stages CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS cases CASCADE`);
@@ -39,6 +42,11 @@ async function main() {
       description text NOT NULL,
       clinical_domain text NOT NULL,
       difficulty_level text NOT NULL,
+      baseline_vitals jsonb,
+      patient_demographics jsonb,
+      template_variables jsonb,
+      published_version_id integer,
+      bundle_key text,
       is_published boolean DEFAULT false NOT NULL,
       created_at timestamp DEFAULT now() NOT NULL,
       updated_at timestamp DEFAULT now() NOT NULL,
@@ -50,10 +58,13 @@ async function main() {
     CREATE TABLE case_stages (
       id serial PRIMARY KEY NOT NULL,
       case_id integer NOT NULL,
+      case_version_id integer,
       stage_order integer NOT NULL,
       narrative text NOT NULL,
       clinical_data jsonb,
       media_url text,
+      stage_type text DEFAULT 'decision' NOT NULL,
+      patient_script jsonb,
       created_at timestamp DEFAULT now() NOT NULL,
       FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE
     )
@@ -67,14 +78,60 @@ async function main() {
       is_correct boolean DEFAULT false NOT NULL,
       score_weight integer DEFAULT 0 NOT NULL,
       feedback text NOT NULL,
+      next_stage_id integer,
+      outcome text,
+      vital_effects jsonb,
+      duration_minutes integer DEFAULT 5 NOT NULL,
+      created_at timestamp DEFAULT now() NOT NULL,
+      FOREIGN KEY (stage_id) REFERENCES case_stages(id) ON DELETE CASCADE,
+      FOREIGN KEY (next_stage_id) REFERENCES case_stages(id) ON DELETE SET NULL
+    )
+  `);
+
+    await db.execute(sql`
+    CREATE TABLE stage_investigations (
+      id serial PRIMARY KEY NOT NULL,
+      stage_id integer NOT NULL,
+      investigation text NOT NULL,
+      result text NOT NULL,
+      is_indicated boolean DEFAULT false NOT NULL,
       created_at timestamp DEFAULT now() NOT NULL,
       FOREIGN KEY (stage_id) REFERENCES case_stages(id) ON DELETE CASCADE
     )
   `);
 
+    await db.execute(sql`
+    CREATE TABLE osce_stations (
+      id serial PRIMARY KEY NOT NULL,
+      created_by_user_id text NOT NULL,
+      title text NOT NULL,
+      clinical_domain text NOT NULL,
+      candidate_brief text NOT NULL,
+      examiner_notes text,
+      duration_seconds integer DEFAULT 480 NOT NULL,
+      is_published boolean DEFAULT false NOT NULL,
+      created_at timestamp DEFAULT now() NOT NULL,
+      updated_at timestamp DEFAULT now() NOT NULL,
+      FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+    await db.execute(sql`
+    CREATE TABLE osce_checklist_items (
+      id serial PRIMARY KEY NOT NULL,
+      station_id integer NOT NULL,
+      description text NOT NULL,
+      marks integer DEFAULT 1 NOT NULL,
+      item_order integer NOT NULL,
+      FOREIGN KEY (station_id) REFERENCES osce_stations(id) ON DELETE CASCADE
+    )
+  `);
+
     // Create indexes
     await db.execute(sql`CREATE INDEX case_stages_case_id_idx ON case_stages(case_id)`);
     await db.execute(sql`CREATE INDEX stage_options_stage_id_idx ON stage_options(stage_id)`);
+    await db.execute(sql`CREATE UNIQUE INDEX stage_investigations_stage_investigation_uq ON stage_investigations(stage_id, investigation)`);
+    await db.execute(sql`CREATE INDEX osce_checklist_items_station_idx ON osce_checklist_items(station_id)`);
 
     console.log('✅ Tables created successfully');
 
@@ -104,6 +161,7 @@ async function main() {
         description: 'A 62-year-old man presents to A&E with sudden-onset crushing chest pain radiating to his left arm and jaw. Past medical history of HTN, Type 2 DM, and 40 pack-year smoking history.',
         clinicalDomain: 'Cardiology',
         difficultyLevel: 'Advanced',
+        patientDemographics: { ageYears: 62, sex: 'male' },
         isPublished: true,
     }).returning();
 
@@ -120,6 +178,10 @@ async function main() {
             Temp: 36.8,
             notes: ['Patient diaphoretic', 'Anxious and clutching chest', 'Family history: Father died of MI age 58'],
         },
+        hints: [
+            { text: 'Which single test will tell you whether this is an ST-elevation MI?', cost: 1 },
+            { text: 'A 12-lead ECG should be done within 10 minutes of arrival with chest pain.', cost: 2 },
+        ],
     }).returning();
 
     await db.insert(stageOptions).values([
@@ -128,6 +190,7 @@ async function main() {
             text: 'Perform 12-lead ECG immediately',
             isCorrect: true,
             scoreWeight: 2,
+            safetyClass: 'optimal',
             feedback: 'Correct! In suspected ACS, a 12-lead ECG must be performed within 10 minutes of arrival to identify STEMI. This is the most critical initial investigation.',
         },
         {
@@ -135,6 +198,7 @@ async function main() {
             text: 'Order chest X-ray and await results before ECG',
             isCorrect: false,
             scoreWeight: -3,
+            safetyClass: 'harmful',
             feedback: 'Incorrect. ECG takes priority over chest X-ray in suspected MI. Delaying ECG could delay critical reperfusion therapy (PPCI or thrombolysis). Time is myocardium!',
         },
         {
@@ -142,6 +206,7 @@ async function main() {
             text: 'Administer GTN spray and reassess in 15 minutes',
             isCorrect: false,
             scoreWeight: -2,
+            safetyClass: 'suboptimal',
             feedback: 'Partially incorrect. While GTN can be given, you must not delay ECG. GTN may relieve stable angina but will not alter STEMI management. ECG is the immediate priority.',
         },
         {
@@ -149,10 +214,38 @@ async function main() {
             text: 'Request urgent troponin levels first',
             isCorrect: false,
             scoreWeight: -1,
+            safetyClass: 'suboptimal',
             feedback: 'Incorrect. Troponins take time to rise (3-6 hours post-infarct) and should not delay ECG. High-sensitivity troponin is part of workup but ECG identifies STEMI immediately.',
         },
     ]);
 
+    await db.insert(stageInvestigations).values([
+        {
+            stageId: stage1_1.id,
+            investigation: 'ECG',
+            result: 'Sinus tachycardia 108 bpm. 3mm ST elevation in II, III and aVF with reciprocal ST depression in aVL.',
+            isIndicated: true,
+        },
+        {
+            stageId: stage1_1.id,
+            investigation: 'FBC',
+            result: 'Hb 142 g/L, WCC 11.2 x10^9/L, Plt 265 x10^9/L',
+            isIndicated: true,
+        },
+        {
+            stageId: stage1_1.id,
+            investigation: 'U&E',
+            result: 'Na 138 mmol/L, K 4.4 mmol/L, Urea 6.8 mmol/L, Creatinine 98 umol/L',
+            isIndicated: true,
+        },
+        {
+            stageId: stage1_1.id,
+            investigation: 'CT',
+            result: 'No acute intracranial or thoracic abnormality.',
+            isIndicated: false,
+        },
+    ]);
+
     // Stage 2: ECG Results
     const [stage1_2] = await db.insert(caseStages).values({
         caseId: case1.id,
@@ -173,6 +266,7 @@ async function main() {
             text: 'Administer dual antiplatelet therapy (Ticagrelor 180mg) + IV morphine for pain',
             isCorrect: true,
             scoreWeight: 2,
+            safetyClass: 'optimal',
             feedback: 'Optimal! Ticagrelor (or Clopidogrel 600mg) is indicated in STEMI for dual antiplatelet therapy. Morphine controls pain and reduces sympathetic drive. Well done following NICE CG167.',
         },
         {
@@ -180,6 +274,7 @@ async function main() {
             text: 'Give thrombolysis (Tenecteplase) immediately',
             isCorrect: false,
             scoreWeight: -5,
+            safetyClass: 'harmful',
             feedback: 'Incorrect. Thrombolysis is only indicated if PPCI cannot be delivered within 120 minutes of diagnosis. You have activated the lab and ETA is 90 minutes. PPCI is superior to thrombolysis when available.',
         },
         {
@@ -194,6 +289,7 @@ async function main() {
             text: 'Start IV beta-blocker (Metoprolol) for heart rate control',
             isCorrect: false,
             scoreWeight: -3,
+            safetyClass: 'never_event',
             feedback: 'Dangerous in acute phase! IV beta-blockers are contraindicated in acute STEMI as they can precipitate cardiogenic shock. Oral beta-blockers are started post-reperfusion (24-48hrs).',
         },
     ]);
@@ -225,6 +321,7 @@ async function main() {
             text: 'Discontinue Aspirin and use Ticagrelor monotherapy',
             isCorrect: false,
             scoreWeight: -4,
+            safetyClass: 'harmful',
             feedback: 'Incorrect. After PCI with stenting, dual antiplatelet therapy (DAPT) is mandatory for 12 months to prevent stent thrombosis. Stopping Aspirin significantly increases this risk.',
         },
         {
@@ -254,6 +351,8 @@ async function main() {
         description: 'A 78-year-old nursing home resident presents with 3-day history of reduced oral intake, confusion, and a productive cough. She is hypotensive and tachycardic.',
         clinicalDomain: 'Critical Care',
         difficultyLevel: 'Advanced',
+        patientDemographics: { ageYears: 78, sex: 'female' },
+        stageTimeLimitSeconds: 180, // Timed emergency mode
         isPublished: true,
     }).returning();
 
@@ -308,6 +407,15 @@ async function main() {
             scoreWeight: -5,
             feedback: 'Potentially fatal error. The patient has septic shock (hypotension, lactate 4.2, fever, confusion). Treating as isolated COPD exacerbation without addressing sepsis will lead to multi-organ failure.',
         },
+        {
+            stageId: stage2_1.id,
+            text: 'No decision made in time',
+            isCorrect: false,
+            scoreWeight: -3,
+            feedback: 'While you deliberated, the patient remained hypotensive and hypoxic without fluids or antibiotics. Every hour of delay to antibiotics in septic shock increases mortality; start the Sepsis Six first and refine the plan as results return.',
+            vitalEffects: { SBP: -6, HR: 6, SpO2: -2 },
+            isTimeout: true,
+        },
     ]);
 
     const [stage2_2] = await db.insert(caseStages).values({
@@ -365,6 +473,7 @@ async function main() {
         description: 'A 34-year-old woman develops facial swelling, wheeze, and hypotension 10 minutes after first dose of amoxicillin for UTI.',
         clinicalDomain: 'Emergency Medicine',
         difficultyLevel: 'Core',
+        patientDemographics: { ageYears: 34, sex: 'female' },
         isPublished: true,
     }).returning();
 
@@ -467,6 +576,7 @@ async function main() {
         description: 'A 19-year-old with Type 1 diabetes presents with 2-day history of vomiting, abdominal pain, and polyuria. She stopped her insulin due to nausea.',
         clinicalDomain: 'Endocrinology',
         difficultyLevel: 'Core',
+        patientDemographics: { ageYears: 19, sex: 'female' },
         isPublished: true,
     }).returning();
 
@@ -480,15 +590,16 @@ async function main() {
             RR: 28,
             Temp: 37.2,
             capillary_glucose: '28.4 mmol/L',
-            labs: {
-                pH: '7.12',
-                bicarbonate: '9 mmol/L',
-                ketones: '5.4 mmol/L',
-                'Na+': '132',
-                'K+': '5.8',
-                'Urea': '12.3',
-                'Creatinine': '142',
-            },
+            labPanels: [
+                { panel: 'Blood gas', analyte: 'pH', value: 7.12, unit: '', range: { low: 7.35, high: 7.45 } },
+                { panel: 'Blood gas', analyte: 'HCO3', value: 9, unit: 'mmol/L', range: { low: 22, high: 29 } },
+                { panel: 'Metabolic', analyte: 'Glucose', value: 28.4, unit: 'mmol/L', range: { low: 4, high: 7.8 } },
+                { panel: 'Metabolic', analyte: 'Ketones', value: 5.4, unit: 'mmol/L', range: { high: 0.6 }, flag: 'critical' },
+                { panel: 'Urea & electrolytes', analyte: 'Na', value: 132, unit: 'mmol/L', range: { low: 133, high: 146 } },
+                { panel: 'Urea & electrolytes', analyte: 'K', value: 5.8, unit: 'mmol/L', range: { low: 3.5, high: 5.3 } },
+                { panel: 'Urea & electrolytes', analyte: 'Urea', value: 12.3, unit: 'mmol/L', range: { low: 2.5, high: 7.8 } },
+                { panel: 'Urea & electrolytes', analyte: 'Creatinine', value: 142, unit: 'umol/L', range: { low: 45, high: 84 } },
+            ],
             notes: ['Kussmaul breathing pattern', 'Acetone smell on breath', 'Abdominal tenderness (generalized)'],
         },
     }).returning();
@@ -530,11 +641,12 @@ async function main() {
         narrative: 'After 4 hours of FRIII and IV fluids, glucose is now 14.2 mmol/L, pH 7.22, and ketones 3.1 mmol/L. The patient feels less nauseated. Repeat labs show K+ is now 3.2 mmol/L.',
         clinicalData: {
             capillary_glucose: '14.2 mmol/L',
-            labs: {
-                pH: '7.22',
-                ketones: '3.1 mmol/L',
-                'K+': '3.2',
-            },
+            labPanels: [
+                { panel: 'Blood gas', analyte: 'pH', value: 7.22, unit: '', range: { low: 7.35, high: 7.45 } },
+                { panel: 'Metabolic', analyte: 'Glucose', value: 14.2, unit: 'mmol/L', range: { low: 4, high: 7.8 } },
+                { panel: 'Metabolic', analyte: 'Ketones', value: 3.1, unit: 'mmol/L', range: { high: 0.6 } },
+                { panel: 'Urea & electrolytes', analyte: 'K', value: 3.2, unit: 'mmol/L', range: { low: 3.5, high: 5.3 } },
+            ],
             notes: ['Improving clinically', 'Tolerating sips of water'],
         },
     }).returning();
@@ -578,23 +690,86 @@ async function main() {
     const [case5] = await db.insert(cases).values({
         userId: 'user_38zNKdM9PQvaMhsqkljCfE7R4W7', // Assign to specific student user
         title: 'Shortness of Breath in Known Asthmatic',
-        description: 'A 25-year-old woman with asthma presents to A&E with worsening breathlessness and wheeze over 24 hours, not responding to her salbutamol inhaler.',
+        description: 'A young woman with asthma presents to A&E with worsening breathlessness and wheeze over 24 hours, not responding to her salbutamol inhaler.',
         clinicalDomain: 'Respiratory',
         difficultyLevel: 'Foundation',
+        patientDemographics: { ageYears: 25, sex: 'female' },
+        // Each attempt meets a different patient; the bands keep her in acute severe asthma
+        templateVariables: [
+            { key: 'name', kind: 'choice', values: ['Chloe Evans', 'Priya Shah', 'Aisha Okafor', 'Megan Byrne'] },
+            { key: 'age', kind: 'number', min: 19, max: 34 },
+            { key: 'hr', kind: 'number', min: 110, max: 124 },
+            { key: 'rr', kind: 'number', min: 25, max: 29 },
+        ],
         isPublished: true,
     }).returning();
 
     const [stage5_1] = await db.insert(caseStages).values({
         caseId: case5.id,
         stageOrder: 1,
-        narrative: 'A 25-year-old woman with known asthma presents with increasing breathlessness and wheeze for the past 24 hours. She has used her salbutamol inhaler "more than 10 times today" with minimal relief. She has been unable to complete sentences due to breathlessness. Background: Usually controlled on Clenil (beclometasone) 200mcg BD. Recent URTI one week ago.',
+        narrative: '{{name}}, a {{age}}-year-old woman with known asthma, presents with increasing breathlessness and wheeze for the past 24 hours. She has used her salbutamol inhaler "more than 10 times today" with minimal relief. She has been unable to complete sentences due to breathlessness. Background: Usually controlled on Clenil (beclometasone) 200mcg BD. Recent URTI one week ago.',
         clinicalData: {
-            RR: 26,
-            HR: 112,
+            RR: '{{rr}}',
+            HR: '{{hr}}',
             SpO2: 94,
             peak_flow: '40% of predicted',
             notes: ['Unable to complete sentences', 'Widespread polyphonic wheeze', 'Using accessory muscles'],
         },
+        stageType: 'history',
+        patientScript: {
+            persona: '{{name}}, a {{age}}-year-old office worker, frightened and short of breath, answering in short phrases.',
+            openingStatement: "I can't... get my breath... my inhaler isn't working.",
+            facts: [
+                {
+                    id: 'reliever_use',
+                    category: 'presenting_complaint',
+                    label: 'Reliever use today',
+                    detail: "I've used the blue one... more than ten times today.",
+                    keywords: ['inhaler', 'salbutamol', 'blue', 'reliever', 'how many', 'how often'],
+                    weight: 1,
+                },
+                {
+                    id: 'preventer_adherence',
+                    category: 'medications',
+                    label: 'Preventer adherence',
+                    detail: "The brown one... I stopped it a few weeks ago... I felt fine.",
+                    keywords: ['brown', 'preventer', 'clenil', 'steroid', 'medication', 'medicine', 'regular'],
+                    weight: 2,
+                },
+                {
+                    id: 'previous_icu',
+                    category: 'red_flag',
+                    label: 'Previous ICU admission',
+                    detail: 'I was in intensive care... with a bad attack... two years ago.',
+                    keywords: ['icu', 'intensive', 'admi', 'hospital', 'ventilat', 'intubat', 'before', 'previous', 'worst'],
+                    weight: 3,
+                },
+                {
+                    id: 'trigger',
+                    category: 'presenting_complaint',
+                    label: 'Recent viral trigger',
+                    detail: 'I had a cold... last week.',
+                    keywords: ['trigger', 'cold', 'infection', 'ill', 'unwell', 'cause', 'brought'],
+                    weight: 1,
+                },
+                {
+                    id: 'nsaid_allergy',
+                    category: 'allergies',
+                    label: 'Ibuprofen sensitivity',
+                    detail: 'Ibuprofen makes my chest tight... so I avoid it.',
+                    keywords: ['allerg', 'ibuprofen', 'nsaid', 'react'],
+                    weight: 2,
+                },
+                {
+                    id: 'smoking',
+                    category: 'social_history',
+                    label: 'Smoking status',
+                    detail: "I don't smoke... never have.",
+                    keywords: ['smok', 'cigarette', 'vape', 'tobacco'],
+                    weight: 1,
+                },
+            ],
+        },
     }).returning();
 
     await db.insert(stageOptions).values([
@@ -672,6 +847,38 @@ async function main() {
         },
     ]);
 
+    // ============================================================================
+    // OSCE STATION: Chest pain history (Cardiology)
+    // ============================================================================
+    console.log('🩺 Seeding OSCE station: Chest Pain History...');
+
+    const [station1] = await db.insert(osceStations).values({
+        createdByUserId: 'user_2admin456',
+        title: 'Chest Pain History',
+        clinicalDomain: 'Cardiology',
+        candidateBrief: 'You are the FY1 doctor in the Emergency Department. Mr David Hughes, 58, has come in with chest pain that started an hour ago. Take a focused history, then summarise your findings and your differential diagnosis to the examiner. You have 8 minutes.',
+        examinerNotes: 'Patient script: central, crushing pain radiating to the left arm, started at rest an hour ago, 8/10, with sweating and nausea. Smoker of 30 pack-years, hypertensive on amlodipine, father had an MI at 60. The candidate should suspect acute coronary syndrome.',
+        durationSeconds: 480,
+        isPublished: true,
+    }).returning();
+
+    await db.insert(osceChecklistItems).values([
+        'Introduces self, confirms patient identity and gains consent',
+        'Establishes site, onset and character of the pain',
+        'Asks about radiation, severity and associated symptoms',
+        'Asks about exacerbating and relieving factors',
+        'Takes a cardiovascular risk factor history',
+        'Takes a drug history and asks about allergies',
+        'Asks about family history of heart disease',
+        'Elicits the patient\'s ideas, concerns and expectations',
+        'Summarises accurately and gives acute coronary syndrome as the leading differential',
+    ].map((description, index) => ({
+        stationId: station1.id,
+        description,
+        marks: index === 8 ? 2 : 1,
+        itemOrder: index + 1,
+    })));
+
     console.log('✅ All seed data inserted successfully!');
     console.log('\n📊 Summary:');
     console.log('- 2 Users (1 student, 1 admin)');
@@ -683,6 +890,7 @@ async function main() {
     console.log('  5. Acute Asthma (Respiratory, Foundation)');
     console.log('- 11 Total Case Stages');
     console.log('- 45 Decision Options with Nuanced Scoring');
+    console.log('- 1 OSCE Station with a 9-item marking checklist');
 }
 
 main()
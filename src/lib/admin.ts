@@ -4,7 +4,7 @@ import { auth, currentUser } from '@clerk/nextjs/server';
  * Get admin emails from environment variable
  * Returns array of authorized admin email addresses
  */
-function getAdminEmails(): string[] {
+export function getAdminEmails(): string[] {
     const adminEmailsString = process.env.ADMIN_EMAILS || '';
     return adminEmailsString
         .split(',')
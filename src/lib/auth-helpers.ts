@@ -1,8 +1,8 @@
-import { auth } from '@clerk/nextjs/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { isAdmin as isAllowlistAdmin } from '@/lib/admin';
+import { getAdminEmails, isAdmin as isAllowlistAdmin } from '@/lib/admin';
 
 /**
  * Get the current user's role from the database
@@ -44,3 +44,27 @@ export async function isStudent(): Promise<boolean> {
     const role = await getUserRole();
     return role === 'student';
 }
+
+/**
+ * Create the signed-in user's row on first use, so rows that reference them
+ * can be inserted. Admins are recognised by the ADMIN_EMAILS allowlist.
+ */
+export async function ensureCurrentUserInDb(userId: string): Promise<void> {
+    const user = await currentUser();
+    if (!user?.id) return;
+
+    const userEmail = user.emailAddresses[0]?.emailAddress?.toLowerCase();
+    const role = userEmail && getAdminEmails().includes(userEmail) ? 'admin' : 'student';
+
+    await db
+        .insert(users)
+        .values({
+            id: userId,
+            email: user.emailAddresses[0]?.emailAddress || `${userId}@unknown.local`,
+            firstName: user.firstName || null,
+            lastName: user.lastName || null,
+            imageUrl: user.imageUrl || null,
+            role,
+        })
+        .onConflictDoNothing();
+}
@@ -0,0 +1,104 @@
+export const confidenceLevels = [1, 2, 3, 4] as const;
+export type ConfidenceLevel = (typeof confidenceLevels)[number];
+
+export const confidenceLabels: Record<ConfidenceLevel, string> = {
+    1: 'Guessing',
+    2: 'Unsure',
+    3: 'Fairly sure',
+    4: 'Certain',
+};
+
+// What a well-calibrated student would get right at each level
+export const expectedAccuracy: Record<ConfidenceLevel, number> = {
+    1: 25,
+    2: 50,
+    3: 75,
+    4: 95,
+};
+
+// Wrong answers rated at least this sure are the dangerous ones
+export const CONFIDENT_LEVEL = 3;
+
+// A topic needs a pattern, not a one-off slip, before it is flagged
+const MIN_CONFIDENTLY_WRONG = 2;
+
+export type RatedAnswer = {
+    topic: string; // Clinical domain or UKMLA category
+    confidence: number;
+    correct: boolean;
+};
+
+export type CalibrationPoint = {
+    confidence: ConfidenceLevel;
+    label: string;
+    answers: number;
+    accuracy: number | null; // Percent correct at this level
+    expected: number;
+};
+
+export type ConfidentlyWrongTopic = {
+    topic: string;
+    confidentlyWrong: number;
+    confidentAnswers: number;
+    rate: number; // Percent of confident answers that were wrong
+};
+
+export function describeConfidence(confidence: number | null): string | null {
+    return confidenceLevels.find((level) => level === confidence) ? confidenceLabels[confidence as ConfidenceLevel] : null;
+}
+
+export function isConfidentlyWrong(answer: { confidence: number | null; correct: boolean }): boolean {
+    return answer.confidence !== null && answer.confidence >= CONFIDENT_LEVEL && !answer.correct;
+}
+
+/**
+ * Accuracy at each confidence level, against what a well-calibrated student
+ * would score there
+ */
+export function buildCalibrationCurve(answers: RatedAnswer[]): CalibrationPoint[] {
+    return confidenceLevels.map((confidence) => {
+        const atLevel = answers.filter((answer) => answer.confidence === confidence);
+        const correct = atLevel.filter((answer) => answer.correct).length;
+        return {
+            confidence,
+            label: confidenceLabels[confidence],
+            answers: atLevel.length,
+            accuracy: atLevel.length > 0 ? Math.round((correct / atLevel.length) * 100) : null,
+            expected: expectedAccuracy[confidence],
+        };
+    });
+}
+
+/**
+ * Topics where the student has been sure and wrong more than once, worst first
+ */
+export function findConfidentlyWrongTopics(answers: RatedAnswer[]): ConfidentlyWrongTopic[] {
+    const byTopic = new Map<string, { confidentlyWrong: number; confidentAnswers: number }>();
+
+    for (const answer of answers) {
+        if (answer.confidence < CONFIDENT_LEVEL) continue;
+        const entry = byTopic.get(answer.topic) ?? { confidentlyWrong: 0, confidentAnswers: 0 };
+        entry.confidentAnswers++;
+        if (!answer.correct) entry.confidentlyWrong++;
+        byTopic.set(answer.topic, entry);
+    }
+
+    return Array.from(byTopic.entries())
+        .filter(([, entry]) => entry.confidentlyWrong >= MIN_CONFIDENTLY_WRONG)
+        .map(([topic, entry]) => ({
+            topic,
+            ...entry,
+            rate: Math.round((entry.confidentlyWrong / entry.confidentAnswers) * 100),
+        }))
+        .sort((a, b) => b.confidentlyWrong - a.confidentlyWrong || b.rate - a.rate);
+}
+
+/**
+ * Move review cards from confidently wrong topics to the front of the queue,
+ * keeping the existing order within each group
+ */
+export function prioritiseConfidentlyWrong<T>(cards: T[], topicOf: (card: T) => string, topics: ConfidentlyWrongTopic[]): (T & { confidentlyWrong: boolean })[] {
+    const flagged = new Set(topics.map((topic) => topic.topic));
+    const marked = cards.map((card) => ({ ...card, confidentlyWrong: flagged.has(topicOf(card)) }));
+    return [...marked.filter((card) => card.confidentlyWrong), ...marked.filter((card) => !card.confidentlyWrong)];
+}
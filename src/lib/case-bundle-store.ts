@@ -0,0 +1,318 @@
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db } from '@/db';
+import { cases, caseStages, mediaAssets, stageInvestigations, stageMedia, stageOptions, type ClinicalData } from '@/db/schema';
+import { toCaseContent, type CaseContentChange } from '@/lib/case-content';
+import { bundleCaseToContent, createCaseBundle, defaultCaseBundleKey, diffBundleCase } from '@/lib/case-bundles';
+import { lintCaseByStageOrder } from '@/lib/case-lint';
+import { publishCaseVersion } from '@/lib/case-versions';
+import { approvedContentHash, getPublishBlocker, hashCaseReviewContent } from '@/lib/editorial-review-store';
+import type { CaseBundle, CaseBundleCase } from '@/schemas/case-bundle';
+
+export type CaseBundlePlanEntry = {
+    key: string;
+    title: string;
+    caseId: number | null; // The case the bundle entry updates; null when it would be created
+    action: 'create' | 'update' | 'unchanged';
+    willPublish: boolean; // Marked published, free of structural errors and approved in review here exactly as bundled
+    changes: CaseContentChange[];
+    warnings: string[];
+};
+
+async function loadDraftStages(caseIds: number[]) {
+    if (caseIds.length === 0) return [];
+    return await db.query.caseStages.findMany({
+        where: and(inArray(caseStages.caseId, caseIds), isNull(caseStages.caseVersionId)),
+        orderBy: [asc(caseStages.stageOrder), asc(caseStages.id)],
+        with: {
+            options: { orderBy: [asc(stageOptions.id)] },
+            investigations: { orderBy: [asc(stageInvestigations.id)] },
+            media: {
+                orderBy: [asc(stageMedia.displayOrder), asc(stageMedia.id)],
+                with: { asset: { columns: { storageKey: true } } },
+            },
+        },
+    });
+}
+
+/**
+ * Bundle up the drafts of the given cases. Media is exported as references to
+ * its stored assets; branches as the stageOrder they lead to.
+ */
+export async function exportCaseBundle(caseIds: number[]): Promise<CaseBundle | null> {
+    const rows = await db.query.cases.findMany({
+        where: inArray(cases.id, caseIds),
+        orderBy: [asc(cases.id)],
+    });
+    if (rows.length === 0) return null;
+
+    const stages = await loadDraftStages(rows.map((row) => row.id));
+
+    return createCaseBundle(rows.map((row): CaseBundleCase => {
+        const caseStageRows = stages.filter((stage) => stage.caseId === row.id);
+        const orderById = new Map(caseStageRows.map((stage) => [stage.id, stage.stageOrder]));
+
+        return {
+            key: row.bundleKey ?? defaultCaseBundleKey(row.title, row.id),
+            title: row.title,
+            description: row.description,
+            clinicalDomain: row.clinicalDomain,
+            difficultyLevel: row.difficultyLevel,
+            published: row.isPublished,
+            baselineVitals: row.baselineVitals,
+            patientDemographics: row.patientDemographics,
+            stageTimeLimitSeconds: row.stageTimeLimitSeconds,
+            templateVariables: row.templateVariables,
+            stages: caseStageRows.map((stage) => ({
+                stageOrder: stage.stageOrder,
+                narrative: stage.narrative,
+                stageType: stage.stageType,
+                decisionType: stage.decisionType,
+                clinicalData: stage.clinicalData as ClinicalData | null,
+                mediaUrl: stage.mediaUrl,
+                timeLimitSeconds: stage.timeLimitSeconds,
+                hints: stage.hints,
+                patientScript: stage.patientScript,
+                investigations: stage.investigations.map(({ investigation, result, isIndicated }) => ({ investigation, result, isIndicated })),
+                media: stage.media.map((row) => ({
+                    storageKey: row.asset.storageKey,
+                    caption: row.caption,
+                    revealOnRequest: row.revealOnRequest,
+                })),
+                options: stage.options.map((option) => ({
+                    text: option.text,
+                    isCorrect: option.isCorrect,
+                    scoreWeight: option.scoreWeight,
+                    feedback: option.feedback,
+                    nextStageOrder: option.nextStageId === null ? null : orderById.get(option.nextStageId) ?? null,
+                    outcome: option.outcome,
+                    vitalEffects: option.vitalEffects,
+                    durationMinutes: option.durationMinutes,
+                    correctPosition: option.correctPosition,
+                    acceptedAnswers: option.acceptedAnswers,
+                    isTimeout: option.isTimeout,
+                    safetyClass: option.safetyClass,
+                })),
+            })),
+        };
+    }));
+}
+
+/**
+ * The stored asset for each storage key the bundle references that exists here
+ */
+async function resolveBundleMedia(bundle: CaseBundle) {
+    const keys = [...new Set(bundle.cases.flatMap((medicalCase) => medicalCase.stages.flatMap((stage) => stage.media.map((row) => row.storageKey))))];
+    if (keys.length === 0) return new Map<string, number>();
+
+    const assets = await db.query.mediaAssets.findMany({
+        where: inArray(mediaAssets.storageKey, keys),
+        columns: { id: true, storageKey: true },
+    });
+    return new Map(assets.map((asset) => [asset.storageKey, asset.id]));
+}
+
+/**
+ * Match bundled cases to stored ones: by the key a previous import recorded,
+ * or else by the key a case never imported was exported under from here, which
+ * embeds its id. A case is never matched on its title alone.
+ */
+async function matchBundleCases(bundle: CaseBundle) {
+    const keys = bundle.cases.map((medicalCase) => medicalCase.key);
+    const exportedIds = keys.flatMap((key) => {
+        const id = key.match(/-(\d+)$/)?.[1];
+        return id ? [Number(id)] : [];
+    });
+
+    const [byKey, byExportedKey] = await Promise.all([
+        db.query.cases.findMany({ where: inArray(cases.bundleKey, keys) }),
+        exportedIds.length === 0
+            ? []
+            : db.query.cases.findMany({ where: and(inArray(cases.id, exportedIds), isNull(cases.bundleKey)) }),
+    ]);
+
+    return new Map(bundle.cases.map((medicalCase) => {
+        const match = byKey.find((row) => row.bundleKey === medicalCase.key)
+            ?? byExportedKey.find((row) => defaultCaseBundleKey(row.title, row.id) === medicalCase.key);
+        return [medicalCase.key, match ?? null] as const;
+    }));
+}
+
+/**
+ * Dry run: what importing the bundle would create or change, case by case.
+ * Nothing is written.
+ */
+export async function planCaseBundleImport(bundle: CaseBundle): Promise<CaseBundlePlanEntry[]> {
+    const [matches, assetIdsByKey] = await Promise.all([matchBundleCases(bundle), resolveBundleMedia(bundle)]);
+    const matchedIds = [...matches.values()].flatMap((row) => (row ? [row.id] : []));
+    const stages = await loadDraftStages(matchedIds);
+
+    // Only an approval of exactly this content lets the import publish it
+    const approvedHashes = new Map(await Promise.all(bundle.cases.map(async (medicalCase) => {
+        const existing = matches.get(medicalCase.key);
+        const hash = existing?.verificationStatus === 'approved'
+            ? await approvedContentHash({ contentType: 'case', contentId: existing.id })
+            : null;
+        return [medicalCase.key, hash] as const;
+    })));
+
+    return bundle.cases.map((medicalCase) => {
+        const existing = matches.get(medicalCase.key) ?? null;
+        const changes = diffBundleCase(
+            existing && {
+                catalogue: existing,
+                content: toCaseContent(existing, stages.filter((stage) => stage.caseId === existing.id)),
+            },
+            medicalCase,
+            assetIdsByKey
+        );
+
+        const warnings = medicalCase.stages.flatMap((stage) => stage.media
+            .filter((row) => !assetIdsByKey.has(row.storageKey))
+            .map((row) => `Stage ${stage.stageOrder}: media "${row.storageKey}" isn't uploaded here and will be skipped`));
+
+        const content = bundleCaseToContent(medicalCase, assetIdsByKey);
+        const lintIssues = lintCaseByStageOrder(content.stages);
+        const hasLintErrors = lintIssues.some((issue) => issue.severity === 'error');
+        warnings.push(...lintIssues.map((issue) => (issue.severity === 'error' ? `Structural error: ${issue.message}` : issue.message)));
+
+        const isApproved = approvedHashes.get(medicalCase.key) === hashCaseReviewContent(medicalCase, content);
+        const willPublish = medicalCase.published && isApproved && !hasLintErrors;
+        if (medicalCase.published && !isApproved) {
+            warnings.push('Not approved in editorial review here as bundled, so it will be imported without publishing it');
+        } else if (medicalCase.published && hasLintErrors) {
+            warnings.push('Has structural errors, so it will be imported without publishing it');
+        }
+
+        return {
+            key: medicalCase.key,
+            title: medicalCase.title,
+            caseId: existing?.id ?? null,
+            action: !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged',
+            willPublish,
+            changes,
+            warnings,
+        };
+    });
+}
+
+// Draft stage orders are unique within a case, so statements later in a batch find each new stage by its order
+function draftStageId(caseId: number, stageOrder: number) {
+    return sql<number>`(select ${caseStages.id} from ${caseStages} where ${caseStages.caseId} = ${caseId} and ${caseStages.caseVersionId} is null and ${caseStages.stageOrder} = ${stageOrder})`;
+}
+
+/**
+ * The inserts recreating a bundled case's draft, built up front so they run in
+ * the same batch as the delete of the draft they replace
+ */
+function buildDraftStageInserts(caseId: number, medicalCase: CaseBundleCase, assetIdsByKey: Map<string, number>): [BatchItem<'pg'>, ...BatchItem<'pg'>[]] {
+    const stages = db.insert(caseStages).values(medicalCase.stages.map((stage) => ({
+        caseId,
+        stageOrder: stage.stageOrder,
+        narrative: stage.narrative,
+        clinicalData: stage.clinicalData ?? null,
+        mediaUrl: stage.mediaUrl ?? null,
+        stageType: stage.stageType,
+        patientScript: stage.patientScript ?? null,
+        decisionType: stage.decisionType,
+        timeLimitSeconds: stage.timeLimitSeconds ?? null,
+        hints: stage.hints,
+    })));
+
+    const options = medicalCase.stages.flatMap((stage) => stage.options.map((option) => ({
+        stageId: draftStageId(caseId, stage.stageOrder),
+        text: option.text,
+        isCorrect: option.isCorrect,
+        scoreWeight: option.scoreWeight,
+        feedback: option.feedback,
+        nextStageId: option.nextStageOrder ? draftStageId(caseId, option.nextStageOrder) : null,
+        outcome: option.outcome ?? null,
+        vitalEffects: option.vitalEffects ?? null,
+        durationMinutes: option.durationMinutes,
+        correctPosition: option.correctPosition ?? null,
+        acceptedAnswers: option.acceptedAnswers,
+        isTimeout: option.isTimeout,
+        safetyClass: option.safetyClass ?? null,
+    })));
+
+    const investigations = medicalCase.stages.flatMap((stage) => stage.investigations.map((row) => ({
+        stageId: draftStageId(caseId, stage.stageOrder),
+        ...row,
+    })));
+
+    const media = medicalCase.stages.flatMap((stage) => stage.media.flatMap((row, index) => {
+        const mediaAssetId = assetIdsByKey.get(row.storageKey);
+        return mediaAssetId === undefined ? [] : [{
+            stageId: draftStageId(caseId, stage.stageOrder),
+            mediaAssetId,
+            caption: row.caption,
+            displayOrder: index,
+            revealOnRequest: row.revealOnRequest,
+        }];
+    }));
+
+    return [
+        stages,
+        ...(options.length > 0 ? [db.insert(stageOptions).values(options)] : []),
+        ...(investigations.length > 0 ? [db.insert(stageInvestigations).values(investigations)] : []),
+        ...(media.length > 0 ? [db.insert(stageMedia).values(media)] : []),
+    ];
+}
+
+/**
+ * Import a bundle: new cases are created for the given owner, matched cases
+ * have their draft replaced, and cases marked published are published as a
+ * new version if that content was approved in review here. Past versions and
+ * the attempts pinned to them are untouched.
+ */
+export async function applyCaseBundleImport(bundle: CaseBundle, ownerUserId: string): Promise<CaseBundlePlanEntry[]> {
+    const [plan, assetIdsByKey] = await Promise.all([planCaseBundleImport(bundle), resolveBundleMedia(bundle)]);
+
+    const results: CaseBundlePlanEntry[] = [];
+    for (const [index, entry] of plan.entries()) {
+        const medicalCase = bundle.cases[index];
+        if (entry.action === 'unchanged') {
+            results.push(entry);
+            continue;
+        }
+
+        const values = {
+            title: medicalCase.title,
+            description: medicalCase.description,
+            clinicalDomain: medicalCase.clinicalDomain,
+            difficultyLevel: medicalCase.difficultyLevel,
+            baselineVitals: medicalCase.baselineVitals ?? null,
+            patientDemographics: medicalCase.patientDemographics ?? null,
+            stageTimeLimitSeconds: medicalCase.stageTimeLimitSeconds ?? null,
+            templateVariables: medicalCase.templateVariables?.length ? medicalCase.templateVariables : null,
+            bundleKey: medicalCase.key,
+        };
+
+        let caseId: number;
+        if (entry.caseId === null) {
+            const [created] = await db.insert(cases)
+                .values({ ...values, userId: ownerUserId, isPublished: false })
+                .returning({ id: cases.id });
+            caseId = created.id;
+            await db.batch(buildDraftStageInserts(caseId, medicalCase, assetIdsByKey));
+        } else {
+            // The draft is only replaced if all of the new one is stored
+            caseId = entry.caseId;
+            await db.batch([
+                db.update(cases)
+                    .set({ ...values, ...(medicalCase.published ? {} : { isPublished: false }), updatedAt: new Date() })
+                    .where(eq(cases.id, caseId)),
+                db.delete(caseStages).where(and(eq(caseStages.caseId, caseId), isNull(caseStages.caseVersionId))),
+                ...buildDraftStageInserts(caseId, medicalCase, assetIdsByKey),
+            ]);
+        }
+
+        if (medicalCase.published && entry.willPublish && !(await getPublishBlocker({ contentType: 'case', contentId: caseId }))) {
+            await publishCaseVersion(caseId, ownerUserId);
+        }
+
+        results.push({ ...entry, caseId });
+    }
+
+    return results;
+}
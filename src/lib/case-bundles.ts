@@ -0,0 +1,146 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { diffCaseContent, toCaseContent, type CaseContent, type CaseContentChange } from '@/lib/case-content';
+import {
+    caseBundleSchema,
+    CASE_BUNDLE_FORMAT,
+    CASE_BUNDLE_VERSION,
+    type CaseBundle,
+    type CaseBundleCase,
+    type CaseBundleFormat,
+} from '@/schemas/case-bundle';
+
+export type ParsedCaseBundle =
+    | { success: true; bundle: CaseBundle }
+    | { success: false; message: string };
+
+/**
+ * Read bundle text as JSON or YAML and check it against the bundle schema.
+ * The first problem is reported with where it is, e.g. "cases.0.stages.1.narrative".
+ */
+export function parseCaseBundle(text: string, format: CaseBundleFormat): ParsedCaseBundle {
+    let raw: unknown;
+    try {
+        raw = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+    } catch {
+        return { success: false, message: `The bundle is not valid ${format === 'yaml' ? 'YAML' : 'JSON'}` };
+    }
+
+    const parsed = caseBundleSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        const where = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+        return { success: false, message: `${where}${issue.message}` };
+    }
+    return { success: true, bundle: parsed.data };
+}
+
+export function serializeCaseBundle(bundle: CaseBundle, format: CaseBundleFormat): string {
+    return format === 'yaml' ? stringifyYaml(bundle, { lineWidth: 0 }) : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+export function createCaseBundle(cases: CaseBundleCase[]): CaseBundle {
+    return {
+        format: CASE_BUNDLE_FORMAT,
+        version: CASE_BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        cases,
+    };
+}
+
+/**
+ * The key a case is exported under when it was never imported from a bundle
+ */
+export function defaultCaseBundleKey(title: string, caseId: number): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+    return slug ? `${slug}-${caseId}` : `case-${caseId}`;
+}
+
+const emptyContent: CaseContent = {
+    settings: { baselineVitals: null, patientDemographics: null, stageTimeLimitSeconds: null, templateVariables: null },
+    stages: [],
+};
+
+/**
+ * A bundled case in the same comparable form as a stored one. Media that
+ * doesn't resolve to an asset in this environment is left out.
+ */
+export function bundleCaseToContent(medicalCase: CaseBundleCase, assetIdsByKey: Map<string, number>): CaseContent {
+    return toCaseContent(
+        {
+            baselineVitals: medicalCase.baselineVitals ?? null,
+            patientDemographics: medicalCase.patientDemographics ?? null,
+            stageTimeLimitSeconds: medicalCase.stageTimeLimitSeconds ?? null,
+            templateVariables: medicalCase.templateVariables ?? null,
+        },
+        // stageOrder is unique in a bundle, so it stands in for the stage id
+        medicalCase.stages.map((stage) => ({
+            id: stage.stageOrder,
+            stageOrder: stage.stageOrder,
+            narrative: stage.narrative,
+            stageType: stage.stageType,
+            decisionType: stage.decisionType,
+            clinicalData: stage.clinicalData ?? null,
+            mediaUrl: stage.mediaUrl ?? null,
+            timeLimitSeconds: stage.timeLimitSeconds ?? null,
+            hints: stage.hints,
+            patientScript: stage.patientScript ?? null,
+            options: stage.options.map((option, index) => ({
+                id: index,
+                text: option.text,
+                isCorrect: option.isCorrect,
+                scoreWeight: option.scoreWeight,
+                feedback: option.feedback,
+                nextStageId: option.nextStageOrder ?? null,
+                outcome: option.outcome ?? null,
+                vitalEffects: option.vitalEffects ?? null,
+                durationMinutes: option.durationMinutes,
+                correctPosition: option.correctPosition ?? null,
+                acceptedAnswers: option.acceptedAnswers,
+                isTimeout: option.isTimeout,
+                safetyClass: option.safetyClass ?? null,
+            })),
+            investigations: stage.investigations,
+            media: stage.media.flatMap((row, index) => {
+                const mediaAssetId = assetIdsByKey.get(row.storageKey);
+                return mediaAssetId === undefined
+                    ? []
+                    : [{ id: index, mediaAssetId, caption: row.caption, displayOrder: index, revealOnRequest: row.revealOnRequest }];
+            }),
+        }))
+    );
+}
+
+type CatalogueEntry = {
+    title: string;
+    description: string;
+    clinicalDomain: string;
+    difficultyLevel: string;
+    isPublished: boolean;
+};
+
+/**
+ * What importing a bundled case would change: its catalogue entry, then its
+ * content field by field. A case that doesn't exist yet is all additions.
+ */
+export function diffBundleCase(
+    existing: { catalogue: CatalogueEntry; content: CaseContent } | null,
+    medicalCase: CaseBundleCase,
+    assetIdsByKey: Map<string, number>
+): CaseContentChange[] {
+    const catalogue: [string, string | null, string][] = [
+        ['Case › Title', existing?.catalogue.title ?? null, medicalCase.title],
+        ['Case › Description', existing?.catalogue.description ?? null, medicalCase.description],
+        ['Case › Clinical domain', existing?.catalogue.clinicalDomain ?? null, medicalCase.clinicalDomain],
+        ['Case › Difficulty', existing?.catalogue.difficultyLevel ?? null, medicalCase.difficultyLevel],
+        ['Case › Published', existing ? (existing.catalogue.isPublished ? 'Yes' : 'No') : null, medicalCase.published ? 'Yes' : 'No'],
+    ];
+
+    const catalogueChanges = catalogue.flatMap(([path, before, after]): CaseContentChange[] => (
+        before === after ? [] : [{ path, kind: before === null ? 'added' : 'changed', before, after }]
+    ));
+
+    return [
+        ...catalogueChanges,
+        ...diffCaseContent(existing?.content ?? emptyContent, bundleCaseToContent(medicalCase, assetIdsByKey)),
+    ];
+}
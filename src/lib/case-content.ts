@@ -0,0 +1,190 @@
+import type { CaseOutcome, CaseTemplateVariable, ClinicalData, DecisionType, InvestigationType, PatientDemographics, PatientScript, SafetyClass, StageHint, StageType, VitalEffects } from '@/db/schema';
+
+/**
+ * Everything a student plays in a case, in a form that can be compared across
+ * versions: stage and option ids differ between copies, so stages are known by
+ * their order and branches by the order of the stage they lead to.
+ */
+export type CaseContent = {
+    settings: {
+        baselineVitals: ClinicalData | null;
+        patientDemographics: PatientDemographics | null;
+        stageTimeLimitSeconds: number | null;
+        templateVariables: CaseTemplateVariable[] | null;
+    };
+    stages: {
+        stageOrder: number;
+        narrative: string;
+        stageType: StageType;
+        decisionType: DecisionType;
+        clinicalData: unknown;
+        mediaUrl: string | null;
+        timeLimitSeconds: number | null;
+        hints: StageHint[];
+        patientScript: PatientScript | null;
+        options: {
+            text: string;
+            isCorrect: boolean;
+            scoreWeight: number;
+            feedback: string;
+            nextStageOrder: number | null;
+            outcome: CaseOutcome | null;
+            vitalEffects: VitalEffects | null;
+            durationMinutes: number;
+            correctPosition: number | null;
+            acceptedAnswers: string[];
+            isTimeout: boolean;
+            safetyClass: SafetyClass | null;
+        }[];
+        investigations: { investigation: InvestigationType; result: string; isIndicated: boolean }[];
+        media: { mediaAssetId: number; caption: string; revealOnRequest: boolean }[];
+    }[];
+};
+
+export type CaseContentChange = {
+    path: string; // e.g. "Stage 2 › Option 1 › Score weight"
+    kind: 'added' | 'removed' | 'changed';
+    before: string | null;
+    after: string | null;
+};
+
+type StageRow = Omit<CaseContent['stages'][number], 'options' | 'investigations' | 'media'> & {
+    id: number;
+    options: (Omit<CaseContent['stages'][number]['options'][number], 'nextStageOrder'> & { id: number; nextStageId: number | null })[];
+    investigations: CaseContent['stages'][number]['investigations'];
+    media: (CaseContent['stages'][number]['media'][number] & { id: number; displayOrder: number })[];
+};
+
+/**
+ * Normalise a case's settings and stage rows, as loaded with their options,
+ * investigations and media, for comparison
+ */
+export function toCaseContent(settings: CaseContent['settings'], stages: StageRow[]): CaseContent {
+    const ordered = [...stages].sort((a, b) => a.stageOrder - b.stageOrder || a.id - b.id);
+    const orderById = new Map(ordered.map((stage) => [stage.id, stage.stageOrder]));
+
+    return {
+        settings: {
+            baselineVitals: settings.baselineVitals ?? null,
+            patientDemographics: settings.patientDemographics ?? null,
+            stageTimeLimitSeconds: settings.stageTimeLimitSeconds ?? null,
+            templateVariables: settings.templateVariables ?? null,
+        },
+        stages: ordered.map((stage) => ({
+            stageOrder: stage.stageOrder,
+            narrative: stage.narrative,
+            stageType: stage.stageType,
+            decisionType: stage.decisionType,
+            clinicalData: stage.clinicalData ?? null,
+            mediaUrl: stage.mediaUrl,
+            timeLimitSeconds: stage.timeLimitSeconds,
+            hints: stage.hints,
+            patientScript: stage.patientScript,
+            options: [...stage.options].sort((a, b) => a.id - b.id).map((option) => ({
+                text: option.text,
+                isCorrect: option.isCorrect,
+                scoreWeight: option.scoreWeight,
+                feedback: option.feedback,
+                nextStageOrder: option.nextStageId === null ? null : orderById.get(option.nextStageId) ?? null,
+                outcome: option.outcome,
+                vitalEffects: option.vitalEffects,
+                durationMinutes: option.durationMinutes,
+                correctPosition: option.correctPosition,
+                acceptedAnswers: option.acceptedAnswers,
+                isTimeout: option.isTimeout,
+                safetyClass: option.safetyClass,
+            })),
+            investigations: [...stage.investigations]
+                .sort((a, b) => a.investigation.localeCompare(b.investigation))
+                .map(({ investigation, result, isIndicated }) => ({ investigation, result, isIndicated })),
+            media: [...stage.media]
+                .sort((a, b) => a.displayOrder - b.displayOrder || a.id - b.id)
+                .map(({ mediaAssetId, caption, revealOnRequest }) => ({ mediaAssetId, caption, revealOnRequest })),
+        })),
+    };
+}
+
+function describe(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value);
+}
+
+/**
+ * Every field of the content as a readable path and its value, in reading order.
+ * Empty fields are left out so that null and missing compare equal.
+ */
+function flattenCaseContent(content: CaseContent): Map<string, string> {
+    const fields = new Map<string, string>();
+    const put = (path: string, value: unknown) => {
+        const text = describe(value);
+        if (text !== null && text !== '' && text !== '[]') fields.set(path, text);
+    };
+
+    put('Settings › Baseline vitals', content.settings.baselineVitals);
+    put('Settings › Patient', content.settings.patientDemographics);
+    put('Settings › Stage time limit', content.settings.stageTimeLimitSeconds);
+    put('Settings › Template variables', content.settings.templateVariables);
+
+    const seen = new Map<number, number>();
+    for (const stage of content.stages) {
+        // Duplicate stage orders are kept apart rather than merged
+        const repeat = (seen.get(stage.stageOrder) ?? 0) + 1;
+        seen.set(stage.stageOrder, repeat);
+        const label = repeat > 1 ? `Stage ${stage.stageOrder} (${repeat})` : `Stage ${stage.stageOrder}`;
+
+        put(`${label} › Narrative`, stage.narrative);
+        put(`${label} › Type`, `${stage.stageType}, ${stage.decisionType}`);
+        put(`${label} › Clinical data`, stage.clinicalData);
+        put(`${label} › Media URL`, stage.mediaUrl);
+        put(`${label} › Time limit`, stage.timeLimitSeconds);
+        put(`${label} › Hints`, stage.hints);
+        put(`${label} › Patient script`, stage.patientScript);
+        put(`${label} › Media`, stage.media);
+
+        for (const row of stage.investigations) {
+            put(`${label} › Investigation ${row.investigation}`, `${row.result}${row.isIndicated ? ' (indicated)' : ''}`);
+        }
+
+        stage.options.forEach((option, index) => {
+            const path = `${label} › Option ${index + 1}`;
+            put(`${path} › Text`, option.text);
+            put(`${path} › Correct`, option.isCorrect ? 'Yes' : 'No');
+            put(`${path} › Score weight`, option.scoreWeight);
+            put(`${path} › Feedback`, option.feedback);
+            put(`${path} › Leads to`, option.outcome
+                ? `Ends: ${option.outcome}`
+                : option.nextStageOrder !== null ? `Stage ${option.nextStageOrder}` : 'Next stage in order');
+            put(`${path} › Vital effects`, option.vitalEffects);
+            put(`${path} › Duration (minutes)`, option.durationMinutes);
+            put(`${path} › Correct position`, option.correctPosition);
+            put(`${path} › Accepted answers`, option.acceptedAnswers);
+            put(`${path} › Hidden timeout option`, option.isTimeout ? 'Yes' : null);
+            put(`${path} › Safety class`, option.safetyClass);
+        });
+    }
+
+    return fields;
+}
+
+/**
+ * Field-by-field differences between two versions of a case's content, in the
+ * order they appear in the case
+ */
+export function diffCaseContent(before: CaseContent, after: CaseContent): CaseContentChange[] {
+    const beforeFields = flattenCaseContent(before);
+    const afterFields = flattenCaseContent(after);
+    const paths = [...new Set([...beforeFields.keys(), ...afterFields.keys()])];
+
+    return paths.flatMap((path): CaseContentChange[] => {
+        const was = beforeFields.get(path) ?? null;
+        const now = afterFields.get(path) ?? null;
+        if (was === now) return [];
+        return [{
+            path,
+            kind: was === null ? 'added' : now === null ? 'removed' : 'changed',
+            before: was,
+            after: now,
+        }];
+    });
+}
@@ -0,0 +1,177 @@
+import type { CaseOutcome } from '@/db/schema';
+
+/**
+ * Minimal shape needed to walk a case as a graph of stages.
+ * Options either jump to `nextStageId`, end the case with an `outcome`,
+ * or (when both are null) fall through to the next stage by `stageOrder`.
+ */
+export type GraphOption = {
+    id: number;
+    nextStageId?: number | null;
+    outcome?: CaseOutcome | null;
+};
+
+export type GraphStage = {
+    id: number;
+    stageOrder: number;
+    options: GraphOption[];
+};
+
+export type NextStep =
+    | { type: 'stage'; stageId: number }
+    | { type: 'end'; outcome: CaseOutcome | null };
+
+export type CaseGraphIssue = {
+    stageId: number | null;
+    message: string;
+};
+
+function sortByOrder<S extends GraphStage>(stages: S[]): S[] {
+    return [...stages].sort((a, b) => a.stageOrder - b.stageOrder || a.id - b.id);
+}
+
+/**
+ * The entry point of a case is always the stage with the lowest stageOrder.
+ */
+export function getStartStage<S extends GraphStage>(stages: S[]): S | null {
+    return sortByOrder(stages)[0] ?? null;
+}
+
+/**
+ * Resolve where an option leads from the given stage.
+ */
+export function resolveNextStep<S extends GraphStage>(
+    stages: S[],
+    stageId: number,
+    option: GraphOption
+): NextStep {
+    if (option.outcome) {
+        return { type: 'end', outcome: option.outcome };
+    }
+
+    if (option.nextStageId) {
+        return { type: 'stage', stageId: option.nextStageId };
+    }
+
+    const ordered = sortByOrder(stages);
+    const index = ordered.findIndex((stage) => stage.id === stageId);
+    const next = index >= 0 ? ordered[index + 1] : undefined;
+
+    return next ? { type: 'stage', stageId: next.id } : { type: 'end', outcome: null };
+}
+
+function getSuccessorIds<S extends GraphStage>(stages: S[], stage: S): number[] {
+    const successors = new Set<number>();
+    for (const option of stage.options) {
+        const step = resolveNextStep(stages, stage.id, option);
+        if (step.type === 'stage') {
+            successors.add(step.stageId);
+        }
+    }
+    return Array.from(successors);
+}
+
+/**
+ * Check that every option points at a stage in the same case, that every stage
+ * is reachable from the start stage, and that no path loops back on itself.
+ */
+export function validateCaseGraph<S extends GraphStage>(stages: S[]): CaseGraphIssue[] {
+    const issues: CaseGraphIssue[] = [];
+    const start = getStartStage(stages);
+    if (!start) {
+        return issues;
+    }
+
+    const byId = new Map(stages.map((stage) => [stage.id, stage]));
+
+    for (const stage of stages) {
+        for (const option of stage.options) {
+            if (option.nextStageId && option.outcome) {
+                issues.push({
+                    stageId: stage.id,
+                    message: `Stage ${stage.stageOrder} has an option with both a next stage and an outcome`,
+                });
+            }
+            if (option.nextStageId && !byId.has(option.nextStageId)) {
+                issues.push({
+                    stageId: stage.id,
+                    message: `Stage ${stage.stageOrder} has an option pointing at a stage outside this case`,
+                });
+            }
+            if (option.nextStageId === stage.id) {
+                issues.push({
+                    stageId: stage.id,
+                    message: `Stage ${stage.stageOrder} has an option pointing back at itself`,
+                });
+            }
+        }
+    }
+
+    // Depth-first walk from the start stage: grey = on the current path, black = done
+    const colour = new Map<number, 'grey' | 'black'>();
+    let cycleReported = false;
+
+    const visit = (stage: S) => {
+        colour.set(stage.id, 'grey');
+        for (const nextId of getSuccessorIds(stages, stage)) {
+            const next = byId.get(nextId);
+            if (!next) continue;
+
+            const state = colour.get(nextId);
+            if (state === 'grey') {
+                if (!cycleReported) {
+                    issues.push({
+                        stageId: stage.id,
+                        message: `Stage ${stage.stageOrder} loops back to stage ${next.stageOrder}`,
+                    });
+                    cycleReported = true;
+                }
+                continue;
+            }
+            if (!state) {
+                visit(next);
+            }
+        }
+        colour.set(stage.id, 'black');
+    };
+
+    visit(start);
+
+    for (const stage of sortByOrder(stages)) {
+        if (!colour.has(stage.id)) {
+            issues.push({
+                stageId: stage.id,
+                message: `Stage ${stage.stageOrder} is unreachable from the start of the case`,
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Longest number of stages still to play from (and including) the given stage.
+ * Assumes the graph has passed validation, but guards against loops anyway.
+ */
+export function countRemainingStages<S extends GraphStage>(stages: S[], stageId: number): number {
+    const byId = new Map(stages.map((stage) => [stage.id, stage]));
+    const memo = new Map<number, number>();
+
+    const depth = (id: number, seen: Set<number>): number => {
+        const cached = memo.get(id);
+        if (cached !== undefined) return cached;
+
+        const stage = byId.get(id);
+        if (!stage || seen.has(id)) return 0;
+
+        seen.add(id);
+        const longest = getSuccessorIds(stages, stage)
+            .reduce((max, nextId) => Math.max(max, depth(nextId, seen)), 0);
+        seen.delete(id);
+
+        memo.set(id, longest + 1);
+        return longest + 1;
+    };
+
+    return depth(stageId, new Set());
+}
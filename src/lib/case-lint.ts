@@ -0,0 +1,168 @@
+import type { DecisionType } from '@/db/schema';
+import { validateCaseGraph, type GraphOption } from '@/lib/case-graph';
+
+export type LintOption = GraphOption & {
+    text: string;
+    isCorrect: boolean;
+    scoreWeight: number;
+    feedback?: string;
+    correctPosition?: number | null;
+    acceptedAnswers?: string[];
+    isTimeout?: boolean;
+};
+
+export type LintStage = {
+    id: number;
+    stageOrder: number;
+    narrative: string;
+    decisionType?: DecisionType;
+    options: LintOption[];
+};
+
+export type CaseLintSeverity = 'error' | 'warning';
+
+export type CaseLintIssue = {
+    severity: CaseLintSeverity;
+    stageOrder: number | null;
+    message: string;
+};
+
+export type CaseHealth = 'healthy' | 'warnings' | 'errors';
+
+export const caseHealthStyles: Record<CaseHealth, string> = {
+    healthy: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    warnings: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    errors: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+function lintStage(stage: LintStage): CaseLintIssue[] {
+    const issues: CaseLintIssue[] = [];
+    const error = (message: string) => issues.push({ severity: 'error', stageOrder: stage.stageOrder, message });
+    const warning = (message: string) => issues.push({ severity: 'warning', stageOrder: stage.stageOrder, message });
+    const label = `Stage ${stage.stageOrder}`;
+    const decisionType = stage.decisionType ?? 'single';
+
+    if (!stage.narrative.trim()) {
+        warning(`${label} has no narrative`);
+    }
+
+    // The hidden "no decision" option of a timed stage is never shown, so it doesn't count
+    const options = stage.options.filter((option) => !option.isTimeout);
+    if (options.length === 0) {
+        error(`${label} has no options`);
+        return issues;
+    }
+
+    if (decisionType === 'ordering') {
+        const positions = options.map((option) => option.correctPosition ?? null);
+        if (positions.some((position) => position === null)) {
+            error(`${label} puts options in order but not every option has a place in the correct order`);
+        } else if (new Set(positions).size !== positions.length) {
+            warning(`${label} gives two options the same place in the correct order`);
+        }
+    } else {
+        const correct = options.filter((option) => option.isCorrect);
+        if (correct.length === 0) {
+            error(`${label} has no correct option`);
+        } else if (decisionType === 'single' && correct.length > 1) {
+            warning(`${label} asks for a single best answer but has ${correct.length} correct options`);
+        }
+        if (correct.some((option) => option.scoreWeight < 0)) {
+            warning(`${label} has a correct option that loses points`);
+        }
+        const bestCorrect = Math.max(...correct.map((option) => option.scoreWeight));
+        if (correct.length > 0 && options.some((option) => !option.isCorrect && option.scoreWeight > bestCorrect)) {
+            warning(`${label} has an incorrect option that scores more than any correct one`);
+        }
+    }
+
+    if (decisionType === 'free_text' && options.every((option) => (option.acceptedAnswers ?? []).length === 0)) {
+        error(`${label} takes free text but no option has accepted answers, so nothing typed can match`);
+    }
+
+    if (options.every((option) => option.scoreWeight < 0)) {
+        error(`Every option in ${label} loses points`);
+    } else if (options.every((option) => option.scoreWeight <= 0)) {
+        warning(`No option in ${label} scores any points`);
+    }
+
+    if (options.some((option) => !option.text.trim())) {
+        error(`${label} has an option with no text`);
+    }
+    if (options.some((option) => option.feedback !== undefined && !option.feedback.trim())) {
+        warning(`${label} has an option with no feedback`);
+    }
+
+    return issues;
+}
+
+/**
+ * Structural checks over a case's stages. Errors leave a case that can't be
+ * played or scored properly and block publishing; warnings are worth a look.
+ */
+export function lintCase(stages: LintStage[]): CaseLintIssue[] {
+    if (stages.length === 0) {
+        return [{ severity: 'error', stageOrder: null, message: 'The case has no stages' }];
+    }
+
+    const issues: CaseLintIssue[] = [];
+    const seen = new Set<number>();
+    const duplicated = new Set<number>();
+    for (const stage of stages) {
+        if (seen.has(stage.stageOrder)) duplicated.add(stage.stageOrder);
+        seen.add(stage.stageOrder);
+    }
+    for (const stageOrder of duplicated) {
+        issues.push({ severity: 'error', stageOrder, message: `More than one stage is numbered ${stageOrder}` });
+    }
+
+    for (const stage of [...stages].sort((a, b) => a.stageOrder - b.stageOrder || a.id - b.id)) {
+        issues.push(...lintStage(stage));
+    }
+
+    // The pathway can't be walked reliably until every stage has its own number
+    if (duplicated.size === 0) {
+        for (const issue of validateCaseGraph(stages)) {
+            const stage = stages.find((row) => row.id === issue.stageId);
+            issues.push({ severity: 'error', stageOrder: stage?.stageOrder ?? null, message: issue.message });
+        }
+    }
+
+    return issues;
+}
+
+type OrderedLintStage = Omit<LintStage, 'id' | 'options'> & {
+    options: (Omit<LintOption, 'id' | 'nextStageId'> & { nextStageOrder?: number | null })[];
+};
+
+/**
+ * Lint stages that branch by stageOrder rather than id, such as case content,
+ * bundles and AI output that hasn't been inserted yet
+ */
+export function lintCaseByStageOrder(stages: OrderedLintStage[]): CaseLintIssue[] {
+    return lintCase(stages.map((stage) => ({
+        ...stage,
+        id: stage.stageOrder,
+        options: stage.options.map((option, index) => ({
+            ...option,
+            id: index,
+            nextStageId: option.nextStageOrder ?? null,
+        })),
+    })));
+}
+
+export function getCaseHealth(issues: CaseLintIssue[]): CaseHealth {
+    if (issues.some((issue) => issue.severity === 'error')) return 'errors';
+    return issues.length > 0 ? 'warnings' : 'healthy';
+}
+
+/**
+ * A one-line summary for badges, e.g. "2 errors" or "1 warning"
+ */
+export function describeCaseHealth(issues: CaseLintIssue[]): string {
+    const errors = issues.filter((issue) => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+    if (errors > 0) return `${errors} error${errors === 1 ? '' : 's'}`;
+    if (warnings > 0) return `${warnings} warning${warnings === 1 ? '' : 's'}`;
+    return 'Healthy';
+}
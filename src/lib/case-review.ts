@@ -0,0 +1,17 @@
+/**
+ * The best option at a stage: highest score weight, with options marked
+ * correct winning ties.
+ */
+export function getOptimalOption<O extends { scoreWeight: number; isCorrect: boolean }>(options: O[]): O | null {
+    let best: O | null = null;
+    for (const option of options) {
+        if (
+            !best ||
+            option.scoreWeight > best.scoreWeight ||
+            (option.scoreWeight === best.scoreWeight && option.isCorrect && !best.isCorrect)
+        ) {
+            best = option;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,78 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { sessionDecisions, sessionHints, sessionHistoryMessages, sessionInvestigations, simulationSessions } from '@/db/schema';
+import { fillCaseText } from '@/lib/case-templates';
+import { loadCaseSettings } from '@/lib/case-versions';
+import { secondsSince } from '@/lib/timed-stages';
+import type { CaseSessionState } from '@/types/simulator-types';
+
+/**
+ * What the player needs to resume a session: where it is, the score so far and
+ * everything already revealed. Callers check the user may see the session.
+ */
+export async function loadCaseSessionState(sessionId: number): Promise<CaseSessionState | null> {
+    const session = await db.query.simulationSessions.findFirst({
+        where: eq(simulationSessions.id, sessionId),
+        with: {
+            decisions: {
+                orderBy: [asc(sessionDecisions.id)],
+                columns: {
+                    stageId: true,
+                    optionId: true,
+                },
+                with: { option: { columns: { feedback: true } } },
+            },
+            investigations: {
+                orderBy: [asc(sessionInvestigations.id)],
+                columns: {
+                    stageId: true,
+                    investigation: true,
+                    result: true,
+                },
+            },
+            historyMessages: {
+                orderBy: [asc(sessionHistoryMessages.id)],
+                columns: {
+                    stageId: true,
+                    role: true,
+                    content: true,
+                },
+            },
+            hints: {
+                orderBy: [asc(sessionHints.id)],
+                columns: {
+                    stageId: true,
+                    tier: true,
+                    text: true,
+                },
+            },
+        },
+    });
+
+    if (!session) return null;
+
+    // Feedback reaches the browser only for stages already decided, filled for the session's variant
+    const settings = session.variantSeed === null ? null : await loadCaseSettings(session.caseId, session.caseVersionId);
+    const decisions = fillCaseText(
+        session.decisions.map((decision) => ({ stageId: decision.stageId, optionId: decision.optionId, feedback: decision.option.feedback })),
+        settings?.templateVariables,
+        session.variantSeed
+    );
+
+    return {
+        sessionId: session.id,
+        caseId: session.caseId,
+        status: session.status,
+        currentStageId: session.currentStageId,
+        score: session.score,
+        elapsedMinutes: session.elapsedMinutes,
+        stageElapsedSeconds: session.status === 'in_progress' ? secondsSince(session.stageStartedAt) : 0,
+        outcome: session.outcome,
+        decisions,
+        investigations: session.investigations,
+        historyMessages: session.historyMessages,
+        hints: session.hints,
+        caseVersionId: session.caseVersionId,
+        variantSeed: session.variantSeed,
+    };
+}
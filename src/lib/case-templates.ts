@@ -0,0 +1,172 @@
+import { patientSexes, type CaseTemplateVariable, type ClinicalData, type PatientDemographics, type PatientSex } from '@/db/schema';
+
+export const MAX_TEMPLATE_VARIABLES = 30;
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}$/;
+
+export type TemplateValue = {
+    value: number | string; // Replaces a placeholder that is a whole JSON value, e.g. "HR": "{{hr}}"
+    text: string; // Replaces a placeholder inside text, with the variable's decimals
+};
+
+export type TemplateValues = Record<string, TemplateValue>;
+
+/**
+ * A fresh seed for a new attempt at a templated case
+ */
+export function createVariantSeed(): number {
+    return Math.floor(Math.random() * 0x7fffffff) + 1;
+}
+
+// mulberry32: small, fast and the same in every browser, so a seed always gives the same variant
+function seededRandom(seed: number) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * The value each variable takes for a seed. Variables are drawn in the order
+ * they were authored, so reordering or editing them changes later variants.
+ */
+export function resolveTemplateValues(variables: CaseTemplateVariable[], seed: number): TemplateValues {
+    const random = seededRandom(seed);
+    const groupPositions = new Map<string, number>();
+    const values: TemplateValues = {};
+
+    for (const variable of variables) {
+        if (variable.kind === 'number') {
+            const decimals = variable.decimals ?? 0;
+            const value = Number((variable.min + random() * (variable.max - variable.min)).toFixed(decimals));
+            values[variable.key] = { value, text: value.toFixed(decimals) };
+            continue;
+        }
+
+        if (variable.values.length === 0) continue;
+
+        let position = variable.group ? groupPositions.get(variable.group) : undefined;
+        if (position === undefined) {
+            position = Math.floor(random() * variable.values.length);
+            if (variable.group) groupPositions.set(variable.group, position);
+        }
+        const value = variable.values[position % variable.values.length];
+        values[variable.key] = { value, text: value };
+    }
+
+    return values;
+}
+
+/**
+ * Fill {{key}} placeholders in text. Unknown keys are left in place so an
+ * author can spot them.
+ */
+export function fillTemplate(text: string, values: TemplateValues): string {
+    return text.replace(PLACEHOLDER, (match, key: string) => values[key]?.text ?? match);
+}
+
+/**
+ * Fill placeholders throughout JSON such as clinicalData. A string that is only
+ * a placeholder takes the variable's value, so "HR": "{{hr}}" becomes a number.
+ */
+export function fillTemplateData<T>(data: T, values: TemplateValues): T {
+    if (typeof data === 'string') {
+        const whole = data.match(WHOLE_PLACEHOLDER);
+        if (whole && values[whole[1]]) return values[whole[1]].value as T;
+        return fillTemplate(data, values) as T;
+    }
+    if (Array.isArray(data)) {
+        return data.map((item) => fillTemplateData(item, values)) as T;
+    }
+    if (data && typeof data === 'object') {
+        return Object.fromEntries(
+            Object.entries(data).map(([key, value]) => [key, fillTemplateData(value, values)])
+        ) as T;
+    }
+    return data;
+}
+
+/**
+ * The keys referenced by {{key}} placeholders anywhere in text or JSON
+ */
+export function findTemplateKeys(data: unknown, keys = new Set<string>()): Set<string> {
+    if (typeof data === 'string') {
+        for (const match of data.matchAll(PLACEHOLDER)) keys.add(match[1]);
+    } else if (Array.isArray(data)) {
+        data.forEach((item) => findTemplateKeys(item, keys));
+    } else if (data && typeof data === 'object') {
+        Object.values(data).forEach((value) => findTemplateKeys(value, keys));
+    }
+    return keys;
+}
+
+function fillDemographics(demographics: PatientDemographics, values: TemplateValues): PatientDemographics {
+    const age = values.age?.value;
+    const sex = values.sex?.value;
+    const nextSex = typeof sex === 'string' && (patientSexes as readonly string[]).includes(sex) ? sex as PatientSex : demographics.sex;
+    return {
+        ...demographics,
+        ageYears: typeof age === 'number' ? Math.round(age) : demographics.ageYears,
+        sex: nextSex,
+        // A variant that turns the patient male can't keep the pregnancy
+        pregnant: nextSex === 'female' ? demographics.pregnant : undefined,
+    };
+}
+
+type TemplatableCase = {
+    templateVariables?: CaseTemplateVariable[] | null;
+    baselineVitals?: ClinicalData | null;
+    patientDemographics?: PatientDemographics | null;
+    stages: {
+        narrative: string;
+        clinicalData?: unknown;
+        patientOpening?: string | null;
+        options: { text: string; feedback?: string }[];
+    }[];
+};
+
+/**
+ * The variant of a templated case a seed gives: narrative, option text,
+ * feedback and clinical data filled in, and the patient's age and sex set from
+ * the reserved "age" and "sex" variables. Untemplated cases and a null seed
+ * (attempts from before the case had variables) come back unchanged.
+ */
+export function instantiateCaseTemplate<T extends TemplatableCase>(medicalCase: T, seed: number | null): T {
+    const variables = medicalCase.templateVariables ?? [];
+    if (seed === null || variables.length === 0) return medicalCase;
+
+    const values = resolveTemplateValues(variables, seed);
+
+    return {
+        ...medicalCase,
+        baselineVitals: medicalCase.baselineVitals ? fillTemplateData(medicalCase.baselineVitals, values) : medicalCase.baselineVitals,
+        patientDemographics: medicalCase.patientDemographics
+            ? fillDemographics(medicalCase.patientDemographics, values)
+            : medicalCase.patientDemographics,
+        stages: medicalCase.stages.map((stage) => ({
+            ...stage,
+            narrative: fillTemplate(stage.narrative, values),
+            clinicalData: fillTemplateData(stage.clinicalData, values),
+            ...(stage.patientOpening ? { patientOpening: fillTemplate(stage.patientOpening, values) } : {}),
+            options: stage.options.map((option) => ({
+                ...option,
+                text: fillTemplate(option.text, values),
+                ...(option.feedback !== undefined ? { feedback: fillTemplate(option.feedback, values) } : {}),
+            })),
+        })),
+    };
+}
+
+/**
+ * Fill placeholders in one piece of server-side case text, such as a hint or
+ * a patient script, for the session's variant
+ */
+export function fillCaseText<T>(data: T, variables: CaseTemplateVariable[] | null | undefined, seed: number | null): T {
+    if (seed === null || !variables || variables.length === 0) return data;
+    return fillTemplateData(data, resolveTemplateValues(variables, seed));
+}
@@ -0,0 +1,181 @@
+import { and, asc, eq, isNull, max, sql, type AnyColumn } from 'drizzle-orm';
+import { db } from '@/db';
+import { cases, caseStages, caseVersions, stageInvestigations, stageMedia, stageOptions } from '@/db/schema';
+import { diffCaseContent, toCaseContent, type CaseContent } from '@/lib/case-content';
+
+/**
+ * Stages belonging to one version of a case; null selects the draft
+ */
+export function inCaseVersion(caseVersionId: AnyColumn, versionId: number | null) {
+    return versionId === null ? isNull(caseVersionId) : eq(caseVersionId, versionId);
+}
+
+/**
+ * Stages of the version students currently play: the published version, or the
+ * draft of a case that has never been published. For listing many cases at once.
+ */
+export function inCurrentCaseVersion(stages: { caseId: AnyColumn; caseVersionId: AnyColumn }) {
+    // Written out by name: columns of other tables would be re-aliased inside relational queries
+    return sql`${stages.caseVersionId} is not distinct from (select "published_version_id" from "cases" where "cases"."id" = ${stages.caseId})`;
+}
+
+/**
+ * The case-level settings a version was published with, or the draft's own
+ */
+export async function loadCaseSettings(caseId: number, versionId: number | null): Promise<CaseContent['settings'] | null> {
+    const columns = {
+        baselineVitals: true,
+        patientDemographics: true,
+        stageTimeLimitSeconds: true,
+        templateVariables: true,
+    } as const;
+
+    if (versionId === null) {
+        return await db.query.cases.findFirst({ where: eq(cases.id, caseId), columns }) ?? null;
+    }
+    return await db.query.caseVersions.findFirst({
+        where: and(eq(caseVersions.id, versionId), eq(caseVersions.caseId, caseId)),
+        columns,
+    }) ?? null;
+}
+
+async function loadVersionStages(caseId: number, versionId: number | null) {
+    return await db.query.caseStages.findMany({
+        where: and(eq(caseStages.caseId, caseId), inCaseVersion(caseStages.caseVersionId, versionId)),
+        orderBy: [asc(caseStages.stageOrder), asc(caseStages.id)],
+        with: {
+            options: { orderBy: [asc(stageOptions.id)] },
+            investigations: { orderBy: [asc(stageInvestigations.id)] },
+            media: { orderBy: [asc(stageMedia.displayOrder), asc(stageMedia.id)] },
+        },
+    });
+}
+
+/**
+ * A version's content for comparison; null selects the draft
+ */
+export async function loadCaseContent(caseId: number, versionId: number | null): Promise<CaseContent | null> {
+    const [settings, stages] = await Promise.all([
+        loadCaseSettings(caseId, versionId),
+        loadVersionStages(caseId, versionId),
+    ]);
+    return settings ? toCaseContent(settings, stages) : null;
+}
+
+/**
+ * Publish the draft as a new immutable version: the stages, options,
+ * investigations and media are copied, with branches pointed at the copies, and
+ * the case switched over to the copy once it is complete. A draft unchanged
+ * since the last version republishes that version rather than making another.
+ */
+export async function publishCaseVersion(caseId: number, publishedByUserId: string) {
+    const medicalCase = await db.query.cases.findFirst({ where: eq(cases.id, caseId) });
+    if (!medicalCase) return null;
+
+    const draftStages = await loadVersionStages(caseId, null);
+    const draft = toCaseContent(medicalCase, draftStages);
+
+    if (medicalCase.publishedVersionId !== null) {
+        const live = await loadCaseContent(caseId, medicalCase.publishedVersionId);
+        if (live && diffCaseContent(live, draft).length === 0) {
+            const current = await db.query.caseVersions.findFirst({
+                where: eq(caseVersions.id, medicalCase.publishedVersionId),
+                columns: { id: true, versionNumber: true },
+            });
+            if (current) {
+                await db.update(cases)
+                    .set({ isPublished: true, updatedAt: new Date() })
+                    .where(eq(cases.id, caseId));
+                return { versionId: current.id, versionNumber: current.versionNumber, created: false };
+            }
+        }
+    }
+
+    const [latest] = await db
+        .select({ versionNumber: max(caseVersions.versionNumber) })
+        .from(caseVersions)
+        .where(eq(caseVersions.caseId, caseId));
+
+    // The unique (case, version number) index stops a double click publishing twice
+    const [version] = await db.insert(caseVersions).values({
+        caseId,
+        versionNumber: (latest?.versionNumber ?? 0) + 1,
+        baselineVitals: medicalCase.baselineVitals,
+        patientDemographics: medicalCase.patientDemographics,
+        stageTimeLimitSeconds: medicalCase.stageTimeLimitSeconds,
+        templateVariables: medicalCase.templateVariables,
+        publishedByUserId,
+    }).onConflictDoNothing().returning({ id: caseVersions.id, versionNumber: caseVersions.versionNumber });
+
+    if (!version) return null;
+
+    // One at a time, so each copy's id is known for remapping branches
+    const copiedIds = new Map<number, number>();
+    for (const stage of draftStages) {
+        const [copy] = await db.insert(caseStages).values({
+            caseId,
+            caseVersionId: version.id,
+            stageOrder: stage.stageOrder,
+            narrative: stage.narrative,
+            clinicalData: stage.clinicalData,
+            mediaUrl: stage.mediaUrl,
+            stageType: stage.stageType,
+            patientScript: stage.patientScript,
+            decisionType: stage.decisionType,
+            timeLimitSeconds: stage.timeLimitSeconds,
+            hints: stage.hints,
+        }).returning({ id: caseStages.id });
+        copiedIds.set(stage.id, copy.id);
+    }
+
+    const options = draftStages.flatMap((stage) => stage.options.map((option) => ({
+        stageId: copiedIds.get(stage.id)!,
+        text: option.text,
+        isCorrect: option.isCorrect,
+        scoreWeight: option.scoreWeight,
+        feedback: option.feedback,
+        nextStageId: option.nextStageId === null ? null : copiedIds.get(option.nextStageId) ?? null,
+        outcome: option.outcome,
+        vitalEffects: option.vitalEffects,
+        durationMinutes: option.durationMinutes,
+        correctPosition: option.correctPosition,
+        acceptedAnswers: option.acceptedAnswers,
+        isTimeout: option.isTimeout,
+        safetyClass: option.safetyClass,
+    })));
+    if (options.length > 0) await db.insert(stageOptions).values(options);
+
+    const investigations = draftStages.flatMap((stage) => stage.investigations.map((row) => ({
+        stageId: copiedIds.get(stage.id)!,
+        investigation: row.investigation,
+        result: row.result,
+        isIndicated: row.isIndicated,
+    })));
+    if (investigations.length > 0) await db.insert(stageInvestigations).values(investigations);
+
+    const media = draftStages.flatMap((stage) => stage.media.map((row) => ({
+        stageId: copiedIds.get(stage.id)!,
+        mediaAssetId: row.mediaAssetId,
+        caption: row.caption,
+        displayOrder: row.displayOrder,
+        revealOnRequest: row.revealOnRequest,
+    })));
+    if (media.length > 0) await db.insert(stageMedia).values(media);
+
+    await db.update(cases)
+        .set({ isPublished: true, publishedVersionId: version.id, updatedAt: new Date() })
+        .where(eq(cases.id, caseId));
+
+    return { versionId: version.id, versionNumber: version.versionNumber, created: true };
+}
+
+/**
+ * Whether a stage is part of the draft, the only content admins may change
+ */
+export async function isDraftStage(stageId: number) {
+    const stage = await db.query.caseStages.findFirst({
+        where: eq(caseStages.id, stageId),
+        columns: { caseVersionId: true },
+    });
+    return stage?.caseVersionId === null;
+}
@@ -0,0 +1,157 @@
+import { and, asc, count, eq, max } from 'drizzle-orm';
+import { db } from '@/db';
+import { caseStages, classroomParticipants, classroomSessions, classroomVotes } from '@/db/schema';
+import { instantiateCaseTemplate } from '@/lib/case-templates';
+import { inCaseVersion, loadCaseSettings } from '@/lib/case-versions';
+import { tallyVotes } from '@/lib/classroom';
+import { toMediaItem } from '@/lib/media';
+import { applyVitalEffects, mergeStageClinicalData, replayClinicalData } from '@/lib/physiology';
+import type { ClinicalData } from '@/db/schema';
+import type { ClassroomState } from '@/types/simulator-types';
+
+/**
+ * Whether the user runs the classroom or has joined it
+ */
+export async function getClassroomAccess(classroomSessionId: number, userId: string) {
+    const [classroom, participant] = await Promise.all([
+        db.query.classroomSessions.findFirst({
+            where: eq(classroomSessions.id, classroomSessionId),
+            columns: { hostUserId: true },
+        }),
+        db.query.classroomParticipants.findFirst({
+            where: and(
+                eq(classroomParticipants.classroomSessionId, classroomSessionId),
+                eq(classroomParticipants.userId, userId)
+            ),
+            columns: { id: true },
+        }),
+    ]);
+
+    return {
+        isHost: classroom?.hostUserId === userId,
+        isParticipant: Boolean(participant),
+    };
+}
+
+/**
+ * Changes on every phase change or join, and whenever a vote is cast or changed
+ */
+export async function getClassroomVersion(classroomSessionId: number): Promise<string | null> {
+    const [classroom, [votes]] = await Promise.all([
+        db.query.classroomSessions.findFirst({
+            where: eq(classroomSessions.id, classroomSessionId),
+            columns: { updatedAt: true },
+        }),
+        db
+            .select({ total: count(), latest: max(classroomVotes.updatedAt) })
+            .from(classroomVotes)
+            .where(eq(classroomVotes.classroomSessionId, classroomSessionId)),
+    ]);
+
+    if (!classroom) return null;
+    return `${classroom.updatedAt.getTime()}:${votes.total}:${votes.latest?.getTime() ?? 0}`;
+}
+
+/**
+ * The classroom as the given viewer sees it. Callers check the viewer is the
+ * host or a participant; only the host sees the tally while voting is open.
+ */
+export async function loadClassroomState(classroomSessionId: number, viewer: { userId: string; isHost: boolean }): Promise<ClassroomState | null> {
+    const classroom = await db.query.classroomSessions.findFirst({
+        where: eq(classroomSessions.id, classroomSessionId),
+        with: {
+            case: {
+                columns: { title: true },
+            },
+        },
+    });
+
+    if (!classroom) return null;
+
+    const [[participants], stageRows, settings] = await Promise.all([
+        db
+            .select({ total: count() })
+            .from(classroomParticipants)
+            .where(eq(classroomParticipants.classroomSessionId, classroomSessionId)),
+        db.query.caseStages.findMany({
+            where: and(eq(caseStages.caseId, classroom.caseId), inCaseVersion(caseStages.caseVersionId, classroom.caseVersionId)),
+            with: {
+                options: {
+                    orderBy: (options, { asc }) => [asc(options.id)],
+                },
+                media: {
+                    orderBy: (media, { asc }) => [asc(media.displayOrder), asc(media.id)],
+                    with: { asset: { columns: { storageKey: true } } },
+                },
+            },
+        }),
+        loadCaseSettings(classroom.caseId, classroom.caseVersionId),
+    ]);
+
+    if (!settings) return null;
+
+    // The whole room plays one variant of a templated case, fixed by the classroom's id
+    const { stages, baselineVitals, patientDemographics } = instantiateCaseTemplate({ ...classroom.case, ...settings, stages: stageRows }, classroom.id);
+    const stage = stages.find((row) => row.id === classroom.currentStageId);
+    // Hidden "no decision" options only exist for timed play
+    const options = stage?.options.filter((option) => !option.isTimeout) ?? [];
+
+    const votes = stage
+        ? await db.query.classroomVotes.findMany({
+            where: and(
+                eq(classroomVotes.classroomSessionId, classroomSessionId),
+                eq(classroomVotes.stageId, stage.id)
+            ),
+            orderBy: [asc(classroomVotes.id)],
+            columns: { userId: true, optionId: true },
+        })
+        : [];
+
+    // The class's choice at the current stage is added to the path when voting closes
+    const isClosed = classroom.phase === 'revealed' || classroom.phase === 'feedback';
+    const path = classroom.classPathOptionIds.flatMap((optionId) => {
+        const pathStage = stages.find((row) => row.options.some((option) => option.id === optionId));
+        const option = pathStage?.options.find((row) => row.id === optionId);
+        return pathStage && option ? [{ clinicalData: pathStage.clinicalData as ClinicalData | null, vitalEffects: option.vitalEffects }] : [];
+    });
+    const carried = replayClinicalData(baselineVitals, isClosed ? path.slice(0, -1) : path).carried;
+    const classChoiceOptionId = isClosed ? classroom.classPathOptionIds[classroom.classPathOptionIds.length - 1] ?? null : null;
+    const classChoice = options.find((option) => option.id === classChoiceOptionId);
+    const stageClinicalData = mergeStageClinicalData(carried, stage?.clinicalData as ClinicalData | null | undefined);
+
+    return {
+        classroomSessionId: classroom.id,
+        caseId: classroom.caseId,
+        title: classroom.case.title,
+        joinCode: classroom.joinCode,
+        phase: classroom.phase,
+        participantCount: participants.total,
+        outcome: classroom.outcome,
+        patient: patientDemographics,
+        stage: stage
+            ? {
+                id: stage.id,
+                stageOrder: stage.stageOrder,
+                narrative: stage.narrative,
+                clinicalData: classroom.phase === 'feedback' && classChoice
+                    ? applyVitalEffects(stageClinicalData, classChoice.vitalEffects)
+                    : stageClinicalData,
+                mediaUrl: stage.mediaUrl,
+                media: stage.media.map(toMediaItem),
+                options: options.map((option) => ({ id: option.id, text: option.text })),
+            }
+            : null,
+        votesCast: votes.length,
+        myVoteOptionId: votes.find((vote) => vote.userId === viewer.userId)?.optionId ?? null,
+        tally: viewer.isHost || isClosed ? tallyVotes(options, votes) : null,
+        feedback: classroom.phase === 'feedback'
+            ? options.map((option) => ({
+                optionId: option.id,
+                feedback: option.feedback,
+                isCorrect: option.isCorrect,
+                scoreWeight: option.scoreWeight,
+            }))
+            : null,
+        classChoiceOptionId,
+    };
+}
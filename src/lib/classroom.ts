@@ -0,0 +1,58 @@
+import type { ClassroomPhase } from '@/db/schema';
+import { getOptimalOption } from '@/lib/case-review';
+
+export const classroomPhaseLabels: Record<ClassroomPhase, string> = {
+    lobby: 'Waiting to start',
+    voting: 'Voting open',
+    revealed: 'Results',
+    feedback: 'Feedback',
+    ended: 'Ended',
+};
+
+// What the presenter's main button does in each phase
+export const classroomAdvanceLabels: Record<ClassroomPhase, string | null> = {
+    lobby: 'Start case',
+    voting: 'Close voting and reveal results',
+    revealed: 'Show feedback',
+    feedback: 'Next stage',
+    ended: null,
+};
+
+export type VoteTally = {
+    optionId: number;
+    text: string;
+    votes: number;
+    percent: number; // Of all votes at the stage
+};
+
+/**
+ * Votes for each option at a stage, in the stage's option order
+ */
+export function tallyVotes(options: { id: number; text: string }[], votes: { optionId: number }[]): VoteTally[] {
+    const counts = new Map<number, number>();
+    for (const vote of votes) {
+        counts.set(vote.optionId, (counts.get(vote.optionId) ?? 0) + 1);
+    }
+
+    return options.map((option) => {
+        const count = counts.get(option.id) ?? 0;
+        return {
+            optionId: option.id,
+            text: option.text,
+            votes: count,
+            percent: votes.length > 0 ? Math.round((count / votes.length) * 100) : 0,
+        };
+    });
+}
+
+/**
+ * The option the class's pathway follows: the most popular choice, with the
+ * better option winning ties. With no votes the case follows the optimal option.
+ */
+export function pickClassChoice<O extends { id: number; scoreWeight: number; isCorrect: boolean }>(options: O[], tally: VoteTally[]): O | null {
+    const mostVotes = Math.max(0, ...tally.map((row) => row.votes));
+    if (mostVotes === 0) return getOptimalOption(options);
+
+    const leading = new Set(tally.filter((row) => row.votes === mostVotes).map((row) => row.optionId));
+    return getOptimalOption(options.filter((option) => leading.has(option.id)));
+}
@@ -0,0 +1,76 @@
+import type { ClinicalData } from '@/db/schema';
+import { parseBloodPressure } from '@/lib/physiology';
+import { parseNumericValue } from '@/lib/reference-ranges';
+
+export type TrendSnapshot = {
+    label: string; // e.g. "Stage 2"
+    data: ClinicalData | null;
+};
+
+export type TrendSeries = {
+    parameter: string; // Vital key (SBP/DBP for blood pressure) or lab name
+    points: { label: string; value: number | null }[];
+};
+
+/**
+ * Numeric values in one stage's clinical data, keyed by parameter. Blood pressure
+ * is split into systolic and diastolic.
+ */
+export function extractNumericParameters(data: ClinicalData | null): Map<string, number> {
+    const values = new Map<string, number>();
+    if (!data) return values;
+
+    for (const key of ['HR', 'RR', 'SpO2', 'Temp'] as const) {
+        if (typeof data[key] === 'number') values.set(key, data[key]);
+    }
+
+    const bp = parseBloodPressure(data.BP);
+    if (bp) {
+        values.set('SBP', bp.systolic);
+        values.set('DBP', bp.diastolic);
+    }
+
+    for (const [name, value] of Object.entries(data.labs ?? {})) {
+        const numeric = parseNumericValue(value);
+        if (numeric !== null) values.set(name, numeric);
+    }
+
+    for (const result of data.labPanels ?? []) {
+        const numeric = parseNumericValue(result.value);
+        if (numeric !== null) values.set(result.analyte, numeric);
+    }
+
+    return values;
+}
+
+const vitalOrder = ['HR', 'SBP', 'DBP', 'RR', 'SpO2', 'Temp'];
+
+/**
+ * One series per parameter recorded at two or more of the snapshots, vitals
+ * first and then labs in the order they first appear
+ */
+export function buildTrendSeries(snapshots: TrendSnapshot[]): TrendSeries[] {
+    const extracted = snapshots.map((snapshot) => extractNumericParameters(snapshot.data));
+
+    const parameters: string[] = [];
+    for (const values of extracted) {
+        for (const key of values.keys()) {
+            if (!parameters.includes(key)) parameters.push(key);
+        }
+    }
+    parameters.sort((a, b) => {
+        const rankA = vitalOrder.includes(a) ? vitalOrder.indexOf(a) : vitalOrder.length;
+        const rankB = vitalOrder.includes(b) ? vitalOrder.indexOf(b) : vitalOrder.length;
+        return rankA - rankB;
+    });
+
+    return parameters
+        .map((parameter) => ({
+            parameter,
+            points: snapshots.map((snapshot, index) => ({
+                label: snapshot.label,
+                value: extracted[index].get(parameter) ?? null,
+            })),
+        }))
+        .filter((series) => series.points.filter((point) => point.value !== null).length >= 2);
+}
@@ -0,0 +1,49 @@
+import type { DecisionType, SafetyClass } from '@/db/schema';
+import type { ResolvedDecision } from '@/lib/decision-types';
+import { DEFAULT_NO_DECISION_FEEDBACK } from '@/lib/timed-stages';
+import type { DecisionFeedback } from '@/types/simulator-types';
+
+type FeedbackOption = {
+    id: number;
+    feedback: string;
+    isCorrect: boolean;
+    isTimeout: boolean;
+};
+
+/**
+ * How a decided stage is explained to the student. Option feedback and which
+ * options were correct only leave the server here, once the stage is answered.
+ */
+export function toDecisionFeedback(
+    stage: { decisionType: DecisionType; options: FeedbackOption[] },
+    decision: ResolvedDecision,
+    timing: { timedOut: boolean; decisionSeconds: number | null },
+    safetyClass: SafetyClass | null
+): DecisionFeedback {
+    const followed = stage.options.find((option) => option.id === decision.optionId);
+
+    let feedback = followed?.feedback ?? '';
+    if (timing.timedOut) {
+        feedback = followed?.isTimeout ? followed.feedback : DEFAULT_NO_DECISION_FEEDBACK;
+    } else if (stage.decisionType === 'free_text' && !decision.matched && followed?.isCorrect) {
+        // Unmatched text follows the correct option's path, but its feedback would read as praise
+        feedback = "That wasn't one of the accepted answers.";
+    }
+
+    return {
+        decisionType: stage.decisionType,
+        scoreWeight: decision.scoreWeight,
+        selectedOptionIds: timing.timedOut ? [] : decision.response?.optionIds ?? [decision.optionId],
+        correctOptionIds: decision.correctOptionIds,
+        text: decision.response?.text ?? null,
+        matched: decision.matched,
+        ...timing,
+        safetyClass,
+        feedback,
+        optionFeedback: stage.decisionType === 'multi' && !timing.timedOut
+            ? stage.options
+                .filter((option) => !option.isTimeout)
+                .map((option) => ({ optionId: option.id, feedback: option.feedback, isCorrect: option.isCorrect }))
+            : [],
+    };
+}
@@ -0,0 +1,182 @@
+import type { DecisionResponse, DecisionType } from '@/db/schema';
+
+export const decisionTypeLabels: Record<DecisionType, string> = {
+    single: 'Single best answer',
+    multi: 'Select all that apply',
+    ordering: 'Put in order',
+    free_text: 'Free text',
+};
+
+export type DecisionOption = {
+    id: number;
+    isCorrect: boolean;
+    scoreWeight: number;
+    correctPosition: number | null;
+    acceptedAnswers: string[];
+    isTimeout: boolean;
+};
+
+/**
+ * What a student's answer at a stage comes to. optionId is the option whose
+ * branching, vital effects and duration the pathway follows.
+ */
+export type ResolvedDecision = {
+    optionId: number;
+    scoreWeight: number;
+    response: DecisionResponse | null; // Null for single-choice stages
+    correctOptionIds: number[]; // Appropriate options, or every option in the correct order
+    matched: boolean; // Free text matched an accepted answer; always true otherwise
+};
+
+/**
+ * Multi-select and ordering stages have no single chosen option, so the first
+ * option the author added carries the pathway for the whole stage
+ */
+export function getLeadOption<O extends { id: number }>(options: O[]): O | null {
+    return [...options].sort((a, b) => a.id - b.id)[0] ?? null;
+}
+
+/**
+ * Partial credit: each pick earns its own weight, so appropriate picks add points
+ * and inappropriate ones take them away
+ */
+export function scoreMultiSelect(options: DecisionOption[], selectedIds: number[]): number {
+    return options
+        .filter((option) => selectedIds.includes(option.id))
+        .reduce((sum, option) => sum + option.scoreWeight, 0);
+}
+
+/**
+ * Options sorted by their place in the correct sequence
+ */
+export function getCorrectOrder(options: DecisionOption[]): number[] {
+    return [...options]
+        .sort((a, b) => (a.correctPosition ?? Infinity) - (b.correctPosition ?? Infinity) || a.id - b.id)
+        .map((option) => option.id);
+}
+
+/**
+ * Partial credit for a sequence: the stage is worth the sum of its positive
+ * weights, scaled by the share of option pairs placed in the right relative order
+ */
+export function scoreOrdering(options: DecisionOption[], orderedIds: number[]): number {
+    const available = options.reduce((sum, option) => sum + Math.max(0, option.scoreWeight), 0);
+    const correct = getCorrectOrder(options);
+    if (correct.length < 2) return available;
+
+    let pairs = 0;
+    let inOrder = 0;
+    for (let i = 0; i < orderedIds.length; i++) {
+        for (let j = i + 1; j < orderedIds.length; j++) {
+            pairs++;
+            if (correct.indexOf(orderedIds[i]) < correct.indexOf(orderedIds[j])) inOrder++;
+        }
+    }
+    return Math.round(available * (inOrder / pairs));
+}
+
+// Case, punctuation and spacing don't matter when comparing typed answers
+export function normaliseAnswer(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9%./ ]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The first option with an accepted answer found in the text as whole words,
+ * otherwise the catch-all option (one with no accepted answers), if any
+ */
+export function matchFreeTextAnswer<O extends DecisionOption>(options: O[], text: string): { option: O; matched: boolean } | null {
+    const answer = normaliseAnswer(text);
+    const matchedOption = options.find((option) => option.acceptedAnswers.some((accepted) => {
+        const target = normaliseAnswer(accepted);
+        return target.length > 0 && new RegExp(`(^| )${escapeRegExp(target)}( |$)`).test(answer);
+    }));
+    if (matchedOption) return { option: matchedOption, matched: true };
+
+    const catchAll = options.find((option) => option.acceptedAnswers.length === 0);
+    return catchAll ? { option: catchAll, matched: false } : null;
+}
+
+/**
+ * Check a student's answer against the stage's decision type and score it.
+ * The hidden "no decision" option of a timed stage can't be chosen.
+ */
+export function resolveDecision(
+    decisionType: DecisionType,
+    stageOptions: DecisionOption[],
+    answer: { optionId?: number; response?: DecisionResponse }
+): { valid: true; decision: ResolvedDecision } | { valid: false; message: string } {
+    const options = stageOptions.filter((option) => !option.isTimeout);
+    const optionIds = options.map((option) => option.id);
+    const picked = answer.response?.optionIds ?? [];
+
+    if (decisionType === 'single') {
+        const option = options.find((row) => row.id === answer.optionId);
+        if (!option) return { valid: false, message: 'Option does not belong to the current stage' };
+        return {
+            valid: true,
+            decision: {
+                optionId: option.id,
+                scoreWeight: option.scoreWeight,
+                response: null,
+                correctOptionIds: options.filter((row) => row.isCorrect).map((row) => row.id),
+                matched: true,
+            },
+        };
+    }
+
+    const lead = getLeadOption(options);
+    if (!lead) return { valid: false, message: 'This stage has no options' };
+
+    if (decisionType === 'multi') {
+        if (picked.length === 0) return { valid: false, message: 'Select at least one option' };
+        if (new Set(picked).size !== picked.length || picked.some((id) => !optionIds.includes(id))) {
+            return { valid: false, message: 'Selections must be options on the current stage' };
+        }
+        return {
+            valid: true,
+            decision: {
+                optionId: lead.id,
+                scoreWeight: scoreMultiSelect(options, picked),
+                response: { optionIds: picked },
+                correctOptionIds: options.filter((row) => row.isCorrect).map((row) => row.id),
+                matched: true,
+            },
+        };
+    }
+
+    if (decisionType === 'ordering') {
+        if (picked.length !== optionIds.length || new Set(picked).size !== picked.length || picked.some((id) => !optionIds.includes(id))) {
+            return { valid: false, message: 'Put every option on the current stage in order' };
+        }
+        return {
+            valid: true,
+            decision: {
+                optionId: lead.id,
+                scoreWeight: scoreOrdering(options, picked),
+                response: { optionIds: picked },
+                correctOptionIds: getCorrectOrder(options),
+                matched: true,
+            },
+        };
+    }
+
+    const text = answer.response?.text?.trim() ?? '';
+    if (!text) return { valid: false, message: 'Type an answer' };
+
+    // Without a catch-all option an unmatched answer scores nothing and follows the lead option
+    const match = matchFreeTextAnswer(options, text);
+    return {
+        valid: true,
+        decision: {
+            optionId: match?.option.id ?? lead.id,
+            scoreWeight: match ? match.option.scoreWeight : 0,
+            response: { text },
+            correctOptionIds: options.filter((row) => row.isCorrect).map((row) => row.id),
+            matched: match?.matched ?? false,
+        },
+    };
+}
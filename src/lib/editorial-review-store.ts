@@ -0,0 +1,223 @@
+import { createHash } from 'crypto';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    cases,
+    reviewEvents,
+    ukmlaQuestionMedia,
+    ukmlaQuestionOptions,
+    ukmlaQuestions,
+    type ReviewAction,
+    type ReviewContentType,
+    type ReviewStatus,
+} from '@/db/schema';
+import type { CaseContent } from '@/lib/case-content';
+import { lintCaseByStageOrder } from '@/lib/case-lint';
+import { loadCaseContent } from '@/lib/case-versions';
+import { nextReviewStatus } from '@/lib/editorial-review';
+
+type ReviewTarget = { contentType: ReviewContentType; contentId: number };
+
+/**
+ * The case or question under review, with its review status
+ */
+export async function loadReviewSubject({ contentType, contentId }: ReviewTarget) {
+    if (contentType === 'case') {
+        const row = await db.query.cases.findFirst({
+            where: eq(cases.id, contentId),
+            columns: { title: true, verificationStatus: true, isPublished: true, userId: true },
+        });
+        return row && { title: row.title, status: row.verificationStatus, isPublished: row.isPublished, authorUserId: row.userId };
+    }
+
+    const row = await db.query.ukmlaQuestions.findFirst({
+        where: eq(ukmlaQuestions.id, contentId),
+        columns: { stem: true, verificationStatus: true, isPublished: true, createdByUserId: true },
+    });
+    return row && { title: row.stem, status: row.verificationStatus, isPublished: row.isPublished, authorUserId: row.createdByUserId };
+}
+
+// JSON with object keys sorted, since stored jsonb doesn't keep the order it was written in
+function stableJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined).sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableJson(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+function hashReviewContent(content: unknown) {
+    return createHash('sha256').update(stableJson(content)).digest('hex');
+}
+
+type CaseCatalogue = { title: string; description: string; clinicalDomain: string; difficultyLevel: string };
+
+/**
+ * The fingerprint of a case's catalogue entry and content, as stored or as
+ * it would be once imported from a bundle
+ */
+export function hashCaseReviewContent(catalogue: CaseCatalogue, content: CaseContent) {
+    const { title, description, clinicalDomain, difficultyLevel } = catalogue;
+    return hashReviewContent({ title, description, clinicalDomain, difficultyLevel, ...content });
+}
+
+/**
+ * A fingerprint of everything a student would see, taken on approval so that
+ * later edits are caught before publishing. Case fingerprints cover the draft.
+ */
+export async function reviewContentHash({ contentType, contentId }: ReviewTarget): Promise<string | null> {
+    if (contentType === 'case') {
+        const [row, draft] = await Promise.all([
+            db.query.cases.findFirst({
+                where: eq(cases.id, contentId),
+                columns: { title: true, description: true, clinicalDomain: true, difficultyLevel: true },
+            }),
+            loadCaseContent(contentId, null),
+        ]);
+        return row && draft ? hashCaseReviewContent(row, draft) : null;
+    } else {
+        const row = await db.query.ukmlaQuestions.findFirst({
+            where: eq(ukmlaQuestions.id, contentId),
+            columns: { stem: true, explanation: true, category: true, difficultyLevel: true },
+            with: {
+                options: {
+                    columns: { text: true, isCorrect: true },
+                    orderBy: [asc(ukmlaQuestionOptions.optionOrder), asc(ukmlaQuestionOptions.id)],
+                },
+                media: {
+                    columns: { mediaAssetId: true, caption: true, revealOnRequest: true },
+                    orderBy: [asc(ukmlaQuestionMedia.displayOrder), asc(ukmlaQuestionMedia.id)],
+                },
+            },
+        });
+        return row ? hashReviewContent(row) : null;
+    }
+}
+
+/**
+ * The fingerprint recorded by the latest approval, if any
+ */
+export async function approvedContentHash({ contentType, contentId }: ReviewTarget) {
+    const approval = await db.query.reviewEvents.findFirst({
+        where: and(
+            eq(reviewEvents.contentType, contentType),
+            eq(reviewEvents.contentId, contentId),
+            eq(reviewEvents.action, 'approved')
+        ),
+        orderBy: [desc(reviewEvents.createdAt), desc(reviewEvents.id)],
+        columns: { contentHash: true },
+    });
+    return approval?.contentHash ?? null;
+}
+
+/**
+ * Whether approved content has been edited since; false for anything not approved
+ */
+export async function isChangedSinceApproval(target: ReviewTarget, status: ReviewStatus) {
+    if (status !== 'approved') return false;
+    const [approved, current] = await Promise.all([approvedContentHash(target), reviewContentHash(target)]);
+    return approved === null || approved !== current;
+}
+
+const blockedReasons: Record<Exclude<ReviewStatus, 'approved'>, string> = {
+    draft: 'submit it for review first',
+    in_review: 'it is still in review',
+    changes_requested: 'changes were requested in review',
+};
+
+/**
+ * Why the content can't be published, or null when it can: only approved
+ * content, unchanged since it was approved, may go live. Cases must also be
+ * free of structural errors.
+ */
+export async function getPublishBlocker(target: ReviewTarget): Promise<string | null> {
+    const subject = await loadReviewSubject(target);
+    if (!subject) return 'Not found';
+
+    if (target.contentType === 'case') {
+        const draft = await loadCaseContent(target.contentId, null);
+        const errors = lintCaseByStageOrder(draft?.stages ?? []).filter((issue) => issue.severity === 'error');
+        if (errors.length > 0) {
+            return `Fix its structural errors first: ${errors.map((issue) => issue.message).join('; ')}`;
+        }
+    }
+
+    if (subject.status !== 'approved') {
+        return `Only approved content can be published: ${blockedReasons[subject.status]}`;
+    }
+    if (await isChangedSinceApproval(target, subject.status)) {
+        return 'It has changed since it was approved: submit it for review again';
+    }
+    return null;
+}
+
+/**
+ * Send an approved question back to draft once it has been edited. Questions
+ * have no separate draft, so it also comes down until approved again.
+ * Returns whether it was reopened.
+ */
+export async function reopenEditedUkmlaQuestion(questionId: number, actorUserId: string) {
+    const target = { contentType: 'ukmla_question' as const, contentId: questionId };
+    const subject = await loadReviewSubject(target);
+    if (!subject || !(await isChangedSinceApproval(target, subject.status))) return false;
+
+    const reopened = await recordReviewTransition(target, 'reopened', { actorUserId, note: 'Edited after approval' });
+    if (!reopened.success) return false;
+
+    await db.update(ukmlaQuestions).set({ isPublished: false }).where(eq(ukmlaQuestions.id, questionId));
+    return true;
+}
+
+async function setReviewStatus({ contentType, contentId }: ReviewTarget, from: ReviewStatus, to: ReviewStatus) {
+    // Conditional on the status read, so two reviewers acting at once can't both move it
+    if (contentType === 'case') {
+        const updated = await db.update(cases)
+            .set({ verificationStatus: to, updatedAt: new Date() })
+            .where(and(eq(cases.id, contentId), eq(cases.verificationStatus, from)))
+            .returning({ id: cases.id });
+        return updated.length > 0;
+    }
+
+    const updated = await db.update(ukmlaQuestions)
+        .set({ verificationStatus: to, updatedAt: new Date() })
+        .where(and(eq(ukmlaQuestions.id, contentId), eq(ukmlaQuestions.verificationStatus, from)))
+        .returning({ id: ukmlaQuestions.id });
+    return updated.length > 0;
+}
+
+/**
+ * Take a review action: move the content's status if the action allows it
+ * from where it is, and record who did what, when
+ */
+export async function recordReviewTransition(
+    target: ReviewTarget,
+    action: ReviewAction,
+    details: { actorUserId: string; reviewerUserId?: string; note?: string; contentHash?: string | null }
+): Promise<{ success: true; status: ReviewStatus } | { success: false; message: string }> {
+    const subject = await loadReviewSubject(target);
+    if (!subject) return { success: false, message: 'Not found' };
+
+    const to = nextReviewStatus(subject.status, action);
+    if (!to) {
+        return { success: false, message: `That can't be done while the status is ${subject.status.replace('_', ' ')}` };
+    }
+
+    if (to !== subject.status && !(await setReviewStatus(target, subject.status, to))) {
+        return { success: false, message: 'The review status has just changed; reload and try again' };
+    }
+
+    await db.insert(reviewEvents).values({
+        contentType: target.contentType,
+        contentId: target.contentId,
+        action,
+        fromStatus: subject.status,
+        toStatus: to,
+        actorUserId: details.actorUserId,
+        reviewerUserId: details.reviewerUserId ?? null,
+        note: details.note || null,
+        contentHash: details.contentHash ?? null,
+    });
+
+    return { success: true, status: to };
+}
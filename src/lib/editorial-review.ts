@@ -0,0 +1,85 @@
+import type { ReviewAction, ReviewCommentAnchor, ReviewContentType, ReviewStatus } from '@/db/schema';
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+    draft: 'Draft',
+    in_review: 'In review',
+    changes_requested: 'Changes requested',
+    approved: 'Approved',
+};
+
+export const reviewStatusStyles: Record<ReviewStatus, string> = {
+    draft: 'bg-muted text-muted-foreground',
+    in_review: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    changes_requested: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+};
+
+export const reviewActionLabels: Record<ReviewAction, string> = {
+    submitted: 'Submitted for review',
+    reviewer_assigned: 'Assigned reviewer',
+    reviewer_removed: 'Removed reviewer',
+    changes_requested: 'Requested changes',
+    approved: 'Approved',
+    reopened: 'Reopened',
+};
+
+export const reviewContentTypeLabels: Record<ReviewContentType, string> = {
+    case: 'Case',
+    ukmla_question: 'UKMLA question',
+};
+
+// The statuses each action may be taken from; assigning reviewers leaves the status as it is
+const TRANSITIONS: Record<ReviewAction, { from: ReviewStatus[]; to: ReviewStatus | null }> = {
+    submitted: { from: ['draft', 'changes_requested', 'approved'], to: 'in_review' },
+    reviewer_assigned: { from: ['draft', 'in_review', 'changes_requested', 'approved'], to: null },
+    reviewer_removed: { from: ['draft', 'in_review', 'changes_requested', 'approved'], to: null },
+    changes_requested: { from: ['in_review'], to: 'changes_requested' },
+    approved: { from: ['in_review'], to: 'approved' },
+    reopened: { from: ['in_review', 'changes_requested', 'approved'], to: 'draft' },
+};
+
+/**
+ * The status content moves to when the action is taken, or null when the
+ * action isn't allowed from its current status
+ */
+export function nextReviewStatus(current: ReviewStatus, action: ReviewAction): ReviewStatus | null {
+    const transition = TRANSITIONS[action];
+    if (!transition.from.includes(current)) return null;
+    return transition.to ?? current;
+}
+
+/**
+ * Where a comment sits, e.g. "Stage 2 › Option 1" or "Stem"
+ */
+export function reviewCommentLocation(comment: {
+    anchor: ReviewCommentAnchor;
+    stageOrder: number | null;
+    optionNumber: number | null;
+}): string {
+    switch (comment.anchor) {
+        case 'stem':
+            return 'Stem';
+        case 'explanation':
+            return 'Explanation';
+        case 'stage':
+            return `Stage ${comment.stageOrder}`;
+        case 'option':
+            return comment.stageOrder === null
+                ? `Option ${comment.optionNumber}`
+                : `Stage ${comment.stageOrder} › Option ${comment.optionNumber}`;
+        default:
+            return 'General';
+    }
+}
+
+/**
+ * Whether two comments are on the same stage, option or field
+ */
+export function isSameReviewAnchor(
+    comment: { anchor: ReviewCommentAnchor; stageOrder: number | null; optionNumber: number | null },
+    anchor: { anchor: ReviewCommentAnchor; stageOrder?: number | null; optionNumber?: number | null }
+): boolean {
+    return comment.anchor === anchor.anchor
+        && comment.stageOrder === (anchor.stageOrder ?? null)
+        && comment.optionNumber === (anchor.optionNumber ?? null);
+}
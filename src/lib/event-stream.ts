@@ -0,0 +1,70 @@
+// How often the database is checked for changes, and how often an idle stream sends a keep-alive
+const POLL_INTERVAL_MS = 1500;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Streams are recycled so serverless functions aren't held open; EventSource reconnects by itself
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+type StateEventStreamOptions<T> = {
+    event: string; // The event name clients listen for
+    getVersion: () => Promise<string | null>; // Changes whenever the state does; null once it's gone
+    loadState: () => Promise<T | null>;
+    isFinished: (state: T) => boolean; // Nothing changes after this, so the stream can close
+    label: string; // For error logs
+};
+
+/**
+ * A server-sent events response that pushes the whole state each time its
+ * version changes. Callers check access before opening the stream.
+ */
+export function createStateEventStream<T>(signal: AbortSignal, options: StateEventStreamOptions<T>): Response {
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const openedAt = Date.now();
+            let lastVersion: string | null = null;
+            let lastSentAt = openedAt;
+
+            const send = (chunk: string) => {
+                controller.enqueue(encoder.encode(chunk));
+                lastSentAt = Date.now();
+            };
+
+            try {
+                while (!signal.aborted && Date.now() - openedAt < MAX_STREAM_MS) {
+                    const version = await options.getVersion();
+                    if (version === null) break;
+
+                    if (version !== lastVersion) {
+                        lastVersion = version;
+                        const state = await options.loadState();
+                        if (!state) break;
+                        send(`event: ${options.event}\ndata: ${JSON.stringify(state)}\n\n`);
+
+                        if (options.isFinished(state)) break;
+                    } else if (Date.now() - lastSentAt >= HEARTBEAT_INTERVAL_MS) {
+                        send(': keep-alive\n\n');
+                    }
+
+                    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+                }
+            } catch (error) {
+                if (!signal.aborted) console.error(`Error streaming ${options.label}:`, error);
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the client disconnecting
+                }
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
+}
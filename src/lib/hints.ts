@@ -0,0 +1,23 @@
+import type { StageHint } from '@/db/schema';
+
+export const DEFAULT_HINT_COST = 1;
+
+// A case completed with hints is remembered with help, so its review quality is capped here
+export const HINTED_RECALL_QUALITY = 3;
+
+/**
+ * The next tier to reveal at a stage once revealedCount hints have been shown,
+ * or null when there are none left
+ */
+export function getNextHint(hints: StageHint[], revealedCount: number): { tier: number; text: string; scoreDelta: number } | null {
+    const hint = hints[revealedCount];
+    if (!hint) return null;
+    return { tier: revealedCount + 1, text: hint.text, scoreDelta: -Math.abs(hint.cost) };
+}
+
+/**
+ * Points taken off for revealing the first count hints at a stage
+ */
+export function scoreHints(hints: StageHint[], count: number): number {
+    return hints.slice(0, count).reduce((sum, hint) => sum - Math.abs(hint.cost), 0);
+}
@@ -0,0 +1,55 @@
+import type { HistoryFact, HistoryMessageRole, PatientScript } from '@/db/schema';
+
+// Questions a student can put to the patient at one stage
+export const maxHistoryQuestions = 30;
+
+// What the stub patient says when a question doesn't touch the script
+export const fallbackPatientReply = "I'm not sure, doctor. Nothing else comes to mind.";
+
+function escapeRegExp(value: string) {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Script facts a question elicits. A keyword matches at the start of a word, so
+ * "smok" catches "smoke" and "smoking". Matching is deterministic so scoring
+ * never depends on how the patient's reply was phrased.
+ */
+export function matchHistoryFacts(script: PatientScript, question: string): HistoryFact[] {
+    const normalised = question.toLowerCase();
+    return script.facts.filter((fact) => fact.keywords.some((keyword) => {
+        const trimmed = keyword.trim().toLowerCase();
+        return trimmed.length > 0 && new RegExp(`\\b${escapeRegExp(trimmed)}`).test(normalised);
+    }));
+}
+
+/**
+ * Score for a history stage from the fact ids elicited across its questions
+ */
+export function scoreHistoryTaking(script: PatientScript, elicitedFactIds: string[]) {
+    const elicited = script.facts.filter((fact) => elicitedFactIds.includes(fact.id));
+    const missed = script.facts.filter((fact) => !elicitedFactIds.includes(fact.id));
+
+    return {
+        score: elicited.reduce((sum, fact) => sum + fact.weight, 0),
+        elicited,
+        missed,
+    };
+}
+
+export type PatientReplyContext = {
+    script: PatientScript;
+    question: string;
+    revealed: HistoryFact[]; // Facts this question elicits; the reply may share only these
+    transcript: { role: HistoryMessageRole; content: string }[];
+};
+
+export type PatientResponder = (context: PatientReplyContext) => Promise<string>;
+
+/**
+ * Deterministic patient that answers with the elicited facts verbatim. Used when
+ * no model is configured, and in tests.
+ */
+export const stubPatientResponder: PatientResponder = async ({ revealed }) => (
+    revealed.length > 0 ? revealed.map((fact) => fact.detail).join(' ') : fallbackPatientReply
+);
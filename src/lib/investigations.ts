@@ -0,0 +1,54 @@
+import type { InvestigationType } from '@/db/schema';
+
+export type InvestigationCatalogueEntry = {
+    label: string;
+    turnaroundMinutes: number; // Simulated time until the result is back
+    unnecessaryPenalty: number; // Score lost when ordered without indication
+};
+
+/**
+ * Investigations a student can request at any stage. Results come from the
+ * stage's authored rows; anything not authored is unremarkable and unindicated.
+ */
+export const investigationCatalogue: Record<InvestigationType, InvestigationCatalogueEntry> = {
+    FBC: { label: 'Full Blood Count', turnaroundMinutes: 30, unnecessaryPenalty: 1 },
+    'U&E': { label: 'Urea & Electrolytes', turnaroundMinutes: 45, unnecessaryPenalty: 1 },
+    ABG: { label: 'Arterial Blood Gas', turnaroundMinutes: 10, unnecessaryPenalty: 2 },
+    ECG: { label: '12-lead ECG', turnaroundMinutes: 5, unnecessaryPenalty: 1 },
+    CXR: { label: 'Chest X-ray', turnaroundMinutes: 30, unnecessaryPenalty: 2 },
+    CT: { label: 'CT Scan', turnaroundMinutes: 60, unnecessaryPenalty: 3 },
+};
+
+// Leaving an indicated investigation unordered before deciding
+export const missedInvestigationPenalty = 2;
+
+export const defaultInvestigationResult = 'No significant abnormality detected.';
+
+/**
+ * What ordering an investigation at a stage returns and costs
+ */
+export function resolveInvestigationOrder(
+    stageInvestigations: { investigation: InvestigationType; result: string; isIndicated: boolean }[],
+    investigation: InvestigationType
+) {
+    const authored = stageInvestigations.find((row) => row.investigation === investigation);
+    const isIndicated = authored?.isIndicated ?? false;
+
+    return {
+        result: authored?.result || defaultInvestigationResult,
+        isIndicated,
+        scoreDelta: isIndicated ? 0 : -investigationCatalogue[investigation].unnecessaryPenalty,
+        durationMinutes: investigationCatalogue[investigation].turnaroundMinutes,
+    };
+}
+
+/**
+ * Penalty for deciding a stage without the investigations it called for
+ */
+export function scoreMissedInvestigations(
+    stageInvestigations: { investigation: InvestigationType; isIndicated: boolean }[],
+    ordered: InvestigationType[]
+): number {
+    const missed = stageInvestigations.filter((row) => row.isIndicated && !ordered.includes(row.investigation));
+    return -missed.length * missedInvestigationPenalty;
+}
@@ -0,0 +1,17 @@
+// Short codes students type to join a team, a live classroom or an OSCE station as examiner
+export const JOIN_CODE_LENGTH = 6;
+
+// No 0/O or 1/I, so codes read aloud or copied from a screen can't be mistyped
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Retries if a generated code is already taken
+export const JOIN_CODE_ATTEMPTS = 5;
+
+export function generateJoinCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH));
+    return Array.from(bytes, (byte) => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length]).join('');
+}
+
+export function normaliseJoinCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toUpperCase();
+}
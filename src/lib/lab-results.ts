@@ -0,0 +1,152 @@
+import type { LabFlag, LabResult, PatientDemographics } from '@/db/schema';
+import { getReferenceRange, normaliseAnalyte, parseNumericValue } from '@/lib/reference-ranges';
+
+export const unitSystems = ['si', 'conventional'] as const;
+export type UnitSystem = typeof unitSystems[number];
+
+/**
+ * Analytes that make up each common panel, used to start a panel in the stage editor
+ */
+export const labPanelTemplates: Record<string, string[]> = {
+    'Full blood count': ['Hb', 'WCC', 'Plt'],
+    'Urea & electrolytes': ['Na', 'K', 'Urea', 'Creatinine'],
+    'Liver function': ['Bilirubin', 'ALT', 'ALP', 'Albumin'],
+    'Bone profile': ['Calcium', 'Phosphate', 'Magnesium'],
+    'Inflammatory markers': ['CRP'],
+    'Blood gas': ['pH', 'pCO2', 'pO2', 'HCO3', 'Lactate'],
+    'Metabolic': ['Glucose', 'Ketones'],
+    'Cardiac': ['Troponin'],
+};
+
+type UnitConversion = {
+    si: string;
+    conventional: string;
+    factor: number; // Conventional value = SI value × factor
+};
+
+// Keyed by the canonical analyte names used by the reference-range engine
+const unitConversions: Record<string, UnitConversion> = {
+    Hb: { si: 'g/L', conventional: 'g/dL', factor: 0.1 },
+    WCC: { si: 'x10^9/L', conventional: 'x10^3/uL', factor: 1 },
+    Plt: { si: 'x10^9/L', conventional: 'x10^3/uL', factor: 1 },
+    Na: { si: 'mmol/L', conventional: 'mEq/L', factor: 1 },
+    K: { si: 'mmol/L', conventional: 'mEq/L', factor: 1 },
+    Urea: { si: 'mmol/L', conventional: 'mg/dL', factor: 2.801 }, // As blood urea nitrogen
+    Creatinine: { si: 'umol/L', conventional: 'mg/dL', factor: 0.01131 },
+    Bilirubin: { si: 'umol/L', conventional: 'mg/dL', factor: 0.05848 },
+    Albumin: { si: 'g/L', conventional: 'g/dL', factor: 0.1 },
+    Calcium: { si: 'mmol/L', conventional: 'mg/dL', factor: 4.008 },
+    Magnesium: { si: 'mmol/L', conventional: 'mg/dL', factor: 2.431 },
+    Phosphate: { si: 'mmol/L', conventional: 'mg/dL', factor: 3.097 },
+    CRP: { si: 'mg/L', conventional: 'mg/dL', factor: 0.1 },
+    Glucose: { si: 'mmol/L', conventional: 'mg/dL', factor: 18.016 },
+    Lactate: { si: 'mmol/L', conventional: 'mg/dL', factor: 9.008 },
+    Ketones: { si: 'mmol/L', conventional: 'mg/dL', factor: 10.41 },
+    Troponin: { si: 'ng/L', conventional: 'ng/mL', factor: 0.001 },
+    pCO2: { si: 'kPa', conventional: 'mmHg', factor: 7.5006 },
+    pO2: { si: 'kPa', conventional: 'mmHg', factor: 7.5006 },
+    HCO3: { si: 'mmol/L', conventional: 'mEq/L', factor: 1 },
+};
+
+// "µmol/L", "umol/l" and "μmol / L" are the same unit
+function normaliseUnit(unit: string): string {
+    return unit.toLowerCase().replace(/[µμ]/g, 'u').replace(/×/g, 'x').replace(/\s+/g, '');
+}
+
+function sameUnit(a: string, b: string): boolean {
+    return normaliseUnit(a) === normaliseUnit(b);
+}
+
+function roundConverted(value: number): number {
+    return Number(value.toPrecision(3));
+}
+
+/**
+ * Whether a result can be shown in both unit systems
+ */
+export function isConvertible(result: LabResult): boolean {
+    const key = normaliseAnalyte(result.analyte);
+    const conversion = key ? unitConversions[key] : undefined;
+    if (!conversion || conversion.factor === 1) return false;
+    return sameUnit(result.unit, conversion.si) || sameUnit(result.unit, conversion.conventional);
+}
+
+/**
+ * The result expressed in the requested unit system. Results in a unit the
+ * conversion table doesn't know, or with a text value, are returned unchanged.
+ */
+export function convertLabResult(result: LabResult, system: UnitSystem): LabResult {
+    const key = normaliseAnalyte(result.analyte);
+    const conversion = key ? unitConversions[key] : undefined;
+    if (!conversion) return result;
+
+    const from: UnitSystem | null = sameUnit(result.unit, conversion.si)
+        ? 'si'
+        : sameUnit(result.unit, conversion.conventional) ? 'conventional' : null;
+    if (!from || from === system) return result;
+
+    const multiplier = system === 'conventional' ? conversion.factor : 1 / conversion.factor;
+    const convert = (value: number | undefined) => value === undefined ? undefined : roundConverted(value * multiplier);
+    const numeric = parseNumericValue(result.value);
+
+    return {
+        ...result,
+        value: numeric === null ? result.value : roundConverted(numeric * multiplier),
+        unit: conversion[system],
+        range: result.range && { low: convert(result.range.low), high: convert(result.range.high) },
+    };
+}
+
+/**
+ * Range a result is judged against: the authored one, or the engine's when it's in the same unit
+ */
+export function getLabRange(result: LabResult, patient?: PatientDemographics | null): { low?: number; high?: number } | null {
+    if (result.range && (result.range.low !== undefined || result.range.high !== undefined)) return result.range;
+    const range = getReferenceRange(result.analyte, patient);
+    return range && sameUnit(range.unit, result.unit) ? range : null;
+}
+
+/**
+ * The author's flag, or one worked out from the range; null for text results with no flag
+ */
+export function flagLabResult(result: LabResult, patient?: PatientDemographics | null): LabFlag | null {
+    if (result.flag) return result.flag;
+
+    const numeric = parseNumericValue(result.value);
+    const range = getLabRange(result, patient);
+    if (numeric === null || !range) return null;
+
+    if (range.low !== undefined && numeric < range.low) return 'low';
+    if (range.high !== undefined && numeric > range.high) return 'high';
+    return 'normal';
+}
+
+/**
+ * Results grouped by panel, keeping the authored order
+ */
+export function groupLabPanels(results: LabResult[]): { panel: string; results: LabResult[] }[] {
+    const groups: { panel: string; results: LabResult[] }[] = [];
+    for (const result of results) {
+        const group = groups.find((g) => g.panel === result.panel);
+        if (group) {
+            group.results.push(result);
+        } else {
+            groups.push({ panel: result.panel, results: [result] });
+        }
+    }
+    return groups;
+}
+
+/**
+ * Blank result for an analyte with its SI unit and the patient's reference range filled in
+ */
+export function labResultTemplate(panel: string, analyte: string, patient?: PatientDemographics | null): LabResult {
+    const range = getReferenceRange(analyte, patient);
+    return {
+        panel,
+        analyte,
+        value: '',
+        unit: range?.unit ?? '',
+        ...(range && { range: { low: range.low, high: range.high } }),
+    };
+}
@@ -0,0 +1,66 @@
+/**
+ * Image types accepted for stage and question media, with the extension the
+ * stored file is given
+ */
+export const mediaContentTypes = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+} as const;
+
+export type MediaContentType = keyof typeof mediaContentTypes;
+
+export const maxMediaBytes = 8 * 1024 * 1024;
+
+// Keys are generated by the server as <uuid>.<ext>; anything else is rejected
+const storageKeyPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(png|jpg|webp|gif)$/;
+
+export function isMediaContentType(value: string): value is MediaContentType {
+    return value in mediaContentTypes;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+/**
+ * Identify an image from its leading bytes rather than the type the browser
+ * claims for it. Returns null for anything that isn't a supported image.
+ */
+export function detectMediaContentType(bytes: Uint8Array): MediaContentType | null {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38]) && (bytes[4] === 0x37 || bytes[4] === 0x39) && bytes[5] === 0x61) return 'image/gif';
+    if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+    return null;
+}
+
+export function isValidStorageKey(key: string): boolean {
+    return storageKeyPattern.test(key);
+}
+
+export function getMediaUrl(storageKey: string): string {
+    return `/api/media/${storageKey}`;
+}
+
+/**
+ * Media attached to a stage or question, as the players render it
+ */
+export type MediaItem = {
+    id: number;
+    url: string;
+    caption: string;
+    revealOnRequest: boolean;
+};
+
+/**
+ * Map a stage_media / ukmla_question_media row loaded with its asset
+ */
+export function toMediaItem(row: { id: number; caption: string; revealOnRequest: boolean; asset: { storageKey: string } }): MediaItem {
+    return {
+        id: row.id,
+        url: getMediaUrl(row.asset.storageKey),
+        caption: row.caption,
+        revealOnRequest: row.revealOnRequest,
+    };
+}
@@ -0,0 +1,87 @@
+import type { ClinicalData, PatientDemographics } from '@/db/schema';
+import { parseBloodPressure } from '@/lib/physiology';
+import { getReferenceRange } from '@/lib/reference-ranges';
+
+export type News2Risk = 'low' | 'low-medium' | 'medium' | 'high';
+
+export type News2Result = {
+    total: number;
+    risk: News2Risk;
+    spo2Scale: 1 | 2;
+    components: { parameter: string; score: number }[];
+    missing: string[]; // Parameters not recorded, scored as 0
+};
+
+// Bands are [upper bound inclusive, score], checked in order
+type Bands = [number, number][];
+
+const respirationBands: Bands = [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]];
+const spo2Scale1Bands: Bands = [[91, 3], [93, 2], [95, 1], [Infinity, 0]];
+const systolicBands: Bands = [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]];
+const pulseBands: Bands = [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]];
+const temperatureBands: Bands = [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1], [Infinity, 2]];
+
+function scoreBands(value: number, bands: Bands): number {
+    return bands.find(([upper]) => value <= upper)?.[1] ?? 0;
+}
+
+// Scale 2 only penalises high saturations when the patient is on oxygen
+function scoreSpo2Scale2(value: number, onOxygen: boolean): number {
+    if (value <= 83) return 3;
+    if (value <= 85) return 2;
+    if (value <= 87) return 1;
+    if (value <= 92 || !onOxygen) return 0;
+    if (value <= 94) return 1;
+    if (value <= 96) return 2;
+    return 3;
+}
+
+/**
+ * Whether NEWS2 applies: it is validated for adults (16+) and not in pregnancy
+ */
+export function isNews2Applicable(patient: PatientDemographics | null | undefined): boolean {
+    if (!patient) return true;
+    return patient.ageYears >= 16 && !patient.pregnant;
+}
+
+/**
+ * NEWS2 for a set of observations. SpO2 Scale 2 is used when the patient's
+ * reference SpO2 target tops out at 92% or below, e.g. COPD.
+ */
+export function calculateNews2(data: ClinicalData | null | undefined, patient?: PatientDemographics | null): News2Result | null {
+    if (!data || !isNews2Applicable(patient)) return null;
+
+    const spo2Target = getReferenceRange('SpO2', patient);
+    const spo2Scale: 1 | 2 = spo2Target?.high !== undefined && spo2Target.high <= 92 ? 2 : 1;
+    const onOxygen = data.supplementalOxygen === true;
+    const systolic = parseBloodPressure(data.BP)?.systolic;
+
+    const components: News2Result['components'] = [];
+    const missing: string[] = [];
+    const add = (parameter: string, value: number | undefined, score: (value: number) => number) => {
+        if (typeof value === 'number') {
+            components.push({ parameter, score: score(value) });
+        } else {
+            missing.push(parameter);
+        }
+    };
+
+    add('RR', data.RR, (value) => scoreBands(value, respirationBands));
+    add('SpO2', data.SpO2, (value) => spo2Scale === 2 ? scoreSpo2Scale2(value, onOxygen) : scoreBands(value, spo2Scale1Bands));
+    components.push({ parameter: 'Air or oxygen', score: onOxygen ? 2 : 0 });
+    add('SBP', systolic, (value) => scoreBands(value, systolicBands));
+    add('HR', data.HR, (value) => scoreBands(value, pulseBands));
+    components.push({ parameter: 'Consciousness', score: data.consciousness && data.consciousness !== 'A' ? 3 : 0 });
+    add('Temp', data.Temp, (value) => scoreBands(value, temperatureBands));
+
+    // Nothing observed means there is nothing to score
+    if (missing.length === 5) return null;
+
+    const total = components.reduce((sum, component) => sum + component.score, 0);
+    let risk: News2Risk = 'low';
+    if (total >= 7) risk = 'high';
+    else if (total >= 5) risk = 'medium';
+    else if (components.some((component) => component.score === 3)) risk = 'low-medium';
+
+    return { total, risk, spo2Scale, components, missing };
+}
@@ -0,0 +1,92 @@
+import { asc, desc, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { osceAttempts, osceChecklistItems, osceSessions } from '@/db/schema';
+import { displayName } from '@/lib/team-sessions';
+import { secondsSince } from '@/lib/timed-stages';
+import type { OsceRole, OsceSessionState } from '@/types/simulator-types';
+
+/**
+ * Whether the user is sitting the station or examining it
+ */
+export async function getOsceRole(osceSessionId: number, userId: string): Promise<OsceRole | null> {
+    const session = await db.query.osceSessions.findFirst({
+        where: eq(osceSessions.id, osceSessionId),
+        columns: { candidateUserId: true, examinerUserId: true },
+    });
+
+    if (session?.candidateUserId === userId) return 'candidate';
+    if (session?.examinerUserId === userId) return 'examiner';
+    return null;
+}
+
+/**
+ * Every change to a station run (examiner joining, the clock starting, marks
+ * being submitted) bumps the session
+ */
+export async function getOsceSessionVersion(osceSessionId: number): Promise<string | null> {
+    const session = await db.query.osceSessions.findFirst({
+        where: eq(osceSessions.id, osceSessionId),
+        columns: { updatedAt: true },
+    });
+
+    return session ? String(session.updatedAt.getTime()) : null;
+}
+
+/**
+ * The station as the given role sees it. Callers check the user's role.
+ */
+export async function loadOsceSessionState(osceSessionId: number, role: OsceRole): Promise<OsceSessionState | null> {
+    const session = await db.query.osceSessions.findFirst({
+        where: eq(osceSessions.id, osceSessionId),
+        with: {
+            station: {
+                with: {
+                    checklistItems: {
+                        orderBy: [asc(osceChecklistItems.itemOrder)],
+                        columns: { id: true, description: true, marks: true },
+                    },
+                },
+            },
+            candidate: { columns: { firstName: true, lastName: true, email: true } },
+            examiner: { columns: { firstName: true, lastName: true, email: true } },
+        },
+    });
+
+    if (!session) return null;
+
+    const attempt = session.status === 'completed'
+        ? await db.query.osceAttempts.findFirst({
+            where: eq(osceAttempts.osceSessionId, osceSessionId),
+            orderBy: [desc(osceAttempts.completedAt)],
+        })
+        : undefined;
+
+    const isExaminer = role === 'examiner';
+    const { station } = session;
+
+    return {
+        osceSessionId: session.id,
+        stationId: station.id,
+        title: station.title,
+        clinicalDomain: station.clinicalDomain,
+        durationSeconds: station.durationSeconds,
+        joinCode: session.joinCode,
+        status: session.status,
+        candidateName: displayName(session.candidate),
+        examinerName: session.examiner ? displayName(session.examiner) : null,
+        elapsedSeconds: session.startedAt ? secondsSince(session.startedAt, session.completedAt ?? new Date()) : 0,
+        // The candidate reads the brief when the clock starts, as they would at the door of a real station
+        candidateBrief: isExaminer || session.startedAt ? station.candidateBrief : null,
+        examinerNotes: isExaminer ? station.examinerNotes : null,
+        checklist: isExaminer ? station.checklistItems : null,
+        result: attempt
+            ? {
+                score: attempt.score,
+                maxScore: attempt.maxScore,
+                globalRating: attempt.globalRating,
+                checklist: attempt.checklist,
+                examinerComments: attempt.examinerComments,
+            }
+            : null,
+    };
+}
@@ -0,0 +1,69 @@
+import type { OsceChecklistMark, OsceGlobalRating } from '@/db/schema';
+
+// Stations run eight minutes unless the author sets otherwise
+export const OSCE_DEFAULT_DURATION_SECONDS = 480;
+export const OSCE_MIN_DURATION_SECONDS = 60;
+export const OSCE_MAX_DURATION_SECONDS = 30 * 60;
+
+export const osceGlobalRatingLabels: Record<OsceGlobalRating, string> = {
+    clear_fail: 'Clear fail',
+    borderline: 'Borderline',
+    clear_pass: 'Clear pass',
+    good: 'Good',
+    excellent: 'Excellent',
+};
+
+// The examiner's global rating decides the pass, whatever the checklist total
+const PASSING_RATINGS: OsceGlobalRating[] = ['clear_pass', 'good', 'excellent'];
+
+export function isPassingRating(rating: OsceGlobalRating): boolean {
+    return PASSING_RATINGS.includes(rating);
+}
+
+/**
+ * Mark a station's checklist, snapshotting each item so the attempt still reads
+ * correctly after the station is edited
+ */
+export function markChecklist(
+    items: { id: number; description: string; marks: number }[],
+    awardedItemIds: number[]
+): { score: number; maxScore: number; checklist: OsceChecklistMark[] } {
+    const awarded = new Set(awardedItemIds);
+    const checklist = items.map((item) => ({
+        itemId: item.id,
+        description: item.description,
+        marks: item.marks,
+        awarded: awarded.has(item.id),
+    }));
+
+    return {
+        score: checklist.reduce((total, item) => total + (item.awarded ? item.marks : 0), 0),
+        maxScore: checklist.reduce((total, item) => total + item.marks, 0),
+        checklist,
+    };
+}
+
+export function osceScorePercent(attempt: { score: number; maxScore: number }): number {
+    return attempt.maxScore > 0 ? Math.round((attempt.score / attempt.maxScore) * 100) : 0;
+}
+
+/**
+ * OSCE results are summarised on their own, never folded into case scores
+ */
+export function summariseOsceAttempts(attempts: { score: number; maxScore: number; globalRating: OsceGlobalRating }[]) {
+    const passed = attempts.filter((attempt) => isPassingRating(attempt.globalRating)).length;
+
+    return {
+        totalAttempts: attempts.length,
+        averagePercent: attempts.length > 0
+            ? Math.round(attempts.reduce((total, attempt) => total + osceScorePercent(attempt), 0) / attempts.length)
+            : 0,
+        passRate: attempts.length > 0 ? Math.round((passed / attempts.length) * 100) : 0,
+    };
+}
+
+export function formatStationDuration(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = seconds % 60;
+    return remainder > 0 ? `${minutes} min ${remainder} s` : `${minutes} min`;
+}
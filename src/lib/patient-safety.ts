@@ -0,0 +1,84 @@
+import { safetyClasses, type DecisionResponse, type DecisionType, type SafetyClass } from '@/db/schema';
+
+export const safetyClassLabels: Record<SafetyClass, string> = {
+    optimal: 'Optimal',
+    acceptable: 'Acceptable',
+    suboptimal: 'Suboptimal',
+    harmful: 'Harmful',
+    never_event: 'Never event',
+};
+
+// The classes counted as critical errors
+export const criticalSafetyClasses: SafetyClass[] = ['harmful', 'never_event'];
+
+export function isCriticalError(safetyClass: SafetyClass | null): boolean {
+    return safetyClass !== null && criticalSafetyClasses.includes(safetyClass);
+}
+
+/**
+ * An option's safety class, falling back on its correctness and weight until an
+ * author classifies it. Unclassified options are never treated as harmful.
+ */
+export function resolveSafetyClass(option: { safetyClass: SafetyClass | null; isCorrect: boolean; scoreWeight: number }): SafetyClass {
+    if (option.safetyClass) return option.safetyClass;
+    if (option.isCorrect) return 'optimal';
+    return option.scoreWeight < 0 ? 'suboptimal' : 'acceptable';
+}
+
+export function worstSafetyClass(classes: SafetyClass[]): SafetyClass | null {
+    if (classes.length === 0) return null;
+    return classes.reduce((worst, safetyClass) =>
+        safetyClasses.indexOf(safetyClass) > safetyClasses.indexOf(worst) ? safetyClass : worst
+    );
+}
+
+/**
+ * The options the student actually chose at a stage. Ordering stages use every
+ * option, so there is no choice to classify.
+ */
+export function getChosenOptionIds(decisionType: DecisionType, decision: { optionId: number; response: DecisionResponse | null; timedOut?: boolean }): number[] {
+    if (decision.timedOut) return [decision.optionId];
+    if (decisionType === 'ordering') return [];
+    if (decisionType === 'multi') return decision.response?.optionIds ?? [];
+    return [decision.optionId];
+}
+
+/**
+ * The safety class recorded with a decision: the least safe option chosen.
+ * A timeout is only classified when the stage has its own "no decision" option.
+ */
+export function classifyDecision<O extends { id: number; safetyClass: SafetyClass | null; isCorrect: boolean; scoreWeight: number; isTimeout: boolean }>(
+    decisionType: DecisionType,
+    options: O[],
+    decision: { optionId: number; response: DecisionResponse | null; timedOut?: boolean }
+): SafetyClass | null {
+    const chosen = getChosenOptionIds(decisionType, decision);
+    return worstSafetyClass(
+        options
+            .filter((option) => chosen.includes(option.id) && (!decision.timedOut || option.isTimeout))
+            .map(resolveSafetyClass)
+    );
+}
+
+export type SafetySummary = {
+    decisions: number; // Classified decisions
+    counts: Record<SafetyClass, number>;
+    criticalErrors: number; // Harmful choices and never-events
+};
+
+export function summariseSafety(rows: { safetyClass: SafetyClass | null }[]): SafetySummary {
+    const counts = Object.fromEntries(safetyClasses.map((safetyClass) => [safetyClass, 0])) as Record<SafetyClass, number>;
+    let decisions = 0;
+
+    for (const row of rows) {
+        if (!row.safetyClass) continue;
+        counts[row.safetyClass]++;
+        decisions++;
+    }
+
+    return {
+        decisions,
+        counts,
+        criticalErrors: counts.harmful + counts.never_event,
+    };
+}
@@ -0,0 +1,123 @@
+import type { ClinicalData, VitalEffects } from '@/db/schema';
+
+/**
+ * Vital signs that persist between stages. Everything else in a stage's
+ * clinicalData (labs, notes, free-form findings) belongs to that stage only.
+ */
+export const carriedVitalKeys = ['BP', 'HR', 'RR', 'Temp', 'SpO2'] as const;
+
+export const vitalEffectKeys = ['HR', 'SBP', 'DBP', 'RR', 'SpO2', 'Temp'] as const satisfies readonly (keyof VitalEffects)[];
+
+// Keep simulated values inside a survivable, displayable range
+const limits = {
+    HR: [20, 220],
+    RR: [4, 60],
+    Temp: [30, 43],
+    SpO2: [50, 100],
+    SBP: [40, 250],
+    DBP: [20, 150],
+} as const;
+
+function clamp(value: number, [min, max]: readonly [number, number]) {
+    return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Parse a "120/80" style blood pressure into its components
+ */
+export function parseBloodPressure(bp: unknown): { systolic: number; diastolic: number } | null {
+    if (typeof bp !== 'string') return null;
+    const match = bp.match(/^\s*(\d{2,3})\s*\/\s*(\d{2,3})/);
+    if (!match) return null;
+    return { systolic: Number(match[1]), diastolic: Number(match[2]) };
+}
+
+/**
+ * Vitals carried over from the previous stage, with the stage's own clinicalData
+ * laid on top. Authors only need to write the values that change.
+ */
+export function mergeStageClinicalData(
+    carried: ClinicalData | null | undefined,
+    stageData: ClinicalData | null | undefined
+): ClinicalData | null {
+    const base: Record<string, unknown> = {};
+    for (const key of carriedVitalKeys) {
+        if (carried?.[key] !== undefined && carried[key] !== null) {
+            base[key] = carried[key];
+        }
+    }
+
+    const merged = { ...base, ...(stageData || {}) };
+    return Object.keys(merged).length > 0 ? merged : null;
+}
+
+/**
+ * Apply an option's physiological effects to the current vitals.
+ * Vitals that aren't present are left absent rather than invented.
+ */
+export function applyVitalEffects(vitals: ClinicalData | null, effects: VitalEffects | null | undefined): ClinicalData | null {
+    if (!vitals || !effects) return vitals;
+
+    const next: ClinicalData = { ...vitals };
+
+    for (const key of ['HR', 'RR', 'SpO2'] as const) {
+        const current = next[key];
+        const delta = effects[key];
+        if (typeof current === 'number' && delta) {
+            next[key] = Math.round(clamp(current + delta, limits[key]));
+        }
+    }
+
+    if (typeof next.Temp === 'number' && effects.Temp) {
+        next.Temp = Math.round(clamp(next.Temp + effects.Temp, limits.Temp) * 10) / 10;
+    }
+
+    const bp = parseBloodPressure(next.BP);
+    if (bp && (effects.SBP || effects.DBP)) {
+        const systolic = Math.round(clamp(bp.systolic + (effects.SBP || 0), limits.SBP));
+        const diastolic = Math.round(clamp(bp.diastolic + (effects.DBP || 0), limits.DBP));
+        next.BP = `${systolic}/${Math.min(diastolic, systolic - 10)}`;
+    }
+
+    return next;
+}
+
+/**
+ * Walk a decision path from the case baseline, returning the clinical data shown
+ * at each visited stage and the vitals carried out of the last decision.
+ */
+export function replayClinicalData(
+    baseline: ClinicalData | null | undefined,
+    steps: { clinicalData: ClinicalData | null | undefined; vitalEffects: VitalEffects | null | undefined }[]
+): { shown: (ClinicalData | null)[]; carried: ClinicalData | null } {
+    const shown: (ClinicalData | null)[] = [];
+    let carried: ClinicalData | null = baseline ?? null;
+
+    for (const step of steps) {
+        const current = mergeStageClinicalData(carried, step.clinicalData);
+        shown.push(current);
+        carried = applyVitalEffects(current, step.vitalEffects);
+    }
+
+    return { shown, carried };
+}
+
+/**
+ * Human-readable summary of an effects object, e.g. "HR -15, SpO2 +4"
+ */
+export function describeVitalEffects(effects: VitalEffects | null | undefined): string {
+    if (!effects) return '';
+    return vitalEffectKeys
+        .filter((key) => effects[key])
+        .map((key) => `${key} ${effects[key]! > 0 ? '+' : ''}${effects[key]}`)
+        .join(', ');
+}
+
+/**
+ * Format simulated minutes as a clock offset, e.g. "T+1h 05m"
+ */
+export function formatSimulatedTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return hours > 0 ? `T+${hours}h ${String(mins).padStart(2, '0')}m` : `T+${mins}m`;
+}
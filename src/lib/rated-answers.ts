@@ -0,0 +1,41 @@
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { cases, sessionDecisions, simulationSessions, ukmlaAttempts, ukmlaQuestions } from '@/db/schema';
+import type { RatedAnswer } from '@/lib/calibration';
+
+/**
+ * Every answer the student rated their confidence for: case stage decisions,
+ * where earning points counts as correct, and UKMLA answers
+ */
+export async function loadRatedAnswers(userId: string, sources: { cases: boolean; ukmla: boolean }): Promise<RatedAnswer[]> {
+    const [caseRows, ukmlaRows] = await Promise.all([
+        sources.cases
+            ? db
+                .select({
+                    topic: cases.clinicalDomain,
+                    confidence: sessionDecisions.confidence,
+                    scoreWeight: sessionDecisions.scoreWeight,
+                })
+                .from(sessionDecisions)
+                .innerJoin(simulationSessions, eq(sessionDecisions.sessionId, simulationSessions.id))
+                .innerJoin(cases, eq(simulationSessions.caseId, cases.id))
+                .where(and(eq(simulationSessions.userId, userId), isNotNull(sessionDecisions.confidence)))
+            : Promise.resolve([]),
+        sources.ukmla
+            ? db
+                .select({
+                    topic: ukmlaQuestions.category,
+                    confidence: ukmlaAttempts.confidence,
+                    isCorrect: ukmlaAttempts.isCorrect,
+                })
+                .from(ukmlaAttempts)
+                .innerJoin(ukmlaQuestions, eq(ukmlaAttempts.questionId, ukmlaQuestions.id))
+                .where(and(eq(ukmlaAttempts.userId, userId), isNotNull(ukmlaAttempts.confidence)))
+            : Promise.resolve([]),
+    ]);
+
+    return [
+        ...caseRows.map((row) => ({ topic: row.topic, confidence: row.confidence ?? 0, correct: row.scoreWeight > 0 })),
+        ...ukmlaRows.map((row) => ({ topic: row.topic, confidence: row.confidence ?? 0, correct: row.isCorrect })),
+    ];
+}
@@ -0,0 +1,312 @@
+import type { ClinicalData, PatientCondition, PatientDemographics, PatientSex } from '@/db/schema';
+import { parseBloodPressure } from '@/lib/physiology';
+
+export const ageBands = ['infant', 'child', 'adolescent', 'adult', 'older_adult'] as const;
+export type AgeBand = typeof ageBands[number];
+
+export type ReferenceRange = {
+    low?: number; // Values below are flagged low
+    high?: number; // Values above are flagged high
+    unit: string;
+};
+
+export type RangeFlag = 'low' | 'normal' | 'high';
+
+type RangeRule = {
+    range: ReferenceRange;
+    ageBands?: AgeBand[];
+    sex?: PatientSex;
+    pregnant?: boolean;
+    condition?: PatientCondition;
+};
+
+/**
+ * Age band from age in years. Cases without demographics are treated as adults.
+ */
+export function getAgeBand(ageYears: number | undefined): AgeBand {
+    if (ageYears === undefined) return 'adult';
+    if (ageYears < 1) return 'infant';
+    if (ageYears < 12) return 'child';
+    if (ageYears < 18) return 'adolescent';
+    if (ageYears < 65) return 'adult';
+    return 'older_adult';
+}
+
+const paediatric: AgeBand[] = ['infant', 'child', 'adolescent'];
+const adults: AgeBand[] = ['adult', 'older_adult'];
+
+/**
+ * Rules per parameter, most specific first; the first rule that fits the patient
+ * wins. Each list ends with a rule that fits everyone.
+ */
+const rangeRules: Record<string, RangeRule[]> = {
+    // Vitals
+    HR: [
+        { ageBands: ['infant'], range: { low: 100, high: 160, unit: 'bpm' } },
+        { ageBands: ['child'], range: { low: 70, high: 120, unit: 'bpm' } },
+        { pregnant: true, range: { low: 60, high: 110, unit: 'bpm' } },
+        { range: { low: 60, high: 100, unit: 'bpm' } },
+    ],
+    RR: [
+        { ageBands: ['infant'], range: { low: 30, high: 60, unit: '/min' } },
+        { ageBands: ['child'], range: { low: 20, high: 30, unit: '/min' } },
+        { range: { low: 12, high: 20, unit: '/min' } },
+    ],
+    SBP: [
+        { ageBands: ['infant'], range: { low: 70, high: 100, unit: 'mmHg' } },
+        { ageBands: ['child'], range: { low: 80, high: 110, unit: 'mmHg' } },
+        { ageBands: ['adolescent'], range: { low: 90, high: 120, unit: 'mmHg' } },
+        { range: { low: 90, high: 140, unit: 'mmHg' } },
+    ],
+    DBP: [
+        { ageBands: ['infant', 'child'], range: { low: 40, high: 75, unit: 'mmHg' } },
+        { ageBands: ['adolescent'], range: { low: 50, high: 80, unit: 'mmHg' } },
+        { range: { low: 60, high: 90, unit: 'mmHg' } },
+    ],
+    SpO2: [
+        // BTS target for patients at risk of hypercapnic respiratory failure
+        { condition: 'copd', range: { low: 88, high: 92, unit: '%' } },
+        { range: { low: 94, unit: '%' } },
+    ],
+    Temp: [
+        { range: { low: 36.1, high: 38.0, unit: '°C' } },
+    ],
+
+    // Full blood count
+    Hb: [
+        { ageBands: ['infant'], range: { low: 100, high: 140, unit: 'g/L' } },
+        { ageBands: ['child'], range: { low: 110, high: 145, unit: 'g/L' } },
+        { pregnant: true, range: { low: 110, high: 150, unit: 'g/L' } },
+        { sex: 'male', range: { low: 130, high: 180, unit: 'g/L' } },
+        { sex: 'female', range: { low: 115, high: 165, unit: 'g/L' } },
+        { range: { low: 115, high: 180, unit: 'g/L' } },
+    ],
+    WCC: [
+        { ageBands: ['infant'], range: { low: 6, high: 17.5, unit: 'x10^9/L' } },
+        { ageBands: ['child'], range: { low: 4.5, high: 13.5, unit: 'x10^9/L' } },
+        { pregnant: true, range: { low: 6, high: 16, unit: 'x10^9/L' } },
+        { range: { low: 4, high: 11, unit: 'x10^9/L' } },
+    ],
+    Plt: [
+        { range: { low: 150, high: 400, unit: 'x10^9/L' } },
+    ],
+
+    // Urea & electrolytes
+    Na: [
+        { range: { low: 133, high: 146, unit: 'mmol/L' } },
+    ],
+    K: [
+        { ageBands: ['infant'], range: { low: 3.5, high: 6.0, unit: 'mmol/L' } },
+        { range: { low: 3.5, high: 5.3, unit: 'mmol/L' } },
+    ],
+    Urea: [
+        { ageBands: paediatric, range: { low: 1.8, high: 6.4, unit: 'mmol/L' } },
+        { range: { low: 2.5, high: 7.8, unit: 'mmol/L' } },
+    ],
+    Creatinine: [
+        { ageBands: ['infant', 'child'], range: { low: 15, high: 60, unit: 'umol/L' } },
+        { pregnant: true, range: { low: 35, high: 77, unit: 'umol/L' } },
+        { ageBands: adults, sex: 'male', range: { low: 59, high: 104, unit: 'umol/L' } },
+        { ageBands: adults, sex: 'female', range: { low: 45, high: 84, unit: 'umol/L' } },
+        { range: { low: 45, high: 104, unit: 'umol/L' } },
+    ],
+
+    // Liver function & bone
+    Bilirubin: [
+        { range: { high: 21, unit: 'umol/L' } },
+    ],
+    ALT: [
+        { range: { high: 40, unit: 'U/L' } },
+    ],
+    ALP: [
+        { ageBands: paediatric, range: { low: 100, high: 400, unit: 'U/L' } },
+        { range: { low: 30, high: 130, unit: 'U/L' } },
+    ],
+    Albumin: [
+        { range: { low: 35, high: 50, unit: 'g/L' } },
+    ],
+    Calcium: [
+        { range: { low: 2.2, high: 2.6, unit: 'mmol/L' } },
+    ],
+    Magnesium: [
+        { range: { low: 0.7, high: 1.0, unit: 'mmol/L' } },
+    ],
+    Phosphate: [
+        { range: { low: 0.8, high: 1.5, unit: 'mmol/L' } },
+    ],
+
+    // Biochemistry
+    CRP: [
+        { range: { high: 5, unit: 'mg/L' } },
+    ],
+    Glucose: [
+        { range: { low: 4, high: 7.8, unit: 'mmol/L' } },
+    ],
+    Lactate: [
+        { range: { high: 2, unit: 'mmol/L' } },
+    ],
+    Ketones: [
+        { range: { high: 0.6, unit: 'mmol/L' } },
+    ],
+    Troponin: [
+        { sex: 'male', range: { high: 34, unit: 'ng/L' } },
+        { sex: 'female', range: { high: 16, unit: 'ng/L' } },
+        { range: { high: 14, unit: 'ng/L' } },
+    ],
+
+    // Blood gas
+    pH: [
+        { range: { low: 7.35, high: 7.45, unit: '' } },
+    ],
+    pCO2: [
+        { pregnant: true, range: { low: 3.7, high: 4.2, unit: 'kPa' } },
+        { range: { low: 4.7, high: 6.0, unit: 'kPa' } },
+    ],
+    pO2: [
+        { range: { low: 10, unit: 'kPa' } },
+    ],
+    HCO3: [
+        { range: { low: 22, high: 29, unit: 'mmol/L' } },
+    ],
+};
+
+// Lab names as authors tend to write them, lowercased, mapped to the rule keys above
+const analyteAliases: Record<string, string> = {
+    hb: 'Hb',
+    hgb: 'Hb',
+    haemoglobin: 'Hb',
+    hemoglobin: 'Hb',
+    wcc: 'WCC',
+    wbc: 'WCC',
+    'white cell count': 'WCC',
+    plt: 'Plt',
+    platelets: 'Plt',
+    na: 'Na',
+    'na+': 'Na',
+    sodium: 'Na',
+    k: 'K',
+    'k+': 'K',
+    potassium: 'K',
+    urea: 'Urea',
+    cr: 'Creatinine',
+    creat: 'Creatinine',
+    creatinine: 'Creatinine',
+    bili: 'Bilirubin',
+    bilirubin: 'Bilirubin',
+    alt: 'ALT',
+    alp: 'ALP',
+    'alk phos': 'ALP',
+    alb: 'Albumin',
+    albumin: 'Albumin',
+    ca: 'Calcium',
+    calcium: 'Calcium',
+    'adjusted calcium': 'Calcium',
+    'corrected calcium': 'Calcium',
+    mg: 'Magnesium',
+    magnesium: 'Magnesium',
+    po4: 'Phosphate',
+    phosphate: 'Phosphate',
+    crp: 'CRP',
+    glucose: 'Glucose',
+    'blood glucose': 'Glucose',
+    bm: 'Glucose',
+    lactate: 'Lactate',
+    ketones: 'Ketones',
+    'blood ketones': 'Ketones',
+    troponin: 'Troponin',
+    'hs-troponin': 'Troponin',
+    ph: 'pH',
+    pco2: 'pCO2',
+    paco2: 'pCO2',
+    po2: 'pO2',
+    pao2: 'pO2',
+    hco3: 'HCO3',
+    bicarbonate: 'HCO3',
+};
+
+/**
+ * Canonical parameter key for a lab name, or null when the engine has no range for it
+ */
+export function normaliseAnalyte(name: string): string | null {
+    return analyteAliases[name.trim().toLowerCase().replace(/_/g, ' ')] ?? null;
+}
+
+function ruleFits(rule: RangeRule, patient: PatientDemographics | null | undefined, band: AgeBand) {
+    if (rule.ageBands && !rule.ageBands.includes(band)) return false;
+    if (rule.sex && rule.sex !== patient?.sex) return false;
+    if (rule.pregnant && !patient?.pregnant) return false;
+    if (rule.condition && !patient?.conditions?.includes(rule.condition)) return false;
+    return true;
+}
+
+/**
+ * Reference range for a vital (HR, RR, SBP, DBP, SpO2, Temp) or lab analyte,
+ * adjusted for the patient's age band, sex, pregnancy and conditions
+ */
+export function getReferenceRange(parameter: string, patient?: PatientDemographics | null): ReferenceRange | null {
+    const key = rangeRules[parameter] ? parameter : normaliseAnalyte(parameter);
+    const rules = key ? rangeRules[key] : undefined;
+    if (!rules) return null;
+
+    const band = getAgeBand(patient?.ageYears);
+    return rules.find((rule) => ruleFits(rule, patient, band))?.range ?? null;
+}
+
+/**
+ * Read a number from a lab value such as 142, "142" or "142 g/L"
+ */
+export function parseNumericValue(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(/^[<>]?\s*(-?\d+(?:\.\d+)?)/);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Where a value sits against its range; null when there's no range or no number
+ */
+export function flagValue(parameter: string, value: unknown, patient?: PatientDemographics | null): RangeFlag | null {
+    const range = getReferenceRange(parameter, patient);
+    const numeric = parseNumericValue(value);
+    if (!range || numeric === null) return null;
+
+    if (range.low !== undefined && numeric < range.low) return 'low';
+    if (range.high !== undefined && numeric > range.high) return 'high';
+    return 'normal';
+}
+
+/**
+ * Abnormal flag for a vital sign as stored in clinicalData. BP is judged on
+ * the systolic first, then the diastolic.
+ */
+export function flagVital(key: 'BP' | 'HR' | 'RR' | 'SpO2' | 'Temp', data: ClinicalData, patient?: PatientDemographics | null): RangeFlag | null {
+    if (key !== 'BP') return flagValue(key, data[key], patient);
+
+    const bp = parseBloodPressure(data.BP);
+    if (!bp) return null;
+    const systolic = flagValue('SBP', bp.systolic, patient);
+    const diastolic = flagValue('DBP', bp.diastolic, patient);
+    return systolic !== 'normal' ? systolic : diastolic;
+}
+
+/**
+ * Reference range as shown next to a value, e.g. "133–146 mmol/L" or "< 5 mg/L"
+ */
+export function formatReferenceRange(range: ReferenceRange): string {
+    const unit = range.unit ? ` ${range.unit}` : '';
+    if (range.low !== undefined && range.high !== undefined) return `${range.low}–${range.high}${unit}`;
+    if (range.high !== undefined) return `≤ ${range.high}${unit}`;
+    if (range.low !== undefined) return `≥ ${range.low}${unit}`;
+    return range.unit;
+}
+
+/**
+ * Short description of who the ranges were chosen for, e.g. "62-year-old male"
+ */
+export function describePatient(patient: PatientDemographics | null | undefined): string | null {
+    if (!patient) return null;
+    const parts = [`${patient.ageYears}-year-old ${patient.sex}`];
+    if (patient.pregnant) parts.push('pregnant');
+    if (patient.conditions?.includes('copd')) parts.push('COPD');
+    return parts.join(', ');
+}
@@ -0,0 +1,35 @@
+import { randomUUID } from 'crypto';
+import { mediaContentTypes, type MediaContentType } from '@/lib/media';
+import { createLocalMediaStorage } from './local';
+
+/**
+ * Where uploaded media bytes live. The database only records the key, so a
+ * different backend (object storage, CDN) can be swapped in behind this.
+ */
+export interface MediaStorage {
+    put(key: string, data: Uint8Array): Promise<void>;
+    get(key: string): Promise<Uint8Array | null>;
+    delete(key: string): Promise<void>;
+}
+
+let storage: MediaStorage | null = null;
+
+/**
+ * The configured media storage backend. MEDIA_STORAGE_DRIVER selects it;
+ * only "local" (the default) is built in.
+ */
+export function getMediaStorage(): MediaStorage {
+    if (storage) return storage;
+
+    const driver = process.env.MEDIA_STORAGE_DRIVER || 'local';
+    if (driver !== 'local') {
+        throw new Error(`Unknown media storage driver: ${driver}`);
+    }
+
+    storage = createLocalMediaStorage(process.env.MEDIA_STORAGE_DIR || '.media');
+    return storage;
+}
+
+export function createStorageKey(contentType: MediaContentType): string {
+    return `${randomUUID()}.${mediaContentTypes[contentType]}`;
+}
@@ -0,0 +1,45 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { isValidStorageKey } from '@/lib/media';
+import type { MediaStorage } from './index';
+
+/**
+ * Media storage on the server's filesystem, one file per key under rootDir.
+ * Suitable for development and single-instance deployments.
+ */
+export function createLocalMediaStorage(rootDir: string): MediaStorage {
+    const root = path.resolve(rootDir);
+
+    // Keys are validated before they ever reach the filesystem
+    const resolveKey = (key: string) => {
+        if (!isValidStorageKey(key)) {
+            throw new Error('Invalid media storage key');
+        }
+        return path.join(root, key);
+    };
+
+    return {
+        async put(key, data) {
+            const filePath = resolveKey(key);
+            await mkdir(root, { recursive: true });
+            await writeFile(filePath, data);
+        },
+
+        async get(key) {
+            try {
+                return await readFile(resolveKey(key));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+
+        async delete(key) {
+            try {
+                await unlink(resolveKey(key));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            }
+        },
+    };
+}
@@ -0,0 +1,93 @@
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { simulationSessions, teamSessionMembers, teamSessionMessages, teamSessions } from '@/db/schema';
+import { loadCaseSessionState } from '@/lib/case-session-state';
+import { displayName } from '@/lib/team-sessions';
+import type { TeamSessionState } from '@/types/simulator-types';
+
+// The chat history sent with each update
+const RECENT_MESSAGES = 100;
+
+export async function getTeamMembership(teamSessionId: number, userId: string) {
+    return db.query.teamSessionMembers.findFirst({
+        where: and(
+            eq(teamSessionMembers.teamSessionId, teamSessionId),
+            eq(teamSessionMembers.userId, userId)
+        ),
+        columns: { role: true },
+    });
+}
+
+/**
+ * The shared simulation a team is playing, if the lead has started it
+ */
+export async function getTeamSimulation(teamSessionId: number) {
+    return db.query.simulationSessions.findFirst({
+        where: eq(simulationSessions.teamSessionId, teamSessionId),
+        orderBy: [desc(simulationSessions.startedAt)],
+        columns: { id: true, caseVersionId: true, updatedAt: true },
+    });
+}
+
+/**
+ * Changes whenever anything a teammate would see changes: a join or chat
+ * message bumps the team, and every action in the case bumps the simulation
+ */
+export async function getTeamSessionVersion(teamSessionId: number): Promise<string | null> {
+    const [team, simulation] = await Promise.all([
+        db.query.teamSessions.findFirst({
+            where: eq(teamSessions.id, teamSessionId),
+            columns: { updatedAt: true },
+        }),
+        getTeamSimulation(teamSessionId),
+    ]);
+
+    if (!team) return null;
+    return `${team.updatedAt.getTime()}:${simulation?.updatedAt.getTime() ?? 0}`;
+}
+
+/**
+ * Everything teammates share: the roster, the chat and the case state.
+ * Callers check the user is a member.
+ */
+export async function loadTeamSessionState(teamSessionId: number): Promise<TeamSessionState | null> {
+    const team = await db.query.teamSessions.findFirst({
+        where: eq(teamSessions.id, teamSessionId),
+        with: {
+            members: {
+                orderBy: [asc(teamSessionMembers.joinedAt)],
+                with: { user: { columns: { firstName: true, lastName: true, email: true } } },
+            },
+            messages: {
+                orderBy: [desc(teamSessionMessages.id)],
+                limit: RECENT_MESSAGES,
+                with: { user: { columns: { firstName: true, lastName: true, email: true } } },
+            },
+        },
+    });
+
+    if (!team) return null;
+
+    const simulation = await getTeamSimulation(teamSessionId);
+    const session = simulation ? await loadCaseSessionState(simulation.id) : null;
+
+    return {
+        teamSessionId: team.id,
+        caseId: team.caseId,
+        joinCode: team.joinCode,
+        status: team.status,
+        members: team.members.map((member) => ({
+            userId: member.userId,
+            name: displayName(member.user),
+            role: member.role,
+        })),
+        messages: team.messages.reverse().map((message) => ({
+            id: message.id,
+            userId: message.userId,
+            name: displayName(message.user),
+            content: message.content,
+            createdAt: message.createdAt.toISOString(),
+        })),
+        session,
+    };
+}
@@ -0,0 +1,14 @@
+import type { TeamRole } from '@/db/schema';
+
+// A team is the lead plus at least one teammate, and at most five students in all
+export const TEAM_MIN_MEMBERS = 2;
+export const TEAM_MAX_MEMBERS = 5;
+
+export const teamRoleLabels: Record<TeamRole, string> = {
+    lead: 'Team lead',
+    member: 'Member',
+};
+
+export function displayName(user: { firstName: string | null; lastName: string | null; email: string }): string {
+    return user.firstName ? `${user.firstName} ${user.lastName || ''}`.trim() : user.email.split('@')[0];
+}
@@ -0,0 +1,71 @@
+import { getLeadOption, type DecisionOption, type ResolvedDecision } from '@/lib/decision-types';
+
+// Allowance for network lag either side of a stage's time limit
+export const TIME_LIMIT_GRACE_SECONDS = 5;
+
+// Used when a timed stage has no "no decision" option of its own
+export const DEFAULT_NO_DECISION_PENALTY = -2;
+export const DEFAULT_NO_DECISION_FEEDBACK = 'Time ran out before you made a decision. In an emergency, delay is itself a decision: the patient was left without treatment while you deliberated.';
+
+/**
+ * A stage's own limit wins over the case-wide one; null means untimed
+ */
+export function getStageTimeLimit(stage: { timeLimitSeconds: number | null }, caseTimeLimitSeconds: number | null): number | null {
+    return stage.timeLimitSeconds ?? caseTimeLimitSeconds ?? null;
+}
+
+export function secondsSince(startedAt: Date, now: Date = new Date()): number {
+    return Math.max(0, Math.round((now.getTime() - startedAt.getTime()) / 1000));
+}
+
+/**
+ * The decision recorded when a timed stage runs out: the stage's "no decision"
+ * option if it has one, otherwise the default penalty with the pathway
+ * following the lead option
+ */
+export function resolveTimeout(options: DecisionOption[]): ResolvedDecision | null {
+    const timeoutOption = options.find((option) => option.isTimeout);
+    const route = timeoutOption ?? getLeadOption(options.filter((option) => !option.isTimeout));
+    if (!route) return null;
+
+    return {
+        optionId: route.id,
+        scoreWeight: timeoutOption ? timeoutOption.scoreWeight : DEFAULT_NO_DECISION_PENALTY,
+        response: null,
+        correctOptionIds: options.filter((option) => option.isCorrect && !option.isTimeout).map((option) => option.id),
+        matched: false,
+    };
+}
+
+export function formatCountdown(seconds: number): string {
+    const clamped = Math.max(0, seconds);
+    return `${Math.floor(clamped / 60)}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+export type DecisionSpeed = {
+    decisions: number; // Decisions made in time, with a recorded duration
+    averageSeconds: number | null;
+    medianSeconds: number | null;
+    timeouts: number;
+};
+
+/**
+ * Summarise how long decisions took; stages that timed out count separately
+ * rather than dragging the average towards the limit
+ */
+export function summariseDecisionSpeed(rows: { decisionSeconds: number | null; timedOut: boolean }[]): DecisionSpeed {
+    const seconds = rows
+        .filter((row) => !row.timedOut && row.decisionSeconds !== null)
+        .map((row) => row.decisionSeconds as number)
+        .sort((a, b) => a - b);
+    const middle = Math.floor(seconds.length / 2);
+
+    return {
+        decisions: seconds.length,
+        averageSeconds: seconds.length > 0 ? Math.round(seconds.reduce((sum, value) => sum + value, 0) / seconds.length) : null,
+        medianSeconds: seconds.length === 0
+            ? null
+            : seconds.length % 2 === 1 ? seconds[middle] : Math.round((seconds[middle - 1] + seconds[middle]) / 2),
+        timeouts: rows.filter((row) => row.timedOut).length,
+    };
+}
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { caseOutcomes, decisionTypes, difficultyLevels, investigationTypes, safetyClasses, stageTypes } from '@/db/schema';
+import { validateCaseGraph } from '@/lib/case-graph';
+import {
+    caseTemplateVariablesSchema,
+    labPanelsSchema,
+    patientDemographicsSchema,
+    patientScriptSchema,
+    stageHintsSchema,
+    vitalEffectsSchema,
+} from '@/schemas/case-simulator';
+
+// ============================================================================
+// CASE BUNDLE SCHEMAS
+// ============================================================================
+
+export const CASE_BUNDLE_FORMAT = 'nextmed-case-bundle';
+export const CASE_BUNDLE_VERSION = 1;
+export const MAX_BUNDLE_CASES = 200;
+
+const stageTimeLimitSchema = z.number().int()
+    .min(10, 'Time limits must be at least 10 seconds')
+    .max(3600, 'Time limits can be at most an hour');
+
+const clinicalDataSchema = z.record(z.string(), z.unknown())
+    .refine((data) => data.labPanels === undefined || labPanelsSchema.safeParse(data.labPanels).success, {
+        message: 'Lab results in clinicalData are not valid lab panels',
+    });
+
+/**
+ * One option of a bundled stage. Branches name the stageOrder they lead to,
+ * since ids only exist once the case is imported.
+ */
+export const caseBundleOptionSchema = z.object({
+    text: z.string().min(1, 'Option text is required'),
+    isCorrect: z.boolean().default(false),
+    scoreWeight: z.number().int().default(0),
+    feedback: z.string().min(1, 'Option feedback is required'),
+    nextStageOrder: z.number().int().nullable().optional(),
+    outcome: z.enum(caseOutcomes).nullable().optional(),
+    vitalEffects: vitalEffectsSchema.nullable().optional(),
+    durationMinutes: z.number().int().min(0).max(1440).default(5),
+    correctPosition: z.number().int().min(1, 'Position starts at 1').nullable().optional(),
+    acceptedAnswers: z.array(z.string().trim().min(1).max(200)).max(20).default([]),
+    isTimeout: z.boolean().default(false),
+    safetyClass: z.enum(safetyClasses).nullable().optional(),
+}).refine((option) => !(option.nextStageOrder && option.outcome), {
+    message: 'An option can lead to a next stage or an outcome, not both',
+}).refine((option) => !(option.isTimeout && option.isCorrect), {
+    message: 'The no-decision option cannot be marked correct',
+});
+
+/**
+ * Media is referenced by the storage key of an asset already uploaded to the
+ * target environment; files themselves are never part of a bundle
+ */
+export const caseBundleMediaSchema = z.object({
+    storageKey: z.string().min(1).max(200),
+    caption: z.string().max(300, 'Caption is too long').default(''),
+    revealOnRequest: z.boolean().default(false),
+});
+
+export const caseBundleStageSchema = z.object({
+    stageOrder: z.number().int().min(1, 'Stage orders start at 1'),
+    narrative: z.string().min(1, 'Narrative is required'),
+    stageType: z.enum(stageTypes).default('decision'),
+    decisionType: z.enum(decisionTypes).default('single'),
+    clinicalData: clinicalDataSchema.nullable().optional(),
+    mediaUrl: z.string().max(2000).nullable().optional(),
+    timeLimitSeconds: stageTimeLimitSchema.nullable().optional(),
+    hints: stageHintsSchema.default([]),
+    patientScript: patientScriptSchema.nullable().optional(),
+    investigations: z.array(z.object({
+        investigation: z.enum(investigationTypes),
+        result: z.string().min(1, 'Investigation result is required'),
+        isIndicated: z.boolean().default(false),
+    })).default([]),
+    media: z.array(caseBundleMediaSchema).max(20).default([]),
+    options: z.array(caseBundleOptionSchema).default([]),
+}).refine((stage) => stage.stageType !== 'history' || Boolean(stage.patientScript), {
+    message: 'History-taking stages need a patient script',
+}).refine((stage) => new Set(stage.investigations.map((row) => row.investigation)).size === stage.investigations.length, {
+    message: 'Each investigation can only be listed once per stage',
+});
+
+export const caseBundleCaseSchema = z.object({
+    // Identifies the case across environments, so importing again updates it
+    key: z.string()
+        .regex(/^[a-z0-9][a-z0-9-]*$/, 'Keys use lowercase letters, digits and hyphens')
+        .max(100, 'Keys must be 100 characters or fewer'),
+    title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+    description: z.string().min(1, 'Description is required'),
+    clinicalDomain: z.string().min(1, 'Clinical Domain is required'),
+    difficultyLevel: z.enum(difficultyLevels),
+    published: z.boolean().default(false),
+    baselineVitals: clinicalDataSchema.nullable().optional(),
+    patientDemographics: patientDemographicsSchema.nullable().optional(),
+    stageTimeLimitSeconds: stageTimeLimitSchema.nullable().optional(),
+    templateVariables: caseTemplateVariablesSchema.nullable().optional(),
+    stages: z.array(caseBundleStageSchema).min(1, 'A case needs at least one stage'),
+}).superRefine((medicalCase, ctx) => {
+    const orders = medicalCase.stages.map((stage) => stage.stageOrder);
+    if (new Set(orders).size !== orders.length) {
+        ctx.addIssue({ code: 'custom', path: ['stages'], message: 'Stage orders must be unique within a case' });
+        return;
+    }
+
+    // Walk the pathway using stageOrder as the stage identity, as for AI-generated cases
+    const issues = validateCaseGraph(medicalCase.stages.map((stage) => ({
+        id: stage.stageOrder,
+        stageOrder: stage.stageOrder,
+        options: stage.options.map((option, index) => ({
+            id: index,
+            nextStageId: option.nextStageOrder ?? null,
+            outcome: option.outcome ?? null,
+        })),
+    })));
+    for (const issue of issues) {
+        ctx.addIssue({ code: 'custom', path: ['stages'], message: issue.message });
+    }
+});
+
+/**
+ * A portable set of cases, written as JSON or YAML
+ */
+export const caseBundleSchema = z.object({
+    format: z.literal(CASE_BUNDLE_FORMAT),
+    version: z.literal(CASE_BUNDLE_VERSION),
+    exportedAt: z.string().optional(),
+    cases: z.array(caseBundleCaseSchema)
+        .min(1, 'A bundle needs at least one case')
+        .max(MAX_BUNDLE_CASES, `A bundle can hold at most ${MAX_BUNDLE_CASES} cases`),
+}).refine((bundle) => new Set(bundle.cases.map((medicalCase) => medicalCase.key)).size === bundle.cases.length, {
+    message: 'Case keys must be unique within a bundle',
+});
+
+export const caseBundleFormats = ['json', 'yaml'] as const;
+export type CaseBundleFormat = typeof caseBundleFormats[number];
+
+/**
+ * Bundle text submitted from the admin dashboard
+ */
+export const caseBundleInputSchema = z.object({
+    content: z.string().min(1, 'Paste or upload a bundle').max(5_000_000, 'Bundles can be at most 5 MB'),
+    format: z.enum(caseBundleFormats),
+});
+
+export const exportCaseBundleSchema = z.object({
+    caseIds: z.array(z.number().int().positive()).min(1, 'Choose at least one case').max(MAX_BUNDLE_CASES),
+    format: z.enum(caseBundleFormats).default('json'),
+});
+
+export type CaseBundle = z.infer<typeof caseBundleSchema>;
+export type CaseBundleCase = z.infer<typeof caseBundleCaseSchema>;
+export type CaseBundleStage = z.infer<typeof caseBundleStageSchema>;
+export type CaseBundleInput = z.infer<typeof caseBundleInputSchema>;
+export type ExportCaseBundleInput = z.input<typeof exportCaseBundleSchema>;
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { historyFactCategories, investigationTypes, labFlags, patientConditions, patientSexes } from '@/db/schema';
+import { MAX_TEMPLATE_VARIABLES } from '@/lib/case-templates';
 
 /**
  * Validator for the current state of the simulator
@@ -12,15 +14,163 @@ export const simulatorStateSchema = z.object({
     selectedOptions: z.record(z.string(), z.number()), // stageId -> optionId
 });
 
+const decisionResponseSchema = z.object({
+    optionIds: z.array(z.number().int().positive()).max(50).optional(),
+    text: z.string().trim().max(500, 'Answer is too long').optional(),
+});
+
+/**
+ * How sure the student was before answering, from 1 (guessing) to 4 (certain)
+ */
+export const confidenceSchema = z.number().int().min(1).max(4);
+
 /**
- * Validator for submitting a clinical decision
+ * Validator for submitting a clinical decision within a simulation session.
+ * Single-choice stages send optionId; other decision types send a response;
+ * timedOut reports that a timed stage's countdown ran out, which the server checks.
+ * confidence is the student's own rating, used for calibration analytics.
+ * The score is never sent by the client; the server derives it from the options.
  */
 export const submitDecisionSchema = z.object({
-    caseId: z.number(),
-    stageId: z.number(),
-    optionId: z.number(),
-    currentScore: z.number(),
+    sessionId: z.number().int().positive(),
+    stageId: z.number().int().positive(),
+    optionId: z.number().int().positive().optional(),
+    response: decisionResponseSchema.optional(),
+    timedOut: z.literal(true).optional(),
+    confidence: confidenceSchema.optional(),
+}).refine((input) => input.optionId !== undefined || input.response !== undefined || input.timedOut, {
+    message: 'Choose an answer',
+});
+
+/**
+ * Validator for requesting an investigation at the session's current stage
+ */
+export const orderInvestigationSchema = z.object({
+    sessionId: z.number().int().positive(),
+    stageId: z.number().int().positive(),
+    investigation: z.enum(investigationTypes),
+});
+
+/**
+ * Validator for revealing the next hint at the session's current stage
+ */
+export const requestHintSchema = z.object({
+    sessionId: z.number().int().positive(),
+    stageId: z.number().int().positive(),
+});
+
+/**
+ * Validator for the tiered hints authored on a stage, in the order they are revealed
+ */
+export const stageHintsSchema = z.array(z.object({
+    text: z.string().trim().min(1, 'Each hint needs some text').max(500, 'Hints must be 500 characters or fewer'),
+    cost: z.number().int().min(0, 'Hint costs cannot be negative').max(10, 'Hint costs can be at most 10 points'),
+})).max(5, 'A stage can have at most 5 hints');
+
+/**
+ * Validator for a question put to the simulated patient at a history stage
+ */
+export const askPatientSchema = z.object({
+    sessionId: z.number().int().positive(),
+    stageId: z.number().int().positive(),
+    message: z.string().trim().min(1, 'Ask the patient something').max(500, 'Question is too long'),
+});
+
+/**
+ * Validator for the hidden script authored on a history-taking stage
+ */
+export const patientScriptSchema = z.object({
+    persona: z.string().min(1, 'Persona is required'),
+    openingStatement: z.string().min(1, 'Opening statement is required'),
+    facts: z.array(z.object({
+        id: z.string().min(1, 'Each fact needs an id'),
+        category: z.enum(historyFactCategories),
+        label: z.string().min(1, 'Each fact needs a label'),
+        detail: z.string().min(1, 'Each fact needs a detail'),
+        keywords: z.array(z.string().min(1)).min(1, 'Each fact needs at least one keyword'),
+        weight: z.number().int(),
+    })).min(1, 'Add at least one key fact'),
+}).refine((script) => new Set(script.facts.map((fact) => fact.id)).size === script.facts.length, {
+    message: 'Fact ids must be unique',
+});
+
+/**
+ * Validator for the structured lab results in a stage's clinicalData
+ */
+export const labPanelsSchema = z.array(z.object({
+    panel: z.string().trim().min(1, 'Each lab result needs a panel'),
+    analyte: z.string().trim().min(1, 'Each lab result needs an analyte'),
+    value: z.union([z.number(), z.string().trim().min(1, 'Each lab result needs a value')]),
+    unit: z.string().trim(),
+    range: z.object({
+        low: z.number().optional(),
+        high: z.number().optional(),
+    }).optional(),
+    flag: z.enum(labFlags).optional(),
+}));
+
+/**
+ * Validator for how choosing an option moves the patient's vitals
+ */
+export const vitalEffectsSchema = z.object({
+    HR: z.number().optional(),
+    RR: z.number().optional(),
+    Temp: z.number().optional(),
+    SpO2: z.number().optional(),
+    SBP: z.number().optional(),
+    DBP: z.number().optional(),
+});
+
+/**
+ * Validator for who the patient is, used for reference ranges
+ */
+export const patientDemographicsSchema = z.object({
+    ageYears: z.number().int().min(0, 'Age must be 0 or more').max(120, 'Age must be 120 or less'),
+    sex: z.enum(patientSexes),
+    pregnant: z.boolean().optional(),
+    conditions: z.array(z.enum(patientConditions)).optional(),
+}).refine((data) => !(data.pregnant && data.sex !== 'female'), {
+    message: 'Only a female patient can be marked as pregnant',
 });
 
+const templateKeySchema = z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Variable keys must start with a letter and use only letters, digits and underscores');
+
+/**
+ * Validator for the variables a case template fills into {{key}} placeholders.
+ * The reserved "age" and "sex" keys also set the patient's demographics.
+ */
+export const caseTemplateVariablesSchema = z.array(z.discriminatedUnion('kind', [
+    z.object({
+        key: templateKeySchema,
+        kind: z.literal('number'),
+        min: z.number(),
+        max: z.number(),
+        decimals: z.number().int().min(0).max(3).optional(),
+    }).refine((variable) => variable.min <= variable.max, {
+        message: 'A number variable\'s min cannot be above its max',
+    }),
+    z.object({
+        key: templateKeySchema,
+        kind: z.literal('choice'),
+        values: z.array(z.string().trim().min(1, 'Choice values cannot be empty')).min(1, 'A choice variable needs at least one value'),
+        group: z.string().trim().min(1).optional(),
+    }),
+])).max(MAX_TEMPLATE_VARIABLES, `A case can have at most ${MAX_TEMPLATE_VARIABLES} variables`)
+    .refine((variables) => new Set(variables.map((variable) => variable.key)).size === variables.length, {
+        message: 'Variable keys must be unique',
+    })
+    .refine((variables) => variables.every((variable) => variable.key !== 'age' || (variable.kind === 'number' && variable.min >= 0 && variable.max <= 120)), {
+        message: 'The age variable must be a number between 0 and 120',
+    })
+    .refine((variables) => variables.every((variable) => variable.key !== 'sex' || (variable.kind === 'choice' && variable.values.every((value) => (patientSexes as readonly string[]).includes(value)))), {
+        message: `The sex variable must be a choice of ${patientSexes.join(' or ')}`,
+    });
+
 export type SimulatorState = z.infer<typeof simulatorStateSchema>;
 export type SubmitDecisionInput = z.infer<typeof submitDecisionSchema>;
+export type OrderInvestigationInput = z.infer<typeof orderInvestigationSchema>;
+export type AskPatientInput = z.infer<typeof askPatientSchema>;
+export type LabPanelsInput = z.infer<typeof labPanelsSchema>;
+export type RequestHintInput = z.infer<typeof requestHintSchema>;
+export type StageHintsInput = z.infer<typeof stageHintsSchema>;
+export type CaseTemplateVariablesInput = z.infer<typeof caseTemplateVariablesSchema>;
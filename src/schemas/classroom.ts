@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { JOIN_CODE_LENGTH, normaliseJoinCode } from '@/lib/join-codes';
+
+/**
+ * Validator for joining a live classroom by the code on the presenter screen
+ */
+export const joinClassroomSchema = z.object({
+    joinCode: z.string()
+        .transform(normaliseJoinCode)
+        .refine((code) => code.length === JOIN_CODE_LENGTH, `Join codes are ${JOIN_CODE_LENGTH} characters`),
+});
+
+/**
+ * Validator for a student's vote at the classroom's current stage
+ */
+export const classroomVoteSchema = z.object({
+    classroomSessionId: z.number().int().positive(),
+    optionId: z.number().int().positive(),
+});
+
+export type JoinClassroomInput = z.input<typeof joinClassroomSchema>;
+export type ClassroomVoteInput = z.infer<typeof classroomVoteSchema>;
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { reviewCommentAnchors, reviewContentTypes } from '@/db/schema';
+
+/**
+ * The case or UKMLA question under review
+ */
+export const reviewTargetSchema = z.object({
+    contentType: z.enum(reviewContentTypes),
+    contentId: z.number().int().positive(),
+});
+
+export const submitForReviewSchema = reviewTargetSchema.extend({
+    note: z.string().trim().max(2000).optional(),
+});
+
+export const assignReviewerSchema = reviewTargetSchema.extend({
+    reviewerUserId: z.string().min(1, 'Choose a reviewer'),
+});
+
+export const reviewDecisions = ['approve', 'request_changes'] as const;
+
+/**
+ * Validator for a reviewer's verdict; asking for changes needs saying what
+ */
+export const reviewDecisionSchema = reviewTargetSchema.extend({
+    decision: z.enum(reviewDecisions),
+    note: z.string().trim().max(2000).optional(),
+}).refine((data) => data.decision !== 'request_changes' || Boolean(data.note), {
+    path: ['note'],
+    message: 'Say what needs to change',
+});
+
+/**
+ * Validator for an inline comment: cases take comments on stages and options,
+ * UKMLA questions on the stem, explanation and options
+ */
+export const addReviewCommentSchema = reviewTargetSchema.extend({
+    anchor: z.enum(reviewCommentAnchors).default('general'),
+    stageOrder: z.number().int().min(1).nullable().optional(),
+    optionNumber: z.number().int().min(1).nullable().optional(),
+    body: z.string().trim().min(1, 'Comment is empty').max(4000, 'Comment is too long'),
+}).superRefine((data, ctx) => {
+    const isCase = data.contentType === 'case';
+    if (isCase && (data.anchor === 'stem' || data.anchor === 'explanation')) {
+        ctx.addIssue({ code: 'custom', path: ['anchor'], message: 'Cases have no stem or explanation to comment on' });
+    }
+    if (!isCase && data.anchor === 'stage') {
+        ctx.addIssue({ code: 'custom', path: ['anchor'], message: 'Questions have no stages to comment on' });
+    }
+    if ((data.anchor === 'stage' || (isCase && data.anchor === 'option')) && !data.stageOrder) {
+        ctx.addIssue({ code: 'custom', path: ['stageOrder'], message: 'Say which stage the comment is on' });
+    }
+    if (data.anchor === 'option' && !data.optionNumber) {
+        ctx.addIssue({ code: 'custom', path: ['optionNumber'], message: 'Say which option the comment is on' });
+    }
+});
+
+export const resolveReviewCommentSchema = z.object({
+    commentId: z.number().int().positive(),
+});
+
+export type ReviewTargetInput = z.infer<typeof reviewTargetSchema>;
+export type SubmitForReviewInput = z.infer<typeof submitForReviewSchema>;
+export type AssignReviewerInput = z.infer<typeof assignReviewerSchema>;
+export type ReviewDecisionInput = z.infer<typeof reviewDecisionSchema>;
+export type AddReviewCommentInput = z.input<typeof addReviewCommentSchema>;
+export type ResolveReviewCommentInput = z.infer<typeof resolveReviewCommentSchema>;
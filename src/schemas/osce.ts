@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { osceGlobalRatings } from '@/db/schema';
+import { JOIN_CODE_LENGTH, normaliseJoinCode } from '@/lib/join-codes';
+import { OSCE_MAX_DURATION_SECONDS, OSCE_MIN_DURATION_SECONDS } from '@/lib/osce';
+
+export const osceChecklistItemInputSchema = z.object({
+    description: z.string().trim().min(3, 'Checklist items need a description').max(500),
+    marks: z.number().int().min(1).max(10).default(1),
+});
+
+/**
+ * Validator for authoring an OSCE station and its marking checklist
+ */
+export const createOsceStationSchema = z.object({
+    title: z.string().trim().min(3, 'Title must be at least 3 characters').max(200),
+    clinicalDomain: z.string().trim().min(2, 'Clinical domain is required').max(100),
+    candidateBrief: z.string().trim().min(10, 'Candidate brief must be at least 10 characters').max(4000),
+    examinerNotes: z.string().trim().max(4000).optional(),
+    durationSeconds: z.number().int().min(OSCE_MIN_DURATION_SECONDS).max(OSCE_MAX_DURATION_SECONDS),
+    checklistItems: z.array(osceChecklistItemInputSchema).min(1, 'Add at least one checklist item').max(40),
+});
+
+export const updateOsceStationSchema = createOsceStationSchema.extend({
+    id: z.number().int().positive(),
+});
+
+/**
+ * Validator for an examiner opening a candidate's station by its code
+ */
+export const joinOsceSessionSchema = z.object({
+    joinCode: z.string()
+        .transform(normaliseJoinCode)
+        .refine((code) => code.length === JOIN_CODE_LENGTH, `Join codes are ${JOIN_CODE_LENGTH} characters`),
+});
+
+/**
+ * Validator for the examiner's completed marking sheet
+ */
+export const submitOsceMarksSchema = z.object({
+    osceSessionId: z.number().int().positive(),
+    awardedItemIds: z.array(z.number().int().positive()).max(40),
+    globalRating: z.enum(osceGlobalRatings),
+    examinerComments: z.string().trim().max(2000).optional(),
+});
+
+export type CreateOsceStationInput = z.input<typeof createOsceStationSchema>;
+export type UpdateOsceStationInput = z.input<typeof updateOsceStationSchema>;
+export type JoinOsceSessionInput = z.input<typeof joinOsceSessionSchema>;
+export type SubmitOsceMarksInput = z.infer<typeof submitOsceMarksSchema>;
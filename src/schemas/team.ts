@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { JOIN_CODE_LENGTH, normaliseJoinCode } from '@/lib/join-codes';
+
+/**
+ * Validator for joining a team lobby. Codes are matched ignoring case, spaces and dashes.
+ */
+export const joinTeamSessionSchema = z.object({
+    joinCode: z.string()
+        .transform(normaliseJoinCode)
+        .refine((code) => code.length === JOIN_CODE_LENGTH, `Join codes are ${JOIN_CODE_LENGTH} characters`),
+});
+
+/**
+ * Validator for a message in a team's side chat
+ */
+export const teamMessageSchema = z.object({
+    teamSessionId: z.number().int().positive(),
+    content: z.string().trim().min(1, 'Write a message').max(500, 'Message is too long'),
+});
+
+export type JoinTeamSessionInput = z.input<typeof joinTeamSessionSchema>;
+export type TeamMessageInput = z.infer<typeof teamMessageSchema>;
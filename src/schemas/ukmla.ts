@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { difficultyLevels, ukmlaCategories } from '@/db/schema';
+import { confidenceSchema } from '@/schemas/case-simulator';
 
 export const ukmlaOptionInputSchema = z.object({
     id: z.number().int().positive().optional(),
@@ -36,10 +37,8 @@ export const updateUkmlaQuestionSchema = z
         explanation: z.string().min(10).max(4000),
         category: z.enum(ukmlaCategories),
         difficultyLevel: z.enum(difficultyLevels),
-        verificationStatus: z.enum(['draft', 'verified', 'rejected']).optional(),
         qualityScore: z.number().int().min(0).max(100).optional(),
         rigourScore: z.number().int().min(0).max(100).optional(),
-        isPublished: z.boolean().optional(),
         options: z.array(ukmlaOptionInputSchema).min(2).max(8),
     })
     .superRefine((data, ctx) => {
@@ -56,6 +55,7 @@ export const updateUkmlaQuestionSchema = z
 export const recordUkmlaAttemptSchema = z.object({
     questionId: z.number().int().positive(),
     selectedOptionId: z.number().int().positive(),
+    confidence: confidenceSchema.optional(),
 });
 
 export const ukmlaQueryFilterSchema = z.object({
@@ -1,4 +1,6 @@
-import type { ClinicalData } from "@/db/schema";
+import type { MediaItem } from "@/lib/media";
+import type { VoteTally } from "@/lib/classroom";
+import type { CaseOutcome, CaseTemplateVariable, ClassroomPhase, ClinicalData, DecisionType, HistoryMessageRole, InvestigationType, OsceChecklistMark, OsceGlobalRating, OsceSessionStatus, PatientDemographics, PatientScript, SafetyClass, SimulationSessionStatus, StageHint, StageType, TeamRole, TeamSessionStatus, VitalEffects } from "@/db/schema";
 
 export type ActionResponse<T = unknown> = {
     success: boolean;
@@ -13,24 +15,244 @@ export type SimulatorState = {
     isComplete: boolean;
 };
 
+export type CaseSessionState = {
+    sessionId: number;
+    caseId: number;
+    status: SimulationSessionStatus;
+    currentStageId: number | null;
+    score: number;
+    elapsedMinutes: number;
+    stageElapsedSeconds: number; // Real time spent on the current stage so far, for timed stages
+    outcome: CaseOutcome | null;
+    decisions: { stageId: number; optionId: number; feedback: string }[]; // In the order they were made
+    investigations: { stageId: number; investigation: InvestigationType; result: string }[];
+    historyMessages: { stageId: number; role: HistoryMessageRole; content: string }[];
+    hints: { stageId: number; tier: number; text: string }[]; // Revealed so far, across all stages
+    caseVersionId: number | null; // The published version being played; null for an unpublished draft
+    variantSeed: number | null; // Which variant of a templated case this session plays
+};
+
+/**
+ * A team session as every teammate sees it, pushed over server-sent events.
+ * session is null until the lead starts the case from the lobby.
+ */
+export type TeamSessionState = {
+    teamSessionId: number;
+    caseId: number;
+    joinCode: string;
+    status: TeamSessionStatus;
+    members: { userId: string; name: string; role: TeamRole }[];
+    messages: { id: number; userId: string; name: string; content: string; createdAt: string }[];
+    session: CaseSessionState | null;
+};
+
+/**
+ * Key facts from a history-taking stage, by label, once the stage is decided
+ */
+export type HistorySummary = {
+    score: number;
+    elicited: string[];
+    missed: string[];
+};
+
+/**
+ * How a stage's answer was scored, returned with each decision. For single-choice
+ * stages selectedOptionIds is just the chosen option.
+ */
+export type DecisionFeedback = {
+    decisionType: DecisionType;
+    scoreWeight: number; // Points earned at the stage
+    selectedOptionIds: number[]; // Picks, or the submitted order
+    correctOptionIds: number[]; // Appropriate options, or the correct order
+    text: string | null; // Free-text answer
+    matched: boolean; // Free text matched an accepted answer
+    timedOut: boolean; // The stage's time limit ran out before a decision
+    decisionSeconds: number | null; // Real time taken to decide
+    safetyClass: SafetyClass | null; // The least safe option chosen
+    feedback: string; // The followed option's feedback, or why the answer didn't count
+    optionFeedback: { optionId: number; feedback: string; isCorrect: boolean }[]; // Every option's, to break down a multi-select answer
+};
+
 export type CaseWithStagesAndOptions = {
     id: number;
     title: string;
     description: string;
     clinicalDomain: string;
     difficultyLevel: "Foundation" | "Core" | "Advanced";
+    baselineVitals: ClinicalData | null;
+    patientDemographics: PatientDemographics | null;
+    templateVariables: CaseTemplateVariable[] | null; // Filled in per attempt from the session's variantSeed
+    caseVersionId: number | null; // The version being played; null for the draft
     stages: {
         id: number;
         stageOrder: number;
         narrative: string;
         clinicalData: ClinicalData | null;
         mediaUrl: string | null;
+        media: MediaItem[];
+        stageType: StageType;
+        patientOpening: string | null; // The script itself stays on the server
+        decisionType: DecisionType;
+        timeLimitSeconds: number | null; // The stage's own limit or the case's, whichever applies
+        hintCosts: number[]; // One per tier; the hint text stays on the server until requested
+        // Weights, feedback and which options are correct stay on the server until a stage is decided
         options: {
             id: number;
             text: string;
+            nextStageId: number | null;
+            outcome: CaseOutcome | null;
+            vitalEffects: VitalEffects | null;
+            durationMinutes: number;
+            isTimeout: boolean; // Hidden "no decision" option
+        }[];
+    }[];
+};
+
+type SimulatorStage = CaseWithStagesAndOptions["stages"][number];
+
+/**
+ * A case's draft as an admin test-plays it, with everything the student player
+ * keeps on the server, so decisions resolve in the browser and nothing is recorded
+ */
+export type CasePreview = Omit<CaseWithStagesAndOptions, "stages"> & {
+    isPublished: boolean;
+    stages: (Omit<SimulatorStage, "options"> & {
+        hints: StageHint[];
+        patientScript: PatientScript | null;
+        investigations: { investigation: InvestigationType; result: string; isIndicated: boolean }[];
+        options: (SimulatorStage["options"][number] & {
+            isCorrect: boolean;
             scoreWeight: number;
             feedback: string;
-            isCorrect: boolean;
-        }[];
+            correctPosition: number | null;
+            acceptedAnswers: string[];
+            safetyClass: SafetyClass | null;
+        })[];
+    })[];
+};
+
+/**
+ * A live classroom as one viewer sees it, pushed over server-sent events. The
+ * tally is live for the presenter and reaches students once results are revealed;
+ * option feedback is only sent in the feedback phase.
+ */
+export type ClassroomState = {
+    classroomSessionId: number;
+    caseId: number;
+    title: string;
+    joinCode: string;
+    phase: ClassroomPhase;
+    participantCount: number;
+    outcome: CaseOutcome | null;
+    patient: PatientDemographics | null;
+    stage: {
+        id: number;
+        stageOrder: number;
+        narrative: string;
+        clinicalData: ClinicalData | null; // Physiology carried along the class's pathway
+        mediaUrl: string | null;
+        media: MediaItem[];
+        options: { id: number; text: string }[];
+    } | null;
+    votesCast: number;
+    myVoteOptionId: number | null;
+    tally: VoteTally[] | null;
+    feedback: { optionId: number; feedback: string; isCorrect: boolean; scoreWeight: number }[] | null;
+    classChoiceOptionId: number | null; // The option the pathway follows, once voting closes
+};
+
+export type OsceRole = "candidate" | "examiner";
+
+/**
+ * An OSCE station as the candidate or the examiner sees it. The candidate only
+ * reads the brief once the clock starts, and never sees the marking sheet.
+ */
+export type OsceSessionState = {
+    osceSessionId: number;
+    stationId: number;
+    title: string;
+    clinicalDomain: string;
+    durationSeconds: number;
+    joinCode: string;
+    status: OsceSessionStatus;
+    candidateName: string;
+    examinerName: string | null;
+    elapsedSeconds: number; // Since the examiner started the clock, when this state was loaded
+    candidateBrief: string | null;
+    examinerNotes: string | null;
+    checklist: { id: number; description: string; marks: number }[] | null;
+    result: {
+        score: number;
+        maxScore: number;
+        globalRating: OsceGlobalRating;
+        checklist: OsceChecklistMark[];
+        examinerComments: string | null;
+    } | null;
+};
+
+export type ReplayOption = {
+    id: number;
+    text: string;
+    feedback: string;
+    scoreWeight: number;
+    isCorrect: boolean;
+};
+
+export type CaseAttemptReplay = {
+    attemptId: number;
+    caseId: number;
+    title: string;
+    clinicalDomain: string;
+    difficultyLevel: "Foundation" | "Core" | "Advanced";
+    score: number;
+    completedAt: Date;
+    teamRole: TeamRole | null; // Role in a team session; null when played solo
+    outcome: CaseOutcome | null;
+    elapsedMinutes: number | null;
+    patientDemographics: PatientDemographics | null;
+    // Empty for attempts recorded before decision trails were kept
+    steps: {
+        stageId: number;
+        stageOrder: number;
+        narrative: string;
+        clinicalData: ClinicalData | null; // As shown to the student, physiology included
+        mediaUrl: string | null;
+        media: MediaItem[];
+        decidedAt: Date;
+        scoreWeight: number; // Weight at the time of the decision
+        confidence: number | null; // The student's rating before deciding, 1 to 4
+        investigations: { investigation: InvestigationType; result: string; isIndicated: boolean; scoreDelta: number }[];
+        history: (HistorySummary & { messages: { role: HistoryMessageRole; content: string }[] }) | null;
+        hints: { text: string; scoreDelta: number }[];
+        decision: DecisionFeedback;
+        options: ReplayOption[]; // Every option at the stage, for multi-select and ordering answers
+        chosen: ReplayOption;
+        optimal: ReplayOption | null;
+    }[];
+};
+
+export type CaseDebrief = {
+    sessionId: number;
+    caseId: number;
+    score: number;
+    outcome: CaseOutcome | null;
+    cohortSize: number; // Completed sessions for this case, including this one
+    rivision: {
+        domain: string;
+        difficulty: "Foundation" | "Core" | "Advanced";
+        clusterKey: string | null;
+        contextId: string;
+    };
+    stages: {
+        stageId: number;
+        stageOrder: number;
+        narrative: string;
+        chosenOptionId: number;
+        optimalOptionId: number | null;
+        totalResponses: number;
+        options: (ReplayOption & {
+            cohortCount: number;
+            cohortPercent: number;
+        })[];
     }[];
 };